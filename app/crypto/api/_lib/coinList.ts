@@ -0,0 +1,31 @@
+// CoinGecko coin list shared by the search and coin-identity routes
+//
+// The full list (~15k entries) is cached once per instance and filtered or
+// looked up per request.
+
+import { getProviderChain, fetchFromChain } from '../../providers';
+import { createCache } from '../../cache';
+import type { CachedResult } from '../../cache';
+import type { CoinSearchResult } from '../../types';
+
+const CACHE_DURATION = 3600000; // 1 hour for the coin list
+
+const coinListCache = createCache<CoinSearchResult[]>({
+  namespace: 'search',
+  ttl: CACHE_DURATION,
+  staleWhileRevalidate: CACHE_DURATION,
+});
+
+export async function loadCoinList(): Promise<{ list: CachedResult<CoinSearchResult[]>; rateLimited: boolean }> {
+  // Fetch full list from the first provider that supports search
+  const chain = await getProviderChain('search');
+  const throttle = { rateLimited: false };
+  const list = await coinListCache.getOrFetch('coin-list', async () => {
+    const { data } = await fetchFromChain(chain, (provider) =>
+      provider.getCoinList!(),
+      throttle
+    );
+    return data;
+  });
+  return { list, rateLimited: throttle.rateLimited };
+}
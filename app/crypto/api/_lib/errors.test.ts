@@ -0,0 +1,61 @@
+/**
+ * Tests for mapping route errors onto typed `ApiError` responses.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiRequestError, errorResponse, toApiRequestError } from './errors';
+import { UpstreamError, RateLimitError } from '../../providers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('toApiRequestError', () => {
+  it('maps shed requests and upstream 429s to UPSTREAM_RATE_LIMITED', () => {
+    expect(toApiRequestError(new RateLimitError('CoinGecko', 4000))).toMatchObject({
+      code: 'UPSTREAM_RATE_LIMITED',
+      status: 429,
+      retryAfterMs: 4000,
+    });
+    expect(toApiRequestError(new UpstreamError('CoinGecko', 429)).code).toBe('UPSTREAM_RATE_LIMITED');
+  });
+
+  it('maps upstream 404s to NOT_FOUND', () => {
+    expect(toApiRequestError(new UpstreamError('CoinGecko', 404))).toMatchObject({ code: 'NOT_FOUND', status: 404 });
+  });
+
+  it('maps other failures to UPSTREAM_UNAVAILABLE', () => {
+    expect(toApiRequestError(new UpstreamError('CoinGecko', 500)).status).toBe(502);
+    expect(toApiRequestError(new TypeError('fetch failed')).code).toBe('UPSTREAM_UNAVAILABLE');
+  });
+});
+
+describe('errorResponse', () => {
+  it('returns the ApiError shape with the mapped status', async () => {
+    const response = errorResponse(
+      new ApiRequestError('INVALID_PARAM', "Unsupported days '2'", { param: 'days' }),
+      'Failed to fetch OHLC data'
+    );
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid request',
+      message: "Unsupported days '2'",
+      code: 'INVALID_PARAM',
+      param: 'days',
+    });
+  });
+
+  it('sets Retry-After when the limiter knows when budget frees up', async () => {
+    const response = errorResponse(new RateLimitError('CoinGecko', 2500), 'Failed to fetch OHLC data');
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3');
+  });
+
+  it('logs only server-side failures', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    errorResponse(new ApiRequestError('INVALID_PARAM', 'bad'), 'Failed');
+    expect(log).not.toHaveBeenCalled();
+    errorResponse(new Error('down'), 'Failed');
+    expect(log).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+// Typed API error responses shared by every route
+//
+// Routes throw (or let providers throw) and hand the error to
+// `errorResponse()`, which maps it onto the `ApiError` shape with a stable
+// `code` and the matching HTTP status instead of a blanket 500.
+
+import { NextResponse } from 'next/server';
+import { UpstreamError, RateLimitError } from '../../providers';
+import type { ApiError, ApiErrorCode } from '../../types';
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  INVALID_PARAM: 400,
+  NOT_FOUND: 404,
+  UPSTREAM_RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 502,
+};
+
+/** An error that already knows which `ApiError` it should become. */
+export class ApiRequestError extends Error {
+  code: ApiErrorCode;
+  param?: string;
+  retryAfterMs?: number;
+
+  constructor(code: ApiErrorCode, message: string, options: { param?: string; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+    this.param = options.param;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+/**
+ * Classify anything a route can throw: validation errors pass through,
+ * shed requests and upstream 429s become UPSTREAM_RATE_LIMITED, upstream
+ * 404s become NOT_FOUND and everything else UPSTREAM_UNAVAILABLE.
+ */
+export function toApiRequestError(err: unknown): ApiRequestError {
+  if (err instanceof ApiRequestError) return err;
+  if (err instanceof RateLimitError) {
+    return new ApiRequestError('UPSTREAM_RATE_LIMITED', err.message, { retryAfterMs: err.retryAfterMs });
+  }
+  if (err instanceof UpstreamError && err.status === 429) {
+    return new ApiRequestError('UPSTREAM_RATE_LIMITED', err.message);
+  }
+  if (err instanceof UpstreamError && err.status === 404) {
+    return new ApiRequestError('NOT_FOUND', err.message);
+  }
+  return new ApiRequestError('UPSTREAM_UNAVAILABLE', (err as Error)?.message ?? String(err));
+}
+
+/**
+ * Build the JSON error response for `err`.
+ * @param summary - human-readable `error` field, e.g. 'Failed to fetch OHLC data'
+ */
+export function errorResponse(err: unknown, summary: string): NextResponse<ApiError> {
+  const apiError = toApiRequestError(err);
+  if (apiError.status >= 500) {
+    console.error(`${summary}:`, err);
+  }
+
+  const body: ApiError = {
+    error: apiError.code === 'INVALID_PARAM' ? 'Invalid request' : summary,
+    message: apiError.message,
+    code: apiError.code,
+    ...(apiError.param ? { param: apiError.param } : {}),
+  };
+  const headers: Record<string, string> = apiError.retryAfterMs !== undefined
+    ? { 'Retry-After': String(Math.ceil(apiError.retryAfterMs / 1000)) }
+    : {};
+
+  return NextResponse.json(body, { status: apiError.status, headers });
+}
@@ -0,0 +1,51 @@
+// Shared upstream for the SSE price stream
+//
+// One price hub per server instance: every open `/crypto/api/stream`
+// response subscribes to it, so N browser tabs cost one upstream WebSocket.
+// On serverless hosts each instance keeps its own hub, so the saving only
+// applies to clients that land on the same instance.
+
+import { config } from '../../config/config';
+import { coinbaseCatalog } from '../../providers';
+import { connectCoinCap } from '../../realtime/coincap';
+import { connectCoinbaseTicker } from '../../realtime/coinbase';
+import { createMockSource } from '../../realtime/mockSource';
+import { createPriceHub } from '../../realtime/priceHub';
+import { connectWithFailover } from '../../realtime/sources';
+import type { ProductResolver } from '../../realtime/coinbase';
+import type { PriceHub } from '../../realtime/priceHub';
+
+// Coinbase USD products straight from the catalog
+const resolveCoinbaseProducts: ProductResolver = async (coinIds) => {
+  const products = await Promise.all(coinIds.map((id) => coinbaseCatalog.findProduct(id, 'usd')));
+  return Object.fromEntries(
+    coinIds.flatMap((id, i) => (products[i] ? [[id, products[i]] as const] : []))
+  );
+};
+
+let hub: PriceHub | null | undefined;
+
+/**
+ * The instance's price hub, or null when no upstream is available (CoinCap
+ * and Coinbase need a global `WebSocket`, i.e. Node 22+, unless
+ * REALTIME_UPSTREAM=mock).
+ */
+export function getPriceHub(): PriceHub | null {
+  if (hub !== undefined) return hub;
+  if (config.realtimeUpstream === 'mock') {
+    hub = createPriceHub(createMockSource());
+  } else if (typeof WebSocket !== 'undefined') {
+    hub = createPriceHub(connectWithFailover([
+      { id: 'coincap', connect: (coinIds, handlers) => connectCoinCap(coinIds, handlers, config.coinCapWsUrl) },
+      { id: 'coinbase', connect: (coinIds, handlers) => connectCoinbaseTicker(coinIds, handlers, resolveCoinbaseProducts, config.coinbaseWsUrl) },
+    ]));
+  } else {
+    hub = null;
+  }
+  return hub;
+}
+
+/** Encode one server-sent event. */
+export function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,179 @@
+/**
+ * Tests for the schema-validated query layer used by every API route.
+ *
+ * Each parser is exercised through `parseQuery` with a real URLSearchParams,
+ * the same way the routes call it.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ApiRequestError } from './errors';
+import {
+  parseQuery,
+  coinId,
+  coinIdList,
+  oneOf,
+  integer,
+  epochSeconds,
+  toTimeRange,
+  text,
+  timeZone,
+  TIME_PERIODS,
+  CURRENCIES,
+  GRANULARITY_PREFERENCES,
+  MAX_PER_PAGE,
+} from './query';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parse<S extends Parameters<typeof parseQuery>[1]>(query: string, schema: S) {
+  return parseQuery(new URLSearchParams(query), schema);
+}
+
+function rejection(fn: () => unknown): ApiRequestError {
+  try {
+    fn();
+  } catch (err) {
+    return err as ApiRequestError;
+  }
+  throw new Error('expected the query to be rejected');
+}
+
+// ---------------------------------------------------------------------------
+// Field parsers
+// ---------------------------------------------------------------------------
+
+describe('coinId', () => {
+  it('normalises case and whitespace', () => {
+    expect(parse('id=%20Bitcoin%20', { id: coinId() })).toEqual({ id: 'bitcoin' });
+  });
+
+  it('rejects a missing ID with INVALID_PARAM', () => {
+    const err = rejection(() => parse('', { id: coinId() }));
+    expect(err).toBeInstanceOf(ApiRequestError);
+    expect(err).toMatchObject({ code: 'INVALID_PARAM', param: 'id', status: 400 });
+  });
+
+  it('rejects IDs that would alter the upstream path', () => {
+    for (const id of ['../coins/list', 'bitcoin/ohlc', 'bitcoin?x=1', 'a b']) {
+      expect(rejection(() => parse(`id=${encodeURIComponent(id)}`, { id: coinId() })).code).toBe('INVALID_PARAM');
+    }
+  });
+});
+
+describe('coinIdList', () => {
+  it('returns null when absent', () => {
+    expect(parse('', { ids: coinIdList() })).toEqual({ ids: null });
+  });
+
+  it('splits, trims and de-duplicates IDs', () => {
+    expect(parse('ids=bitcoin,%20Ethereum,bitcoin,', { ids: coinIdList() })).toEqual({ ids: ['bitcoin', 'ethereum'] });
+  });
+
+  it('rejects lists longer than the maximum', () => {
+    expect(rejection(() => parse('ids=a,b,c', { ids: coinIdList(2) })).param).toBe('ids');
+  });
+});
+
+describe('oneOf', () => {
+  it('falls back to the default when absent', () => {
+    expect(parse('', { days: oneOf(TIME_PERIODS, '7') })).toEqual({ days: '7' });
+  });
+
+  it('accepts supported values case-insensitively', () => {
+    expect(parse('vs_currency=EUR', { vs_currency: oneOf(CURRENCIES, 'usd') })).toEqual({ vs_currency: 'eur' });
+  });
+
+  it('rejects unsupported values', () => {
+    const err = rejection(() => parse('days=2', { days: oneOf(TIME_PERIODS, '7') }));
+    expect(err).toMatchObject({ code: 'INVALID_PARAM', param: 'days' });
+    expect(err.message).toContain('1, 7, 30, 365, max');
+  });
+
+  it("accepts the 'max' period", () => {
+    expect(parse('days=max', { days: oneOf(TIME_PERIODS, '7') })).toEqual({ days: 'max' });
+  });
+
+  it('keeps minute and month candles apart when case-sensitive', () => {
+    const schema = { granularity: oneOf(GRANULARITY_PREFERENCES, 'auto', { caseSensitive: true }) };
+    expect(parse('granularity=1M', schema)).toEqual({ granularity: '1M' });
+    expect(parse('granularity=1m', schema)).toEqual({ granularity: '1m' });
+    expect(rejection(() => parse('granularity=1H', schema)).param).toBe('granularity');
+  });
+});
+
+describe('integer', () => {
+  const perPage = integer({ min: 1, max: MAX_PER_PAGE, fallback: 50 });
+
+  it('falls back to the default when absent', () => {
+    expect(parse('', { per_page: perPage })).toEqual({ per_page: 50 });
+  });
+
+  it('caps values above the maximum', () => {
+    expect(parse('per_page=10000', { per_page: perPage })).toEqual({ per_page: MAX_PER_PAGE });
+  });
+
+  it('rejects non-integers and values below the minimum', () => {
+    for (const value of ['abc', '1.5', '-3', '0']) {
+      expect(rejection(() => parse(`per_page=${value}`, { per_page: perPage })).param).toBe('per_page');
+    }
+  });
+});
+
+describe('epochSeconds', () => {
+  it('returns null when absent and parses UNIX seconds', () => {
+    expect(parse('', { from: epochSeconds() })).toEqual({ from: null });
+    expect(parse('from=1640995200', { from: epochSeconds() })).toEqual({ from: 1640995200 });
+  });
+
+  it('rejects millisecond timestamps and non-numbers', () => {
+    for (const value of ['1640995200000', 'yesterday', '-1']) {
+      expect(rejection(() => parse(`from=${value}`, { from: epochSeconds() })).param).toBe('from');
+    }
+  });
+});
+
+describe('toTimeRange', () => {
+  const now = Date.UTC(2024, 0, 1);
+
+  it('returns null when neither bound is given', () => {
+    expect(toTimeRange(null, null, now)).toBeNull();
+  });
+
+  it('requires both bounds', () => {
+    expect(rejection(() => toTimeRange(1640995200, null, now)).param).toBe('to');
+    expect(rejection(() => toTimeRange(null, 1672531199, now)).param).toBe('from');
+  });
+
+  it('clamps `to` to now', () => {
+    expect(toTimeRange(1640995200, 9999999999, now)).toEqual({ from: 1640995200, to: now / 1000 });
+  });
+
+  it('rejects inverted and future-only ranges', () => {
+    expect(rejection(() => toTimeRange(1672531199, 1640995200, now)).code).toBe('INVALID_PARAM');
+    expect(rejection(() => toTimeRange(now / 1000 + 60, now / 1000 + 120, now)).param).toBe('from');
+  });
+});
+
+describe('timeZone', () => {
+  it('defaults to UTC and canonicalises IANA names', () => {
+    expect(parse('', { tz: timeZone() })).toEqual({ tz: 'UTC' });
+    expect(parse('tz=europe/london', { tz: timeZone() })).toEqual({ tz: 'Europe/London' });
+  });
+
+  it('rejects unknown zones', () => {
+    expect(rejection(() => parse('tz=Mars/Olympus', { tz: timeZone() })).param).toBe('tz');
+  });
+});
+
+describe('text', () => {
+  it('trims and defaults to an empty string', () => {
+    expect(parse('q=%20btc%20', { q: text(10) })).toEqual({ q: 'btc' });
+    expect(parse('', { q: text(10) })).toEqual({ q: '' });
+  });
+
+  it('rejects overly long values', () => {
+    expect(rejection(() => parse(`q=${'x'.repeat(11)}`, { q: text(10) })).param).toBe('q');
+  });
+});
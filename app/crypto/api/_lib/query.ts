@@ -0,0 +1,153 @@
+// Schema-validated query parameters for the API routes
+//
+// Each route declares a schema of field parsers; `parseQuery()` runs them
+// against the request's search params and returns a typed object, or throws
+// an INVALID_PARAM `ApiRequestError` naming the offending parameter.  Nothing
+// reaches an upstream URL without passing through here.
+
+import { ApiRequestError } from './errors';
+import { CANDLE_GRANULARITIES } from '../../utils/candleGranularity';
+import { canonicalTimeZone } from '../../utils/timeZone';
+import { CURRENCIES } from '../../utils/currency';
+import type { CandleGranularity, MarketDataProviderId, TimePeriod, TimeRange } from '../../types';
+
+/** Parses one raw query value (null when absent) into a typed value. */
+export type FieldParser<T> = (raw: string | null, name: string) => T;
+
+export type QuerySchema = Record<string, FieldParser<unknown>>;
+
+export type ParsedQuery<S extends QuerySchema> = { [K in keyof S]: ReturnType<S[K]> };
+
+export const TIME_PERIODS = ['1', '7', '30', '365', 'max'] as const satisfies readonly TimePeriod[];
+// Every CoinGecko vs_currency, from the registry in utils/currency.ts
+export { CURRENCIES };
+export const PROVIDER_PREFERENCES = ['auto', 'coingecko', 'coinbase'] as const satisfies readonly ('auto' | MarketDataProviderId)[];
+export const GRANULARITY_PREFERENCES: readonly ('auto' | CandleGranularity)[] = ['auto', ...CANDLE_GRANULARITIES];
+
+/** CoinGecko's own page-size limit for /coins/markets */
+export const MAX_PER_PAGE = 250;
+
+// CoinGecko IDs are lowercase slugs such as 'bitcoin' or 'usd-coin'
+const COIN_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,99}$/;
+
+function invalid(name: string, message: string): ApiRequestError {
+  return new ApiRequestError('INVALID_PARAM', message, { param: name });
+}
+
+function normalizeCoinId(raw: string, name: string): string {
+  const id = raw.trim().toLowerCase();
+  if (!COIN_ID_PATTERN.test(id)) {
+    throw invalid(name, `Invalid coin ID '${raw}'`);
+  }
+  return id;
+}
+
+/** A required single coin ID. */
+export function coinId(): FieldParser<string> {
+  return (raw, name) => {
+    if (!raw) throw invalid(name, `Query parameter '${name}' is required`);
+    return normalizeCoinId(raw, name);
+  };
+}
+
+/** Optional comma-separated coin IDs, normalised and de-duplicated. */
+export function coinIdList(maxIds: number = MAX_PER_PAGE): FieldParser<string[] | null> {
+  return (raw, name) => {
+    if (!raw) return null;
+    const ids = [...new Set(raw.split(',').map((id) => id.trim()).filter(Boolean).map((id) => normalizeCoinId(id, name)))];
+    if (ids.length > maxIds) {
+      throw invalid(name, `At most ${maxIds} coin IDs may be requested at once`);
+    }
+    return ids.length > 0 ? ids : null;
+  };
+}
+
+/**
+ * One of a fixed set of values, falling back to `fallback`.  Matching is
+ * case-insensitive unless `caseSensitive` is set (e.g. '1m' vs '1M' candles).
+ */
+export function oneOf<T extends string>(
+  values: readonly T[],
+  fallback: T,
+  { caseSensitive = false }: { caseSensitive?: boolean } = {}
+): FieldParser<T> {
+  return (raw, name) => {
+    if (raw === null || raw === '') return fallback;
+    const value = caseSensitive ? raw.trim() : raw.trim().toLowerCase();
+    if (!(values as readonly string[]).includes(value)) {
+      throw invalid(name, `Unsupported ${name} '${raw}'; expected one of ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+/** An integer ≥ `min`; values above `max` are capped rather than rejected. */
+export function integer({ min, max, fallback }: { min: number; max: number; fallback: number }): FieldParser<number> {
+  return (raw, name) => {
+    if (raw === null || raw === '') return fallback;
+    if (!/^\d+$/.test(raw.trim())) {
+      throw invalid(name, `Query parameter '${name}' must be an integer`);
+    }
+    const value = parseInt(raw, 10);
+    if (value < min) {
+      throw invalid(name, `Query parameter '${name}' must be at least ${min}`);
+    }
+    return Math.min(value, max);
+  };
+}
+
+/** Optional epoch timestamp in seconds. */
+export function epochSeconds(): FieldParser<number | null> {
+  return (raw, name) => {
+    if (raw === null || raw === '') return null;
+    if (!/^\d{1,10}$/.test(raw.trim())) {
+      throw invalid(name, `Query parameter '${name}' must be a UNIX timestamp in seconds`);
+    }
+    return parseInt(raw, 10);
+  };
+}
+
+/**
+ * Combine optional `from` / `to` timestamps into a range.  Both or neither
+ * must be given; `to` is clamped to now and must come after `from`.
+ */
+export function toTimeRange(from: number | null, to: number | null, now: number = Date.now()): TimeRange | null {
+  if (from === null && to === null) return null;
+  if (from === null) throw invalid('from', "Query parameter 'from' is required when 'to' is given");
+  if (to === null) throw invalid('to', "Query parameter 'to' is required when 'from' is given");
+
+  const clampedTo = Math.min(to, Math.floor(now / 1000));
+  if (from >= clampedTo) {
+    throw invalid('from', "Query parameter 'from' must be earlier than 'to' and not in the future");
+  }
+  return { from, to: clampedTo };
+}
+
+/** Optional IANA time zone, returned in canonical form (default UTC). */
+export function timeZone(): FieldParser<string> {
+  return (raw, name) => {
+    if (raw === null || raw === '') return 'UTC';
+    const zone = raw.length <= 64 ? canonicalTimeZone(raw.trim()) : null;
+    if (!zone) throw invalid(name, `Unknown time zone '${raw}'`);
+    return zone;
+  };
+}
+
+/** Optional free text, trimmed and length-limited. */
+export function text(maxLength: number): FieldParser<string> {
+  return (raw, name) => {
+    const value = (raw ?? '').trim();
+    if (value.length > maxLength) {
+      throw invalid(name, `Query parameter '${name}' must be at most ${maxLength} characters`);
+    }
+    return value;
+  };
+}
+
+export function parseQuery<S extends QuerySchema>(searchParams: URLSearchParams, schema: S): ParsedQuery<S> {
+  const result = {} as Record<string, unknown>;
+  for (const [name, parse] of Object.entries(schema)) {
+    result[name] = parse(searchParams.get(name), name);
+  }
+  return result as ParsedQuery<S>;
+}
@@ -1,122 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { ChartData, ApiResponse } from '../../types';
+import { getProviderChain, fetchFromChain, getRangeResolution } from '../../providers';
+import { createCache } from '../../cache';
+import { parseQuery, coinId, epochSeconds, oneOf, toTimeRange, TIME_PERIODS, CURRENCIES } from '../_lib/query';
+import { errorResponse } from '../_lib/errors';
+import type { ChartData, ApiResponse, ApiError, TimeRange } from '../../types';
 
 // Cache for historical data
-const historyCache = new Map<string, { data: ChartData; timestamp: number; fetchedAt: number }>();
 const CACHE_DURATION = 300000; // 5 minutes for historical data
-const MAX_RETRIES = 3;
-const INITIAL_BACKOFF_MS = 1000;
+const CLOSED_RANGE_CACHE_DURATION = 86400000; // 24 hours: past ranges no longer change
+const MAX_CACHED_RANGES = 50;
+
+const historyCache = createCache<ChartData>({
+  namespace: 'history',
+  ttl: CACHE_DURATION,
+  staleWhileRevalidate: CACHE_DURATION,
+});
+
+// Ranges that ended over a day ago are effectively immutable
+const closedRangeCache = createCache<ChartData>({
+  namespace: 'history-range',
+  ttl: CLOSED_RANGE_CACHE_DURATION,
+  maxEntries: MAX_CACHED_RANGES,
+});
+
+const querySchema = {
+  id: coinId(),
+  days: oneOf(TIME_PERIODS, '7'),
+  vs_currency: oneOf(CURRENCIES, 'usd'),
+  from: epochSeconds(),
+  to: epochSeconds(),
+};
 
 /**
- * Exponential-backoff fetch helper
+ * Snap a range outward to the resolution CoinGecko will use for it, so
+ * requests a few seconds apart share one cache entry and upstream call.
  */
-async function fetchWithRetry(url: string, retries = MAX_RETRIES): Promise<Response> {
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt < retries; attempt++) {
-    try {
-      const response = await fetch(url, {
-        headers: { 'Accept': 'application/json' },
-        next: { revalidate: 300 },
-      });
-      if (response.status === 429 && attempt < retries - 1) {
-        const backoff = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
-        console.log(`Rate limited, backing off ${backoff}ms (attempt ${attempt + 1})`);
-        await new Promise((r) => setTimeout(r, backoff));
-        continue;
-      }
-      return response;
-    } catch (err) {
-      lastError = err as Error;
-      const backoff = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
-      console.log(`Fetch error, backing off ${backoff}ms (attempt ${attempt + 1})`);
-      await new Promise((r) => setTimeout(r, backoff));
-    }
-  }
-  throw lastError ?? new Error('Fetch failed after retries');
+function alignRange(range: TimeRange): TimeRange {
+  const step = getRangeResolution(range);
+  return {
+    from: Math.floor(range.from / step) * step,
+    to: Math.ceil(range.to / step) * step,
+  };
 }
 
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ChartData> | { error: string; message?: string }>> {
-  let cacheKey = '';
-  
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ChartData> | ApiError>> {
   try {
     const { searchParams } = new URL(request.url);
-    const id = searchParams.get('id');
-    const days = searchParams.get('days') || '7';
-    const vsCurrency = searchParams.get('vs_currency') || 'usd';
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Coin ID is required' },
-        { status: 400 }
-      );
-    }
+    const { id, days, vs_currency: vsCurrency, from, to } = parseQuery(searchParams, querySchema);
+    const requestedRange = toTimeRange(from, to);
+    const range = requestedRange ? alignRange(requestedRange) : undefined;
 
-    // Check cache
-    cacheKey = `${id}_${days}_${vsCurrency}`;
-    const now = Date.now();
-    const cached = historyCache.get(cacheKey);
+    const cacheKey = range
+      ? `${id}_${range.from}_${range.to}_${vsCurrency}`
+      : `${id}_${days}_${vsCurrency}`;
+    const cache = range && range.to * 1000 < Date.now() - CLOSED_RANGE_CACHE_DURATION ? closedRangeCache : historyCache;
 
-    if (cached && (now - cached.timestamp) < CACHE_DURATION) {
-      return NextResponse.json({
-        data: cached.data,
-        cached: true,
-        timestamp: cached.timestamp,
-        fetchedAt: cached.fetchedAt,
-      });
-    }
-
-    // Fetch from CoinGecko with retry & backoff
-    const apiUrl = `https://api.coingecko.com/api/v3/coins/${id}/market_chart?vs_currency=${vsCurrency}&days=${days}`;
-
-    const response = await fetchWithRetry(apiUrl);
-
-    if (!response.ok) {
-      // If rate limited (429) and we have cached data, return it
-      if (response.status === 429 && cached) {
-        console.log('Rate limited, returning stale cache for', id);
-        return NextResponse.json({
-          data: cached.data,
-          cached: true,
-          stale: true,
-          timestamp: cached.timestamp,
-          fetchedAt: cached.fetchedAt,
-        });
-      }
-      throw new Error(`CoinGecko API error: ${response.status}`);
-    }
-
-    const data: ChartData = await response.json();
-    const fetchedAt = now;
-
-    // Store in cache
-    historyCache.set(cacheKey, {
-      data,
-      timestamp: now,
-      fetchedAt,
+    const chain = await getProviderChain('history', 'auto', id, vsCurrency);
+    const throttle = { rateLimited: false };
+    const result = await cache.getOrFetch(cacheKey, async () => {
+      const { data } = await fetchFromChain(chain, (provider) =>
+        provider.getHistory!({ id, vsCurrency, days, range }),
+        throttle
+      );
+      return data;
     });
 
     return NextResponse.json({
-      data,
-      cached: false,
-      timestamp: now,
-      fetchedAt,
+      ...result,
+      ...(throttle.rateLimited ? { rateLimited: true } : {}),
     });
   } catch (error) {
-    console.error('Error fetching coin history:', error);
-    // Return cached data if available on any error
-    const cachedData = historyCache.get(cacheKey);
-    if (cachedData) {
-      return NextResponse.json({
-        data: cachedData.data,
-        cached: true,
-        stale: true,
-        timestamp: cachedData.timestamp,
-        fetchedAt: cachedData.fetchedAt,
-      });
-    }
-    return NextResponse.json(
-      { error: 'Failed to fetch coin history', message: (error as Error).message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch coin history');
   }
 }
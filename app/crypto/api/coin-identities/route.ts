@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { coinbaseCatalog } from '../../providers';
+import { parseQuery, coinIdList } from '../_lib/query';
+import { errorResponse } from '../_lib/errors';
+import { loadCoinList } from '../_lib/coinList';
+import { COIN_IDENTITY_OVERRIDES, registrySymbol, toCoinCapId } from '../../utils/coinIdentity';
+import type { CachedResult } from '../../cache';
+import type { CoinIdentity, CoinSearchResult, ApiResponse, ApiError } from '../../types';
+
+const querySchema = {
+  ids: coinIdList(),
+};
+
+/**
+ * Resolve coin identities across upstreams.  Without `ids`, returns every
+ * coin pinned in the identity registry.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<CoinIdentity[]> | ApiError>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { ids } = parseQuery(searchParams, querySchema);
+    const coinIds = ids ?? Object.keys(COIN_IDENTITY_OVERRIDES);
+
+    // The registry knows a few symbols; the coin list fills in the rest when reachable
+    const symbols = new Map<string, string>();
+    let list: CachedResult<CoinSearchResult[]> | null = null;
+    if (coinIds.some((id) => !registrySymbol(id))) {
+      try {
+        ({ list } = await loadCoinList());
+        for (const coin of list.data) symbols.set(coin.id, coin.symbol.toUpperCase());
+      } catch (err) {
+        console.log('Coin list unavailable for identities:', (err as Error).message);
+      }
+    }
+
+    const data = await Promise.all(
+      coinIds.map(async (id): Promise<CoinIdentity> => ({
+        id,
+        symbol: registrySymbol(id) ?? symbols.get(id) ?? null,
+        coincap: toCoinCapId(id),
+        coinbase: await coinbaseCatalog.productsFor(id),
+      }))
+    );
+
+    const now = Date.now();
+    return NextResponse.json({
+      data,
+      cached: !!list?.cached,
+      ...(list?.stale ? { stale: true } : {}),
+      timestamp: now,
+      fetchedAt: list?.fetchedAt ?? now,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to resolve coin identities');
+  }
+}
@@ -1,130 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { Coin, ApiResponse } from '../../types';
+import { getProviderChain, fetchFromChain } from '../../providers';
+import { createCache } from '../../cache';
+import { parseQuery, coinIdList, oneOf, integer, CURRENCIES, MAX_PER_PAGE } from '../_lib/query';
+import { errorResponse } from '../_lib/errors';
+import type { Coin, ApiResponse, ApiError } from '../../types';
 
 // Cache configuration
 const CACHE_DURATION = 30000; // 30 seconds
-const MAX_RETRIES = 3;
-const INITIAL_BACKOFF_MS = 1000;
+const MAX_CACHED_QUERIES = 50; // distinct ids/currency/page combinations kept per instance
 
-interface CacheEntry {
-  data: Coin[] | null;
-  timestamp: number | null;
-  fetchedAt: number | null; // when upstream API was last contacted
-  key?: string;
-}
+// Each query (ids + currency + page size + page) gets its own LRU slot, so
+// EUR and USD users never evict each other and a stale fallback always
+// returns data for the currency that was asked for.
+const coinsCache = createCache<Coin[]>({
+  namespace: 'coins',
+  ttl: CACHE_DURATION,
+  staleWhileRevalidate: CACHE_DURATION,
+  maxEntries: MAX_CACHED_QUERIES,
+});
 
-let cache: CacheEntry = {
-  data: null,
-  timestamp: null,
-  fetchedAt: null,
+const querySchema = {
+  ids: coinIdList(),
+  vs_currency: oneOf(CURRENCIES, 'usd'),
+  per_page: integer({ min: 1, max: MAX_PER_PAGE, fallback: 50 }),
+  page: integer({ min: 1, max: 1000, fallback: 1 }),
 };
 
 /**
- * Exponential-backoff fetch helper
+ * Build the cache key from the validated query so equivalent requests
+ * (e.g. `ids=eth,btc` vs `ids=btc,eth`) share one entry.
  */
-async function fetchWithRetry(url: string, retries = MAX_RETRIES): Promise<Response> {
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt < retries; attempt++) {
-    try {
-      const response = await fetch(url, {
-        headers: { 'Accept': 'application/json' },
-        next: { revalidate: 30 },
-      });
-      // 429 = rate-limited; wait and retry
-      if (response.status === 429 && attempt < retries - 1) {
-        const backoff = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
-        console.log(`Rate limited, backing off ${backoff}ms (attempt ${attempt + 1})`);
-        await new Promise((r) => setTimeout(r, backoff));
-        continue;
-      }
-      return response;
-    } catch (err) {
-      lastError = err as Error;
-      const backoff = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
-      console.log(`Fetch error, backing off ${backoff}ms (attempt ${attempt + 1})`);
-      await new Promise((r) => setTimeout(r, backoff));
-    }
-  }
-  throw lastError ?? new Error('Fetch failed after retries');
+function buildCacheKey(ids: string[] | null, vsCurrency: string, perPage: number, page: number): string {
+  const idKey = ids ? [...ids].sort().join(',') : 'all';
+  return `${idKey}_${vsCurrency}_${perPage}_${page}`;
 }
 
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<Coin[]> | { error: string; message: string }>> {
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<Coin[]> | ApiError>> {
   try {
     const { searchParams } = new URL(request.url);
-    const ids = searchParams.get('ids');
-    const vsCurrency = searchParams.get('vs_currency') || 'usd';
-    const perPage = searchParams.get('per_page') || '50';
-    const page = searchParams.get('page') || '1';
-
-    // Check cache
-    const now = Date.now();
-    const cacheKey = `${ids || 'all'}_${vsCurrency}_${perPage}_${page}`;
-    
-    if (cache.data && cache.timestamp && (now - cache.timestamp) < CACHE_DURATION && cache.key === cacheKey) {
-      return NextResponse.json({
-        data: cache.data,
-        cached: true,
-        timestamp: cache.timestamp,
-        fetchedAt: cache.fetchedAt!,
-      });
-    }
-
-    // Build API URL
-    let apiUrl = `https://api.coingecko.com/api/v3/coins/markets?vs_currency=${vsCurrency}&order=market_cap_desc&per_page=${perPage}&page=${page}&sparkline=false&price_change_percentage=24h,7d,30d`;
-    
-    if (ids) {
-      apiUrl += `&ids=${ids}`;
-    }
+    const { ids, vs_currency: vsCurrency, per_page: perPage, page } = parseQuery(searchParams, querySchema);
 
-    const response = await fetchWithRetry(apiUrl);
+    const cacheKey = buildCacheKey(ids, vsCurrency, perPage, page);
 
-    if (!response.ok) {
-      // If rate limited (429) and we have cached data, return it
-      if (response.status === 429 && cache.data) {
-        console.log('Rate limited, returning stale cache');
-        return NextResponse.json({
-          data: cache.data,
-          cached: true,
-          stale: true,
-          timestamp: cache.timestamp!,
-          fetchedAt: cache.fetchedAt!,
-        });
-      }
-      throw new Error(`CoinGecko API error: ${response.status}`);
-    }
-
-    const data: Coin[] = await response.json();
-    const fetchedAt = now;
-
-    // Update cache
-    cache = {
-      data,
-      timestamp: now,
-      fetchedAt,
-      key: cacheKey,
-    };
+    // Serves fresh cache, stale cache while revalidating, or stale cache on
+    // upstream errors (e.g. 429) — only throws when nothing is cached.
+    const chain = await getProviderChain('markets');
+    // Set only if this request's own upstream calls were held back
+    const throttle = { rateLimited: false };
+    const result = await coinsCache.getOrFetch(cacheKey, async () => {
+      const { data } = await fetchFromChain(chain, (provider) =>
+        provider.getMarkets!({ ids, vsCurrency, perPage, page }),
+        throttle
+      );
+      return data;
+    });
 
     return NextResponse.json({
-      data,
-      cached: false,
-      timestamp: now,
-      fetchedAt,
+      ...result,
+      ...(throttle.rateLimited ? { rateLimited: true } : {}),
     });
   } catch (error) {
-    console.error('Error fetching cryptocurrency data:', error);
-    // Return cached data if available on any error
-    if (cache.data) {
-      return NextResponse.json({
-        data: cache.data,
-        cached: true,
-        stale: true,
-        timestamp: cache.timestamp!,
-        fetchedAt: cache.fetchedAt!,
-      });
-    }
-    return NextResponse.json(
-      { error: 'Failed to fetch cryptocurrency data', message: (error as Error).message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch cryptocurrency data');
   }
 }
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getProviderChain, fetchFromChain } from '../../providers';
+import { createCache } from '../../cache';
+import { errorResponse } from '../_lib/errors';
+import { config } from '../../config/config';
+import type { FxRates, ApiResponse, ApiError } from '../../types';
+
+// Exchange rates drift slowly next to crypto prices; one upstream call per
+// ten minutes is plenty and keeps well inside the CoinGecko budget
+const CACHE_DURATION = 600000; // 10 minutes
+
+const fxCache = createCache<FxRates>({
+  namespace: 'fx',
+  ttl: CACHE_DURATION,
+  staleWhileRevalidate: CACHE_DURATION * 6,
+});
+
+/**
+ * USD exchange rates for the dashboard currencies.  Live feeds quote in
+ * USD, so browsers use these to convert streamed ticks into the selected
+ * currency.
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<FxRates> | ApiError>> {
+  try {
+    const chain = await getProviderChain('fx', config.fxProvider);
+    const throttle = { rateLimited: false };
+    const result = await fxCache.getOrFetch('usd', async () => {
+      const { data } = await fetchFromChain(chain, (provider) => provider.getFxRates!(), throttle);
+      return data;
+    });
+
+    return NextResponse.json({
+      ...result,
+      ...(throttle.rateLimited ? { rateLimited: true } : {}),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch exchange rates');
+  }
+}
@@ -1,50 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { CoinSearchResult, ApiResponse } from '../../types';
+import { parseQuery, text } from '../_lib/query';
+import { errorResponse } from '../_lib/errors';
+import { loadCoinList } from '../_lib/coinList';
+import type { CoinSearchResult, ApiResponse, ApiError } from '../../types';
 
-// Cache for search results
-interface SearchCache {
-  data: CoinSearchResult[] | null;
-  timestamp: number | null;
-  fetchedAt: number | null;
-}
-
-let searchCache: SearchCache = {
-  data: null,
-  timestamp: null,
-  fetchedAt: null,
+const querySchema = {
+  q: text(100),
 };
 
-const CACHE_DURATION = 3600000; // 1 hour for search list
-
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<CoinSearchResult[]> | { error: string; message: string }>> {
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<CoinSearchResult[]> | ApiError>> {
   try {
     const { searchParams } = new URL(request.url);
-    const query = searchParams.get('q');
+    const { q: query } = parseQuery(searchParams, querySchema);
 
-    // Check cache for full list
-    const now = Date.now();
-    
-    if (!searchCache.data || !searchCache.timestamp || (now - searchCache.timestamp) > CACHE_DURATION) {
-      // Fetch full list from CoinGecko
-      const response = await fetch('https://api.coingecko.com/api/v3/coins/list', {
-        headers: {
-          'Accept': 'application/json',
-        },
-        next: { revalidate: 3600 } // 1 hour
-      });
-
-      if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status}`);
-      }
-
-      searchCache.data = await response.json();
-      searchCache.timestamp = now;
-      searchCache.fetchedAt = now;
-    }
+    const { list, rateLimited } = await loadCoinList();
 
     // Filter results if query provided
-    let results = searchCache.data!;
-    if (query && query.length > 0) {
+    let results = list.data;
+    if (query.length > 0) {
       const lowerQuery = query.toLowerCase();
       results = results.filter(coin => 
         coin.name.toLowerCase().includes(lowerQuery) ||
@@ -58,14 +31,12 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     return NextResponse.json({
       data: results,
       cached: true,
-      timestamp: searchCache.timestamp!,
-      fetchedAt: searchCache.fetchedAt!,
+      ...(list.stale ? { stale: true } : {}),
+      ...(rateLimited ? { rateLimited: true } : {}),
+      timestamp: list.timestamp,
+      fetchedAt: list.fetchedAt,
     });
   } catch (error) {
-    console.error('Error searching cryptocurrencies:', error);
-    return NextResponse.json(
-      { error: 'Failed to search cryptocurrencies', message: (error as Error).message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to search cryptocurrencies');
   }
 }
@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { parseQuery, coinIdList } from '../_lib/query';
+import { ApiRequestError, errorResponse } from '../_lib/errors';
+import { getPriceHub, sseEvent } from '../_lib/priceStream';
+import type { StreamPricesEvent } from '../../realtime/types';
+
+// Streams never cache and must not be prerendered
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// Client reconnect delay sent in the `retry:` field
+const CLIENT_RETRY_MS = 5_000;
+
+const querySchema = {
+  ids: coinIdList(),
+};
+
+/**
+ * Server-sent events stream of live prices.  Emits `prices` events of
+ * `{ source, prices: { [coinId]: price }, sentAt }`, starting with the latest known prices, then every
+ * upstream frame for the requested coins.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { ids } = parseQuery(searchParams, querySchema);
+    if (!ids) {
+      throw new ApiRequestError('INVALID_PARAM', "Query parameter 'ids' is required", { param: 'ids' });
+    }
+
+    const hub = getPriceHub();
+    if (!hub) {
+      throw new ApiRequestError('UPSTREAM_UNAVAILABLE', 'No realtime upstream is available on this server');
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        send(`retry: ${CLIENT_RETRY_MS}\n\n`);
+        const unsubscribe = hub.subscribe(ids, (prices, source, sentAt) => {
+          const event: StreamPricesEvent = { source, prices, sentAt };
+          send(sseEvent('prices', event));
+        });
+        const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the runtime
+          }
+        };
+        request.signal.addEventListener('abort', () => cleanup());
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to open price stream');
+  }
+}
@@ -0,0 +1,75 @@
+// Netlify Blobs cache store with an in-memory fallback tier
+//
+// Records survive cold starts and are shared by every function instance of
+// the deploy.  Every write is mirrored into a local memory tier which serves
+// reads whenever Blobs is unreachable (e.g. `next dev` outside `netlify dev`).
+
+import { getStore } from '@netlify/blobs';
+import { createMemoryStore } from './memoryStore';
+import type { CacheRecord, CacheStore } from './types';
+
+const STORE_NAME = 'crypto-cache';
+
+/** The subset of the `@netlify/blobs` Store API used here. */
+export interface BlobStoreLike {
+  get(key: string, options: { type: 'json' }): Promise<unknown>;
+  setJSON(key: string, data: unknown): Promise<unknown>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * @param blobs - Blobs store to use; defaults to `getStore('crypto-cache')`.
+ *   Tests pass an in-memory stand-in.
+ */
+export function createBlobsStore(blobs?: BlobStoreLike): CacheStore {
+  const memory = createMemoryStore();
+  let backend: BlobStoreLike | null = blobs ?? null;
+  let unavailable = false;
+
+  function getBackend(): BlobStoreLike | null {
+    if (backend || unavailable) return backend;
+    try {
+      backend = getStore(STORE_NAME);
+    } catch (err) {
+      console.log('Netlify Blobs unavailable, using in-memory cache:', (err as Error).message);
+      unavailable = true;
+    }
+    return backend;
+  }
+
+  return {
+    name: 'blobs',
+    async get<T>(key: string) {
+      const store = getBackend();
+      if (!store) return memory.get<T>(key);
+      try {
+        const record = (await store.get(key, { type: 'json' })) as CacheRecord<T> | null;
+        if (record) await memory.set(key, record);
+        return record;
+      } catch (err) {
+        console.log('Blobs read failed, using in-memory copy:', (err as Error).message);
+        return memory.get<T>(key);
+      }
+    },
+    async set<T>(key: string, record: CacheRecord<T>) {
+      await memory.set(key, record);
+      const store = getBackend();
+      if (!store) return;
+      try {
+        await store.setJSON(key, record);
+      } catch (err) {
+        console.log('Blobs write failed:', (err as Error).message);
+      }
+    },
+    async delete(key: string) {
+      await memory.delete(key);
+      const store = getBackend();
+      if (!store) return;
+      try {
+        await store.delete(key);
+      } catch (err) {
+        console.log('Blobs delete failed:', (err as Error).message);
+      }
+    },
+  };
+}
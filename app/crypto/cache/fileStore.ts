@@ -0,0 +1,36 @@
+// Filesystem cache store (one JSON file per key)
+//
+// Useful for long-running `next start` deployments and for local development,
+// where it keeps cached upstream data across dev-server restarts.
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CacheRecord, CacheStore } from './types';
+
+export function createFileStore(dir: string): CacheStore {
+  let ready: Promise<unknown> | null = null;
+
+  function fileFor(key: string): string {
+    return path.join(dir, `${encodeURIComponent(key)}.json`);
+  }
+
+  return {
+    name: 'filesystem',
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8')) as CacheRecord<T>;
+      } catch {
+        // Missing or corrupt file — treat as a cache miss
+        return null;
+      }
+    },
+    async set<T>(key: string, record: CacheRecord<T>) {
+      ready ??= mkdir(dir, { recursive: true });
+      await ready;
+      await writeFile(fileFor(key), JSON.stringify(record));
+    },
+    async delete(key: string) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Tests for the server-side response cache.
+ *
+ * Time is controlled with vi.setSystemTime so TTL / stale-while-revalidate
+ * windows can be crossed deterministically.  The Netlify Blobs store is
+ * exercised against a Map-backed stand-in implementing `BlobStoreLike`.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCache, createMemoryStore, createBlobsStore } from './index';
+import type { BlobStoreLike } from './blobsStore';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** In-memory stand-in for a `@netlify/blobs` Store. */
+function createLocalBlobs(): BlobStoreLike & { entries: Map<string, unknown> } {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    async get(key) {
+      return entries.has(key) ? structuredClone(entries.get(key)) : null;
+    },
+    async setJSON(key, data) {
+      entries.set(key, structuredClone(data));
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/** Flush pending promise callbacks (background revalidation). */
+async function flush() {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// createCache
+// ---------------------------------------------------------------------------
+
+describe('createCache', () => {
+  it('fetches on a miss and serves from cache while fresh', async () => {
+    const cache = createCache<number>({ namespace: 't', ttl: 1000, store: createMemoryStore() });
+    const fetcher = vi.fn().mockResolvedValue(1);
+
+    const first = await cache.getOrFetch('k', fetcher);
+    expect(first).toMatchObject({ data: 1, cached: false });
+
+    vi.advanceTimersByTime(500);
+    const second = await cache.getOrFetch('k', fetcher);
+    expect(second).toMatchObject({ data: 1, cached: true });
+    expect(second.stale).toBeUndefined();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches synchronously once the TTL expires', async () => {
+    const cache = createCache<number>({ namespace: 't', ttl: 1000, store: createMemoryStore() });
+    const fetcher = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await cache.getOrFetch('k', fetcher);
+    vi.advanceTimersByTime(1500);
+    const result = await cache.getOrFetch('k', fetcher);
+    expect(result).toMatchObject({ data: 2, cached: false });
+  });
+
+  it('serves stale data and revalidates in the background within the SWR window', async () => {
+    const cache = createCache<number>({
+      namespace: 't',
+      ttl: 1000,
+      staleWhileRevalidate: 1000,
+      store: createMemoryStore(),
+    });
+    const fetcher = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await cache.getOrFetch('k', fetcher);
+    vi.advanceTimersByTime(1500);
+
+    const stale = await cache.getOrFetch('k', fetcher);
+    expect(stale).toMatchObject({ data: 1, cached: true, stale: true });
+
+    await flush();
+    const fresh = await cache.getOrFetch('k', fetcher);
+    expect(fresh).toMatchObject({ data: 2, cached: true });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns stale data when the upstream fetch fails', async () => {
+    const cache = createCache<number>({ namespace: 't', ttl: 1000, store: createMemoryStore() });
+    await cache.getOrFetch('k', async () => 1);
+
+    vi.advanceTimersByTime(5000);
+    const result = await cache.getOrFetch('k', async () => {
+      throw new Error('429');
+    });
+    expect(result).toMatchObject({ data: 1, cached: true, stale: true });
+  });
+
+  it('rethrows upstream errors when nothing is cached', async () => {
+    const cache = createCache<number>({ namespace: 't', ttl: 1000, store: createMemoryStore() });
+    await expect(
+      cache.getOrFetch('k', async () => {
+        throw new Error('down');
+      })
+    ).rejects.toThrow('down');
+  });
+
+  it('does not serve records older than maxStale', async () => {
+    const cache = createCache<number>({ namespace: 't', ttl: 1000, maxStale: 2000, store: createMemoryStore() });
+    await cache.getOrFetch('k', async () => 1);
+
+    vi.advanceTimersByTime(3000);
+    await expect(
+      cache.getOrFetch('k', async () => {
+        throw new Error('down');
+      })
+    ).rejects.toThrow('down');
+  });
+
+  it('coalesces concurrent misses for the same key into one upstream call', async () => {
+    const cache = createCache<number>({ namespace: 't', ttl: 1000, store: createMemoryStore() });
+    const fetcher = vi.fn(async () => 1);
+
+    const results = await Promise.all(Array.from({ length: 20 }, () => cache.getOrFetch('k', fetcher)));
+    expect(results.every((r) => r.data === 1)).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('isolates namespaces sharing one store', async () => {
+    const store = createMemoryStore();
+    const a = createCache<string>({ namespace: 'a', ttl: 1000, store });
+    const b = createCache<string>({ namespace: 'b', ttl: 1000, store });
+
+    await a.getOrFetch('k', async () => 'from-a');
+    const result = await b.getOrFetch('k', async () => 'from-b');
+    expect(result.data).toBe('from-b');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createCache with maxEntries (per-key LRU)
+// ---------------------------------------------------------------------------
+
+describe('createCache with maxEntries', () => {
+  it('keeps separate entries per key instead of overwriting', async () => {
+    const cache = createCache<string>({ namespace: 't', ttl: 1000, maxEntries: 10, store: createMemoryStore() });
+    const fetcher = vi.fn(async () => 'x');
+
+    await cache.getOrFetch('usd', async () => 'usd-data');
+    await cache.getOrFetch('eur', async () => 'eur-data');
+
+    expect((await cache.getOrFetch('usd', fetcher)).data).toBe('usd-data');
+    expect((await cache.getOrFetch('eur', fetcher)).data).toBe('eur-data');
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('serves each key its own stale fallback when the store is unavailable', async () => {
+    const store = createMemoryStore();
+    const cache = createCache<string>({ namespace: 't', ttl: 1000, maxEntries: 10, store });
+    await cache.getOrFetch('usd', async () => 'usd-data');
+    await cache.getOrFetch('eur', async () => 'eur-data');
+
+    store.get = async () => {
+      throw new Error('store down');
+    };
+    vi.advanceTimersByTime(5000);
+    const failing = async (): Promise<string> => {
+      throw new Error('429');
+    };
+
+    expect(await cache.getOrFetch('eur', failing)).toMatchObject({ data: 'eur-data', stale: true });
+    expect(await cache.getOrFetch('usd', failing)).toMatchObject({ data: 'usd-data', stale: true });
+  });
+
+  it('prefers a newer record written to the shared store by another instance', async () => {
+    const store = createMemoryStore();
+    const a = createCache<number>({ namespace: 't', ttl: 1000, maxEntries: 10, store });
+    const b = createCache<number>({ namespace: 't', ttl: 1000, maxEntries: 10, store });
+
+    await a.getOrFetch('k', async () => 1);
+    vi.advanceTimersByTime(1500);
+    await b.getOrFetch('k', async () => 2);
+
+    const fetcher = vi.fn();
+    expect((await a.getOrFetch('k', fetcher)).data).toBe(2);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createBlobsStore
+// ---------------------------------------------------------------------------
+
+describe('createBlobsStore', () => {
+  it('persists records so a new instance (cold start) can read them', async () => {
+    const blobs = createLocalBlobs();
+    const warm = createCache<number>({ namespace: 't', ttl: 1000, store: createBlobsStore(blobs) });
+    await warm.getOrFetch('k', async () => 7);
+
+    const cold = createCache<number>({ namespace: 't', ttl: 1000, store: createBlobsStore(blobs) });
+    const fetcher = vi.fn();
+    const result = await cold.getOrFetch('k', fetcher);
+    expect(result).toMatchObject({ data: 7, cached: true });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the in-memory tier when Blobs reads fail', async () => {
+    const blobs = createLocalBlobs();
+    const store = createBlobsStore(blobs);
+    await store.set('k', { data: 'v', timestamp: 1, fetchedAt: 1 });
+
+    blobs.get = async () => {
+      throw new Error('Blobs outage');
+    };
+    expect(await store.get('k')).toEqual({ data: 'v', timestamp: 1, fetchedAt: 1 });
+  });
+
+  it('keeps serving writes from memory when Blobs writes fail', async () => {
+    const blobs = createLocalBlobs();
+    blobs.setJSON = async () => {
+      throw new Error('Blobs outage');
+    };
+    blobs.get = async () => {
+      throw new Error('Blobs outage');
+    };
+    const store = createBlobsStore(blobs);
+    await store.set('k', { data: 1, timestamp: 1, fetchedAt: 1 });
+    expect(await store.get('k')).toEqual({ data: 1, timestamp: 1, fetchedAt: 1 });
+  });
+});
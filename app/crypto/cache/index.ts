@@ -0,0 +1,157 @@
+// Server-side response cache used by every API route
+//
+// Wraps a pluggable CacheStore with TTL, stale-while-revalidate,
+// serve-stale-on-error and request coalescing semantics.  The store is
+// chosen once per instance from `config.cacheStore` ('memory' | 'blobs' |
+// 'filesystem' | 'auto').
+
+import { config } from '../config/config';
+import { createMemoryStore } from './memoryStore';
+import { createBlobsStore } from './blobsStore';
+import { createFileStore } from './fileStore';
+import { LRUCache } from './lru';
+import { createSingleFlight } from './singleFlight';
+import type { CacheOptions, CacheRecord, CacheStore, CacheStoreKind, CachedResult } from './types';
+
+export type { CacheStore, CacheRecord, CachedResult, CacheOptions } from './types';
+export { createMemoryStore } from './memoryStore';
+export { createBlobsStore } from './blobsStore';
+export { createFileStore } from './fileStore';
+export { LRUCache } from './lru';
+export { createSingleFlight } from './singleFlight';
+
+let defaultStore: CacheStore | null = null;
+
+/**
+ * Resolve 'auto' to Netlify Blobs when running on Netlify and to memory
+ * everywhere else.
+ */
+function resolveStoreKind(kind: string): CacheStoreKind {
+  if (kind === 'memory' || kind === 'blobs' || kind === 'filesystem') return kind;
+  return process.env.NETLIFY || process.env.NETLIFY_BLOBS_CONTEXT ? 'blobs' : 'memory';
+}
+
+export function createStore(kind: string = config.cacheStore): CacheStore {
+  switch (resolveStoreKind(kind)) {
+    case 'blobs':
+      return createBlobsStore();
+    case 'filesystem':
+      return createFileStore(config.cacheDir);
+    default:
+      return createMemoryStore();
+  }
+}
+
+/** The shared store for this instance, created lazily on first use. */
+export function getDefaultStore(): CacheStore {
+  defaultStore ??= createStore();
+  return defaultStore;
+}
+
+/** Replace the shared store (tests, or a custom backend at startup). */
+export function setDefaultStore(store: CacheStore | null): void {
+  defaultStore = store;
+}
+
+export interface ResponseCache<T> {
+  /** Read a record regardless of age, or null on a miss */
+  peek: (key: string) => Promise<CacheRecord<T> | null>;
+  /**
+   * Serve `key` from cache when fresh, otherwise call `fetcher` and store the
+   * result.  Concurrent callers for the same key share a single `fetcher`
+   * call.  Falls back to the stale record when `fetcher` throws.
+   */
+  getOrFetch: (key: string, fetcher: () => Promise<T>) => Promise<CachedResult<T>>;
+  delete: (key: string) => Promise<void>;
+}
+
+function toResult<T>(record: CacheRecord<T>, cached: boolean, stale = false): CachedResult<T> {
+  return {
+    data: record.data,
+    cached,
+    ...(stale ? { stale: true } : {}),
+    timestamp: record.timestamp,
+    fetchedAt: record.fetchedAt,
+  };
+}
+
+export function createCache<T>(options: CacheOptions): ResponseCache<T> {
+  const { namespace, ttl, staleWhileRevalidate = 0, maxStale = Infinity, maxEntries } = options;
+  const store = () => options.store ?? getDefaultStore();
+  const local = maxEntries ? new LRUCache<string, CacheRecord<T>>(maxEntries) : null;
+  // Concurrent misses for the same key share one upstream request
+  const inFlight = createSingleFlight<CacheRecord<T>>();
+
+  const fullKey = (key: string) => `${namespace}:${key}`;
+
+  async function read(key: string): Promise<CacheRecord<T> | null> {
+    const hot = local?.get(key) ?? null;
+    if (hot && Date.now() - hot.timestamp < ttl) return hot;
+
+    let record: CacheRecord<T> | null = null;
+    try {
+      record = await store().get<T>(fullKey(key));
+    } catch (err) {
+      console.log(`Cache read failed (${store().name}):`, (err as Error).message);
+    }
+
+    // Another instance may have refreshed the shared store; keep the newer copy
+    if (hot && (!record || hot.timestamp >= record.timestamp)) return hot;
+    if (record) local?.set(key, record);
+    return record;
+  }
+
+  function refresh(key: string, fetcher: () => Promise<T>): Promise<CacheRecord<T>> {
+    return inFlight.run(key, async () => {
+      const data = await fetcher();
+      const now = Date.now();
+      const record: CacheRecord<T> = { data, timestamp: now, fetchedAt: now };
+      local?.set(key, record);
+      try {
+        await store().set(fullKey(key), record);
+      } catch (err) {
+        console.log(`Cache write failed (${store().name}):`, (err as Error).message);
+      }
+      return record;
+    });
+  }
+
+  function revalidateInBackground(key: string, fetcher: () => Promise<T>): void {
+    if (inFlight.has(key)) return;
+    refresh(key, fetcher)
+      .catch((err) => console.log('Background revalidation failed:', (err as Error).message));
+  }
+
+  return {
+    peek: read,
+
+    async getOrFetch(key, fetcher) {
+      const cached = await read(key);
+      const age = cached ? Date.now() - cached.timestamp : Infinity;
+
+      if (cached && age < ttl) {
+        return toResult(cached, true);
+      }
+
+      if (cached && age < ttl + staleWhileRevalidate) {
+        revalidateInBackground(key, fetcher);
+        return toResult(cached, true, true);
+      }
+
+      try {
+        return toResult(await refresh(key, fetcher), false);
+      } catch (err) {
+        if (cached && age < maxStale) {
+          console.log(`Upstream failed, returning stale cache for ${fullKey(key)}`);
+          return toResult(cached, true, true);
+        }
+        throw err;
+      }
+    },
+
+    async delete(key) {
+      local?.delete(key);
+      await store().delete(fullKey(key));
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the bounded LRU map used by the cache layer.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LRUCache } from './lru';
+
+describe('LRUCache', () => {
+  it('stores and returns values', () => {
+    const lru = new LRUCache<string, number>(3);
+    lru.set('a', 1);
+    expect(lru.get('a')).toBe(1);
+    expect(lru.has('a')).toBe(true);
+    expect(lru.get('missing')).toBeUndefined();
+  });
+
+  it('evicts the least recently used key when full', () => {
+    const lru = new LRUCache<string, number>(2);
+    lru.set('a', 1);
+    lru.set('b', 2);
+    lru.set('c', 3);
+    expect(lru.has('a')).toBe(false);
+    expect(lru.keys()).toEqual(['b', 'c']);
+  });
+
+  it('treats a get as a use', () => {
+    const lru = new LRUCache<string, number>(2);
+    lru.set('a', 1);
+    lru.set('b', 2);
+    lru.get('a');
+    lru.set('c', 3);
+    expect(lru.keys()).toEqual(['a', 'c']);
+  });
+
+  it('updates existing keys without growing', () => {
+    const lru = new LRUCache<string, number>(2);
+    lru.set('a', 1);
+    lru.set('a', 2);
+    expect(lru.size).toBe(1);
+    expect(lru.get('a')).toBe(2);
+  });
+
+  it('rejects a non-positive capacity', () => {
+    expect(() => new LRUCache(0)).toThrow(RangeError);
+  });
+});
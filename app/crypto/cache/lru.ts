@@ -0,0 +1,56 @@
+// Bounded least-recently-used map
+//
+// Relies on Map preserving insertion order: a hit re-inserts the key at the
+// end, so the first key is always the least recently used one.
+
+export class LRUCache<K, V> {
+  private entries = new Map<K, V>();
+  readonly maxEntries: number;
+
+  constructor(maxEntries: number) {
+    if (maxEntries < 1) {
+      throw new RangeError('LRUCache maxEntries must be at least 1');
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /** Returns the value and marks the key as most recently used. */
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /** Inserts or updates a value, evicting the least recently used key if full. */
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Keys from least to most recently used. */
+  keys(): K[] {
+    return [...this.entries.keys()];
+  }
+}
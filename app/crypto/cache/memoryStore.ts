@@ -0,0 +1,24 @@
+// In-memory cache store (per serverless instance, lost on cold start)
+
+import { LRUCache } from './lru';
+import type { CacheRecord, CacheStore } from './types';
+
+/** Upper bound so a long-lived instance cannot grow without limit. */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export function createMemoryStore(maxEntries: number = DEFAULT_MAX_ENTRIES): CacheStore {
+  const records = new LRUCache<string, CacheRecord<unknown>>(maxEntries);
+
+  return {
+    name: 'memory',
+    async get<T>(key: string) {
+      return (records.get(key) as CacheRecord<T> | undefined) ?? null;
+    },
+    async set<T>(key: string, record: CacheRecord<T>) {
+      records.set(key, record);
+    },
+    async delete(key: string) {
+      records.delete(key);
+    },
+  };
+}
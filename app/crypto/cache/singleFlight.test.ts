@@ -0,0 +1,64 @@
+/**
+ * Unit tests for in-flight request de-duplication.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createSingleFlight } from './singleFlight';
+
+/** A promise whose resolution is controlled by the test. */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('createSingleFlight', () => {
+  it('shares one call between concurrent callers for the same key', async () => {
+    const flight = createSingleFlight<number>();
+    const upstream = deferred<number>();
+    const fn = vi.fn(() => upstream.promise);
+
+    const calls = Array.from({ length: 50 }, () => flight.run('k', fn));
+    upstream.resolve(7);
+
+    expect(await Promise.all(calls)).toEqual(Array(50).fill(7));
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs different keys independently', async () => {
+    const flight = createSingleFlight<string>();
+    const fn = vi.fn(async () => 'x');
+
+    await Promise.all([flight.run('a', fn), flight.run('b', fn)]);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('propagates a failure to every waiter and then forgets it', async () => {
+    const flight = createSingleFlight<number>();
+    const upstream = deferred<number>();
+
+    const first = flight.run('k', () => upstream.promise);
+    const second = flight.run('k', () => Promise.resolve(1));
+    upstream.reject(new Error('429'));
+
+    await expect(first).rejects.toThrow('429');
+    await expect(second).rejects.toThrow('429');
+    expect(flight.has('k')).toBe(false);
+    expect(await flight.run('k', async () => 2)).toBe(2);
+  });
+
+  it('reports whether a key is in flight', async () => {
+    const flight = createSingleFlight<number>();
+    const upstream = deferred<number>();
+    const pending = flight.run('k', () => upstream.promise);
+
+    expect(flight.has('k')).toBe(true);
+    upstream.resolve(1);
+    await pending;
+    expect(flight.has('k')).toBe(false);
+  });
+});
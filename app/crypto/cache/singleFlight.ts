@@ -0,0 +1,35 @@
+// In-flight promise de-duplication ("single-flight")
+//
+// While a call for `key` is pending, further calls for the same key join the
+// existing promise instead of starting another upstream request.  The entry
+// is removed as soon as the promise settles, so failures are never cached.
+
+export interface SingleFlight<T> {
+  run: (key: string, fn: () => Promise<T>) => Promise<T>;
+  /** Whether a call for `key` is currently in flight */
+  has: (key: string) => boolean;
+}
+
+export function createSingleFlight<T>(): SingleFlight<T> {
+  const inFlight = new Map<string, Promise<T>>();
+
+  return {
+    run(key, fn) {
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      const promise = (async () => {
+        try {
+          return await fn();
+        } finally {
+          inFlight.delete(key);
+        }
+      })();
+      inFlight.set(key, promise);
+      return promise;
+    },
+    has(key) {
+      return inFlight.has(key);
+    },
+  };
+}
@@ -0,0 +1,59 @@
+// Server-side cache contracts shared by every API route
+
+/** A cached upstream payload together with its bookkeeping timestamps. */
+export interface CacheRecord<T> {
+  data: T;
+  /** Epoch ms when the record was written to the cache */
+  timestamp: number;
+  /** Epoch ms when the upstream API was contacted */
+  fetchedAt: number;
+}
+
+/**
+ * Pluggable key/value backend.  Implementations must be safe to call from
+ * concurrent requests and should swallow nothing — the cache layer decides
+ * which store errors are fatal.
+ */
+export interface CacheStore {
+  /** Short name used in logs, e.g. 'memory' or 'blobs' */
+  name: string;
+  get<T>(key: string): Promise<CacheRecord<T> | null>;
+  set<T>(key: string, record: CacheRecord<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type CacheStoreKind = 'memory' | 'blobs' | 'filesystem';
+
+export interface CacheOptions {
+  /** Key prefix, so routes sharing a store never collide */
+  namespace: string;
+  /** How long a record is served without contacting upstream (ms) */
+  ttl: number;
+  /**
+   * Window after `ttl` during which the stale record is served immediately
+   * while a background refresh runs (ms).  0 disables stale-while-revalidate.
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Oldest record that may still be served when upstream fails (ms).
+   * Defaults to Infinity — any stale data beats an error page.
+   */
+  maxStale?: number;
+  /**
+   * Keep up to this many records in a per-cache LRU in front of the store.
+   * Hot keys are then served without a store round-trip, and each key keeps
+   * its own stale fallback even when the store is remote or unavailable.
+   */
+  maxEntries?: number;
+  /** Backend override; defaults to the store selected by `config.cacheStore` */
+  store?: CacheStore;
+}
+
+/** Same shape as `ApiResponse<T>` so routes can return it directly. */
+export interface CachedResult<T> {
+  data: T;
+  cached: boolean;
+  stale?: boolean;
+  timestamp: number;
+  fetchedAt: number;
+}
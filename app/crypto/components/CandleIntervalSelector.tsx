@@ -0,0 +1,46 @@
+'use client';
+
+import { useCryptoStore } from '../store/cryptoStore';
+import { CANDLE_GRANULARITIES, MAX_CHART_CANDLES, isGranularityAvailable } from '../utils/candleGranularity';
+import type { CandleGranularity } from '../types';
+
+/**
+ * Candle interval picker shown next to `ChartPatternToggle` in candlestick
+ * mode.  Intervals that would need more than MAX_CHART_CANDLES candles for
+ * the current period are disabled; a saved interval that becomes unavailable
+ * falls back to 'Auto' (see `CryptoDashboard`).
+ */
+export default function CandleIntervalSelector() {
+  const { candleGranularity, setCandleGranularity, timePeriod } = useCryptoStore();
+
+  const selected =
+    candleGranularity !== 'auto' && isGranularityAvailable(timePeriod, candleGranularity)
+      ? candleGranularity
+      : 'auto';
+
+  return (
+    <label className="candle-interval-selector" title="Candle interval">
+      <span className="candle-interval-label">Interval</span>
+      <select
+        value={selected}
+        onChange={(e) => setCandleGranularity(e.target.value as CandleGranularity | 'auto')}
+        aria-label="Candle interval"
+      >
+        <option value="auto">Auto</option>
+        {CANDLE_GRANULARITIES.map((granularity) => {
+          const available = isGranularityAvailable(timePeriod, granularity);
+          return (
+            <option
+              key={granularity}
+              value={granularity}
+              disabled={!available}
+              title={available ? undefined : `More than ${MAX_CHART_CANDLES} candles for this period`}
+            >
+              {granularity}
+            </option>
+          );
+        })}
+      </select>
+    </label>
+  );
+}
@@ -2,16 +2,12 @@
 
 import { useMemo, useRef, useEffect, useState } from 'react';
 import { format } from 'date-fns';
+import { useShallow } from 'zustand/react/shallow';
 import { useCryptoStore } from '../store/cryptoStore';
-import {
-  calculateSMA,
-  calculateMACD,
-  calculateBollingerBands,
-  getSMAConfig,
-  getMACDConfig,
-  getBollingerConfig,
-} from '../utils/indicators';
-import type { OHLCData, OHLCCandle, TimePeriod, MACDData, BollingerBandsData } from '../types';
+import { computeStudies, outputLabel } from '../indicators';
+import type { ComputedStudy, IndicatorSeries, ThemeColor } from '../indicators';
+import { formatChartPrice } from '../utils/currency';
+import type { OHLCData, OHLCCandle, OHLCGap, MarketDataProviderId } from '../types';
 
 interface CandlestickChartProps {
   ohlcData: OHLCData | null;
@@ -35,66 +31,81 @@ function scaleY(value: number, minPrice: number, maxPrice: number, chartHeight:
   return padding + (chartHeight - 2 * padding) * (1 - (value - minPrice) / range);
 }
 
-// Calculate RSI from close prices
-function calculateRSI(prices: number[], period: number = 14): (number | null)[] {
-  if (prices.length < period + 1) return [];
-  
-  const rsiValues: (number | null)[] = [];
-  const changes: number[] = [];
-  
-  for (let i = 1; i < prices.length; i++) {
-    changes.push(prices[i] - prices[i - 1]);
-  }
-  
-  let avgGain = 0;
-  let avgLoss = 0;
-  
-  for (let i = 0; i < period; i++) {
-    if (changes[i] > 0) avgGain += changes[i];
-    else avgLoss += Math.abs(changes[i]);
-  }
-  
-  avgGain /= period;
-  avgLoss /= period;
-  
-  for (let i = 0; i < period; i++) {
-    rsiValues.push(null);
-  }
-  
-  if (avgLoss === 0) {
-    rsiValues.push(100);
-  } else {
-    const rs = avgGain / avgLoss;
-    rsiValues.push(100 - (100 / (1 + rs)));
-  }
-  
-  for (let i = period; i < changes.length; i++) {
-    const change = changes[i];
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? Math.abs(change) : 0;
-    
-    avgGain = (avgGain * (period - 1) + gain) / period;
-    avgLoss = (avgLoss * (period - 1) + loss) / period;
-    
-    if (avgLoss === 0) {
-      rsiValues.push(100);
-    } else {
-      const rs = avgGain / avgLoss;
-      rsiValues.push(100 - (100 / (1 + rs)));
-    }
+// SVG path through a series, broken wherever it has no value
+function seriesPath(values: IndicatorSeries, metrics: CandleMetrics[], toY: (value: number) => number): string {
+  return metrics.map((m, i) => {
+    const value = values[i];
+    if (value === null || value === undefined) return '';
+    const y = toY(value);
+    return i === 0 || values[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
+  }).join(' ');
+}
+
+// Closed SVG path between two series, e.g. the area inside a band
+function areaPath(upper: IndicatorSeries, lower: IndicatorSeries, metrics: CandleMetrics[], toY: (value: number) => number): string {
+  const upperPath = seriesPath(upper, metrics, toY);
+  const lowerPath = [...metrics].reverse().map((m, i) => {
+    const value = lower[metrics.length - 1 - i];
+    return value === null || value === undefined ? '' : `L${m.wickX},${toY(value)}`;
+  }).join(' ');
+  return `${upperPath} ${lowerPath} Z`;
+}
+
+// Indicator color for the current theme
+function themed(color: ThemeColor, isDark: boolean): string {
+  return isDark ? color.dark : color.light;
+}
+
+// Sub-pane SVG height and the inset kept free above and below the plot
+const PANE_HEIGHT = 80;
+const PANE_INSET = 8;
+
+/**
+ * Value range of a sub-pane: the indicator's fixed bounds, symmetric around
+ * zero for centered scales, or else the extent of its lines and levels.
+ */
+function paneRange(study: ComputedStudy): { min: number; max: number } {
+  const scale = study.definition.scale ?? {};
+  if (scale.min !== undefined && scale.max !== undefined) return { min: scale.min, max: scale.max };
+
+  const values = study.definition.outputs
+    .filter((output) => output.style !== 'histogram' && study.series[output.key])
+    .flatMap((output) => study.series[output.key].filter((v): v is number => v !== null));
+  if (scale.centered) {
+    const maxAbs = Math.max(...values.map(Math.abs), 0.01);
+    return { min: -maxAbs, max: maxAbs };
   }
-  
-  return rsiValues;
+  const all = [...values, ...(scale.levels ?? [])];
+  return all.length > 0 ? { min: Math.min(...all), max: Math.max(...all) } : { min: 0, max: 1 };
 }
 
-// Get RSI period based on time period
-function getRSIPeriod(timePeriod: TimePeriod): number {
-  const config: Record<TimePeriod, number> = { '1': 9, '7': 14, '30': 14, '365': 21 };
-  return config[timePeriod] || 14;
+// Badge label per candle source; derived candles are approximations, not traded OHLC
+const PROVIDER_BADGES: Record<MarketDataProviderId, { label: string; title?: string }> = {
+  coinbase: { label: '🟢 Coinbase' },
+  coingecko: { label: '🦎 CoinGecko' },
+  fixture: { label: 'Fixture', title: 'Fixed offline data, not from a live upstream' },
+  derived: { label: '≈ Derived', title: 'Approximated from price history; no exchange candles were available' },
+};
+
+// Tooltip for the partial-data badge
+function describeGaps(gaps: OHLCGap[]): string {
+  if (gaps.length === 0) return 'Part of the requested range could not be fetched';
+  const spans = gaps
+    .slice(0, 5)
+    .map((gap) => `${format(new Date(gap.from), 'MMM d, yyyy HH:mm')} – ${format(new Date(gap.to), 'MMM d, yyyy HH:mm')}`);
+  const more = gaps.length > 5 ? `\n…and ${gaps.length - 5} more` : '';
+  return `Missing candles:\n${spans.join('\n')}${more}`;
 }
 
 export default function CandlestickChart({ ohlcData, loading }: CandlestickChartProps) {
-  const { theme, timePeriod, enabledStudies } = useCryptoStore();
+  const { theme, timePeriod, enabledStudies, currency } = useCryptoStore(
+    useShallow((state) => ({
+      theme: state.theme,
+      timePeriod: state.timePeriod,
+      enabledStudies: state.enabledStudies,
+      currency: state.currency,
+    }))
+  );
   const isDark = theme === 'dark';
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 400 });
@@ -117,43 +128,45 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
     return () => window.removeEventListener('resize', updateDimensions);
   }, []);
 
-  const { candles, priceRange, candleMetrics, labels, closePrices, smaShort, smaLong, bollingerBands, macdData, rsiData, smaConfig } = useMemo(() => {
+  // Enabled studies over the candles; volume only when every candle has it
+  const studies = useMemo(() => {
+    const c = ohlcData?.candles;
+    if (!c || c.length === 0) return [] as ComputedStudy[];
+    const volumes = c.every((candle) => candle.volume !== undefined) ? c.map((candle) => candle.volume!) : undefined;
+    return computeStudies(
+      enabledStudies,
+      {
+        close: c.map((candle) => candle.close),
+        high: c.map((candle) => candle.high),
+        low: c.map((candle) => candle.low),
+        volume: volumes,
+      },
+      timePeriod
+    );
+  }, [ohlcData, enabledStudies, timePeriod]);
+
+  const overlayStudies = studies.filter((study) => study.definition.pane === 'overlay');
+  const subStudies = studies.filter((study) => study.definition.pane === 'sub' && Object.keys(study.series).length > 0);
+
+  const { candles, priceRange, candleMetrics, labels } = useMemo(() => {
     if (!ohlcData || !ohlcData.candles || ohlcData.candles.length === 0) {
       return { 
         candles: [], 
         priceRange: { min: 0, max: 0 }, 
         candleMetrics: [], 
         labels: [],
-        closePrices: [],
-        smaShort: [],
-        smaLong: [],
-        bollingerBands: { upper: [], middle: [], lower: [] } as BollingerBandsData,
-        macdData: { macdLine: [], signalLine: [], histogram: [] } as MACDData,
-        rsiData: [],
-        smaConfig: getSMAConfig(timePeriod),
       };
     }
 
     const c = ohlcData.candles;
-    const closes = c.map(candle => candle.close);
-    
-    // Calculate indicators from close prices
-    const smaConf = getSMAConfig(timePeriod);
-    const shortSMA = calculateSMA(closes, smaConf.shortPeriod);
-    const longSMA = calculateSMA(closes, smaConf.longPeriod);
-    const bbConf = getBollingerConfig(timePeriod);
-    const bb = calculateBollingerBands(closes, bbConf.period, bbConf.stdDev);
-    const macdConf = getMACDConfig(timePeriod);
-    const macd = calculateMACD(closes, macdConf.fastPeriod, macdConf.slowPeriod, macdConf.signalPeriod);
-    const rsiPeriod = getRSIPeriod(timePeriod);
-    const rsi = calculateRSI(closes, rsiPeriod);
 
     const allPrices = c.flatMap(candle => [candle.high, candle.low]);
-    // Include Bollinger Bands in price range if enabled
-    if (enabledStudies.bollingerBands) {
-      bb.upper.forEach(v => { if (v !== null) allPrices.push(v); });
-      bb.lower.forEach(v => { if (v !== null) allPrices.push(v); });
-    }
+    // Keep overlay studies (e.g. Bollinger Bands) inside the price range
+    studies
+      .filter((study) => study.definition.pane === 'overlay')
+      .forEach((study) => Object.values(study.series).forEach((values) => {
+        values.forEach((v) => { if (v !== null) allPrices.push(v); });
+      }));
     const minPrice = Math.min(...allPrices);
     const maxPrice = Math.max(...allPrices);
     const pricePadding = (maxPrice - minPrice) * 0.05;
@@ -213,7 +226,7 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
         let label: string;
         if (timePeriod === '1') {
           label = format(date, 'HH:mm');
-        } else if (timePeriod === '365') {
+        } else if (timePeriod === '365' || timePeriod === 'max') {
           label = format(date, 'MMM yyyy');
         } else {
           label = format(date, 'MMM d');
@@ -230,15 +243,8 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
       priceRange: { min: adjustedMin, max: adjustedMax },
       candleMetrics: metrics,
       labels: timeLabels,
-      closePrices: closes,
-      smaShort: shortSMA,
-      smaLong: longSMA,
-      bollingerBands: bb,
-      macdData: macd,
-      rsiData: rsi,
-      smaConfig: smaConf,
     };
-  }, [ohlcData, dimensions, timePeriod, enabledStudies.bollingerBands]);
+  }, [ohlcData, dimensions, timePeriod, studies]);
 
   // Generate Y-axis price labels
   const priceLabels = useMemo(() => {
@@ -252,11 +258,7 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
     });
   }, [priceRange, dimensions.height]);
 
-  const formatPrice = (price: number) => {
-    if (price >= 1000) return `$${price.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
-    if (price >= 1) return `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
-    return `$${price.toLocaleString(undefined, { maximumFractionDigits: 6 })}`;
-  };
+  const formatPrice = (price: number) => formatChartPrice(price, currency);
 
   const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
     if (!containerRef.current || candles.length === 0) return;
@@ -319,7 +321,18 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
         color: textColor,
         zIndex: 10,
       }}>
-        {ohlcData.provider === 'coinbase' ? '🟢 Coinbase' : '🦎 CoinGecko'} • {ohlcData.granularity}
+        <span title={PROVIDER_BADGES[ohlcData.provider].title}>{PROVIDER_BADGES[ohlcData.provider].label}</span> •{' '}
+        <span title={ohlcData.resampledFrom ? `Aggregated from ${ohlcData.resampledFrom} candles` : undefined}>
+          {ohlcData.granularity}
+        </span>
+        {ohlcData.complete === false && (
+          <span
+            title={describeGaps(ohlcData.gaps ?? [])}
+            style={{ marginLeft: 6, color: '#f59e0b' }}
+          >
+            • ⚠ partial
+          </span>
+        )}
       </div>
 
       <svg
@@ -398,75 +411,35 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
           </g>
         ))}
 
-        {/* Bollinger Bands - filled area */}
-        {enabledStudies.bollingerBands && bollingerBands.upper.length > 0 && (
-          <path
-            d={(() => {
-              const upperPath = candleMetrics.map((m, i) => {
-                const value = bollingerBands.upper[i];
-                if (value === null) return '';
-                const y = scaleY(value, priceRange.min, priceRange.max, dimensions.height, 30);
-                return i === 0 || bollingerBands.upper[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
-              }).join(' ');
-              const lowerPath = [...candleMetrics].reverse().map((m, i) => {
-                const origIdx = candleMetrics.length - 1 - i;
-                const value = bollingerBands.lower[origIdx];
-                if (value === null) return '';
-                const y = scaleY(value, priceRange.min, priceRange.max, dimensions.height, 30);
-                return `L${m.wickX},${y}`;
-              }).join(' ');
-              return `${upperPath} ${lowerPath} Z`;
-            })()}
-            fill={isDark ? 'rgba(52, 211, 153, 0.1)' : 'rgba(34, 197, 94, 0.1)'}
-            stroke="none"
-          />
-        )}
-
-        {/* Bollinger Bands - middle line */}
-        {enabledStudies.bollingerBands && bollingerBands.middle.length > 0 && (
-          <path
-            d={candleMetrics.map((m, i) => {
-              const value = bollingerBands.middle[i];
-              if (value === null) return '';
-              const y = scaleY(value, priceRange.min, priceRange.max, dimensions.height, 30);
-              return i === 0 || bollingerBands.middle[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
-            }).join(' ')}
-            fill="none"
-            stroke={isDark ? '#34d399' : '#22c55e'}
-            strokeWidth={1.5}
-            strokeDasharray="4 2"
-          />
-        )}
-
-        {/* SMA Short */}
-        {enabledStudies.sma && smaShort.length > 0 && (
-          <path
-            d={candleMetrics.map((m, i) => {
-              const value = smaShort[i];
-              if (value === null) return '';
-              const y = scaleY(value, priceRange.min, priceRange.max, dimensions.height, 30);
-              return i === 0 || smaShort[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
-            }).join(' ')}
-            fill="none"
-            stroke={isDark ? '#fbbf24' : '#f59e0b'}
-            strokeWidth={1.5}
-          />
-        )}
-
-        {/* SMA Long */}
-        {enabledStudies.sma && smaLong.length > 0 && (
-          <path
-            d={candleMetrics.map((m, i) => {
-              const value = smaLong[i];
-              if (value === null) return '';
-              const y = scaleY(value, priceRange.min, priceRange.max, dimensions.height, 30);
-              return i === 0 || smaLong[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
-            }).join(' ')}
-            fill="none"
-            stroke={isDark ? '#a78bfa' : '#8b5cf6'}
-            strokeWidth={1.5}
-          />
-        )}
+        {/* Overlay studies: shaded areas first, then lines */}
+        {overlayStudies.map((study) => {
+          const toY = (value: number) => scaleY(value, priceRange.min, priceRange.max, dimensions.height, 30);
+          const drawn = study.definition.outputs.filter((output) => study.series[output.key]);
+          return (
+            <g key={`study-${study.definition.id}`}>
+              {drawn
+                .filter((output) => output.fillTo && output.fillColor && study.series[output.fillTo])
+                .map((output) => (
+                  <path
+                    key={`fill-${output.key}`}
+                    d={areaPath(study.series[output.key], study.series[output.fillTo!], candleMetrics, toY)}
+                    fill={themed(output.fillColor!, isDark)}
+                    stroke="none"
+                  />
+                ))}
+              {drawn.map((output) => (
+                <path
+                  key={`line-${output.key}`}
+                  d={seriesPath(study.series[output.key], candleMetrics, toY)}
+                  fill="none"
+                  stroke={themed(output.color, isDark)}
+                  strokeWidth={output.style === 'dashed' ? 1 : 1.5}
+                  strokeDasharray={output.style === 'dashed' ? '4 2' : undefined}
+                />
+              ))}
+            </g>
+          );
+        })}
 
         {/* Crosshair */}
         {hoveredCandle && (
@@ -538,120 +511,84 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
         </div>
       )}
 
-      {/* RSI Panel */}
-      {enabledStudies.rsi && rsiData.length > 0 && (
-        <div style={{ marginTop: 16 }}>
-          <div style={{ fontSize: 11, fontWeight: 600, color: textColor, marginBottom: 4 }}>RSI ({getRSIPeriod(timePeriod)})</div>
-          <svg width={dimensions.width} height={80} style={{ background: bgColor, borderRadius: 8 }}>
-            {/* RSI zone backgrounds */}
-            <rect x={70} y={0} width={dimensions.width - 90} height={16} fill={isDark ? 'rgba(239, 68, 68, 0.1)' : 'rgba(239, 68, 68, 0.05)'} />
-            <rect x={70} y={64} width={dimensions.width - 90} height={16} fill={isDark ? 'rgba(34, 197, 94, 0.1)' : 'rgba(34, 197, 94, 0.05)'} />
-            
-            {/* RSI levels */}
-            {[70, 50, 30].map((level) => {
-              const y = 8 + ((100 - level) / 100) * 64;
-              return (
-                <g key={`rsi-level-${level}`}>
-                  <line x1={70} x2={dimensions.width - 20} y1={y} y2={y} stroke={gridColor} strokeDasharray="4 4" strokeWidth={0.5} />
-                  <text x={65} y={y + 3} textAnchor="end" fill={textColor} fontSize={9}>{level}</text>
-                </g>
-              );
-            })}
-            
-            {/* RSI line */}
-            <path
-              d={candleMetrics.map((m, i) => {
-                const value = rsiData[i];
-                if (value === null || value === undefined) return '';
-                const y = 8 + ((100 - value) / 100) * 64;
-                return i === 0 || rsiData[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
-              }).join(' ')}
-              fill="none"
-              stroke={isDark ? '#a78bfa' : '#8b5cf6'}
-              strokeWidth={1.5}
-            />
-          </svg>
-        </div>
-      )}
-
-      {/* MACD Panel */}
-      {enabledStudies.macd && macdData.macdLine.length > 0 && (
-        <div style={{ marginTop: 16 }}>
-          <div style={{ fontSize: 11, fontWeight: 600, color: textColor, marginBottom: 4 }}>MACD</div>
-          <svg width={dimensions.width} height={80} style={{ background: bgColor, borderRadius: 8 }}>
-            {/* Zero line */}
-            <line x1={70} x2={dimensions.width - 20} y1={40} y2={40} stroke={gridColor} strokeWidth={0.5} />
-            <text x={65} y={43} textAnchor="end" fill={textColor} fontSize={9}>0</text>
-            
-            {/* MACD histogram */}
-            {(() => {
-              const validHistogram = macdData.histogram.filter((v): v is number => v !== null);
-              if (validHistogram.length === 0) return null;
-              const maxAbs = Math.max(...validHistogram.map(Math.abs), 0.01);
-              return candleMetrics.map((m, i) => {
-                const value = macdData.histogram[i];
-                if (value === null) return null;
-                const barHeight = Math.abs(value) / maxAbs * 32;
-                const y = value >= 0 ? 40 - barHeight : 40;
+      {/* Sub-pane studies */}
+      {subStudies.map((study) => {
+        const { definition, series } = study;
+        const scale = definition.scale ?? {};
+        const range = paneRange(study);
+        const plotHeight = PANE_HEIGHT - 2 * PANE_INSET;
+        const toY = (value: number) =>
+          PANE_INSET + ((range.max - value) / (range.max - range.min || 1)) * plotHeight;
+        const drawn = definition.outputs.filter((output) => series[output.key]);
+        const thresholds = scale.overbought !== undefined && scale.oversold !== undefined;
+        return (
+          <div key={`pane-${definition.id}`} style={{ marginTop: 16 }}>
+            <div style={{ fontSize: 11, fontWeight: 600, color: textColor, marginBottom: 4 }} title={study.description}>
+              {study.label}
+            </div>
+            <svg width={dimensions.width} height={PANE_HEIGHT} style={{ background: bgColor, borderRadius: 8 }}>
+              {/* Overbought/oversold zone backgrounds */}
+              {thresholds && (
+                <>
+                  <rect x={70} y={0} width={dimensions.width - 90} height={toY(scale.overbought!)} fill={isDark ? 'rgba(239, 68, 68, 0.1)' : 'rgba(239, 68, 68, 0.05)'} />
+                  <rect x={70} y={toY(scale.oversold!)} width={dimensions.width - 90} height={PANE_HEIGHT - toY(scale.oversold!)} fill={isDark ? 'rgba(34, 197, 94, 0.1)' : 'rgba(34, 197, 94, 0.05)'} />
+                </>
+              )}
+
+              {/* Reference levels */}
+              {(scale.levels ?? []).map((level) => {
+                const y = toY(level);
                 return (
-                  <rect
-                    key={`hist-${i}`}
-                    x={m.wickX - 1.5}
-                    y={y}
-                    width={3}
-                    height={barHeight}
-                    fill={value >= 0 ? (isDark ? '#34d399' : '#10b981') : (isDark ? '#f87171' : '#ef4444')}
-                    opacity={0.7}
-                  />
+                  <g key={`level-${level}`}>
+                    <line x1={70} x2={dimensions.width - 20} y1={y} y2={y} stroke={gridColor} strokeDasharray="4 4" strokeWidth={0.5} />
+                    <text x={65} y={y + 3} textAnchor="end" fill={textColor} fontSize={9}>{level}</text>
+                  </g>
                 );
-              });
-            })()}
-            
-            {/* MACD line */}
-            {(() => {
-              const validValues = macdData.macdLine.filter((v): v is number => v !== null);
-              if (validValues.length === 0) return null;
-              const maxAbs = Math.max(...validValues.map(Math.abs), ...macdData.signalLine.filter((v): v is number => v !== null).map(Math.abs), 0.01);
-              return (
+              })}
+
+              {/* Histograms, scaled to their own extent around the pane's centre */}
+              {drawn.filter((output) => output.style === 'histogram').map((output) => {
+                const values = series[output.key];
+                const maxAbs = Math.max(...values.filter((v): v is number => v !== null).map(Math.abs), 0.01);
+                const half = plotHeight / 2;
+                const zero = PANE_INSET + half;
+                return candleMetrics.map((m, i) => {
+                  const value = values[i];
+                  if (value === null || value === undefined) return null;
+                  const barHeight = Math.abs(value) / maxAbs * half;
+                  const negative = value < 0 && output.negativeColor;
+                  return (
+                    <rect
+                      key={`${output.key}-${i}`}
+                      x={m.wickX - 1.5}
+                      y={value >= 0 ? zero - barHeight : zero}
+                      width={3}
+                      height={barHeight}
+                      fill={themed(negative ? output.negativeColor! : output.color, isDark)}
+                      opacity={0.7}
+                    />
+                  );
+                });
+              })}
+
+              {/* Lines */}
+              {drawn.filter((output) => output.style !== 'histogram').map((output) => (
                 <path
-                  d={candleMetrics.map((m, i) => {
-                    const value = macdData.macdLine[i];
-                    if (value === null) return '';
-                    const y = 40 - (value / maxAbs) * 32;
-                    return i === 0 || macdData.macdLine[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
-                  }).join(' ')}
+                  key={output.key}
+                  d={seriesPath(series[output.key], candleMetrics, toY)}
                   fill="none"
-                  stroke={isDark ? '#22d3ee' : '#06b6d4'}
+                  stroke={themed(output.color, isDark)}
                   strokeWidth={1.5}
+                  strokeDasharray={output.style === 'dashed' ? '4 2' : undefined}
                 />
-              );
-            })()}
-            
-            {/* Signal line */}
-            {(() => {
-              const validValues = macdData.signalLine.filter((v): v is number => v !== null);
-              if (validValues.length === 0) return null;
-              const maxAbs = Math.max(...macdData.macdLine.filter((v): v is number => v !== null).map(Math.abs), ...validValues.map(Math.abs), 0.01);
-              return (
-                <path
-                  d={candleMetrics.map((m, i) => {
-                    const value = macdData.signalLine[i];
-                    if (value === null) return '';
-                    const y = 40 - (value / maxAbs) * 32;
-                    return i === 0 || macdData.signalLine[i - 1] === null ? `M${m.wickX},${y}` : `L${m.wickX},${y}`;
-                  }).join(' ')}
-                  fill="none"
-                  stroke={isDark ? '#f472b6' : '#ec4899'}
-                  strokeWidth={1.5}
-                />
-              );
-            })()}
-          </svg>
-        </div>
-      )}
+              ))}
+            </svg>
+          </div>
+        );
+      })}
 
       {/* Study legend */}
-      {(enabledStudies.sma || enabledStudies.bollingerBands) && (
+      {overlayStudies.length > 0 && (
         <div style={{ 
           display: 'flex', 
           gap: 16, 
@@ -660,23 +597,19 @@ export default function CandlestickChart({ ohlcData, loading }: CandlestickChart
           color: textColor,
           flexWrap: 'wrap'
         }}>
-          {enabledStudies.sma && (
-            <>
-              <span style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-                <span style={{ width: 12, height: 2, background: isDark ? '#fbbf24' : '#f59e0b' }} />
-                SMA({smaConfig.shortPeriod})
-              </span>
-              <span style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-                <span style={{ width: 12, height: 2, background: isDark ? '#a78bfa' : '#8b5cf6' }} />
-                SMA({smaConfig.longPeriod})
-              </span>
-            </>
-          )}
-          {enabledStudies.bollingerBands && (
-            <span style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-              <span style={{ width: 12, height: 2, background: isDark ? '#34d399' : '#22c55e' }} />
-              Bollinger Bands
-            </span>
+          {overlayStudies.flatMap((study) =>
+            study.definition.outputs
+              .filter((output) => study.series[output.key] && !output.hideInLegend)
+              .map((output) => (
+                <span
+                  key={`${study.definition.id}-${output.key}`}
+                  style={{ display: 'flex', alignItems: 'center', gap: 4 }}
+                  title={study.description}
+                >
+                  <span style={{ width: 12, height: 2, background: themed(output.color, isDark) }} />
+                  {outputLabel(output, study.params)}
+                </span>
+              ))
           )}
         </div>
       )}
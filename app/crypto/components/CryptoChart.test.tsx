@@ -2,21 +2,28 @@
  * Tests for CryptoChart component.
  *
  * CryptoChart renders a Chart.js line chart with optional technical indicators
- * (RSI, SMA, MACD, Bollinger Bands).  The `livePrice` prop enables imperitive
- * Chart.js updates without re-rendering React — this test suite verifies that:
+ * (RSI, SMA, MACD, Bollinger Bands).  The `liveTick` prop enables imperative
+ * Chart.js updates — this test suite verifies that:
  *
  *   1. The component renders (or shows a loading state) correctly
- *   2. The `livePrice` prop is accepted without errors
- *   3. When `livePrice` changes, the chart instance's last data-point is updated
- *      and `chart.update('none')` is called
+ *   2. The `liveTick` prop is accepted without errors
+ *   3. A tick within the point interval moves the newest price point in place
+ *      and calls `chart.update('none')`
+ *   4. A tick a full interval later appends a point, with the studies
+ *      recomputed so every series stays aligned
+ *   5. Ticks that only move the newest point keep the chart's data and
+ *      options, so react-chartjs-2 does not update the chart again
+ *   6. A custom `timeRange` ignores live ticks
  *
  * Chart.js is mocked so tests don't require a canvas environment.
  */
 
 import { render, screen, act } from '@testing-library/react';
 import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { Line } from 'react-chartjs-2';
 import CryptoChart from './CryptoChart';
-import type { ChartData } from '../types';
+import type { ChartData, EnabledStudies, TimePeriod, TimeRange } from '../types';
+import type { PriceTick } from '../realtime/types';
 
 // ---------------------------------------------------------------------------
 // Mock Chart.js / react-chartjs-2
@@ -24,23 +31,28 @@ import type { ChartData } from '../types';
 
 /** Tracks calls made to the chart instance returned by the mock. */
 const mockChartUpdate = vi.fn();
-let mockChartInstance: {
-  data: { datasets: { data: (number | null)[] }[] };
+interface MockChartInstance {
+  data: { labels: string[]; datasets: { label: string; data: (number | null)[] }[] };
   update: typeof mockChartUpdate;
-} | null = null;
+}
+let mockChartInstance: MockChartInstance | null = null;
 
 vi.mock('react-chartjs-2', () => ({
-  Line: vi.fn(({ ref: refCallback, data }: {
-    ref?: (instance: unknown) => void;
-    data: { datasets: { data: (number | null)[] }[] };
+  Line: vi.fn(({ ref, data }: {
+    ref?: ((instance: unknown) => void) | { current: unknown };
+    data: { labels: string[]; datasets: { label: string; data: (number | null)[] }[] };
   }) => {
-    // Simulate the ref callback that react-chartjs-2 uses internally
-    if (typeof refCallback === 'function') {
+    // Only the price chart takes a ref; hand it a copy of its data like Chart.js would
+    if (ref) {
       mockChartInstance = {
-        data: { datasets: [{ data: data.datasets[0]?.data?.slice() ?? [] }] },
+        data: {
+          labels: [...data.labels],
+          datasets: data.datasets.map((dataset) => ({ label: dataset.label, data: dataset.data.slice() })),
+        },
         update: mockChartUpdate,
       };
-      refCallback(mockChartInstance);
+      if (typeof ref === 'function') ref(mockChartInstance);
+      else ref.current = mockChartInstance;
     }
     return <canvas data-testid="price-chart" />;
   }),
@@ -64,18 +76,33 @@ vi.mock('chart.js', () => ({
 // Mock Zustand store
 // ---------------------------------------------------------------------------
 
+interface MockState {
+  theme: string;
+  timePeriod: TimePeriod;
+  timeRange: TimeRange | null;
+  enabledStudies: EnabledStudies;
+  currency: string;
+}
+
+const defaultState = (): MockState => ({
+  theme: 'dark',
+  timePeriod: '7',
+  timeRange: null,
+  enabledStudies: { rsi: false, sma: false, bollingerBands: false, macd: false },
+  currency: 'usd',
+});
+
+let mockState = defaultState();
+
 vi.mock('../store/cryptoStore', () => ({
-  useCryptoStore: () => ({
-    theme: 'dark',
-    timePeriod: '7',
-    enabledStudies: { rsi: false, sma: false, bollingerBands: false, macd: false },
-  }),
+  useCryptoStore: () => mockState,
 }));
 
 // ---------------------------------------------------------------------------
 // Sample data
 // ---------------------------------------------------------------------------
 
+const DAY_MS = 86_400_000;
 const now = Date.now();
 const sampleChartData: ChartData = {
   prices: [
@@ -91,9 +118,33 @@ const sampleChartData: ChartData = {
   total_volumes: [],
 };
 
+/** Two months of daily prices ending now, enough for every 7-day study */
+const longChartData: ChartData = {
+  prices: Array.from({ length: 60 }, (_, i) => [now - (59 - i) * DAY_MS, 40000 + Math.sin(i / 4) * 2000 + i * 50]),
+  market_caps: [],
+  total_volumes: [],
+};
+
+function tick(price: number, t = Date.now()): PriceTick {
+  return { t, price, source: 'coincap' };
+}
+
+/** Values of the price dataset on the chart instance */
+function priceValues(): (number | null)[] | undefined {
+  return mockChartInstance?.data.datasets.find((dataset) => dataset.label === 'Price')?.data;
+}
+
+/** Datasets of every line chart in the latest render, price chart and study panes alike */
+function renderedLineDatasets(): { label: string; data: (number | null)[] }[] {
+  const calls = vi.mocked(Line).mock.calls as unknown as [{ data: { datasets: { label: string; data: (number | null)[] }[] } }][];
+  const priceRenders = calls.map(([props], index) => ('ref' in props ? index : -1)).filter((index) => index >= 0);
+  return calls.slice(priceRenders[priceRenders.length - 1]).flatMap(([props]) => props.data.datasets);
+}
+
 beforeEach(() => {
   vi.clearAllMocks();
   mockChartInstance = null;
+  mockState = defaultState();
 });
 
 // ---------------------------------------------------------------------------
@@ -112,9 +163,9 @@ describe('CryptoChart', () => {
     expect(screen.getAllByTestId('price-chart').length).toBeGreaterThan(0);
   });
 
-  it('accepts a livePrice prop without throwing', () => {
+  it('accepts a liveTick prop without throwing', () => {
     expect(() =>
-      render(<CryptoChart coinData={sampleChartData} loading={false} livePrice={47000} />)
+      render(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(47000)} />)
     ).not.toThrow();
   });
 
@@ -123,39 +174,92 @@ describe('CryptoChart', () => {
     expect(screen.queryByTestId('price-chart')).toBeNull();
   });
 
-  it('updates the last dataset value when livePrice changes', async () => {
-    const { rerender } = render(
-      <CryptoChart coinData={sampleChartData} loading={false} livePrice={46000} />
-    );
+  it('moves the newest point when a tick arrives within the point interval', () => {
+    render(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46500)} />);
+
+    expect(priceValues()).toEqual([40000, 41000, 42000, 43000, 44000, 45000, 46500]);
+    expect(mockChartInstance?.data.labels).toHaveLength(7);
+    expect(mockChartUpdate).toHaveBeenCalledWith('none');
+  });
+
+  it('moves the price rather than the first dataset when bands are drawn behind it', () => {
+    mockState.enabledStudies = { ...mockState.enabledStudies, bollingerBands: true };
+    render(<CryptoChart coinData={longChartData} loading={false} liveTick={tick(50000)} />);
+
+    const [upper] = mockChartInstance?.data.datasets ?? [];
+    expect(upper?.label).toBe('BB Upper');
+    expect(upper?.data).toEqual(renderedLineDatasets().find((dataset) => dataset.label === 'BB Upper')?.data);
+    expect(priceValues()?.at(-1)).toBe(50000);
+  });
+
+  it('appends a point a full interval later and recomputes the studies for it', async () => {
+    mockState.enabledStudies = { rsi: true, sma: false, bollingerBands: true, macd: true };
+    const { rerender } = render(<CryptoChart coinData={longChartData} loading={false} />);
 
-    // Advance time by > 1 second so the throttle allows an update
     vi.useFakeTimers();
     vi.advanceTimersByTime(1100);
+    await act(async () => {
+      rerender(<CryptoChart coinData={longChartData} loading={false} liveTick={tick(50000, now + DAY_MS)} />);
+    });
+    vi.useRealTimers();
+
+    expect(priceValues()).toHaveLength(61);
+    expect(priceValues()?.at(-1)).toBe(50000);
+    expect(mockChartInstance?.data.labels).toHaveLength(61);
+
+    // Bands, RSI and MACD all gain the new point too
+    const datasets = renderedLineDatasets();
+    expect(datasets.map((dataset) => dataset.label)).toEqual(
+      expect.arrayContaining(['BB Upper', 'Price', 'RSI', 'MACD', 'Signal'])
+    );
+    datasets.forEach((dataset) => expect(dataset.data).toHaveLength(61));
+    expect(datasets.find((dataset) => dataset.label === 'BB Upper')?.data.at(-1)).not.toBeNull();
+  });
 
+  it('settles the forming point at its last live price before appending', async () => {
+    vi.useFakeTimers();
+    const { rerender } = render(
+      <CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46500)} />
+    );
+
+    vi.advanceTimersByTime(1100);
     await act(async () => {
-      rerender(<CryptoChart coinData={sampleChartData} loading={false} livePrice={48000} />);
+      rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(47000, now + DAY_MS)} />);
     });
+    vi.useRealTimers();
+
+    expect(priceValues()).toEqual([40000, 41000, 42000, 43000, 44000, 45000, 46500, 47000]);
+  });
+
+  it('drops appended points when new chart data arrives', async () => {
+    const { rerender } = render(<CryptoChart coinData={sampleChartData} loading={false} />);
 
+    vi.useFakeTimers();
+    vi.advanceTimersByTime(1100);
+    await act(async () => {
+      rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(47000, now + DAY_MS)} />);
+    });
     vi.useRealTimers();
+    expect(priceValues()).toHaveLength(8);
 
-    // If the chart instance was captured and update called, the last data point
-    // should have been mutated imperatively
-    if (mockChartInstance) {
-      expect(mockChartUpdate).toHaveBeenCalledWith('none');
-    }
+    const refetched = { ...sampleChartData, prices: [...sampleChartData.prices] };
+    await act(async () => {
+      rerender(<CryptoChart coinData={refetched} loading={false} />);
+    });
+    expect(priceValues()).toHaveLength(7);
   });
 
-  it('throttles rapid livePrice updates to at most 1 per second', async () => {
+  it('throttles rapid live ticks to at most 1 update per second', async () => {
     vi.useFakeTimers();
 
     const { rerender } = render(
-      <CryptoChart coinData={sampleChartData} loading={false} livePrice={46000} />
+      <CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46000)} />
     );
 
     // Fire several updates within 1 second
-    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} livePrice={46100} />); });
-    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} livePrice={46200} />); });
-    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} livePrice={46300} />); });
+    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46100)} />); });
+    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46200)} />); });
+    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46300)} />); });
 
     // Should not have called update more than once (first call triggers it,
     // subsequent calls within 1 s are throttled)
@@ -164,4 +268,32 @@ describe('CryptoChart', () => {
 
     vi.useRealTimers();
   });
+
+  it('keeps the price chart data and options while ticks move the newest point', async () => {
+    vi.useFakeTimers();
+    const { rerender } = render(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46000)} />);
+    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46100)} />); });
+    await act(async () => { rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(46200)} />); });
+    vi.useRealTimers();
+
+    const calls = vi.mocked(Line).mock.calls as unknown as [{ ref?: unknown; data: unknown; options: unknown }][];
+    const priceRenders = calls.map(([props]) => props).filter((props) => props.ref);
+    expect(priceRenders).toHaveLength(3);
+    expect(new Set(priceRenders.map((props) => props.data)).size).toBe(1);
+    expect(new Set(priceRenders.map((props) => props.options)).size).toBe(1);
+  });
+
+  it('leaves a custom range untouched by live ticks', async () => {
+    // A past window, e.g. the 2022 bear market
+    mockState.timeRange = { from: 1_640_995_200, to: 1_672_531_200 };
+    const { rerender } = render(<CryptoChart coinData={sampleChartData} loading={false} />);
+    const before = priceValues()?.slice();
+
+    await act(async () => {
+      rerender(<CryptoChart coinData={sampleChartData} loading={false} liveTick={tick(99000)} />);
+    });
+
+    expect(priceValues()).toEqual(before);
+    expect(mockChartUpdate).not.toHaveBeenCalled();
+  });
 });
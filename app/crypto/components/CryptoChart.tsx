@@ -1,6 +1,7 @@
 'use client';
 
-import { useMemo, useRef, useEffect } from 'react';
+import { memo, useMemo, useRef, useEffect, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { Line, Bar } from 'react-chartjs-2';
 import type { Chart as ChartJSType } from 'chart.js';
 import {
@@ -15,22 +16,13 @@ import {
   Legend,
   Filler,
   ChartOptions,
-  ChartData as ChartJSData,
 } from 'chart.js';
 import { format } from 'date-fns';
 import { useCryptoStore } from '../store/cryptoStore';
-import {
-  calculateSMA,
-  calculateMACD,
-  calculateBollingerBands,
-  getSMAConfig,
-  getMACDConfig,
-  getBollingerConfig,
-  SMA_INFO,
-  MACD_INFO,
-  BOLLINGER_INFO,
-} from '../utils/indicators';
-import type { ChartData, CryptoChartProps, RSIConfigMap, IndicatorInfo, TimePeriod, MACDData, BollingerBandsData } from '../types';
+import { computeStudies, latestReading, outputLabel } from '../indicators';
+import type { ComputedStudy, ThemeColor } from '../indicators';
+import { formatAxisPrice, formatPrice } from '../utils/currency';
+import type { ChartData, CryptoChartProps, TimePeriod } from '../types';
 
 ChartJS.register(
   CategoryScale,
@@ -44,63 +36,6 @@ ChartJS.register(
   Filler
 );
 
-// Calculate RSI (Relative Strength Index)
-function calculateRSI(prices: number[], period: number = 14): (number | null)[] {
-  if (prices.length < period + 1) return [];
-  
-  const rsiValues: (number | null)[] = [];
-  const changes: number[] = [];
-  
-  // Calculate price changes
-  for (let i = 1; i < prices.length; i++) {
-    changes.push(prices[i] - prices[i - 1]);
-  }
-  
-  // Calculate initial averages
-  let avgGain = 0;
-  let avgLoss = 0;
-  
-  for (let i = 0; i < period; i++) {
-    if (changes[i] > 0) avgGain += changes[i];
-    else avgLoss += Math.abs(changes[i]);
-  }
-  
-  avgGain /= period;
-  avgLoss /= period;
-  
-  // Fill initial values with null
-  for (let i = 0; i < period; i++) {
-    rsiValues.push(null);
-  }
-  
-  // Calculate first RSI
-  if (avgLoss === 0) {
-    rsiValues.push(100);
-  } else {
-    const rs = avgGain / avgLoss;
-    rsiValues.push(100 - (100 / (1 + rs)));
-  }
-  
-  // Calculate subsequent RSI values using smoothed averages
-  for (let i = period; i < changes.length; i++) {
-    const change = changes[i];
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? Math.abs(change) : 0;
-    
-    avgGain = (avgGain * (period - 1) + gain) / period;
-    avgLoss = (avgLoss * (period - 1) + loss) / period;
-    
-    if (avgLoss === 0) {
-      rsiValues.push(100);
-    } else {
-      const rs = avgGain / avgLoss;
-      rsiValues.push(100 - (100 / (1 + rs)));
-    }
-  }
-  
-  return rsiValues;
-}
-
 // Calculate percentage change over the period
 function calculatePeriodChange(prices: number[]): number | null {
   if (!prices || prices.length < 2) return null;
@@ -109,71 +44,6 @@ function calculatePeriodChange(prices: number[]): number | null {
   return ((lastPrice - firstPrice) / firstPrice) * 100;
 }
 
-/**
- * RSI (Relative Strength Index) Configuration
- * 
- * Based on J. Welles Wilder Jr.'s original work and modern trading practices:
- * - Standard period: 14 (balanced response, suitable for swing trading)
- * - Shorter periods (5-9): More sensitive, captures quick momentum shifts, more noise
- * - Longer periods (21-30): Smoother signals, better for identifying major trends
- * 
- * Overbought/Oversold Levels:
- * - Above 70: Overbought - potential selling opportunity or strong bullish momentum
- * - Below 30: Oversold - potential buying opportunity or strong bearish momentum
- * - 50 is neutral (bullish momentum above, bearish below)
- * 
- * Source: Investopedia - https://www.investopedia.com/terms/r/rsi.asp
- */
-const RSI_CONFIG: RSIConfigMap = {
-  '1': {
-    period: 9,
-    description: 'RSI(9) - Shorter period for intraday analysis. More responsive to price changes, ideal for capturing quick momentum shifts in 24-hour data.',
-    rationale: 'With hourly data points over 24 hours, a 9-period RSI provides sensitivity to short-term momentum while reducing noise compared to even shorter periods.'
-  },
-  '7': {
-    period: 14,
-    description: 'RSI(14) - Standard period recommended by J. Welles Wilder. Balanced response suitable for weekly swing trading analysis.',
-    rationale: 'The default 14-period setting provides a good balance between sensitivity and reliability for week-long price movements.'
-  },
-  '30': {
-    period: 14,
-    description: 'RSI(14) - Standard period for monthly analysis. Captures medium-term momentum trends effectively.',
-    rationale: 'For 30-day analysis, the standard 14-period RSI remains effective as it balances responsiveness with signal reliability.'
-  },
-  '365': {
-    period: 21,
-    description: 'RSI(21) - Extended period for long-term trend analysis. Smoother signals that filter out short-term noise.',
-    rationale: 'Longer periods reduce false signals and better identify major trend reversals in yearly data, as recommended for long-term investors.'
-  },
-  default: {
-    period: 14,
-    description: 'RSI(14) - Standard Relative Strength Index period.',
-    rationale: 'The industry-standard 14-period RSI as originally designed by J. Welles Wilder Jr.'
-  }
-};
-
-// RSI educational info for tooltips
-const RSI_INFO: IndicatorInfo = {
-  title: 'Relative Strength Index (RSI)',
-  description: 'A momentum oscillator measuring the speed and magnitude of price changes to identify overbought or oversold conditions.',
-  levels: {
-    overbought: 'RSI > 70: Asset may be overbought. In uptrends, this can indicate strong momentum rather than an immediate reversal.',
-    oversold: 'RSI < 30: Asset may be oversold. In downtrends, prices can remain oversold for extended periods.',
-    neutral: 'RSI = 50: Neutral point. Above 50 suggests bullish momentum, below 50 suggests bearish momentum.'
-  },
-  source: 'https://www.investopedia.com/terms/r/rsi.asp'
-};
-
-// Get RSI period based on time selection
-function getRSIPeriod(timePeriod: TimePeriod): number {
-  return RSI_CONFIG[timePeriod]?.period || RSI_CONFIG.default.period;
-}
-
-// Get RSI description for current time period
-function getRSIDescription(timePeriod: TimePeriod): string {
-  return RSI_CONFIG[timePeriod]?.description || RSI_CONFIG.default.description;
-}
-
 // Get time period label
 function getTimePeriodLabel(timePeriod: TimePeriod): string {
   switch (timePeriod) {
@@ -181,184 +51,380 @@ function getTimePeriodLabel(timePeriod: TimePeriod): string {
     case '7': return '7d';
     case '30': return '30d';
     case '365': return '1y';
+    case 'max': return 'All-time';
     default: return `${timePeriod}d`;
   }
 }
 
-type RSIStatus = 'overbought' | 'oversold' | 'neutral';
-
-// Color constants for indicators
-const COLORS = {
-  smaShort: { light: '#f59e0b', dark: '#fbbf24' },
-  smaLong: { light: '#8b5cf6', dark: '#a78bfa' },
-  bollingerBand: { light: 'rgba(34, 197, 94, 0.15)', dark: 'rgba(52, 211, 153, 0.15)' },
-  bollingerMiddle: { light: '#22c55e', dark: '#34d399' },
-  macdLine: { light: '#06b6d4', dark: '#22d3ee' },
-  macdSignal: { light: '#ec4899', dark: '#f472b6' },
-  macdHistogramPos: { light: '#10b981', dark: '#34d399' },
-  macdHistogramNeg: { light: '#ef4444', dark: '#f87171' },
+// X-axis label for a price point
+function formatPointLabel(timestamp: number, timePeriod: TimePeriod): string {
+  const date = new Date(timestamp);
+  if (timePeriod === '1') {
+    return format(date, 'HH:mm');
+  } else if (timePeriod === '365' || timePeriod === 'max') {
+    return format(date, 'MMM yyyy');
+  }
+  return format(date, 'MMM d');
+}
+
+/**
+ * Historical points with the live points appended.  A live point at the time
+ * of the newest point replaces it (the forming point settling); later ones
+ * extend the series.
+ */
+function withLivePoints(points: [number, number][], live: [number, number][]): [number, number][] {
+  const merged = [...points];
+  for (const point of live) {
+    const newest = merged[merged.length - 1];
+    if (newest && point[0] === newest[0]) merged[merged.length - 1] = point;
+    else if (!newest || point[0] > newest[0]) merged.push(point);
+  }
+  return merged;
+}
+
+// Indicator color for the current theme
+function themed(color: ThemeColor, isDark: boolean): string {
+  return isDark ? color.dark : color.light;
+}
+
+// Price chart dataset, typed for the overlay builders
+type ChartDataset = {
+  label: string;
+  data: (number | null)[];
+  borderColor: string;
+  backgroundColor: string;
+  fill: boolean | string;
+  tension: number;
+  pointRadius: number;
+  pointHoverRadius?: number;
+  pointHoverBackgroundColor?: string;
+  borderWidth: number;
+  order?: number;
+  borderDash?: number[];
 };
 
+// One dataset per drawn output; `fillTo` becomes a relative Chart.js fill target
+function overlayDatasets(study: ComputedStudy, isDark: boolean): ChartDataset[] {
+  const drawn = study.definition.outputs.filter((output) => study.series[output.key]);
+  return drawn.map((output, index) => {
+    const target = output.fillTo ? drawn.findIndex((other) => other.key === output.fillTo) : -1;
+    const offset = target - index;
+    return {
+      label: outputLabel(output, study.params),
+      data: study.series[output.key],
+      borderColor: themed(output.color, isDark),
+      backgroundColor: target >= 0 && output.fillColor ? themed(output.fillColor, isDark) : 'transparent',
+      fill: target >= 0 ? `${offset > 0 ? '+' : ''}${offset}` : false,
+      tension: 0.4,
+      pointRadius: 0,
+      pointHoverRadius: 0,
+      pointHoverBackgroundColor: 'transparent',
+      borderWidth: output.style === 'dashed' ? 1 : 2,
+      ...(output.style === 'dashed' ? { borderDash: [5, 5] } : {}),
+    };
+  });
+}
+
+interface StudyPaneProps {
+  study: ComputedStudy;
+  labels: string[];
+  isDark: boolean;
+}
+
+/**
+ * Sub-pane for one study: histogram outputs in a bar chart above the line
+ * outputs, with overbought/oversold zones for oscillators.  Memoized: its
+ * study and labels only change when a live tick appends a point.
+ */
+const StudyPane = memo(function StudyPane({ study, labels, isDark }: StudyPaneProps) {
+  const { definition, series } = study;
+  const scale = definition.scale ?? {};
+  const precision = scale.precision ?? 2;
+  const fixed = scale.min !== undefined && scale.max !== undefined;
+  const thresholds = fixed && scale.overbought !== undefined && scale.oversold !== undefined;
+  const drawn = definition.outputs.filter((output) => series[output.key]);
+  const histograms = drawn.filter((output) => output.style === 'histogram');
+  const lines = drawn.filter((output) => output.style !== 'histogram');
+  const textColor = isDark ? '#9ca3af' : '#6b7280';
+  const tooltip = {
+    backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.9)',
+    titleColor: isDark ? '#fff' : '#000',
+    bodyColor: isDark ? '#fff' : '#000',
+    borderColor: isDark ? '#374151' : '#e5e7eb',
+    borderWidth: 1,
+    padding: 12,
+  };
+
+  // Centered panes keep zero in the middle
+  const maxAbs = scale.centered
+    ? Math.max(...lines.flatMap((output) => series[output.key].filter((v): v is number => v !== null).map(Math.abs)), 0.01)
+    : null;
+
+  const lineData = {
+    labels,
+    datasets: lines.map((output) => ({
+      label: outputLabel(output, study.params),
+      data: series[output.key],
+      borderColor: themed(output.color, isDark),
+      backgroundColor: 'transparent',
+      tension: 0.4,
+      pointRadius: 0,
+      pointHoverRadius: lines.length > 1 ? 0 : 4,
+      borderWidth: 2,
+      ...(output.style === 'dashed' ? { borderDash: [5, 5] } : {}),
+    })),
+  };
+
+  const lineOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: {
+        display: lines.length > 1,
+        position: 'top',
+        align: 'end',
+        labels: {
+          boxWidth: 12,
+          padding: 8,
+          font: { size: 10 },
+          color: textColor,
+        },
+      },
+      tooltip: {
+        ...tooltip,
+        displayColors: lines.length > 1,
+        callbacks: {
+          label: (context) =>
+            `${lines.length > 1 ? context.dataset.label : study.label}: ${context.parsed.y?.toFixed(precision) ?? 'N/A'}`,
+        },
+      },
+    },
+    scales: {
+      x: { display: false },
+      y: {
+        display: true,
+        position: 'right',
+        min: maxAbs !== null ? -maxAbs : scale.min,
+        max: maxAbs !== null ? maxAbs : scale.max,
+        grid: { color: isDark ? 'rgba(55, 65, 81, 0.5)' : 'rgba(229, 231, 235, 0.5)' },
+        ticks: {
+          color: textColor,
+          font: { size: 11 },
+          callback: (value) => (fixed ? String(value) : Number(value).toFixed(2)),
+        },
+        // Fixed-range oscillators only label their reference levels
+        ...(fixed && scale.levels
+          ? { afterBuildTicks: (axis) => { axis.ticks = scale.levels!.map((value) => ({ value })); } }
+          : {}),
+      },
+    },
+  };
+
+  const histogramData = {
+    labels,
+    datasets: histograms.map((output) => ({
+      label: outputLabel(output, study.params),
+      data: series[output.key],
+      backgroundColor: series[output.key].map((value) =>
+        value !== null && value < 0 && output.negativeColor
+          ? themed(output.negativeColor, isDark)
+          : themed(output.color, isDark)
+      ),
+      borderWidth: 0,
+      barPercentage: 0.8,
+    })),
+  };
+
+  const histogramOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: tooltip.backgroundColor,
+        titleColor: tooltip.titleColor,
+        bodyColor: tooltip.bodyColor,
+        callbacks: {
+          label: (context) => `${context.dataset.label}: ${context.parsed.y?.toFixed(precision) ?? 'N/A'}`,
+        },
+      },
+    },
+    scales: {
+      x: { display: false },
+      y: { display: false, grid: { display: false } },
+    },
+  };
+
+  const zoneHeight = (from: number, to: number) => `${(Math.abs(to - from) / (scale.max! - scale.min!)) * 100}%`;
+
+  return (
+    <div className="study-pane">
+      <div className="study-pane-header">
+        <a
+          href={definition.info.source}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="indicator-label-link"
+          title={study.description}
+        >
+          <span className="indicator-label">{study.label}</span>
+          <span className="info-icon">ⓘ</span>
+        </a>
+        {thresholds && (
+          <div className="study-levels">
+            <span className="level overbought" title={definition.info.levels?.overbought}>
+              {scale.overbought} - Overbought
+            </span>
+            <span className="level oversold" title={definition.info.levels?.oversold}>
+              {scale.oversold} - Oversold
+            </span>
+          </div>
+        )}
+      </div>
+      <div className={`study-pane-wrapper ${histograms.length > 0 ? 'with-histogram' : ''}`}>
+        {/* Overbought/Oversold zones */}
+        {thresholds && (
+          <div className="study-zones">
+            <div className="overbought-zone" style={{ height: zoneHeight(scale.max!, scale.overbought!) }}></div>
+            <div className="oversold-zone" style={{ height: zoneHeight(scale.oversold!, scale.min!) }}></div>
+          </div>
+        )}
+        {histograms.length > 0 && (
+          <div className="study-pane-histogram">
+            <Bar data={histogramData} options={histogramOptions} />
+          </div>
+        )}
+        {lines.length > 0 && (
+          <div className="study-pane-lines">
+            <Line data={lineData} options={lineOptions} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
 /** Throttle live chart updates to at most one repaint per second. */
 const LIVE_UPDATE_THROTTLE_MS = 1_000;
 
-export default function CryptoChart({ coinData, loading, livePrice }: CryptoChartProps) {
-  const { theme, timePeriod, enabledStudies } = useCryptoStore();
+export default function CryptoChart({ coinData, loading, liveTick }: CryptoChartProps) {
+  // Only the fields used here, so live price merges do not re-render the chart
+  const { theme, timePeriod, timeRange, enabledStudies, currency } = useCryptoStore(
+    useShallow((state) => ({
+      theme: state.theme,
+      timePeriod: state.timePeriod,
+      timeRange: state.timeRange,
+      enabledStudies: state.enabledStudies,
+      currency: state.currency,
+    }))
+  );
   const isDark = theme === 'dark';
 
   /**
-   * Ref to the price Line chart instance.  Used for imperative updates when
-   * live WebSocket prices arrive so we avoid a full React re-render of this
-   * 800-line component on every tick.
+   * Ref to the price Line chart instance.  A live tick that only moves the
+   * forming point is drawn through it, so the chart is repainted at most once
+   * per LIVE_UPDATE_THROTTLE_MS however often ticks re-render this component.
    */
   const priceChartRef = useRef<ChartJSType<'line'> | null>(null);
   /** Epoch ms of the last imperative chart update — used to throttle repaints. */
   const lastLiveUpdateRef = useRef<number>(0);
+  /** Newest point on the price chart, historical or appended live, as [time, price]. */
+  const lastPointRef = useRef<[number, number] | null>(null);
+  /**
+   * Points appended from live ticks, for the `coinData` they extend.  They go
+   * through state so the studies are recomputed and stay aligned with the price.
+   */
+  const [live, setLive] = useState<{ source: ChartData | null; points: [number, number][] }>({
+    source: null,
+    points: [],
+  });
+  const livePoints = live.source === coinData ? live.points : null;
+
+  // Spacing of the historical points; live ticks open a new point this often
+  const pointIntervalMs = useMemo(() => {
+    const points = coinData?.prices;
+    if (!points || points.length < 2) return null;
+    return (points[points.length - 1][0] - points[0][0]) / (points.length - 1);
+  }, [coinData]);
+
+  useEffect(() => {
+    const points = coinData?.prices;
+    lastPointRef.current = points?.length ? points[points.length - 1] : null;
+  }, [coinData]);
 
   /**
-   * Imperatively update the last data-point on the price chart whenever a new
-   * live price arrives.  chart.update('none') skips animations, giving a
-   * smooth continuous feel rather than a jarring frame jump.
+   * Add live ticks to the price chart.  Ticks within a point interval of the
+   * newest point move that point, which is still forming: the price dataset
+   * is updated imperatively and chart.update('none') skips animations, giving
+   * a smooth continuous feel without a React re-render.  A tick a full
+   * interval later settles the forming point and appends a new one through
+   * state, so overlays and study panes are recomputed for it.
    *
-   * This effect only touches the Chart.js instance; it does NOT trigger a
-   * React re-render of the component.
+   * A custom range ended in the past, so live ticks never touch it.
    */
   useEffect(() => {
-    if (livePrice == null) return;
+    const lastPoint = lastPointRef.current;
+    if (!liveTick || timeRange || !coinData || pointIntervalMs === null || lastPoint === null) return;
     const chart = priceChartRef.current;
     if (!chart) return;
 
-    const dataset = chart.data.datasets[0]?.data;
+    // Shaded overlays are drawn behind the price, so it is not always first
+    const dataset = chart.data.datasets.find((candidate) => candidate.label === 'Price')?.data;
     if (!dataset || dataset.length === 0) return;
 
     const now = Date.now();
     if (now - lastLiveUpdateRef.current < LIVE_UPDATE_THROTTLE_MS) return;
     lastLiveUpdateRef.current = now;
 
-    // Replace the last (most-recent) price point with the live WebSocket price.
-    dataset[dataset.length - 1] = livePrice;
+    if (liveTick.t - lastPoint[0] >= pointIntervalMs) {
+      const point: [number, number] = [liveTick.t, liveTick.price];
+      lastPointRef.current = point;
+      setLive((current) => ({
+        source: coinData,
+        points: [...(current.source === coinData ? current.points : []), lastPoint, point],
+      }));
+      return;
+    }
+
+    lastPointRef.current = [lastPoint[0], liveTick.price];
+    dataset[dataset.length - 1] = liveTick.price;
     chart.update('none');
-  }, [livePrice]);
+  }, [liveTick, timeRange, coinData, pointIntervalMs]);
 
-  // Calculate all indicators
-  const {
-    rsiData,
-    periodChange,
-    prices,
-    labels,
-    rsiPeriod,
-    rsiDescription,
-    smaShort,
-    smaLong,
-    smaConfig,
-    bollingerBands,
-    bollingerConfig,
-    macdData,
-    macdConfig,
-  } = useMemo(() => {
+  // Series and the enabled studies computed from them
+  const { periodChange, prices, labels, studies } = useMemo(() => {
     if (!coinData || !coinData.prices || coinData.prices.length === 0) {
-      return {
-        rsiData: [],
-        periodChange: null,
-        prices: [],
-        labels: [],
-        rsiPeriod: 14,
-        rsiDescription: '',
-        smaShort: [],
-        smaLong: [],
-        smaConfig: getSMAConfig(timePeriod),
-        bollingerBands: { upper: [], middle: [], lower: [] } as BollingerBandsData,
-        bollingerConfig: getBollingerConfig(timePeriod),
-        macdData: { macdLine: [], signalLine: [], histogram: [] } as MACDData,
-        macdConfig: getMACDConfig(timePeriod),
-      };
+      return { periodChange: null, prices: [], labels: [], studies: [] as ComputedStudy[] };
     }
 
-    const priceValues = coinData.prices.map(([_, price]) => price);
-    const calculatedRsiPeriod = getRSIPeriod(timePeriod);
-    const rsi = calculateRSI(priceValues, calculatedRsiPeriod);
-    const change = calculatePeriodChange(priceValues);
-    
-    const formattedLabels = coinData.prices.map(([timestamp]) => {
-      const date = new Date(timestamp);
-      if (timePeriod === '1') {
-        return format(date, 'HH:mm');
-      } else if (timePeriod === '365') {
-        return format(date, 'MMM yyyy');
-      }
-      return format(date, 'MMM d');
-    });
-
-    // SMA calculations
-    const smaConf = getSMAConfig(timePeriod);
-    const shortSMA = calculateSMA(priceValues, smaConf.shortPeriod);
-    const longSMA = calculateSMA(priceValues, smaConf.longPeriod);
-
-    // Bollinger Bands calculations
-    const bbConf = getBollingerConfig(timePeriod);
-    const bb = calculateBollingerBands(priceValues, bbConf.period, bbConf.stdDev);
-
-    // MACD calculations
-    const macdConf = getMACDConfig(timePeriod);
-    const macd = calculateMACD(priceValues, macdConf.fastPeriod, macdConf.slowPeriod, macdConf.signalPeriod);
+    const points = livePoints ? withLivePoints(coinData.prices, livePoints) : coinData.prices;
+    const priceValues = points.map(([_, price]) => price);
+    // Volumes only line up with the prices when the upstream sent one per point
+    const volumes = coinData.total_volumes?.map(([, volume]) => volume);
 
     return {
-      rsiData: rsi,
-      periodChange: change,
+      periodChange: calculatePeriodChange(priceValues),
       prices: priceValues,
-      labels: formattedLabels,
-      rsiPeriod: calculatedRsiPeriod,
-      rsiDescription: getRSIDescription(timePeriod),
-      smaShort: shortSMA,
-      smaLong: longSMA,
-      smaConfig: smaConf,
-      bollingerBands: bb,
-      bollingerConfig: bbConf,
-      macdData: macd,
-      macdConfig: macdConf,
+      labels: points.map(([timestamp]) => formatPointLabel(timestamp, timePeriod)),
+      studies: computeStudies(
+        enabledStudies,
+        { close: priceValues, volume: volumes?.length === priceValues.length ? volumes : undefined },
+        timePeriod
+      ),
     };
-  }, [coinData, timePeriod]);
-
-  // Get RSI info link
-  const rsiInfoUrl = RSI_INFO.source;
+  }, [coinData, livePoints, timePeriod, enabledStudies]);
 
-  if (loading) {
-    return (
-      <div className="chart-skeleton">
-        <div className="animate-pulse">
-          <div className="chart-loading-placeholder"></div>
-        </div>
-      </div>
-    );
-  }
+  // Chart.js data and options, memoized so a re-render for a live tick that
+  // only moves the forming point hands react-chartjs-2 the same objects and
+  // does not trigger another chart.update()
+  const { overlayStudies, subStudies, priceChartData, priceOptions } = useMemo(() => {
+    const overlayStudies = studies.filter((study) => study.definition.pane === 'overlay');
+    const subStudies = studies.filter((study) => study.definition.pane === 'sub');
 
-  if (!coinData || !coinData.prices || coinData.prices.length === 0) {
-    return (
-      <div className="chart-empty">
-        <p>No chart data available</p>
-      </div>
-    );
-  }
-
-  // Build price chart datasets with proper typing
-  type ChartDataset = {
-    label: string;
-    data: (number | null)[];
-    borderColor: string;
-    backgroundColor: string;
-    fill: boolean | string;
-    tension: number;
-    pointRadius: number;
-    pointHoverRadius?: number;
-    pointHoverBackgroundColor?: string;
-    borderWidth: number;
-    order?: number;
-    borderDash?: number[];
-  };
-
-  // Price chart data
-  const priceDatasets: ChartDataset[] = [
-    {
+    // Price chart data
+    const priceDataset: ChartDataset = {
       label: 'Price',
       data: prices,
       borderColor: periodChange !== null && periodChange >= 0 
@@ -376,383 +442,156 @@ export default function CryptoChart({ coinData, loading, livePrice }: CryptoChar
         : (isDark ? '#f87171' : '#ef4444'),
       borderWidth: 2,
       order: 1,
-    },
-  ];
-
-  // Add Bollinger Bands (before price so it appears behind)
-  if (enabledStudies.bollingerBands && bollingerBands.upper.length > 0) {
-    priceDatasets.unshift(
-      {
-        label: 'BB Upper',
-        data: bollingerBands.upper,
-        borderColor: isDark ? COLORS.bollingerMiddle.dark : COLORS.bollingerMiddle.light,
-        backgroundColor: isDark ? COLORS.bollingerBand.dark : COLORS.bollingerBand.light,
-        fill: '+1',
-        tension: 0.4,
-        pointRadius: 0,
-        pointHoverRadius: 0,
-        pointHoverBackgroundColor: 'transparent',
-        borderWidth: 1,
-        borderDash: [5, 5],
-      },
-      {
-        label: 'BB Middle',
-        data: bollingerBands.middle,
-        borderColor: isDark ? COLORS.bollingerMiddle.dark : COLORS.bollingerMiddle.light,
-        backgroundColor: 'transparent',
-        fill: false,
-        tension: 0.4,
-        pointRadius: 0,
-        pointHoverRadius: 0,
-        pointHoverBackgroundColor: 'transparent',
-        borderWidth: 1.5,
-      },
-      {
-        label: 'BB Lower',
-        data: bollingerBands.lower,
-        borderColor: isDark ? COLORS.bollingerMiddle.dark : COLORS.bollingerMiddle.light,
-        backgroundColor: 'transparent',
-        fill: false,
-        tension: 0.4,
-        pointRadius: 0,
-        pointHoverRadius: 0,
-        pointHoverBackgroundColor: 'transparent',
-        borderWidth: 1,
-        borderDash: [5, 5],
-      }
-    );
-  }
-
-  // Add SMA lines (on top of price)
-  if (enabledStudies.sma) {
-    if (smaShort.length > 0) {
-      priceDatasets.push({
-        label: `SMA ${smaConfig.shortPeriod}`,
-        data: smaShort,
-        borderColor: isDark ? COLORS.smaShort.dark : COLORS.smaShort.light,
-        backgroundColor: 'transparent',
-        fill: false,
-        tension: 0.4,
-        pointRadius: 0,
-        pointHoverRadius: 0,
-        pointHoverBackgroundColor: 'transparent',
-        borderWidth: 2,
-      });
-    }
-    if (smaLong.length > 0) {
-      priceDatasets.push({
-        label: `SMA ${smaConfig.longPeriod}`,
-        data: smaLong,
-        borderColor: isDark ? COLORS.smaLong.dark : COLORS.smaLong.light,
-        backgroundColor: 'transparent',
-        fill: false,
-        tension: 0.4,
-        pointRadius: 0,
-        pointHoverRadius: 0,
-        pointHoverBackgroundColor: 'transparent',
-        borderWidth: 2,
-      });
-    }
-  }
-
-  // Create price chart data object
-  const priceChartData = {
-    labels,
-    datasets: priceDatasets,
-  };
-
-  // RSI chart data
-  const rsiChartData = {
-    labels,
-    datasets: [
-      {
-        label: 'RSI',
-        data: rsiData,
-        borderColor: isDark ? '#a78bfa' : '#8b5cf6',
-        backgroundColor: 'transparent',
-        tension: 0.4,
-        pointRadius: 0,
-        pointHoverRadius: 4,
-        borderWidth: 2,
-      },
-    ],
-  };
-
-  // MACD chart data
-  const macdChartData = {
-    labels,
-    datasets: [
-      {
-        label: 'MACD',
-        data: macdData.macdLine,
-        borderColor: isDark ? COLORS.macdLine.dark : COLORS.macdLine.light,
-        backgroundColor: 'transparent',
-        tension: 0.4,
-        pointRadius: 0,
-        borderWidth: 2,
-      },
-      {
-        label: 'Signal',
-        data: macdData.signalLine,
-        borderColor: isDark ? COLORS.macdSignal.dark : COLORS.macdSignal.light,
-        backgroundColor: 'transparent',
-        tension: 0.4,
-        pointRadius: 0,
-        borderWidth: 2,
-      },
-    ],
-  };
+    };
 
-  // MACD Histogram data
-  const histogramColors = macdData.histogram.map(val => 
-    val !== null && val >= 0 
-      ? (isDark ? COLORS.macdHistogramPos.dark : COLORS.macdHistogramPos.light)
-      : (isDark ? COLORS.macdHistogramNeg.dark : COLORS.macdHistogramNeg.light)
-  );
+    // Shaded studies (bands) go before the price so they appear behind it, lines on top
+    const behindPrice: ChartDataset[] = [];
+    const abovePrice: ChartDataset[] = [];
+    overlayStudies.forEach((study) => {
+      const shaded = study.definition.outputs.some((output) => output.fillTo);
+      (shaded ? behindPrice : abovePrice).push(...overlayDatasets(study, isDark));
+    });
+    const overlayLabels = new Set([...behindPrice, ...abovePrice].map((dataset) => dataset.label));
+    const hiddenLabels = new Set(
+      overlayStudies.flatMap((study) =>
+        study.definition.outputs
+          .filter((output) => output.hideInLegend)
+          .map((output) => outputLabel(output, study.params))
+      )
+    );
 
-  const macdHistogramData = {
-    labels,
-    datasets: [
-      {
-        label: 'Histogram',
-        data: macdData.histogram,
-        backgroundColor: histogramColors,
-        borderWidth: 0,
-        barPercentage: 0.8,
-      },
-    ],
-  };
+    // Create price chart data object
+    const priceChartData = {
+      labels,
+      datasets: [...behindPrice, priceDataset, ...abovePrice],
+    };
 
-  const priceOptions: ChartOptions<'line'> = {
-    responsive: true,
-    maintainAspectRatio: false,
-    interaction: {
-      mode: 'index',
-      intersect: false,
-    },
-    plugins: {
-      legend: {
-        display: enabledStudies.sma || enabledStudies.bollingerBands,
-        position: 'top',
-        align: 'end',
-        labels: {
-          boxWidth: 12,
-          padding: 8,
-          font: { size: 11 },
-          color: isDark ? '#9ca3af' : '#6b7280',
-          filter: (item) => !item.text?.includes('BB Upper') && !item.text?.includes('BB Lower'),
-        },
+    const priceOptions: ChartOptions<'line'> = {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        mode: 'index',
+        intersect: false,
       },
-      tooltip: {
-        backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.9)',
-        titleColor: isDark ? '#fff' : '#000',
-        bodyColor: isDark ? '#fff' : '#000',
-        borderColor: isDark ? '#374151' : '#e5e7eb',
-        borderWidth: 1,
-        padding: 12,
-        displayColors: true,
-        callbacks: {
-          label: function(context) {
-            const value = context.parsed.y;
-            if (value === null) return '';
-            const label = context.dataset.label || '';
-            if (label === 'Price' || label.includes('BB') || label.includes('SMA')) {
-              return `${label}: $${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-            }
-            return `${label}: ${value.toFixed(2)}`;
+      plugins: {
+        legend: {
+          display: overlayStudies.length > 0,
+          position: 'top',
+          align: 'end',
+          labels: {
+            boxWidth: 12,
+            padding: 8,
+            font: { size: 11 },
+            color: isDark ? '#9ca3af' : '#6b7280',
+            filter: (item) => !hiddenLabels.has(item.text),
           },
         },
-      },
-    },
-    scales: {
-      x: {
-        display: true,
-        grid: {
-          display: false,
-        },
-        ticks: {
-          color: isDark ? '#9ca3af' : '#6b7280',
-          maxTicksLimit: 6,
-          autoSkip: true,
-          font: {
-            size: 11,
+        tooltip: {
+          backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.9)',
+          titleColor: isDark ? '#fff' : '#000',
+          bodyColor: isDark ? '#fff' : '#000',
+          borderColor: isDark ? '#374151' : '#e5e7eb',
+          borderWidth: 1,
+          padding: 12,
+          displayColors: true,
+          callbacks: {
+            label: function(context) {
+              const value = context.parsed.y;
+              if (value === null) return '';
+              const label = context.dataset.label || '';
+              if (label === 'Price' || overlayLabels.has(label)) {
+                return `${label}: ${formatPrice(value, currency)}`;
+              }
+              return `${label}: ${value.toFixed(2)}`;
+            },
           },
         },
       },
-      y: {
-        display: true,
-        position: 'right',
-        grid: {
-          color: isDark ? 'rgba(55, 65, 81, 0.5)' : 'rgba(229, 231, 235, 0.5)',
-        },
-        ticks: {
-          color: isDark ? '#9ca3af' : '#6b7280',
-          callback: function(value) {
-            const numValue = Number(value);
-            if (numValue >= 1000) {
-              return '$' + (numValue / 1000).toFixed(1) + 'K';
-            }
-            return '$' + numValue.toLocaleString('en-US');
-          },
-          font: {
-            size: 11,
+      scales: {
+        x: {
+          display: true,
+          grid: {
+            display: false,
           },
-        },
-      },
-    },
-  };
-
-  const rsiOptions: ChartOptions<'line'> = {
-    responsive: true,
-    maintainAspectRatio: false,
-    interaction: {
-      mode: 'index',
-      intersect: false,
-    },
-    plugins: {
-      legend: {
-        display: false,
-      },
-      tooltip: {
-        backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.9)',
-        titleColor: isDark ? '#fff' : '#000',
-        bodyColor: isDark ? '#fff' : '#000',
-        borderColor: isDark ? '#374151' : '#e5e7eb',
-        borderWidth: 1,
-        padding: 12,
-        displayColors: false,
-        callbacks: {
-          label: function(context) {
-            return `RSI(${rsiPeriod}): ${context.parsed.y?.toFixed(2) || 'N/A'}`;
+          ticks: {
+            color: isDark ? '#9ca3af' : '#6b7280',
+            maxTicksLimit: 6,
+            autoSkip: true,
+            font: {
+              size: 11,
+            },
           },
         },
-      },
-    },
-    scales: {
-      x: {
-        display: false,
-      },
-      y: {
-        display: true,
-        position: 'right',
-        min: 0,
-        max: 100,
-        grid: {
-          color: isDark ? 'rgba(55, 65, 81, 0.5)' : 'rgba(229, 231, 235, 0.5)',
-        },
-        ticks: {
-          color: isDark ? '#9ca3af' : '#6b7280',
-          stepSize: 30,
-          callback: function(value) {
-            if (value === 70) return '70';
-            if (value === 30) return '30';
-            return '';
+        y: {
+          display: true,
+          position: 'right',
+          grid: {
+            color: isDark ? 'rgba(55, 65, 81, 0.5)' : 'rgba(229, 231, 235, 0.5)',
           },
-          font: {
-            size: 11,
+          ticks: {
+            color: isDark ? '#9ca3af' : '#6b7280',
+            callback: function(value) {
+              return formatAxisPrice(Number(value), currency);
+            },
+            font: {
+              size: 11,
+            },
           },
         },
       },
-    },
-  };
+    };
 
-  const macdOptions: ChartOptions<'line'> = {
-    responsive: true,
-    maintainAspectRatio: false,
-    interaction: { mode: 'index', intersect: false },
-    plugins: {
-      legend: {
-        display: true,
-        position: 'top',
-        align: 'end',
-        labels: {
-          boxWidth: 12,
-          padding: 8,
-          font: { size: 10 },
-          color: isDark ? '#9ca3af' : '#6b7280',
-        },
-      },
-      tooltip: {
-        backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.9)',
-        titleColor: isDark ? '#fff' : '#000',
-        bodyColor: isDark ? '#fff' : '#000',
-        borderColor: isDark ? '#374151' : '#e5e7eb',
-        borderWidth: 1,
-        padding: 12,
-        displayColors: true,
-        callbacks: {
-          label: (context) => `${context.dataset.label}: ${context.parsed.y?.toFixed(4) || 'N/A'}`,
-        },
-      },
-    },
-    scales: {
-      x: { display: false },
-      y: {
-        display: true,
-        position: 'right',
-        grid: { color: isDark ? 'rgba(55, 65, 81, 0.5)' : 'rgba(229, 231, 235, 0.5)' },
-        ticks: {
-          color: isDark ? '#9ca3af' : '#6b7280',
-          font: { size: 11 },
-          callback: (value) => Number(value).toFixed(2),
-        },
-      },
-    },
-  };
+    return { overlayStudies, subStudies, priceChartData, priceOptions };
+  }, [studies, prices, labels, periodChange, isDark, currency]);
 
-  const macdHistogramOptions: ChartOptions<'bar'> = {
-    responsive: true,
-    maintainAspectRatio: false,
-    interaction: { mode: 'index', intersect: false },
-    plugins: {
-      legend: { display: false },
-      tooltip: {
-        backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.9)',
-        titleColor: isDark ? '#fff' : '#000',
-        bodyColor: isDark ? '#fff' : '#000',
-        callbacks: {
-          label: (context) => `Histogram: ${context.parsed.y?.toFixed(4) || 'N/A'}`,
-        },
-      },
-    },
-    scales: {
-      x: { display: false },
-      y: { display: false, grid: { display: false } },
-    },
-  };
+  if (loading) {
+    return (
+      <div className="chart-skeleton">
+        <div className="animate-pulse">
+          <div className="chart-loading-placeholder"></div>
+        </div>
+      </div>
+    );
+  }
 
-  // Get current RSI value
-  const currentRSI = rsiData.filter((v): v is number => v !== null).pop();
-  const rsiStatus: RSIStatus = currentRSI !== undefined && currentRSI > 70 
-    ? 'overbought' 
-    : currentRSI !== undefined && currentRSI < 30 
-      ? 'oversold' 
-      : 'neutral';
+  if (!coinData || !coinData.prices || coinData.prices.length === 0) {
+    return (
+      <div className="chart-empty">
+        <p>No chart data available</p>
+      </div>
+    );
+  }
 
   return (
     <div className="crypto-chart">
       {/* Period Change Badge */}
       <div className="chart-stats">
         <div className={`period-change-badge ${periodChange !== null && periodChange >= 0 ? 'positive' : 'negative'}`}>
-          <span className="change-label">{getTimePeriodLabel(timePeriod)} Change:</span>
+          <span className="change-label">{timeRange ? 'Range' : getTimePeriodLabel(timePeriod)} Change:</span>
           <span className="change-value">
             {periodChange !== null && periodChange >= 0 ? '▲' : '▼'} {Math.abs(periodChange ?? 0).toFixed(2)}%
           </span>
         </div>
-        {enabledStudies.rsi && currentRSI !== undefined && (
-          <a 
-            href={rsiInfoUrl}
-            target="_blank"
-            rel="noopener noreferrer"
-            className={`rsi-badge ${rsiStatus}`}
-            title={rsiDescription}
-          >
-            <span className="rsi-label">RSI({rsiPeriod}):</span>
-            <span className="rsi-value">{currentRSI.toFixed(1)}</span>
-            <span className="rsi-status">({rsiStatus})</span>
-            <span className="info-icon">ⓘ</span>
-          </a>
-        )}
+        {/* Latest reading of each oscillator */}
+        {subStudies.map((study) => {
+          const reading = latestReading(study);
+          if (!reading) return null;
+          return (
+            <a 
+              key={study.definition.id}
+              href={study.definition.info.source}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`study-badge ${reading.status}`}
+              title={study.description}
+            >
+              <span className="study-badge-label">{study.label}:</span>
+              <span className="study-badge-value">{reading.value.toFixed(1)}</span>
+              <span className="study-badge-status">({reading.status})</span>
+              <span className="info-icon">ⓘ</span>
+            </a>
+          );
+        })}
       </div>
 
       {/* Price Chart */}
@@ -761,84 +600,34 @@ export default function CryptoChart({ coinData, loading, livePrice }: CryptoChar
       </div>
 
       {/* Chart Legend for overlay studies */}
-      {(enabledStudies.sma || enabledStudies.bollingerBands) && (
+      {overlayStudies.length > 0 && (
         <div className="chart-legend">
-          {enabledStudies.sma && (
-            <>
-              <a href={SMA_INFO.source} target="_blank" rel="noopener noreferrer" className="legend-item" title={smaConfig.description}>
-                <span className="legend-color" style={{ background: isDark ? COLORS.smaShort.dark : COLORS.smaShort.light }}></span>
-                <span>SMA {smaConfig.shortPeriod}</span>
-              </a>
-              <a href={SMA_INFO.source} target="_blank" rel="noopener noreferrer" className="legend-item" title={smaConfig.description}>
-                <span className="legend-color" style={{ background: isDark ? COLORS.smaLong.dark : COLORS.smaLong.light }}></span>
-                <span>SMA {smaConfig.longPeriod}</span>
-              </a>
-            </>
-          )}
-          {enabledStudies.bollingerBands && (
-            <a href={BOLLINGER_INFO.source} target="_blank" rel="noopener noreferrer" className="legend-item" title={bollingerConfig.description}>
-              <span className="legend-color" style={{ background: isDark ? COLORS.bollingerMiddle.dark : COLORS.bollingerMiddle.light }}></span>
-              <span>BB ({bollingerConfig.period}, {bollingerConfig.stdDev})</span>
-            </a>
+          {overlayStudies.flatMap((study) =>
+            study.definition.outputs
+              .filter((output) => study.series[output.key] && !output.hideInLegend)
+              .map((output) => (
+                <a
+                  key={`${study.definition.id}-${output.key}`}
+                  href={study.definition.info.source}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="legend-item"
+                  title={study.description}
+                >
+                  <span className="legend-color" style={{ background: themed(output.color, isDark) }}></span>
+                  <span>{outputLabel(output, study.params)}</span>
+                </a>
+              ))
           )}
         </div>
       )}
 
-      {/* RSI Chart */}
-      {enabledStudies.rsi && (
-        <div className="rsi-chart-container">
-          <div className="rsi-chart-header">
-            <a 
-              href={rsiInfoUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="indicator-label-link"
-              title={rsiDescription}
-            >
-              <span className="indicator-label">RSI ({rsiPeriod})</span>
-              <span className="info-icon">ⓘ</span>
-            </a>
-            <div className="rsi-levels">
-              <span className="level overbought" title={RSI_INFO.levels?.overbought}>70 - Overbought</span>
-              <span className="level oversold" title={RSI_INFO.levels?.oversold}>30 - Oversold</span>
-            </div>
-          </div>
-          <div className="rsi-chart-wrapper">
-            {/* Overbought/Oversold zones */}
-            <div className="rsi-zones">
-              <div className="overbought-zone"></div>
-              <div className="oversold-zone"></div>
-            </div>
-            <Line data={rsiChartData} options={rsiOptions} />
-          </div>
-        </div>
-      )}
-
-      {/* MACD Chart */}
-      {enabledStudies.macd && (
-        <div className="macd-chart-container">
-          <div className="macd-chart-header">
-            <a 
-              href={MACD_INFO.source}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="indicator-label-link"
-              title={macdConfig.description}
-            >
-              <span className="indicator-label">MACD ({macdConfig.fastPeriod}/{macdConfig.slowPeriod}/{macdConfig.signalPeriod})</span>
-              <span className="info-icon">ⓘ</span>
-            </a>
-          </div>
-          <div className="macd-chart-wrapper">
-            <div className="macd-histogram">
-              <Bar data={macdHistogramData} options={macdHistogramOptions} />
-            </div>
-            <div className="macd-lines">
-              <Line data={macdChartData} options={macdOptions} />
-            </div>
-          </div>
-        </div>
-      )}
+      {/* Sub-pane studies */}
+      {subStudies
+        .filter((study) => Object.keys(study.series).length > 0)
+        .map((study) => (
+          <StudyPane key={study.definition.id} study={study} labels={labels} isDark={isDark} />
+        ))}
     </div>
   );
 }
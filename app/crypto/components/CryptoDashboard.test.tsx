@@ -5,53 +5,74 @@
  * critical data-flow paths:
  *
  *   1. REST coin list fetched on mount → rendered in table
- *   2. WebSocket prices merged into `liveCoins` (rtPrices override current_price)
- *   3. `setRtPrices` / `setWsConnected` called to sync WS state into Zustand
+ *   2. Live price batches merged into Zustand via `mergeRtPrices` without
+ *      re-rendering the dashboard (LivePrice reads them from the store)
+ *   3. `setWsConnected` called to sync WS state into Zustand
  *   4. Error handling when fetch fails
  *
  * Heavy dependencies (fetch, Zustand store, child components) are mocked so
  * tests run quickly and deterministically.
  */
 
+import { Profiler } from 'react';
 import { render, screen, waitFor, act } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import CryptoDashboard from './CryptoDashboard';
 import type { Coin } from '../types';
+import type { useRealtimePrice as UseRealtimePrice } from '../hooks/useRealtimePrice';
+import type { StreamHandlers } from '../realtime/types';
 
 // ---------------------------------------------------------------------------
 // Hoisted mocks (vi.hoisted ensures these are defined before mock factories)
 // ---------------------------------------------------------------------------
 
-const { mockSetRtPrices, mockSetWsConnected, mockAddNotification } = vi.hoisted(() => ({
-  mockSetRtPrices: vi.fn(),
+const { mockMergeRtPrices, mockSetWsConnected, mockAddNotification, mockConnect } = vi.hoisted(() => ({
+  mockMergeRtPrices: vi.fn(),
   mockSetWsConnected: vi.fn(),
   mockAddNotification: vi.fn(),
+  // Live connections opened by the real useRealtimePrice, for tests that stream
+  mockConnect: vi.fn((_coinIds: string[], _handlers: StreamHandlers) => ({ close: () => {} })),
 }));
 
 // ---------------------------------------------------------------------------
 // Module mocks
 // ---------------------------------------------------------------------------
 
-// Controls what useRealtimePrice returns — mutate these in tests.
+// Controls what useRealtimePrice returns — mutate these in tests, or set
+// `realtimeHook` to the real hook to stream through `mockConnect`.
 let mockRtPricesFromHook: Record<string, number> = {};
+const mockRtSourcesFromHook: Record<string, string> = {};
 let mockWsConnected = false;
+let realtimeHook: typeof UseRealtimePrice | null = null;
 
 vi.mock('../hooks/useRealtimePrice', () => ({
-  useRealtimePrice: () => ({
-    prices: mockRtPricesFromHook,
-    connected: mockWsConnected,
-  }),
+  useRealtimePrice: (...args: Parameters<typeof UseRealtimePrice>) =>
+    realtimeHook
+      ? realtimeHook(...args)
+      : {
+          latest: () => ({ prices: mockRtPricesFromHook, sources: mockRtSourcesFromHook }),
+          connected: mockWsConnected,
+          health: () => null,
+          rejections: () => null,
+        },
 }));
 
+vi.mock('../realtime/sharing', () => ({ connectorFor: () => mockConnect }));
+
 vi.mock('../store/cryptoStore', () => ({
   useCryptoStore: () => ({
     timePeriod: '7',
+    timeRange: null,
+    candleGranularity: 'auto',
     currency: 'usd',
     chartPattern: 'line',
     addNotification: mockAddNotification,
     initFromStorage: vi.fn(),
-    setRtPrices: mockSetRtPrices,
+    mergeRtPrices: mockMergeRtPrices,
+    rescaleRtPrices: vi.fn(),
     setWsConnected: mockSetWsConnected,
+    setFeedHealth: vi.fn(),
+    setTickRejections: vi.fn(),
   }),
 }));
 
@@ -75,6 +96,7 @@ vi.mock('./LoadingSkeleton', () => ({ default: () => <div data-testid="loading-s
 vi.mock('./ThemeToggle', () => ({ default: () => null }));
 vi.mock('./ViewModeToggle', () => ({ default: () => null }));
 vi.mock('./ChartPatternToggle', () => ({ default: () => null }));
+vi.mock('./CandleIntervalSelector', () => ({ default: () => null }));
 vi.mock('./TimePeriodSelector', () => ({ default: () => null }));
 vi.mock('./StudiesDropdown', () => ({ default: () => null }));
 vi.mock('./LivePrice', () => ({
@@ -126,6 +148,7 @@ beforeEach(() => {
   vi.clearAllMocks();
   mockRtPricesFromHook = {};
   mockWsConnected = false;
+  realtimeHook = null;
 
   global.fetch = vi.fn().mockImplementation((url: string) => {
     if (String(url).includes('/crypto/api/coins')) {
@@ -188,6 +211,34 @@ describe('CryptoDashboard', () => {
     });
   });
 
+  it('does not re-render while live price batches stream in', async () => {
+    const actual = await vi.importActual<typeof import('../hooks/useRealtimePrice')>('../hooks/useRealtimePrice');
+    realtimeHook = actual.useRealtimePrice;
+    let renders = 0;
+    render(
+      <Profiler id="dashboard" onRender={() => { renders += 1; }}>
+        <CryptoDashboard />
+      </Profiler>
+    );
+    await waitFor(() => expect(mockConnect).toHaveBeenCalled());
+    const handlers = mockConnect.mock.calls[0][1];
+    act(() => handlers.onOpen());
+    await waitFor(() => expect(mockSetWsConnected).toHaveBeenLastCalledWith(true));
+    const settled = renders;
+
+    for (const price of [50010, 50020, 50030]) {
+      act(() => handlers.onPrices({ bitcoin: price }, 'coincap'));
+      // Batches are applied on the next animation frame
+      await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+    }
+
+    expect(mockMergeRtPrices).toHaveBeenCalledTimes(3);
+    expect(mockMergeRtPrices).toHaveBeenLastCalledWith({ bitcoin: 50030 }, { bitcoin: 'coincap' }, {
+      bitcoin: [{ t: expect.any(Number), price: 50030, source: 'coincap' }],
+    });
+    expect(renders).toBe(settled);
+  });
+
   it('calls addNotification with type "error" when the coin fetch fails', async () => {
     global.fetch = vi.fn().mockResolvedValue({ ok: false, json: () => Promise.resolve({}) });
     render(<CryptoDashboard />);
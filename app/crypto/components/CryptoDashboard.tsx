@@ -1,12 +1,16 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { useCryptoStore } from '../store/cryptoStore';
 import { useRealtimePrice } from '../hooks/useRealtimePrice';
+import { useFxRates } from '../hooks/useFxRates';
 import CryptoTable from './CryptoTable';
 import CryptoChart from './CryptoChart';
 import CandlestickChart from './CandlestickChart';
 import ChartPatternToggle from './ChartPatternToggle';
+import CandleIntervalSelector from './CandleIntervalSelector';
+import CurrencySelector from './CurrencySelector';
 import ThemeToggle from './ThemeToggle';
 import TimePeriodSelector from './TimePeriodSelector';
 import ViewModeToggle from './ViewModeToggle';
@@ -14,11 +18,62 @@ import StudiesDropdown from './StudiesDropdown';
 import ErrorBoundary from './ErrorBoundary';
 import FreshnessIndicator from './FreshnessIndicator';
 import LivePrice from './LivePrice';
-import type { Coin, ChartData, OHLCData } from '../types';
+import { isGranularityAvailable } from '../utils/candleGranularity';
+import { latestTick } from '../realtime/tickHistory';
+import { convertPrices, convertTicks, fxRateFor } from '../utils/currency';
+import { config } from '../config/config';
+import type { Coin, ChartData, CryptoChartProps, OHLCData } from '../types';
+import type { RealtimeSharing, RealtimeTransport } from '../realtime/types';
+import type { TickBatch } from '../realtime/tickBuffer';
+
+// How often the feed health snapshot in the store is refreshed
+const FEED_HEALTH_SAMPLE_MS = 1_000;
+
+/**
+ * The line chart with the selected coin's latest live tick appended.  It
+ * subscribes to that tick itself, so streamed prices re-render the chart
+ * rather than the whole dashboard.
+ */
+function LiveCryptoChart({ coinId, live, ...props }: Omit<CryptoChartProps, 'liveTick'> & { coinId: string; live: boolean }) {
+  const tick = useCryptoStore((state) => (live ? latestTick(state.rtTicks[coinId]) : undefined));
+  return <CryptoChart {...props} liveTick={tick} />;
+}
 
 export default function CryptoDashboard() {
-  const { timePeriod, currency, chartPattern, addNotification, initFromStorage, setRtPrices, setWsConnected } = useCryptoStore();
+  // Only the fields used here: live prices and ticks are read by LivePrice and
+  // LiveCryptoChart, so merging a batch never re-renders the dashboard
+  const {
+    timePeriod,
+    timeRange,
+    currency,
+    chartPattern,
+    candleGranularity,
+    addNotification,
+    initFromStorage,
+    mergeRtPrices,
+    rescaleRtPrices,
+    setWsConnected,
+    setFeedHealth,
+    setTickRejections,
+  } = useCryptoStore(
+      useShallow((state) => ({
+        timePeriod: state.timePeriod,
+        timeRange: state.timeRange,
+        currency: state.currency,
+        chartPattern: state.chartPattern,
+        candleGranularity: state.candleGranularity,
+        addNotification: state.addNotification,
+        initFromStorage: state.initFromStorage,
+        mergeRtPrices: state.mergeRtPrices,
+        rescaleRtPrices: state.rescaleRtPrices,
+        setWsConnected: state.setWsConnected,
+        setFeedHealth: state.setFeedHealth,
+        setTickRejections: state.setTickRejections,
+      }))
+    );
   const [coins, setCoins] = useState<Coin[]>([]);
+  // Currency the coin list was fetched in (lags `currency` until the refetch lands)
+  const [listCurrency, setListCurrency] = useState(currency);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedCoin, setSelectedCoin] = useState<string | null>(null);
@@ -28,28 +83,75 @@ export default function CryptoDashboard() {
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [listFetchedAt, setListFetchedAt] = useState<number | null>(null);
   const [chartFetchedAt, setChartFetchedAt] = useState<number | null>(null);
+  // Throttling reported per request, so one unthrottled response cannot clear another's flag
+  const [rateLimitedBy, setRateLimitedBy] = useState({ list: false, chart: false, ohlc: false });
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [mounted, setMounted] = useState(false);
   const chartSectionRef = useRef<HTMLElement>(null);
 
-  // Real-time WebSocket price feed (CoinCap)
+  // Real-time price feed (CoinCap WebSocket, falling back to SSE then polling),
+  // shared with other open dashboard tabs.  Each batch of changed prices is
+  // merged into the Zustand store so LivePrice components can subscribe
+  // individually without re-rendering the whole table.  Feeds quote in USD,
+  // so batches are converted into the selected currency first and held back
+  // until its exchange rate is known.  The REST prices, back in USD, are the
+  // reference streamed ticks are validated against.
   const coinIds = useMemo(() => coins.map((c) => c.id), [coins]);
-  const { prices: rtPrices, connected: wsConnected } = useRealtimePrice(coinIds);
-
-  // Sync WebSocket prices into the Zustand store so LivePrice components
-  // can subscribe individually without re-rendering the whole table.
-  useEffect(() => { setRtPrices(rtPrices); }, [rtPrices, setRtPrices]);
+  const fxRates = useFxRates();
+  const fxRate = fxRateFor(fxRates, currency);
+  const listFxRate = fxRateFor(fxRates, listCurrency);
+  const referencePrices = useMemo(() => {
+    if (listFxRate === null || coins.length === 0) return undefined;
+    return Object.fromEntries(coins.map((coin) => [coin.id, coin.current_price / listFxRate]));
+  }, [coins, listFxRate]);
+  const onRtBatch = useCallback((batch: TickBatch) => {
+    if (fxRate === null) return;
+    mergeRtPrices(convertPrices(batch.prices, fxRate), batch.sources, convertTicks(batch.ticks, fxRate));
+  }, [fxRate, mergeRtPrices]);
+  const {
+    latest: rtLatest,
+    connected: wsConnected,
+    health: rtHealth,
+    rejections: rtRejections,
+  } = useRealtimePrice(coinIds, {
+    transport: config.realtimeTransport as RealtimeTransport,
+    sharing: config.realtimeSharing as RealtimeSharing,
+    batchIntervalMs: config.realtimeBatchMs,
+    onBatch: onRtBatch,
+    referencePrices,
+  });
   useEffect(() => { setWsConnected(wsConnected); }, [wsConnected, setWsConnected]);
 
-  // Merge live WebSocket prices into the REST-fetched coin list so every
-  // price in the table and chart header is always up-to-date.
-  const liveCoins = useMemo<Coin[]>(() => {
-    if (Object.keys(rtPrices).length === 0) return coins;
-    return coins.map((coin) => {
-      const livePrice = rtPrices[coin.id];
-      return livePrice !== undefined ? { ...coin, current_price: livePrice } : coin;
-    });
-  }, [coins, rtPrices]);
+  // Publish feed health and rejected ticks for the FreshnessIndicator every
+  // second, and straight away when the connection opens or drops
+  useEffect(() => {
+    const publish = () => {
+      setFeedHealth(rtHealth());
+      setTickRejections(rtRejections());
+    };
+    publish();
+    const interval = setInterval(publish, FEED_HEALTH_SAMPLE_MS);
+    return () => clearInterval(interval);
+  }, [wsConnected, rtHealth, rtRejections, setFeedHealth, setTickRejections]);
+
+  // When the currency or its rate changes, rescale the live prices and ticks
+  // already in the store; when there was no rate to rescale from, start over
+  // from the latest streamed prices instead.  Those are read when the rate
+  // changes, not subscribed to, so batches do not re-run this effect.
+  const appliedRateRef = useRef(fxRate);
+  useEffect(() => {
+    const previous = appliedRateRef.current;
+    if (previous === fxRate) return;
+    appliedRateRef.current = fxRate;
+    if (previous !== null && fxRate !== null) {
+      rescaleRtPrices(fxRate / previous);
+      return;
+    }
+    rescaleRtPrices(null);
+    if (fxRate === null) return;
+    const { prices, sources } = rtLatest();
+    mergeRtPrices(convertPrices(prices, fxRate), sources);
+  }, [fxRate, rtLatest, mergeRtPrices, rescaleRtPrices]);
 
   // Initialize from storage on mount
   useEffect(() => {
@@ -71,8 +173,10 @@ export default function CryptoDashboard() {
 
       const result = await response.json();
       setCoins(result.data);
+      setListCurrency(currency);
       setLastUpdate(new Date());
       setListFetchedAt(result.fetchedAt ?? Date.now());
+      setRateLimitedBy((flags) => ({ ...flags, list: !!result.rateLimited }));
       
       // Check for price alerts
       result.data.forEach((coin: Coin) => {
@@ -95,7 +199,9 @@ export default function CryptoDashboard() {
     try {
       setChartLoading(true);
       
-      const response = await fetch(`/crypto/api/coin-history?id=${coinId}&days=${timePeriod}&vs_currency=${currency}`);
+      // A custom range replaces the preset period
+      const span = timeRange ? `from=${timeRange.from}&to=${timeRange.to}` : `days=${timePeriod}`;
+      const response = await fetch(`/crypto/api/coin-history?id=${coinId}&${span}&vs_currency=${currency}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch chart data');
@@ -104,6 +210,7 @@ export default function CryptoDashboard() {
       const result = await response.json();
       setChartData(result.data);
       setChartFetchedAt(result.fetchedAt ?? Date.now());
+      setRateLimitedBy((flags) => ({ ...flags, chart: !!result.rateLimited }));
       setSelectedCoin(coinId);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
@@ -114,22 +221,30 @@ export default function CryptoDashboard() {
     } finally {
       setChartLoading(false);
     }
-  }, [timePeriod, currency, addNotification]);
+  }, [timePeriod, timeRange, currency, addNotification]);
 
   // Fetch OHLC data for candlestick chart
   const fetchOhlcData = useCallback(async (coinId: string) => {
     try {
       setChartLoading(true);
       
-      const response = await fetch(`/crypto/api/ohlc?id=${coinId}&days=${timePeriod}&vs_currency=${currency}&provider=auto`);
+      // A saved interval too fine for the current period falls back to the provider default
+      const granularity =
+        candleGranularity !== 'auto' && isGranularityAvailable(timePeriod, candleGranularity) ? candleGranularity : 'auto';
+      const response = await fetch(
+        `/crypto/api/ohlc?id=${coinId}&days=${timePeriod}&vs_currency=${currency}&provider=auto&granularity=${granularity}`
+      );
       
       if (!response.ok) {
-        throw new Error('Failed to fetch OHLC data');
+        // Surface validation messages such as an interval the coin's providers cannot serve
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to fetch OHLC data');
       }
 
       const result = await response.json();
       setOhlcData(result.data);
       setChartFetchedAt(result.fetchedAt ?? Date.now());
+      setRateLimitedBy((flags) => ({ ...flags, ohlc: !!result.rateLimited }));
       setSelectedCoin(coinId);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
@@ -140,7 +255,7 @@ export default function CryptoDashboard() {
     } finally {
       setChartLoading(false);
     }
-  }, [timePeriod, currency, addNotification]);
+  }, [timePeriod, currency, candleGranularity, addNotification]);
 
   // Initial fetch
   useEffect(() => {
@@ -169,10 +284,15 @@ export default function CryptoDashboard() {
     }
   }, [timePeriod, chartPattern, selectedCoin, fetchChartData, fetchOhlcData]);
 
-  // Export data with live prices included
+  // Export data with live prices included (once the list is in the
+  // selected currency, the currency the store's live prices are in)
   const exportData = () => {
     try {
-      const dataStr = JSON.stringify(liveCoins, null, 2);
+      const { rtPrices } = useCryptoStore.getState();
+      const exported = listCurrency === currency
+        ? coins.map((coin) => (rtPrices[coin.id] !== undefined ? { ...coin, current_price: rtPrices[coin.id] } : coin))
+        : coins;
+      const dataStr = JSON.stringify(exported, null, 2);
       const dataBlob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
       const link = document.createElement('a');
@@ -211,7 +331,7 @@ export default function CryptoDashboard() {
     }
   };
 
-  const selectedCoinData = liveCoins.find(c => c.id === selectedCoin);
+  const selectedCoinData = coins.find(c => c.id === selectedCoin);
 
   return (
     <ErrorBoundary>
@@ -236,6 +356,7 @@ export default function CryptoDashboard() {
                   listPrice={selectedCoinData?.current_price}
                   chartLatestPrice={chartData?.prices?.length ? chartData.prices[chartData.prices.length - 1][1] : undefined}
                   wsConnected={wsConnected}
+                  rateLimited={rateLimitedBy.list || rateLimitedBy.chart || rateLimitedBy.ohlc}
                 />
               </div>
             </div>
@@ -254,6 +375,7 @@ export default function CryptoDashboard() {
               >
                 📥 Export
               </button>
+              <CurrencySelector />
               <ViewModeToggle />
               <ThemeToggle />
             </div>
@@ -287,7 +409,13 @@ export default function CryptoDashboard() {
                       <div>
                         <h2 className="selected-coin-name">{selectedCoinData.name}</h2>
                         <div className="selected-coin-price">
-                          <LivePrice coinId={selectedCoin!} fallbackPrice={selectedCoinData.current_price} className="price" />
+                          <LivePrice
+                            coinId={selectedCoin!}
+                            fallbackPrice={selectedCoinData.current_price}
+                            fallbackCurrency={listCurrency}
+                            showTrend
+                            className="price"
+                          />
                         </div>
                       </div>
                     </div>
@@ -295,6 +423,7 @@ export default function CryptoDashboard() {
                 </div>
                 <div className="chart-controls">
                   <ChartPatternToggle />
+                  {chartPattern === 'candlestick' && <CandleIntervalSelector />}
                   <StudiesDropdown />
                   <TimePeriodSelector />
                   <button
@@ -313,11 +442,13 @@ export default function CryptoDashboard() {
               {chartPattern === 'candlestick' ? (
                 <CandlestickChart ohlcData={ohlcData} loading={chartLoading} />
               ) : (
-                <CryptoChart
-                coinData={chartData}
-                loading={chartLoading}
-                livePrice={selectedCoin ? rtPrices[selectedCoin] : undefined}
-              />
+                <LiveCryptoChart
+                  coinId={selectedCoin!}
+                  // Only the preset periods end now; a custom range stays as fetched
+                  live={!timeRange}
+                  coinData={chartData}
+                  loading={chartLoading}
+                />
               )}
             </section>
           )}
@@ -335,7 +466,8 @@ export default function CryptoDashboard() {
               </button>
             </div>
             <CryptoTable
-              coins={liveCoins}
+              coins={coins}
+              listCurrency={listCurrency}
               loading={loading}
               onSelectCoin={handleSelectCoin}
             />
@@ -1,12 +1,21 @@
 'use client';
 
 import { useState, useMemo, MouseEvent } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { useCryptoStore } from '../store/cryptoStore';
 import LivePrice from './LivePrice';
+import { formatCompact } from '../utils/currency';
 import type { Coin, CryptoTableProps, SortConfig } from '../types';
 
-export default function CryptoTable({ coins, loading, onSelectCoin }: CryptoTableProps) {
-  const { favorites, addFavorite, removeFavorite, viewMode } = useCryptoStore();
+export default function CryptoTable({ coins, listCurrency, loading, onSelectCoin }: CryptoTableProps) {
+  const { favorites, addFavorite, removeFavorite, viewMode } = useCryptoStore(
+    useShallow((state) => ({
+      favorites: state.favorites,
+      addFavorite: state.addFavorite,
+      removeFavorite: state.removeFavorite,
+      viewMode: state.viewMode,
+    }))
+  );
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'market_cap_rank', direction: 'asc' });
   const [searchQuery, setSearchQuery] = useState('');
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
@@ -69,12 +78,10 @@ export default function CryptoTable({ coins, loading, onSelectCoin }: CryptoTabl
     return num.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
   };
 
-  const formatLargeNumber = (num: number | null | undefined): string => {
+  // Market values come from the REST list, so they are in its currency
+  const formatMarketValue = (num: number | null | undefined): string => {
     if (num === null || num === undefined) return 'N/A';
-    if (num >= 1e12) return `$${(num / 1e12).toFixed(2)}T`;
-    if (num >= 1e9) return `$${(num / 1e9).toFixed(2)}B`;
-    if (num >= 1e6) return `$${(num / 1e6).toFixed(2)}M`;
-    return `$${num.toLocaleString('en-US')}`;
+    return formatCompact(num, listCurrency);
   };
 
   if (loading) {
@@ -139,7 +146,7 @@ export default function CryptoTable({ coins, loading, onSelectCoin }: CryptoTabl
               <div className="card-body">
                 <div className="price-row">
                   <span className="label">Price:</span>
-                  <LivePrice coinId={coin.id} fallbackPrice={coin.current_price} className="value" />
+                  <LivePrice coinId={coin.id} fallbackPrice={coin.current_price} fallbackCurrency={listCurrency} className="value" />
                 </div>
                 <div className="change-row">
                   <span className="label">24h:</span>
@@ -149,7 +156,7 @@ export default function CryptoTable({ coins, loading, onSelectCoin }: CryptoTabl
                 </div>
                 <div className="market-cap-row">
                   <span className="label">Market Cap:</span>
-                  <span className="value">{formatLargeNumber(coin.market_cap)}</span>
+                  <span className="value">{formatMarketValue(coin.market_cap)}</span>
                 </div>
               </div>
             </div>
@@ -246,20 +253,20 @@ export default function CryptoTable({ coins, loading, onSelectCoin }: CryptoTabl
                     <div className="coin-details">
                       <span className="coin-name-text">{coin.name}</span>
                       <span className="coin-symbol-text">{coin.symbol.toUpperCase()}</span>
-                      <LivePrice coinId={coin.id} fallbackPrice={coin.current_price} showDirection={false} className="coin-price-mobile" />
+                      <LivePrice coinId={coin.id} fallbackPrice={coin.current_price} fallbackCurrency={listCurrency} showDirection={false} className="coin-price-mobile" />
                     </div>
                   </div>
                 </td>
                 <td className="text-right font-semibold">
-                  <LivePrice coinId={coin.id} fallbackPrice={coin.current_price} />
+                  <LivePrice coinId={coin.id} fallbackPrice={coin.current_price} fallbackCurrency={listCurrency} />
                 </td>
                 <td className="text-right">
                   <span className={`change-badge ${coin.price_change_percentage_24h >= 0 ? 'positive' : 'negative'}`}>
                     {coin.price_change_percentage_24h >= 0 ? '▲' : '▼'} {Math.abs(coin.price_change_percentage_24h).toFixed(2)}%
                   </span>
                 </td>
-                <td className="text-right">{formatLargeNumber(coin.market_cap)}</td>
-                <td className="text-right">{formatLargeNumber(coin.total_volume)}</td>
+                <td className="text-right">{formatMarketValue(coin.market_cap)}</td>
+                <td className="text-right">{formatMarketValue(coin.total_volume)}</td>
                 <td className="text-right">
                   <button
                     onClick={(e) => {
@@ -0,0 +1,41 @@
+'use client';
+
+import { useShallow } from 'zustand/react/shallow';
+import { useCryptoStore } from '../store/cryptoStore';
+import { CURRENCIES, CURRENCY_INFO } from '../utils/currency';
+import type { CurrencyKind } from '../utils/currency';
+import type { Currency } from '../types';
+
+const GROUPS: { kind: CurrencyKind; label: string }[] = [
+  { kind: 'fiat', label: 'Fiat' },
+  { kind: 'crypto', label: 'Crypto' },
+  { kind: 'commodity', label: 'Commodities' },
+];
+
+/**
+ * Quote currency picker in the dashboard header.  Lists every currency in
+ * `CURRENCY_INFO`, grouped by kind; changing it refetches the REST data and
+ * converts live prices (see `CryptoDashboard`).
+ */
+export default function CurrencySelector() {
+  const { currency, setCurrency } = useCryptoStore(
+    useShallow((state) => ({ currency: state.currency, setCurrency: state.setCurrency }))
+  );
+
+  return (
+    <label className="currency-selector" title={`Prices in ${CURRENCY_INFO[currency].name}`}>
+      <span className="currency-selector-label">Currency</span>
+      <select value={currency} onChange={(e) => setCurrency(e.target.value as Currency)} aria-label="Quote currency">
+        {GROUPS.map(({ kind, label }) => (
+          <optgroup key={kind} label={label}>
+            {CURRENCIES.filter((code) => CURRENCY_INFO[code].kind === kind).map((code) => (
+              <option key={code} value={code}>
+                {code.toUpperCase()} · {CURRENCY_INFO[code].name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Tests for FreshnessIndicator component.
+ *
+ * The indicator grades the live feed from the `feedHealth` snapshot in the
+ * store while the socket is connected, falls back to REST freshness
+ * otherwise, and opens a diagnostics popover when clicked.
+ *
+ * Zustand is mocked so each test controls the feed health snapshot directly.
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import FreshnessIndicator from './FreshnessIndicator';
+import type { FeedHealth } from '../realtime/feedHealth';
+import type { TickSanitizerReport } from '../realtime/tickSanitizer';
+
+// ---------------------------------------------------------------------------
+// Zustand store mock
+// ---------------------------------------------------------------------------
+
+interface MockState {
+  feedHealth: FeedHealth | null;
+  tickRejections: TickSanitizerReport | null;
+}
+
+let mockFeedHealth: FeedHealth | null = null;
+let mockTickRejections: TickSanitizerReport | null = null;
+
+vi.mock('../store/cryptoStore', () => ({
+  useCryptoStore: (selector: (state: MockState) => unknown) =>
+    selector({ feedHealth: mockFeedHealth, tickRejections: mockTickRejections }),
+}));
+
+const NOW = 1_700_000_000_000;
+
+/** A healthy websocket snapshot taken at NOW, with `overrides` applied */
+function health(overrides: Partial<FeedHealth> = {}): FeedHealth {
+  return {
+    connected: true,
+    transport: 'websocket',
+    connectedAt: NOW - 600_000,
+    lastFrameAt: NOW - 1_000,
+    lastFrameByCoin: { bitcoin: NOW - 1_000, ethereum: NOW - 2_000 },
+    messageRate: 120,
+    reconnects: 0,
+    latencyMs: 250,
+    gaps: 0,
+    longestGapMs: 0,
+    sampledAt: NOW,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  mockFeedHealth = null;
+  mockTickRejections = null;
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('FreshnessIndicator', () => {
+  it('shows Live while frames keep arriving', () => {
+    mockFeedHealth = health();
+    render(<FreshnessIndicator listFetchedAt={null} wsConnected />);
+    expect(screen.getByRole('button').textContent).toContain('⚡ Live');
+  });
+
+  it('is not Live when the socket is open but silent', () => {
+    mockFeedHealth = health({ lastFrameAt: NOW - 30_000 });
+    const { rerender } = render(<FreshnessIndicator listFetchedAt={null} wsConnected />);
+    expect(screen.getByRole('button').textContent).toContain('⚡ Delayed');
+    expect(screen.getByRole('button').title).toContain('No frames for 30s');
+
+    mockFeedHealth = health({ lastFrameAt: NOW - 5 * 60_000 });
+    rerender(<FreshnessIndicator listFetchedAt={null} wsConnected />);
+    expect(screen.getByRole('button').textContent).toContain('⚡ Stalled');
+  });
+
+  it('is Delayed when latency exceeds the threshold', () => {
+    mockFeedHealth = health({ latencyMs: 4_000 });
+    render(<FreshnessIndicator listFetchedAt={null} wsConnected />);
+    expect(screen.getByRole('button').textContent).toContain('⚡ Delayed');
+    expect(screen.getByRole('button').title).toContain('Latency 4000ms');
+  });
+
+  it('falls back to REST freshness when the feed is disconnected', () => {
+    mockFeedHealth = health({ connected: false });
+    render(<FreshnessIndicator listFetchedAt={Date.now()} wsConnected={false} />);
+    expect(screen.getByRole('button').textContent).toContain('Live');
+    expect(screen.getByRole('button').textContent).not.toContain('⚡');
+  });
+
+  it('opens a diagnostics popover with the feed metrics', () => {
+    mockFeedHealth = health({
+      reconnects: 2,
+      gaps: 1,
+      longestGapMs: 45_000,
+      lastFrameByCoin: { bitcoin: NOW - 1_000, dogecoin: NOW - 10 * 60_000 },
+    });
+    render(<FreshnessIndicator listFetchedAt={null} wsConnected />);
+    expect(screen.queryByRole('dialog')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button'));
+    const popover = screen.getByRole('dialog');
+    expect(popover.textContent).toContain('websocket');
+    expect(popover.textContent).toContain('1s ago');
+    expect(popover.textContent).toContain('120/min');
+    expect(popover.textContent).toContain('250 ms');
+    expect(popover.textContent).toContain('Reconnects2');
+    expect(popover.textContent).toContain('1 (longest 45s)');
+    expect(popover.textContent).toContain('Stale coinsdogecoin');
+  });
+
+  it('lists ticks rejected as outliers', () => {
+    mockFeedHealth = health();
+    mockTickRejections = {
+      accepted: 500,
+      rejected: 2,
+      released: 1,
+      quarantined: { bitcoin: { price: 7000, confirmations: 1, sources: ['coincap'], since: NOW - 500 } },
+      recent: [
+        { coinId: 'ethereum', price: NaN, source: 'coinbase', reason: 'invalid', expected: null, driftPercent: null, at: NOW - 9_000 },
+        { coinId: 'bitcoin', price: 7000, source: 'coincap', reason: 'reference', expected: 70000, driftPercent: 90, at: NOW - 500 },
+      ],
+    };
+    render(<FreshnessIndicator listFetchedAt={null} wsConnected />);
+    fireEvent.click(screen.getByRole('button'));
+
+    const popover = screen.getByRole('dialog');
+    expect(popover.textContent).toContain('Rejected ticks2 (1 confirmed later)');
+    expect(popover.textContent).toContain('Quarantinedbitcoin');
+    const items = [...popover.querySelectorAll('li')].map((item) => item.textContent);
+    expect(items).toEqual([
+      'bitcoin $7,000.00 (coincap, off REST price by 90.0%)',
+      'ethereum NaN (coinbase, not a price)',
+    ]);
+  });
+
+  it('closes the popover on an outside click', () => {
+    mockFeedHealth = health();
+    render(<FreshnessIndicator listFetchedAt={null} wsConnected />);
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.queryByRole('dialog')).not.toBeNull();
+
+    fireEvent.mouseDown(document.body);
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('says so when the live feed has not started', () => {
+    render(<FreshnessIndicator listFetchedAt={null} />);
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.getByRole('dialog').textContent).toContain('The live feed has not started yet.');
+  });
+});
@@ -1,7 +1,17 @@
 'use client';
 
-import { useMemo } from 'react';
-import { evaluateFreshness, detectPriceDrift, FRESHNESS_THRESHOLDS } from '../utils/dataFreshness';
+import { useMemo, useState, useRef, useEffect } from 'react';
+import { useCryptoStore } from '../store/cryptoStore';
+import {
+  evaluateFreshness,
+  evaluateFeedHealth,
+  detectPriceDrift,
+  formatAge,
+  FRESHNESS_THRESHOLDS,
+} from '../utils/dataFreshness';
+import { formatPrice } from '../utils/currency';
+import type { FeedHealthInfo } from '../utils/dataFreshness';
+import type { TickRejectionReason } from '../realtime/tickSanitizer';
 
 interface FreshnessIndicatorProps {
   listFetchedAt: number | null;
@@ -10,14 +20,44 @@ interface FreshnessIndicatorProps {
   chartLatestPrice?: number;
   /** When true the WebSocket feed is connected and prices are streaming live */
   wsConnected?: boolean;
+  /** When true the server reported an exhausted upstream rate-limit budget */
+  rateLimited?: boolean;
 }
 
+type IndicatorStatus = 'fresh' | 'limited' | 'stale' | 'unknown';
+
+const FEED_STATUS_LABELS: Record<FeedHealthInfo['status'], string> = {
+  live: 'Live',
+  degraded: 'Delayed',
+  stale: 'Stalled',
+  offline: 'Offline',
+};
+
+const REJECTION_REASONS: Record<TickRejectionReason, string> = {
+  invalid: 'not a price',
+  recent: 'off recent ticks',
+  reference: 'off REST price',
+};
+
+// Coins listed in the popover before collapsing the rest into "+N more"
+const MAX_STALE_COINS_SHOWN = 5;
+// Latest rejected ticks listed in the popover
+const MAX_REJECTIONS_SHOWN = 3;
+
 /**
  * Visual indicator showing whether the displayed data is fresh.
  *
- * - When `wsConnected` is true the dot is always green and labelled "Live"
- *   because prices are updated in real-time via the WebSocket feed.
- * - Otherwise falls back to REST-based staleness detection.
+ * - While the live feed is connected the dot follows the feed's health
+ *   (`feedHealth` in the store): green "Live" while frames keep arriving,
+ *   amber "Delayed" when the feed goes quiet or lags, red "Stalled" when it
+ *   has been silent past `FRESHNESS_THRESHOLDS.FEED_STALE`.
+ * - Otherwise falls back to REST-based staleness detection.  When the server
+ *   is throttling upstream requests the dot turns amber ("Delayed") so slow
+ *   or stale refreshes are explained rather than looking broken.
+ *
+ * Clicking the indicator opens a diagnostics popover with the feed's
+ * transport, last frame age, message rate, reconnects, latency and gaps,
+ * plus the ticks rejected as outliers (`tickRejections` in the store).
  */
 export default function FreshnessIndicator({
   listFetchedAt,
@@ -25,20 +65,50 @@ export default function FreshnessIndicator({
   listPrice,
   chartLatestPrice,
   wsConnected,
+  rateLimited,
 }: FreshnessIndicatorProps) {
-  const { status, message } = useMemo(() => {
-    // If the WebSocket is streaming live we always consider data fresh
+  const feedHealth = useCryptoStore((state) => state.feedHealth);
+  const tickRejections = useCryptoStore((state) => state.tickRejections);
+  const [isOpen, setIsOpen] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // Close the popover when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Snapshots are refreshed every second, so their own timestamp stands in for "now"
+  const feed = useMemo(
+    () => (feedHealth ? evaluateFeedHealth(feedHealth, feedHealth.sampledAt) : null),
+    [feedHealth]
+  );
+
+  const { status, message } = useMemo((): { status: IndicatorStatus; message: string } => {
     if (wsConnected) {
-      return { status: 'fresh' as const, message: 'Prices streaming live via WebSocket' };
+      // An 'offline' snapshot predates the connection opening; the next one catches up
+      if (!feed || feed.status === 'live' || feed.status === 'offline') {
+        return { status: 'fresh', message: 'Prices streaming live via WebSocket' };
+      }
+      return {
+        status: feed.status === 'stale' ? 'stale' : 'limited',
+        message: feed.reasons.join(' | '),
+      };
     }
 
-    if (!listFetchedAt) return { status: 'unknown' as const, message: 'Waiting for data...' };
+    if (!listFetchedAt) return { status: 'unknown', message: 'Waiting for data...' };
 
     const listFreshness = evaluateFreshness(listFetchedAt, FRESHNESS_THRESHOLDS.COINS_LIST);
 
     let chartMessage = '';
     let driftMessage = '';
-    let worst: 'fresh' | 'stale' | 'unknown' = listFreshness.isFresh ? 'fresh' : 'stale';
+    let worst: IndicatorStatus = listFreshness.isFresh ? 'fresh' : 'stale';
 
     if (chartFetchedAt) {
       const chartFreshness = evaluateFreshness(chartFetchedAt, FRESHNESS_THRESHOLDS.CHART_DATA);
@@ -57,36 +127,114 @@ export default function FreshnessIndicator({
     }
 
     const msgs: string[] = [];
+    if (rateLimited) {
+      if (worst === 'fresh') worst = 'limited';
+      msgs.push('Upstream rate limit reached, updates may be delayed');
+    }
     if (!listFreshness.isFresh) msgs.push(`List: ${listFreshness.staleReason}`);
     if (chartMessage) msgs.push(`Chart: ${chartMessage}`);
     if (driftMessage) msgs.push(driftMessage);
     if (msgs.length === 0) msgs.push(`Data is fresh (age ${listFreshness.ageFormatted})`);
 
     return { status: worst, message: msgs.join(' | ') };
-  }, [wsConnected, listFetchedAt, chartFetchedAt, listPrice, chartLatestPrice]);
+  }, [wsConnected, feed, rateLimited, listFetchedAt, chartFetchedAt, listPrice, chartLatestPrice]);
 
   const dotColor =
-    status === 'fresh' ? '#22c55e' : status === 'stale' ? '#ef4444' : '#a3a3a3';
+    status === 'fresh' ? '#22c55e'
+      : status === 'limited' ? '#f59e0b'
+      : status === 'stale' ? '#ef4444'
+      : '#a3a3a3';
+
+  const label = wsConnected
+    ? status === 'fresh' ? '⚡ Live' : status === 'limited' ? '⚡ Delayed' : '⚡ Stalled'
+    : status === 'fresh' ? 'Live' : status === 'limited' ? 'Delayed' : 'Stale';
 
   return (
-    <span
-      className="freshness-indicator"
-      title={message}
-      style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}
-    >
-      <span
-        style={{
-          width: 10,
-          height: 10,
-          borderRadius: '50%',
-          backgroundColor: dotColor,
-          display: 'inline-block',
-          ...(wsConnected ? { animation: 'pulse 2s infinite' } : {}),
-        }}
-      />
-      <span style={{ fontSize: 12, opacity: 0.8 }}>
-        {wsConnected ? '⚡ Live' : (status === 'fresh' ? 'Live' : 'Stale')}
-      </span>
-    </span>
+    <div className="freshness-indicator" ref={popoverRef}>
+      <button
+        type="button"
+        className="freshness-indicator-button"
+        title={message}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}
+      >
+        <span
+          style={{
+            width: 10,
+            height: 10,
+            borderRadius: '50%',
+            backgroundColor: dotColor,
+            display: 'inline-block',
+            ...(wsConnected && status === 'fresh' ? { animation: 'pulse 2s infinite' } : {}),
+          }}
+        />
+        <span style={{ fontSize: 12, opacity: 0.8 }}>{label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="freshness-popover" role="dialog" aria-label="Live feed diagnostics">
+          <div className="freshness-popover-header">Live feed</div>
+          {feedHealth && feed ? (
+            <dl className="freshness-popover-list">
+              <dt>Status</dt>
+              <dd>{FEED_STATUS_LABELS[feed.status]}</dd>
+              <dt>Transport</dt>
+              <dd>{feedHealth.transport}</dd>
+              <dt>Last frame</dt>
+              <dd>{feed.silentMs === null ? 'none yet' : `${formatAge(feed.silentMs)} ago`}</dd>
+              <dt>Message rate</dt>
+              <dd>{feedHealth.messageRate}/min</dd>
+              <dt>Latency</dt>
+              <dd>{feedHealth.latencyMs === null ? 'n/a' : `${Math.round(feedHealth.latencyMs)} ms`}</dd>
+              <dt>Reconnects</dt>
+              <dd>{feedHealth.reconnects}</dd>
+              <dt>Gaps</dt>
+              <dd>
+                {feedHealth.gaps}
+                {feedHealth.gaps > 0 && ` (longest ${formatAge(feedHealth.longestGapMs)})`}
+              </dd>
+              <dt>Stale coins</dt>
+              <dd>
+                {feed.staleCoins.length === 0
+                  ? 'none'
+                  : feed.staleCoins.slice(0, MAX_STALE_COINS_SHOWN).join(', ') +
+                    (feed.staleCoins.length > MAX_STALE_COINS_SHOWN
+                      ? ` +${feed.staleCoins.length - MAX_STALE_COINS_SHOWN} more`
+                      : '')}
+              </dd>
+              {tickRejections && (
+                <>
+                  <dt>Rejected ticks</dt>
+                  <dd>
+                    {tickRejections.rejected}
+                    {tickRejections.released > 0 && ` (${tickRejections.released} confirmed later)`}
+                  </dd>
+                  <dt>Quarantined</dt>
+                  <dd>{Object.keys(tickRejections.quarantined).join(', ') || 'none'}</dd>
+                </>
+              )}
+            </dl>
+          ) : (
+            <p className="freshness-popover-empty">The live feed has not started yet.</p>
+          )}
+          {tickRejections && tickRejections.recent.length > 0 && (
+            <ul className="freshness-popover-rejections">
+              {tickRejections.recent.slice(-MAX_REJECTIONS_SHOWN).reverse().map((tick) => (
+                <li key={`${tick.coinId}-${tick.at}-${tick.price}`}>
+                  {tick.coinId} {Number.isFinite(tick.price) ? formatPrice(tick.price, 'usd') : String(tick.price)}{' '}
+                  <span>
+                    ({tick.source}, {REJECTION_REASONS[tick.reason]}
+                    {tick.driftPercent !== null && ` by ${tick.driftPercent.toFixed(1)}%`})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {message && <p className="freshness-popover-message">{message}</p>}
+        </div>
+      )}
+    </div>
   );
 }
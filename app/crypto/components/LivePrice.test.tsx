@@ -12,20 +12,44 @@
 import { render, screen, act } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import LivePrice from './LivePrice';
+import { appendTick } from '../realtime/tickHistory';
+import type { TickHistory } from '../realtime/tickHistory';
+import type { Currency } from '../types';
 
 // ---------------------------------------------------------------------------
 // Zustand store mock
 // ---------------------------------------------------------------------------
 
+interface MockState {
+  rtPrices: Record<string, number>;
+  rtSources: Record<string, string>;
+  rtTicks: Record<string, TickHistory>;
+  currency: Currency;
+}
+
 let mockRtPrices: Record<string, number> = {};
+let mockRtSources: Record<string, string> = {};
+let mockRtTicks: Record<string, TickHistory> = {};
+let mockCurrency: Currency = 'usd';
 
 vi.mock('../store/cryptoStore', () => ({
-  useCryptoStore: (selector: (state: { rtPrices: Record<string, number> }) => unknown) =>
-    selector({ rtPrices: mockRtPrices }),
+  useCryptoStore: (selector: (state: MockState) => unknown) =>
+    selector({ rtPrices: mockRtPrices, rtSources: mockRtSources, rtTicks: mockRtTicks, currency: mockCurrency }),
 }));
 
+/** A tick history for `prices`, one tick every 10 s */
+function history(prices: number[]): TickHistory {
+  return prices.reduce<TickHistory | undefined>(
+    (h, price, i) => appendTick(h, { t: 1_700_000_000_000 + i * 10_000, price, source: 'coincap' }),
+    undefined
+  )!;
+}
+
 beforeEach(() => {
   mockRtPrices = {};
+  mockRtSources = {};
+  mockRtTicks = {};
+  mockCurrency = 'usd';
 });
 
 // ---------------------------------------------------------------------------
@@ -58,12 +82,57 @@ describe('LivePrice', () => {
     expect(el).toBeTruthy();
   });
 
+  it('prints the selected currency', () => {
+    mockRtPrices = { bitcoin: 46000 };
+    mockCurrency = 'eur';
+    render(<LivePrice coinId="bitcoin" fallbackPrice={0} />);
+    expect(screen.getByText('€46,000.00')).toBeTruthy();
+  });
+
+  it('prints the fallback price in its own currency until a live price arrives', () => {
+    mockCurrency = 'eur';
+    const { rerender } = render(<LivePrice coinId="bitcoin" fallbackPrice={50000} fallbackCurrency="usd" />);
+    expect(screen.getByText('$50,000.00')).toBeTruthy();
+
+    mockRtPrices = { bitcoin: 46000 };
+    rerender(<LivePrice coinId="bitcoin" fallbackPrice={50000} fallbackCurrency="usd" />);
+    expect(screen.getByText('€46,000.00')).toBeTruthy();
+  });
+
   it('uses the fallbackPrice when coinId is not in rtPrices', () => {
     mockRtPrices = { ethereum: 3000 };
     render(<LivePrice coinId="bitcoin" fallbackPrice={45000} />);
     expect(screen.getByText('$45,000.00')).toBeTruthy();
   });
 
+  it('names the upstream of a streamed price in its tooltip', () => {
+    mockRtPrices = { bitcoin: 61234.56 };
+    mockRtSources = { bitcoin: 'coinbase' };
+    render(<LivePrice coinId="bitcoin" fallbackPrice={50000} />);
+    const span = document.querySelector('span.live-price') as HTMLSpanElement;
+    expect(span.title).toBe('Live price via Coinbase');
+    expect(span.dataset.source).toBe('coinbase');
+  });
+
+  it('adds tick statistics to the tooltip', () => {
+    mockRtPrices = { bitcoin: 101 };
+    mockRtSources = { bitcoin: 'coincap' };
+    // Seven ticks over a minute: the first is the 1-minute baseline
+    mockRtTicks = { bitcoin: history([100, 100.5, 100.2, 100.8, 100.4, 100.9, 101]) };
+    render(<LivePrice coinId="bitcoin" fallbackPrice={50000} />);
+    const span = document.querySelector('span.live-price') as HTMLSpanElement;
+    expect(span.title).toMatch(/^Live price via CoinCap · 6 ticks\/min · \+1\.00% 1m · volatility \d\.\d{3}%$/);
+  });
+
+  it('shows a mini trend of recent ticks when showTrend is set', () => {
+    mockRtTicks = { bitcoin: history([100, 101, 102]) };
+    const { rerender } = render(<LivePrice coinId="bitcoin" fallbackPrice={100} />);
+    expect(document.querySelector('svg.tick-trend')).toBeNull();
+
+    rerender(<LivePrice coinId="bitcoin" fallbackPrice={100} showTrend />);
+    expect(document.querySelector('svg.tick-trend-up')).not.toBeNull();
+  });
+
   it('renders a span with the live-price class', () => {
     render(<LivePrice coinId="bitcoin" fallbackPrice={1} />);
     const span = document.querySelector('span.live-price');
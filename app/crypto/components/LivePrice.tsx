@@ -1,24 +1,66 @@
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useMemo } from 'react';
 import { useCryptoStore } from '../store/cryptoStore';
+import { computeTickStats, tickList } from '../realtime/tickHistory';
+import TickTrend from './TickTrend';
+import { formatPrice } from '../utils/currency';
+import type { TickStats } from '../realtime/tickHistory';
+import type { RealtimeSourceId } from '../realtime/types';
+import type { Currency } from '../types';
 
 interface LivePriceProps {
   coinId: string;
   fallbackPrice: number;
+  /**
+   * Currency `fallbackPrice` is quoted in, e.g. the REST list's, which lags
+   * the selected currency until its refetch lands; defaults to the selected one
+   */
+  fallbackCurrency?: Currency;
   showDirection?: boolean;
+  /** Show a sparkline of the coin's recent live ticks */
+  showTrend?: boolean;
   className?: string;
 }
 
-function formatPrice(price: number): string {
-  if (price >= 1) {
-    return price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const SOURCE_LABELS: Record<RealtimeSourceId, string> = {
+  coincap: 'CoinCap',
+  coinbase: 'Coinbase',
+  mock: 'mock feed',
+  rest: 'REST polling',
+};
+
+// Ticks drawn in the mini trend
+const TREND_TICKS = 30;
+
+function describeLive(source: RealtimeSourceId, stats: TickStats | null): string {
+  const parts = [`Live price via ${SOURCE_LABELS[source]}`];
+  if (stats) {
+    parts.push(`${stats.tickRate} ticks/min`);
+    if (stats.change1m !== null) parts.push(`${stats.change1m >= 0 ? '+' : ''}${stats.change1m.toFixed(2)}% 1m`);
+    if (stats.volatility !== null) parts.push(`volatility ${stats.volatility.toFixed(3)}%`);
   }
-  return price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+  return parts.join(' · ');
 }
 
-export default function LivePrice({ coinId, fallbackPrice, showDirection = true, className = '' }: LivePriceProps) {
-  const livePrice = useCryptoStore((state) => state.rtPrices[coinId] ?? fallbackPrice);
+export default function LivePrice({
+  coinId,
+  fallbackPrice,
+  fallbackCurrency,
+  showDirection = true,
+  showTrend = false,
+  className = '',
+}: LivePriceProps) {
+  const streamed = useCryptoStore((state) => state.rtPrices[coinId]);
+  const selectedCurrency = useCryptoStore((state) => state.currency);
+  const livePrice = streamed ?? fallbackPrice;
+  // Streamed prices are already in the selected currency
+  const currency = streamed === undefined ? fallbackCurrency ?? selectedCurrency : selectedCurrency;
+  const source = useCryptoStore((state) => state.rtSources[coinId]);
+  const history = useCryptoStore((state) => state.rtTicks[coinId]);
+  const ticks = useMemo(() => tickList(history), [history]);
+  // Measured up to the latest tick, so the tooltip does not depend on render time
+  const stats = useMemo(() => (ticks.length > 0 ? computeTickStats(ticks, ticks[ticks.length - 1].t) : null), [ticks]);
   const prevPriceRef = useRef(livePrice);
   const spanRef = useRef<HTMLSpanElement>(null);
 
@@ -49,8 +91,16 @@ export default function LivePrice({ coinId, fallbackPrice, showDirection = true,
   }, [livePrice, showDirection]);
 
   return (
-    <span ref={spanRef} className={`live-price ${className}`}>
-      ${formatPrice(livePrice)}
-    </span>
+    <>
+      <span
+        ref={spanRef}
+        className={`live-price ${className}`}
+        title={source ? describeLive(source, stats) : undefined}
+        data-source={source}
+      >
+        {formatPrice(livePrice, currency)}
+      </span>
+      {showTrend && <TickTrend ticks={ticks.slice(-TREND_TICKS)} />}
+    </>
   );
 }
@@ -0,0 +1,92 @@
+/**
+ * Tests for StudiesDropdown component.
+ *
+ * The menu lists every indicator in the registry, so a newly registered
+ * indicator shows up without touching the component.
+ *
+ * Zustand is mocked so each test controls the enabled studies directly.
+ */
+
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import StudiesDropdown from './StudiesDropdown';
+import { registerIndicator, unregisterIndicator } from '../indicators';
+import type { IndicatorDefinition } from '../indicators';
+import type { EnabledStudies } from '../types';
+
+const obvIndicator: IndicatorDefinition = {
+  id: 'obv',
+  name: 'OBV',
+  info: { title: 'On-Balance Volume', description: 'Cumulative volume flow', source: 'https://example.com/obv' },
+  inputs: ['close', 'volume'],
+  pane: 'sub',
+  outputs: [{ key: 'obv', label: 'OBV', color: { light: '#000', dark: '#fff' } }],
+  params: () => ({}),
+  label: () => 'OBV',
+  compute: ({ close }) => ({ obv: close.map(() => 0) }),
+};
+
+// ---------------------------------------------------------------------------
+// Zustand store mock
+// ---------------------------------------------------------------------------
+
+let mockEnabledStudies: EnabledStudies = {};
+const toggleStudy = vi.fn();
+
+vi.mock('../store/cryptoStore', () => ({
+  useCryptoStore: () => ({ enabledStudies: mockEnabledStudies, toggleStudy }),
+}));
+
+beforeEach(() => {
+  mockEnabledStudies = { rsi: true, sma: false, bollingerBands: false, macd: false };
+  toggleStudy.mockClear();
+});
+
+afterEach(() => {
+  unregisterIndicator('obv');
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('StudiesDropdown', () => {
+  it('lists the registered indicators', () => {
+    render(<StudiesDropdown />);
+    expect(screen.getByRole('button', { name: /Studies/ }).textContent).toContain('1');
+
+    fireEvent.click(screen.getByRole('button', { name: /Studies/ }));
+    const names = [...document.querySelectorAll('.study-name')].map((name) => name.textContent);
+    expect(names).toEqual(['RSI', 'SMA', 'Bollinger Bands', 'MACD']);
+    expect((screen.getAllByRole('checkbox')[0] as HTMLInputElement).checked).toBe(true);
+  });
+
+  it('offers an indicator as soon as it is registered', () => {
+    registerIndicator(obvIndicator);
+    render(<StudiesDropdown />);
+    fireEvent.click(screen.getByRole('button', { name: /Studies/ }));
+
+    expect(screen.getByText('Cumulative volume flow')).not.toBeNull();
+    fireEvent.click(screen.getAllByRole('checkbox')[4]);
+    expect(toggleStudy).toHaveBeenCalledWith('obv');
+  });
+
+  it('lists an indicator registered while the menu is open', () => {
+    render(<StudiesDropdown />);
+    fireEvent.click(screen.getByRole('button', { name: /Studies/ }));
+    expect(screen.queryByText('OBV')).toBeNull();
+
+    act(() => registerIndicator(obvIndicator));
+    expect(screen.getByText('OBV')).not.toBeNull();
+
+    act(() => unregisterIndicator('obv'));
+    expect(screen.queryByText('OBV')).toBeNull();
+  });
+
+  it('enables every registered indicator that is off', () => {
+    render(<StudiesDropdown />);
+    fireEvent.click(screen.getByRole('button', { name: /Studies/ }));
+    fireEvent.click(screen.getByText('Enable All'));
+    expect(toggleStudy.mock.calls.map(([id]) => id)).toEqual(['sma', 'bollingerBands', 'macd']);
+  });
+});
@@ -1,43 +1,8 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useSyncExternalStore } from 'react';
 import { useCryptoStore } from '../store/cryptoStore';
-import { SMA_INFO, MACD_INFO, BOLLINGER_INFO } from '../utils/indicators';
-import type { StudyType } from '../types';
-
-interface StudyOption {
-  id: StudyType;
-  name: string;
-  description: string;
-  infoUrl: string;
-}
-
-const STUDY_OPTIONS: StudyOption[] = [
-  {
-    id: 'rsi',
-    name: 'RSI',
-    description: 'Relative Strength Index - Momentum oscillator',
-    infoUrl: 'https://www.investopedia.com/terms/r/rsi.asp',
-  },
-  {
-    id: 'sma',
-    name: 'SMA',
-    description: SMA_INFO.description,
-    infoUrl: SMA_INFO.source,
-  },
-  {
-    id: 'bollingerBands',
-    name: 'Bollinger Bands',
-    description: BOLLINGER_INFO.description,
-    infoUrl: BOLLINGER_INFO.source,
-  },
-  {
-    id: 'macd',
-    name: 'MACD',
-    description: MACD_INFO.description,
-    infoUrl: MACD_INFO.source,
-  },
-];
+import { listIndicators, subscribeIndicators } from '../indicators';
 
 interface StudiesDropdownProps {
   disabled?: boolean;
@@ -60,8 +25,10 @@ export default function StudiesDropdown({ disabled = false }: StudiesDropdownPro
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Count active studies
-  const activeCount = Object.values(enabledStudies).filter(Boolean).length;
+  // Every registered indicator is offered, including ones registered while the
+  // menu is open; toggles for unregistered IDs are ignored
+  const studies = useSyncExternalStore(subscribeIndicators, listIndicators, listIndicators);
+  const activeCount = studies.filter((study) => enabledStudies[study.id]).length;
 
   return (
     <div className={`studies-dropdown ${disabled ? 'disabled' : ''}`} ref={dropdownRef}>
@@ -101,12 +68,12 @@ export default function StudiesDropdown({ disabled = false }: StudiesDropdownPro
             <span>Technical Indicators</span>
           </div>
           <div className="studies-menu-list">
-            {STUDY_OPTIONS.map((study) => (
+            {studies.map((study) => (
               <label key={study.id} className="study-option">
                 <div className="study-checkbox-wrapper">
                   <input
                     type="checkbox"
-                    checked={enabledStudies[study.id]}
+                    checked={!!enabledStudies[study.id]}
                     onChange={() => toggleStudy(study.id)}
                     className="study-checkbox"
                   />
@@ -114,10 +81,10 @@ export default function StudiesDropdown({ disabled = false }: StudiesDropdownPro
                 </div>
                 <div className="study-info">
                   <span className="study-name">{study.name}</span>
-                  <span className="study-description">{study.description}</span>
+                  <span className="study-description">{study.info.description}</span>
                 </div>
                 <a
-                  href={study.infoUrl}
+                  href={study.info.source}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="study-info-link"
@@ -132,7 +99,7 @@ export default function StudiesDropdown({ disabled = false }: StudiesDropdownPro
           <div className="studies-menu-footer">
             <button
               onClick={() => {
-                STUDY_OPTIONS.forEach((study) => {
+                studies.forEach((study) => {
                   if (!enabledStudies[study.id]) {
                     toggleStudy(study.id);
                   }
@@ -144,7 +111,7 @@ export default function StudiesDropdown({ disabled = false }: StudiesDropdownPro
             </button>
             <button
               onClick={() => {
-                STUDY_OPTIONS.forEach((study) => {
+                studies.forEach((study) => {
                   if (enabledStudies[study.id]) {
                     toggleStudy(study.id);
                   }
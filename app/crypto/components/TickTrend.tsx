@@ -0,0 +1,38 @@
+'use client';
+
+import type { PriceTick } from '../realtime/types';
+
+interface TickTrendProps {
+  ticks: PriceTick[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Sparkline of recent live ticks, coloured by the move from the first to the
+ * last.  Renders nothing until there are two ticks to connect.
+ */
+export default function TickTrend({ ticks, width = 48, height = 14 }: TickTrendProps) {
+  if (ticks.length < 2) return null;
+
+  const prices = ticks.map((tick) => tick.price);
+  const min = Math.min(...prices);
+  const range = Math.max(...prices) - min || 1;
+  const step = width / (ticks.length - 1);
+  const points = prices
+    .map((price, i) => `${(i * step).toFixed(1)},${(height - ((price - min) / range) * height).toFixed(1)}`)
+    .join(' ');
+  const direction = prices[prices.length - 1] >= prices[0] ? 'up' : 'down';
+
+  return (
+    <svg
+      className={`tick-trend tick-trend-${direction}`}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      aria-hidden="true"
+    >
+      <polyline points={points} fill="none" strokeWidth={1.5} />
+    </svg>
+  );
+}
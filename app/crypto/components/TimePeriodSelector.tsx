@@ -1,6 +1,8 @@
 'use client';
 
+import { useState } from 'react';
 import { useCryptoStore } from '../store/cryptoStore';
+import { formatRangeLabel, rangeFromDateInputs, toDateInputValue } from '../utils/timeRange';
 import type { TimePeriod } from '../types';
 
 interface TimePeriodOption {
@@ -13,22 +15,94 @@ const TIME_PERIODS: TimePeriodOption[] = [
   { value: '7', label: '7D' },
   { value: '30', label: '30D' },
   { value: '365', label: '1Y' },
+  { value: 'max', label: 'Max' },
 ];
 
+const DAY_SECONDS = 24 * 60 * 60;
+
 export default function TimePeriodSelector() {
-  const { timePeriod, setTimePeriod } = useCryptoStore();
+  const { timePeriod, setTimePeriod, timeRange, setTimeRange, chartPattern } = useCryptoStore();
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [fromValue, setFromValue] = useState('');
+  const [toValue, setToValue] = useState('');
+  const [today, setToday] = useState('');
+
+  // Custom ranges are served by the history endpoint, which backs the line chart only
+  const customDisabled = chartPattern === 'candlestick';
+  const draftRange = rangeFromDateInputs(fromValue, toValue);
+
+  const openPicker = () => {
+    const now = Math.floor(Date.now() / 1000);
+    const initial = timeRange ?? { from: now - 30 * DAY_SECONDS, to: now };
+    setFromValue(toDateInputValue(initial.from));
+    setToValue(toDateInputValue(initial.to));
+    setToday(toDateInputValue(now));
+    setPickerOpen(true);
+  };
+
+  const applyRange = () => {
+    if (!draftRange) return;
+    setTimeRange(draftRange);
+    setPickerOpen(false);
+  };
 
   return (
-    <div className="time-period-selector">
-      {TIME_PERIODS.map((period) => (
+    <div className="time-period-control">
+      <div className="time-period-selector">
+        {TIME_PERIODS.map((period) => (
+          <button
+            key={period.value}
+            onClick={() => setTimePeriod(period.value)}
+            className={`period-button ${!timeRange && timePeriod === period.value ? 'active' : ''}`}
+          >
+            {period.label}
+          </button>
+        ))}
         <button
-          key={period.value}
-          onClick={() => setTimePeriod(period.value)}
-          className={`period-button ${timePeriod === period.value ? 'active' : ''}`}
+          onClick={() => (pickerOpen ? setPickerOpen(false) : openPicker())}
+          className={`period-button ${timeRange ? 'active' : ''}`}
+          disabled={customDisabled}
+          title={
+            customDisabled
+              ? 'Custom ranges are available on the line chart'
+              : timeRange ? formatRangeLabel(timeRange) : 'Pick a custom date range'
+          }
         >
-          {period.label}
+          {timeRange ? formatRangeLabel(timeRange) : 'Custom'}
         </button>
-      ))}
+      </div>
+
+      {pickerOpen && !customDisabled && (
+        <div className="custom-range-panel" role="dialog" aria-label="Custom date range">
+          <label>
+            From
+            <input
+              type="date"
+              value={fromValue}
+              max={toValue || undefined}
+              onChange={(e) => setFromValue(e.target.value)}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              value={toValue}
+              min={fromValue || undefined}
+              max={today}
+              onChange={(e) => setToValue(e.target.value)}
+            />
+          </label>
+          <div className="custom-range-actions">
+            <button className="period-button" onClick={() => setPickerOpen(false)}>
+              Cancel
+            </button>
+            <button className="period-button active" onClick={applyRange} disabled={!draftRange}>
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -15,10 +15,21 @@ interface Features {
 
 interface Config {
   coinGeckoApiKey: string;
+  coinGeckoApiPlan: string;
   baseApiUrl: string;
   cacheDuration: CacheDuration;
+  cacheStore: string;
+  cacheDir: string;
   autoRefreshInterval: number;
+  realtimeUpstream: string;
+  coinCapWsUrl: string;
+  coinbaseWsUrl: string;
+  realtimeTransport: string;
+  realtimeSharing: string;
+  realtimeBatchMs: number;
+  fxProvider: string;
   defaultCurrency: string;
+  numberLocale: string;
   defaultPerPage: number;
   defaultTimePeriod: string;
   features: Features;
@@ -26,7 +37,10 @@ interface Config {
 
 export const config: Config = {
   // API Configuration
-  coinGeckoApiKey: process.env.NEXT_PUBLIC_COINGECKO_API_KEY || '',
+  // Server-only: never prefix with NEXT_PUBLIC_ or the key ships to the browser
+  coinGeckoApiKey: process.env.COINGECKO_API_KEY || '',
+  // 'pro' (pro-api host) or 'demo' (public host with a demo key)
+  coinGeckoApiPlan: process.env.COINGECKO_API_PLAN || 'pro',
   baseApiUrl: '/crypto/api',
   
   // Cache Durations (milliseconds)
@@ -35,12 +49,36 @@ export const config: Config = {
     history: parseInt(process.env.CACHE_DURATION_HISTORY || '300000'), // 5 minutes
     search: parseInt(process.env.CACHE_DURATION_SEARCH || '3600000'), // 1 hour
   },
+
+  // Server-side cache backend: 'auto' (Netlify Blobs on Netlify, memory elsewhere),
+  // 'memory', 'blobs' or 'filesystem'
+  cacheStore: process.env.CACHE_STORE || 'auto',
+  cacheDir: process.env.CACHE_DIR || '.cache/crypto',
   
   // Auto-refresh interval
   autoRefreshInterval: parseInt(process.env.AUTO_REFRESH_INTERVAL || '30000'), // 30 seconds
+
+  // Live prices: upstream for the server's /crypto/api/stream ('coincap',
+  // failing over to Coinbase, or 'mock' for a synthetic feed) and the
+  // transport browsers try first ('websocket', 'sse' or 'poll')
+  realtimeUpstream: process.env.REALTIME_UPSTREAM || 'coincap',
+  coinCapWsUrl: process.env.COINCAP_WS_URL || 'wss://ws.coincap.io/prices',
+  coinbaseWsUrl: process.env.COINBASE_WS_URL || 'wss://ws-feed.exchange.coinbase.com',
+  realtimeTransport: process.env.NEXT_PUBLIC_REALTIME_TRANSPORT || 'websocket',
+  // Cross-tab sharing of that connection: 'broadcast' (leader tab),
+  // 'sharedworker' or 'none'
+  realtimeSharing: process.env.NEXT_PUBLIC_REALTIME_SHARING || 'broadcast',
+  // How often streamed ticks are applied (ms); 0 = once per animation frame
+  realtimeBatchMs: parseInt(process.env.NEXT_PUBLIC_REALTIME_BATCH_MS || '0'),
+  // Exchange rates for converting USD ticks: 'auto' (CoinGecko) or 'fixture'
+  // for fixed offline rates
+  fxProvider: process.env.FX_PROVIDER || 'auto',
   
   // Display settings
   defaultCurrency: process.env.NEXT_PUBLIC_DEFAULT_CURRENCY || 'usd',
+  // Locale for prices and amounts; fixed rather than the browser's so the
+  // server render and hydration agree
+  numberLocale: process.env.NEXT_PUBLIC_NUMBER_LOCALE || 'en-US',
   defaultPerPage: parseInt(process.env.NEXT_PUBLIC_DEFAULT_PER_PAGE || '100'),
   defaultTimePeriod: process.env.NEXT_PUBLIC_DEFAULT_TIME_PERIOD || '7',
   
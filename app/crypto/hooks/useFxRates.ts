@@ -0,0 +1,41 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { FxRates } from '../types';
+
+export const FX_RATES_URL = '/crypto/api/fx-rates';
+// The route caches rates for ten minutes; refreshing more often gains nothing
+const REFRESH_INTERVAL_MS = 600_000;
+
+/**
+ * USD exchange rates for the dashboard currencies, refreshed periodically.
+ * Returns null until the first response arrives; a failed refresh keeps
+ * the previous rates.
+ */
+export function useFxRates(): FxRates | null {
+  const [rates, setRates] = useState<FxRates | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load(): Promise<void> {
+      try {
+        const response = await fetch(FX_RATES_URL);
+        if (!response.ok) throw new Error(`Exchange rates failed: ${response.status}`);
+        const { data } = (await response.json()) as { data: FxRates };
+        if (!cancelled) setRates(data);
+      } catch (err) {
+        console.log('Exchange rates unavailable:', (err as Error).message);
+      }
+    }
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return rates;
+}
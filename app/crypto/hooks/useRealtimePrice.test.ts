@@ -8,6 +8,7 @@
 
 import { renderHook, act } from '@testing-library/react';
 import { useRealtimePrice } from './useRealtimePrice';
+import type { CoinIdentity } from '../types';
 
 // ---------------------------------------------------------------------------
 // WebSocket mock
@@ -19,6 +20,10 @@ interface MockWSInstance {
   onmessage: ((event: MessageEvent) => void) | null;
   onerror: ((event: Event) => void) | null;
   onclose: ((event: CloseEvent) => void) | null;
+  /** Messages sent by the hook (Coinbase subscribe requests) */
+  sent: string[];
+  /** Whether the hook closed this socket */
+  closed: boolean;
   close: () => void;
   /** Simulate a successful connection */
   triggerOpen: () => void;
@@ -38,15 +43,22 @@ class MockWebSocket implements MockWSInstance {
   onmessage: ((event: MessageEvent) => void) | null = null;
   onerror: ((event: Event) => void) | null = null;
   onclose: ((event: CloseEvent) => void) | null = null;
+  sent: string[] = [];
+  closed = false;
 
   constructor(url: string) {
     this.url = url;
     _lastInstance = this;
   }
 
+  send(data: string) {
+    this.sent.push(data);
+  }
+
   close() {
+    this.closed = true;
     this.onclose?.(new CloseEvent('close'));
-    _lastInstance = null;
+    if (_lastInstance === this) _lastInstance = null;
   }
 
   triggerOpen() {
@@ -73,6 +85,28 @@ function getLastWS(): MockWSInstance {
   return _lastInstance;
 }
 
+/** fetch stub answering the coin-identities lookups made for Coinbase */
+function coinIdentitiesFetch(identities: CoinIdentity[]) {
+  return vi.fn(async (url: string) => {
+    const ids = new URL(url, 'http://localhost').searchParams.get('ids')?.split(',') ?? [];
+    return { ok: true, json: async () => ({ data: identities.filter((identity) => ids.includes(identity.id)) }) };
+  });
+}
+
+/** Apply buffered ticks, which the hook batches per animation frame. */
+function nextFrame() {
+  act(() => {
+    vi.advanceTimersToNextFrame();
+  });
+}
+
+/** Let pending promises (Coinbase product lookups) settle. */
+async function flush() {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(0);
+  });
+}
+
 beforeAll(() => {
   vi.stubGlobal('WebSocket', MockWebSocket);
 });
@@ -84,6 +118,8 @@ afterAll(() => {
 beforeEach(() => {
   _lastInstance = null;
   vi.useFakeTimers();
+  // Coinbase lists none of the coins unless a test says otherwise
+  vi.stubGlobal('fetch', coinIdentitiesFetch([]));
 });
 
 afterEach(() => {
@@ -99,7 +135,7 @@ describe('useRealtimePrice', () => {
   it('starts disconnected with empty prices when no coinIds provided', () => {
     const { result } = renderHook(() => useRealtimePrice([]));
     expect(result.current.connected).toBe(false);
-    expect(result.current.prices).toEqual({});
+    expect(result.current.latest().prices).toEqual({});
   });
 
   it('opens a WebSocket connection when coinIds are provided', () => {
@@ -134,8 +170,9 @@ describe('useRealtimePrice', () => {
       getLastWS().triggerOpen();
       getLastWS().triggerMessage({ bitcoin: '60000.50', ethereum: '3000.25' });
     });
-    expect(result.current.prices['bitcoin']).toBe(60000.5);
-    expect(result.current.prices['ethereum']).toBe(3000.25);
+    nextFrame();
+    expect(result.current.latest().prices['bitcoin']).toBe(60000.5);
+    expect(result.current.latest().prices['ethereum']).toBe(3000.25);
   });
 
   it('translates CoinCap IDs back to CoinGecko IDs on message', () => {
@@ -145,8 +182,9 @@ describe('useRealtimePrice', () => {
       // CoinCap sends 'xrp', hook must map back to 'ripple'
       getLastWS().triggerMessage({ xrp: '0.55' });
     });
-    expect(result.current.prices['ripple']).toBe(0.55);
-    expect(result.current.prices['xrp']).toBeUndefined();
+    nextFrame();
+    expect(result.current.latest().prices['ripple']).toBe(0.55);
+    expect(result.current.latest().prices['xrp']).toBeUndefined();
   });
 
   it('sets connected=false on WebSocket error', () => {
@@ -193,7 +231,8 @@ describe('useRealtimePrice', () => {
     act(() => {
       getLastWS().onmessage?.(new MessageEvent('message', { data: 'not-json' }));
     });
-    expect(result.current.prices).toEqual({});
+    nextFrame();
+    expect(result.current.latest().prices).toEqual({});
   });
 
   it('reconnects with a new WebSocket when the coin set changes', () => {
@@ -233,6 +272,50 @@ describe('useRealtimePrice', () => {
     expect(getLastWS().url).toBe(firstURL);
   });
 
+  it('keeps the old socket streaming until the new coin set connects', () => {
+    const { result, rerender } = renderHook(
+      ({ ids }: { ids: string[] }) => useRealtimePrice(ids),
+      { initialProps: { ids: ['bitcoin'] } }
+    );
+    const first = getLastWS();
+    act(() => first.triggerOpen());
+
+    act(() => {
+      rerender({ ids: ['bitcoin', 'ethereum'] });
+    });
+    const second = getLastWS();
+    expect(second).not.toBe(first);
+    expect(first.closed).toBe(false);
+
+    act(() => first.triggerMessage({ bitcoin: '70000' }));
+    nextFrame();
+    expect(result.current.latest().prices['bitcoin']).toBe(70000);
+
+    act(() => second.triggerOpen());
+    expect(first.closed).toBe(true);
+    expect(result.current.connected).toBe(true);
+  });
+
+  it('does not reconnect when coins are only removed', () => {
+    const { result, rerender } = renderHook(
+      ({ ids }: { ids: string[] }) => useRealtimePrice(ids),
+      { initialProps: { ids: ['bitcoin', 'ethereum'] } }
+    );
+    const ws = getLastWS();
+    act(() => ws.triggerOpen());
+
+    act(() => {
+      rerender({ ids: ['bitcoin'] });
+    });
+    expect(getLastWS()).toBe(ws);
+
+    act(() => ws.triggerMessage({ bitcoin: '70000', ethereum: '3500' }));
+    nextFrame();
+    expect(result.current.latest().prices).toEqual({ bitcoin: 70000 });
+    // Feed health stops tracking the dropped coin
+    expect(Object.keys(result.current.health().lastFrameByCoin)).toEqual(['bitcoin']);
+  });
+
   it('retains accumulated prices after a coin-set reconnect', () => {
     const { result, rerender } = renderHook(
       ({ ids }: { ids: string[] }) => useRealtimePrice(ids),
@@ -243,13 +326,314 @@ describe('useRealtimePrice', () => {
       getLastWS().triggerOpen();
       getLastWS().triggerMessage({ bitcoin: '70000' });
     });
-    expect(result.current.prices['bitcoin']).toBe(70000);
+    nextFrame();
+    expect(result.current.latest().prices['bitcoin']).toBe(70000);
 
     // Expand coin set — previous prices should survive in state
     act(() => {
       rerender({ ids: ['bitcoin', 'ethereum'] });
     });
     // bitcoin price still in state from before reconnect
-    expect(result.current.prices['bitcoin']).toBe(70000);
+    expect(result.current.latest().prices['bitcoin']).toBe(70000);
+  });
+
+  it('applies a burst of frames as one batch per animation frame', () => {
+    const onBatch = vi.fn();
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin', 'ethereum'], { onBatch }));
+    act(() => {
+      getLastWS().triggerOpen();
+      getLastWS().triggerMessage({ bitcoin: '70000' });
+      getLastWS().triggerMessage({ bitcoin: '70001', ethereum: '3500' });
+      getLastWS().triggerMessage({ bitcoin: '70002' });
+    });
+    expect(result.current.latest().prices).toEqual({});
+
+    nextFrame();
+    expect(result.current.latest().prices).toEqual({ bitcoin: 70002, ethereum: 3500 });
+    expect(onBatch).toHaveBeenCalledTimes(1);
+    expect(result.current.metrics()).toMatchObject({ frames: 3, ticks: 4, coalesced: 2, batches: 1, applied: 2 });
+  });
+
+  it('passes only changed prices, and every tick, to onBatch', () => {
+    const onBatch = vi.fn();
+    renderHook(() => useRealtimePrice(['bitcoin', 'ethereum'], { onBatch }));
+    act(() => {
+      getLastWS().triggerOpen();
+      getLastWS().triggerMessage({ bitcoin: '70000', ethereum: '3500' });
+    });
+    nextFrame();
+    act(() => getLastWS().triggerMessage({ bitcoin: '70000', ethereum: '3501' }));
+    nextFrame();
+
+    expect(onBatch).toHaveBeenLastCalledWith({
+      prices: { ethereum: 3501 },
+      sources: { ethereum: 'coincap' },
+      ticks: {
+        bitcoin: [{ t: expect.any(Number), price: 70000, source: 'coincap' }],
+        ethereum: [{ t: expect.any(Number), price: 3501, source: 'coincap' }],
+      },
+    });
+  });
+
+  it('does not re-render the caller per batch', () => {
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders += 1;
+      return useRealtimePrice(['bitcoin']);
+    });
+    act(() => getLastWS().triggerOpen());
+    const afterOpen = renders;
+
+    for (let i = 0; i < 5; i++) {
+      act(() => getLastWS().triggerMessage({ bitcoin: String(70000 + i) }));
+      nextFrame();
+    }
+
+    expect(renders).toBe(afterOpen);
+    expect(result.current.latest().prices).toEqual({ bitcoin: 70004 });
+  });
+
+  it('batches on a fixed interval when batchIntervalMs is set', () => {
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin'], { batchIntervalMs: 500 }));
+    act(() => {
+      getLastWS().triggerOpen();
+      getLastWS().triggerMessage({ bitcoin: '70000' });
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(499);
+    });
+    expect(result.current.latest().prices).toEqual({});
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current.latest().prices).toEqual({ bitcoin: 70000 });
+  });
+
+  it('holds back a tick far from the reference price', () => {
+    const referencePrices = { bitcoin: 70000 };
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin', 'ethereum'], { referencePrices }));
+    act(() => {
+      getLastWS().triggerOpen();
+      getLastWS().triggerMessage({ bitcoin: '7000', ethereum: '3500' });
+    });
+    nextFrame();
+
+    expect(result.current.latest().prices).toEqual({ ethereum: 3500 });
+    expect(result.current.rejections()).toMatchObject({
+      rejected: 1,
+      quarantined: { bitcoin: { price: 7000, sources: ['coincap'] } },
+    });
+    expect(result.current.rejections().recent[0]).toMatchObject({ coinId: 'bitcoin', reason: 'reference', expected: 70000 });
+    // Feed health still counts the frame
+    expect(result.current.health().messageRate).toBe(1);
+  });
+
+  it('reports feed health: frame times, message rate and reconnects', async () => {
+    vi.setSystemTime(1_000_000);
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin', 'ethereum']));
+    act(() => {
+      getLastWS().triggerOpen();
+      getLastWS().triggerMessage({ bitcoin: '70000' });
+    });
+    act(() => {
+      vi.advanceTimersByTime(2_000);
+    });
+    act(() => getLastWS().triggerMessage({ ethereum: '3500' }));
+
+    expect(result.current.health()).toMatchObject({
+      connected: true,
+      transport: 'websocket',
+      connectedAt: 1_000_000,
+      lastFrameAt: 1_002_000,
+      lastFrameByCoin: { bitcoin: 1_000_000, ethereum: 1_002_000 },
+      messageRate: 2,
+      reconnects: 0,
+      latencyMs: null,
+    });
+
+    // CoinCap drops and Coinbase lists neither coin, so the hook backs off
+    act(() => getLastWS().triggerClose());
+    await flush();
+    expect(result.current.health().connected).toBe(false);
+    act(() => {
+      vi.advanceTimersByTime(5_000);
+    });
+    expect(result.current.health().reconnects).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// EventSource mock
+// ---------------------------------------------------------------------------
+
+class MockEventSource {
+  static last: MockEventSource | null = null;
+  url: string;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  private listeners: Record<string, ((event: MessageEvent) => void)[]> = {};
+
+  constructor(url: string) {
+    this.url = url;
+    MockEventSource.last = this;
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, data: unknown) {
+    for (const listener of this.listeners[type] ?? []) {
+      listener(new MessageEvent(type, { data: JSON.stringify(data) }));
+    }
+  }
+}
+
+describe('useRealtimePrice transports', () => {
+  beforeEach(() => {
+    MockEventSource.last = null;
+    vi.stubGlobal('EventSource', MockEventSource);
+    vi.stubGlobal('WebSocket', MockWebSocket);
+  });
+
+  it('streams prices from the SSE route when transport is sse', () => {
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin'], { transport: 'sse' }));
+    const source = MockEventSource.last!;
+    expect(source.url).toBe('/crypto/api/stream?ids=bitcoin');
+    expect(_lastInstance).toBeNull();
+
+    act(() => {
+      source.onopen?.();
+      source.emit('prices', { source: 'coinbase', prices: { bitcoin: 70000 } });
+    });
+    nextFrame();
+    expect(result.current.connected).toBe(true);
+    expect(result.current.latest().prices).toEqual({ bitcoin: 70000 });
+    expect(result.current.latest().sources).toEqual({ bitcoin: 'coinbase' });
+    expect(result.current.transport).toBe('sse');
+  });
+
+  it('estimates latency from the frame timestamps the SSE route relays', () => {
+    vi.setSystemTime(1_000_000);
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin'], { transport: 'sse' }));
+    const source = MockEventSource.last!;
+    act(() => {
+      source.onopen?.();
+      source.emit('prices', { source: 'coinbase', prices: { bitcoin: 70000 }, sentAt: 999_700 });
+    });
+
+    expect(result.current.health().latencyMs).toBe(300);
+    expect(result.current.health().transport).toBe('sse');
+  });
+
+  it('fails over to the Coinbase ticker when CoinCap cannot connect', async () => {
+    vi.stubGlobal('fetch', coinIdentitiesFetch([
+      { id: 'bitcoin', symbol: 'BTC', coincap: 'bitcoin', coinbase: { usd: 'BTC-USD' } },
+    ]));
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin']));
+
+    act(() => getLastWS().triggerClose());
+    await flush();
+
+    const ws = getLastWS();
+    expect(ws.url).toBe('wss://ws-feed.exchange.coinbase.com');
+    act(() => {
+      ws.triggerOpen();
+      ws.onmessage?.(new MessageEvent('message', {
+        data: JSON.stringify({ type: 'ticker', product_id: 'BTC-USD', price: '70100.5' }),
+      }));
+    });
+
+    nextFrame();
+    expect(JSON.parse(ws.sent[0])).toEqual({ type: 'subscribe', product_ids: ['BTC-USD'], channels: ['ticker'] });
+    expect(result.current.connected).toBe(true);
+    expect(result.current.latest().prices).toEqual({ bitcoin: 70100.5 });
+    expect(result.current.latest().sources).toEqual({ bitcoin: 'coinbase' });
+    expect(result.current.transport).toBe('websocket');
+  });
+
+  it('changes Coinbase subscriptions without reconnecting', async () => {
+    vi.stubGlobal('fetch', coinIdentitiesFetch([
+      { id: 'bitcoin', symbol: 'BTC', coincap: 'bitcoin', coinbase: { usd: 'BTC-USD' } },
+      { id: 'ethereum', symbol: 'ETH', coincap: 'ethereum', coinbase: { usd: 'ETH-USD' } },
+    ]));
+    const { rerender } = renderHook(
+      ({ ids }: { ids: string[] }) => useRealtimePrice(ids),
+      { initialProps: { ids: ['bitcoin'] } }
+    );
+    act(() => getLastWS().triggerClose());
+    await flush();
+    const ws = getLastWS();
+    act(() => ws.triggerOpen());
+
+    act(() => {
+      rerender({ ids: ['ethereum'] });
+    });
+    await flush();
+
+    expect(getLastWS()).toBe(ws);
+    expect(ws.sent.slice(1).map((message) => JSON.parse(message))).toEqual([
+      { type: 'unsubscribe', product_ids: ['BTC-USD'], channels: ['ticker'] },
+      { type: 'subscribe', product_ids: ['ETH-USD'], channels: ['ticker'] },
+    ]);
+  });
+
+  it('downgrades from websocket to sse after repeated failures to open', async () => {
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin']));
+
+    // CoinCap closes and Coinbase lists nothing: one failed attempt
+    act(() => getLastWS().triggerClose());
+    await flush();
+    expect(result.current.transport).toBe('websocket');
+
+    act(() => {
+      vi.advanceTimersByTime(5_000);
+    });
+    act(() => getLastWS().triggerClose());
+    await flush();
+
+    expect(result.current.transport).toBe('sse');
+    expect(MockEventSource.last?.url).toContain('ids=bitcoin');
+  });
+
+  it('keeps the websocket when it has opened before dropping', async () => {
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin']));
+
+    for (let i = 0; i < 3; i++) {
+      act(() => {
+        getLastWS().triggerOpen();
+        getLastWS().triggerClose();
+      });
+      await flush();
+      act(() => {
+        vi.runOnlyPendingTimers();
+      });
+    }
+    expect(result.current.transport).toBe('websocket');
+    expect(MockEventSource.last).toBeNull();
+  });
+
+  it('polls the coins route when transport is poll', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [{ id: 'bitcoin', current_price: 71000 }] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { result } = renderHook(() => useRealtimePrice(['bitcoin'], { transport: 'poll' }));
+    await act(async () => {
+      await Promise.resolve();
+    });
+
+    nextFrame();
+    expect(fetchMock).toHaveBeenCalledWith('/crypto/api/coins?ids=bitcoin&per_page=1');
+    expect(result.current.connected).toBe(true);
+    expect(result.current.latest().prices).toEqual({ bitcoin: 71000 });
   });
 });
@@ -1,67 +1,138 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-
-/**
- * Maps CoinGecko coin IDs to CoinCap asset IDs where they differ.
- * CoinCap WebSocket: wss://ws.coincap.io/prices?assets=bitcoin,ethereum,...
- */
-const COINGECKO_TO_COINCAP: Record<string, string> = {
-  ripple: 'xrp',
-  binancecoin: 'binance-coin',
-  'bitcoin-cash': 'bitcoin-cash-abc-2',
-  'lido-staked-ether': 'staked-ether',
-};
-
-// Reverse map: CoinCap ID → CoinGecko ID
-const COINCAP_TO_COINGECKO: Record<string, string> = Object.fromEntries(
-  Object.entries(COINGECKO_TO_COINCAP).map(([cg, cc]) => [cc, cg])
-);
-
-function toCoinCapId(coinGeckoId: string): string {
-  return COINGECKO_TO_COINCAP[coinGeckoId] ?? coinGeckoId;
-}
-
-function toCoinGeckoId(coinCapId: string): string {
-  return COINCAP_TO_COINGECKO[coinCapId] ?? coinCapId;
+import { TRANSPORT_FALLBACK } from '../realtime/transports';
+import { connectorFor } from '../realtime/sharing';
+import { createTickBuffer } from '../realtime/tickBuffer';
+import { createFeedHealthTracker } from '../realtime/feedHealth';
+import { createTickSanitizer } from '../realtime/tickSanitizer';
+import type { FeedHealth } from '../realtime/feedHealth';
+import type { TickSanitizerReport } from '../realtime/tickSanitizer';
+import type { TickBatch, TickIngestionMetrics } from '../realtime/tickBuffer';
+import type { PriceSources, PriceUpdate, StreamConnection, RealtimeSharing, RealtimeTransport } from '../realtime/types';
+
+export interface RealtimePriceOptions {
+  /** Preferred transport; downgrades websocket → sse → poll when it keeps failing */
+  transport?: RealtimeTransport;
+  /** Share one connection across tabs (leader tab or SharedWorker) */
+  sharing?: RealtimeSharing;
+  /** How often buffered ticks are applied (ms); 0 = once per animation frame */
+  batchIntervalMs?: number;
+  /** Called with each batch of changed prices and received ticks, e.g. to merge them into a store */
+  onBatch?: (batch: TickBatch) => void;
+  /** Latest REST prices in USD; ticks far from them are held back as outliers */
+  referencePrices?: PriceUpdate;
 }
 
 export interface RealtimePriceResult {
-  /** Map of CoinGecko coin ID → latest streamed price */
-  prices: Record<string, number>;
-  /** Whether the WebSocket connection is currently open */
+  /**
+   * Latest streamed price (USD) and upstream per coin.  A getter rather than
+   * state so batches never re-render the caller; use `onBatch` to push them
+   * somewhere components subscribe to.
+   */
+  latest: () => { prices: PriceUpdate; sources: PriceSources };
+  /** Whether the live connection is currently open */
   connected: boolean;
+  /** Transport in use after any downgrades */
+  transport: RealtimeTransport;
+  /** Counters for received, coalesced and applied ticks */
+  metrics: () => TickIngestionMetrics;
+  /** Frame timing, message rate, reconnects and latency of the live feed */
+  health: () => FeedHealth;
+  /** Ticks rejected or quarantined as outliers */
+  rejections: () => TickSanitizerReport;
 }
 
 const RECONNECT_DELAY_MS = 5_000;
 const MAX_RECONNECT_ATTEMPTS = 10;
+// Consecutive connections that close without ever opening before downgrading
+const FAILURES_BEFORE_DOWNGRADE = 2;
 
 /**
- * Streams real-time prices for the given CoinGecko coin IDs via the
- * CoinCap WebSocket API (wss://ws.coincap.io).  No API key required.
+ * Streams real-time prices for the given CoinGecko coin IDs.  By default
+ * the tab connects to the CoinCap WebSocket API (wss://ws.coincap.io, no API
+ * key), failing over to the Coinbase ticker channel; `transport: 'sse'`
+ * uses the server's shared `/crypto/api/stream` instead, and `'poll'` polls
+ * the coins route.  `latest()` records which upstream each price came from.
+ * With `sharing`, open tabs elect one to hold the connection (or hand it to
+ * a SharedWorker) and the rest receive its ticks.
+ *
+ * Ticks are buffered and applied once per animation frame (or every
+ * `batchIntervalMs`), keeping each coin's latest price, and handed to
+ * `onBatch`; the hook itself re-renders only when the connection or transport
+ * changes, never per batch.  Every frame is also recorded for `health()`,
+ * which reports whether the feed is still flowing rather than merely
+ * connected.
  *
- * Falls back gracefully: if the connection cannot be established the hook
- * simply returns `{ prices: {}, connected: false }` so callers can fall
- * back to the REST-polled data.
+ * Prices are validated before they are buffered: a tick far from the coin's
+ * recent ticks or from `referencePrices` is quarantined until more ticks (or
+ * another source) confirm it, so one bad frame never reaches the screen
+ * (see realtime/tickSanitizer.ts).
+ *
+ * Falls back gracefully: a transport that never manages to open is replaced
+ * by the next one (websocket → sse → poll), and if nothing connects the hook
+ * simply reports `connected: false` with no prices so callers can fall back
+ * to the REST-polled data.
  */
-export function useRealtimePrice(coinIds: string[]): RealtimePriceResult {
-  const [prices, setPrices] = useState<Record<string, number>>({});
+export function useRealtimePrice(
+  coinIds: string[],
+  {
+    transport: preferredTransport = 'websocket',
+    sharing = 'none',
+    batchIntervalMs = 0,
+    onBatch,
+    referencePrices,
+  }: RealtimePriceOptions = {}
+): RealtimePriceResult {
+  const latestRef = useRef<{ prices: PriceUpdate; sources: PriceSources }>({ prices: {}, sources: {} });
   const [connected, setConnected] = useState(false);
+  const [transport, setTransport] = useState<RealtimeTransport>(preferredTransport);
 
-  const wsRef = useRef<WebSocket | null>(null);
+  const connectionRef = useRef<StreamConnection | null>(null);
   const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const reconnectAttemptsRef = useRef(0);
+  const failuresRef = useRef(0);
+  const transportRef = useRef<RealtimeTransport>(preferredTransport);
+  const sharingRef = useRef<RealtimeSharing>(sharing);
   const coinIdsRef = useRef<string[]>(coinIds);
   const mountedRef = useRef(true);
+  const onBatchRef = useRef(onBatch);
 
-  // Keep the ref in sync without triggering a reconnect on each render
+  // Keep the refs in sync without triggering a reconnect on each render
   coinIdsRef.current = coinIds;
+  onBatchRef.current = onBatch;
+
+  // One buffer for the hook's lifetime; batches hold changed prices and every tick
+  const [buffer] = useState(() =>
+    createTickBuffer({
+      intervalMs: batchIntervalMs,
+      onBatch: (batch) => {
+        if (!mountedRef.current) return;
+        const prev = latestRef.current;
+        latestRef.current = {
+          prices: { ...prev.prices, ...batch.prices },
+          sources: { ...prev.sources, ...batch.sources },
+        };
+        onBatchRef.current?.(batch);
+      },
+    })
+  );
+
+  const latest = useCallback(() => latestRef.current, []);
+
+  const [tracker] = useState(() => createFeedHealthTracker());
+  const health = useCallback(() => tracker.snapshot(transportRef.current), [tracker]);
+
+  const [sanitizer] = useState(() => createTickSanitizer());
+  useEffect(() => {
+    if (referencePrices) sanitizer.setReference(referencePrices);
+  }, [referencePrices, sanitizer]);
 
   /**
-   * Tracks the sorted, comma-joined coin IDs that were used for the most
-   * recent WebSocket connection.  When this key changes we close the old
-   * socket and open a new one so the subscription always covers the current
-   * coin set (e.g. after the 30-second REST refresh adds new coins).
+   * Tracks the sorted, comma-joined coin IDs that were last requested.  When
+   * this key changes the connection is told to update its subscription (or
+   * replaced when there is none) so it always covers the current coin set
+   * (e.g. after the 30-second REST refresh adds new coins).
    */
   const coinIdsKeyRef = useRef<string>('');
 
@@ -77,67 +148,68 @@ export function useRealtimePrice(coinIds: string[]): RealtimePriceResult {
     if (!mountedRef.current) return;
     if (coinIdsRef.current.length === 0) return;
 
-    const coinCapIds = coinIdsRef.current.map(toCoinCapId).join(',');
-    const url = `wss://ws.coincap.io/prices?assets=${coinCapIds}`;
-
+    let opened = false;
     try {
-      const ws = new WebSocket(url);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        if (!mountedRef.current) {
-          ws.close();
-          return;
-        }
-        setConnected(true);
-        reconnectAttemptsRef.current = 0;
-      };
-
-      ws.onmessage = (event: MessageEvent<string>) => {
-        if (!mountedRef.current) return;
-        try {
-          const data = JSON.parse(event.data) as Record<string, string>;
-          setPrices((prev) => {
-            const next = { ...prev };
-            for (const [coinCapId, priceStr] of Object.entries(data)) {
-              const price = parseFloat(priceStr);
-              if (!isNaN(price)) {
-                next[toCoinGeckoId(coinCapId)] = price;
-              }
-            }
-            return next;
-          });
-        } catch {
-          // Ignore malformed frames
-        }
-      };
-
-      ws.onerror = () => {
-        if (!mountedRef.current) return;
-        setConnected(false);
-      };
-
-      ws.onclose = () => {
-        wsRef.current = null;
-        if (!mountedRef.current) return;
-        setConnected(false);
-
-        // Exponential back-off reconnect (cap at MAX_RECONNECT_ATTEMPTS)
-        if (reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
-          const delay =
-            RECONNECT_DELAY_MS * Math.pow(1.5, reconnectAttemptsRef.current);
-          reconnectAttemptsRef.current += 1;
-          reconnectTimerRef.current = setTimeout(() => {
+      const connectTransport = connectorFor(transportRef.current, sharingRef.current);
+      connectionRef.current = connectTransport(coinIdsRef.current, {
+        onOpen: () => {
+          if (!mountedRef.current) return;
+          opened = true;
+          tracker.opened();
+          setConnected(true);
+          reconnectAttemptsRef.current = 0;
+          failuresRef.current = 0;
+        },
+        onPrices: (update, source, sentAt) => {
+          if (!mountedRef.current) return;
+          tracker.frame(update, sentAt);
+          const accepted = sanitizer.check(update, source);
+          if (accepted) buffer.push(accepted, source);
+        },
+        onError: () => {
+          if (!mountedRef.current) return;
+          tracker.closed();
+          setConnected(false);
+        },
+        onClose: () => {
+          connectionRef.current = null;
+          if (!mountedRef.current) return;
+          tracker.closed();
+          setConnected(false);
+
+          // A transport that never opens (blocked by a proxy, no server
+          // upstream) is swapped for the next one straight away
+          if (!opened) failuresRef.current += 1;
+          const fallback = TRANSPORT_FALLBACK[transportRef.current];
+          if (fallback && failuresRef.current >= FAILURES_BEFORE_DOWNGRADE) {
+            transportRef.current = fallback;
+            failuresRef.current = 0;
+            reconnectAttemptsRef.current = 0;
+            setTransport(fallback);
+            tracker.reconnecting();
             // eslint-disable-next-line react-hooks/immutability
-            if (mountedRef.current) connect();
-          }, delay);
-        }
-      };
+            connect();
+            return;
+          }
+
+          // Exponential back-off reconnect (cap at MAX_RECONNECT_ATTEMPTS)
+          if (reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
+            const delay =
+              RECONNECT_DELAY_MS * Math.pow(1.5, reconnectAttemptsRef.current);
+            reconnectAttemptsRef.current += 1;
+            reconnectTimerRef.current = setTimeout(() => {
+              if (!mountedRef.current) return;
+              tracker.reconnecting();
+              connect();
+            }, delay);
+          }
+        },
+      });
     } catch {
-      // WebSocket constructor can throw in some environments
+      // WebSocket / EventSource constructors can throw in some environments
       setConnected(false);
     }
-  }, []); // stable – reads coinIds via ref
+  }, [buffer, tracker, sanitizer]); // stable – reads coinIds and transport via refs
 
   // Connect (or reconnect) whenever the set of coin IDs changes.
   // We compare a sorted key so that order differences don't cause spurious
@@ -148,17 +220,20 @@ export function useRealtimePrice(coinIds: string[]): RealtimePriceResult {
     const newKey = [...coinIds].sort().join(',');
     if (newKey === coinIdsKeyRef.current) return;
     coinIdsKeyRef.current = newKey;
+    // Dropped coins would otherwise age into "no tick" alarms
+    tracker.retain(coinIds);
 
-    // Close the existing socket before reconnecting with the updated coin set.
-    if (wsRef.current) {
-      wsRef.current.onclose = null; // suppress the reconnect triggered by close
-      wsRef.current.close();
-      wsRef.current = null;
-    }
+    // A live connection changes its subscription itself, keeping ticks
+    // flowing for coins in both sets (see realtime/connectionManager.ts)
+    if (connectionRef.current?.update?.(coinIds)) return;
+
+    // Otherwise start over with the updated coin set.
+    connectionRef.current?.close();
+    connectionRef.current = null;
     clearReconnectTimer();
     reconnectAttemptsRef.current = 0;
     connect();
-  }, [coinIds, connect, clearReconnectTimer]);
+  }, [coinIds, connect, clearReconnectTimer, tracker]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -166,13 +241,11 @@ export function useRealtimePrice(coinIds: string[]): RealtimePriceResult {
     return () => {
       mountedRef.current = false;
       clearReconnectTimer();
-      if (wsRef.current) {
-        wsRef.current.onclose = null; // prevent reconnect loop
-        wsRef.current.close();
-        wsRef.current = null;
-      }
+      connectionRef.current?.close(); // close() never triggers a reconnect
+      connectionRef.current = null;
+      buffer.dispose();
     };
-  }, [clearReconnectTimer]);
+  }, [clearReconnectTimer, buffer]);
 
-  return { prices, connected };
+  return { latest, connected, transport, metrics: buffer.metrics, health, rejections: sanitizer.report };
 }
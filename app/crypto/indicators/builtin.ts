@@ -0,0 +1,127 @@
+// Indicators shipped with the dashboard
+//
+// The maths lives in utils/indicators; these definitions only describe how
+// each indicator is parameterised per time period and how it is drawn.
+
+import {
+  calculateRSI,
+  calculateSMA,
+  calculateMACD,
+  calculateBollingerBands,
+  getRSIConfig,
+  getSMAConfig,
+  getMACDConfig,
+  getBollingerConfig,
+  RSI_INFO,
+  SMA_INFO,
+  MACD_INFO,
+  BOLLINGER_INFO,
+} from '../utils/indicators';
+import type { IndicatorDefinition } from './types';
+
+export const rsiIndicator: IndicatorDefinition = {
+  id: 'rsi',
+  name: 'RSI',
+  info: RSI_INFO,
+  inputs: ['close'],
+  pane: 'sub',
+  outputs: [
+    { key: 'rsi', label: 'RSI', color: { light: '#8b5cf6', dark: '#a78bfa' } },
+  ],
+  scale: { min: 0, max: 100, levels: [70, 50, 30], overbought: 70, oversold: 30, precision: 2 },
+  defaultEnabled: true,
+  params: (timePeriod) => ({ period: getRSIConfig(timePeriod).period }),
+  label: ({ period }) => `RSI (${period})`,
+  describe: (timePeriod) => getRSIConfig(timePeriod).description,
+  compute: ({ close }, { period }) => ({ rsi: calculateRSI(close, period) }),
+};
+
+export const smaIndicator: IndicatorDefinition = {
+  id: 'sma',
+  name: 'SMA',
+  info: SMA_INFO,
+  inputs: ['close'],
+  pane: 'overlay',
+  outputs: [
+    { key: 'short', label: ({ shortPeriod }) => `SMA ${shortPeriod}`, color: { light: '#f59e0b', dark: '#fbbf24' } },
+    { key: 'long', label: ({ longPeriod }) => `SMA ${longPeriod}`, color: { light: '#8b5cf6', dark: '#a78bfa' } },
+  ],
+  params: (timePeriod) => {
+    const { shortPeriod, longPeriod } = getSMAConfig(timePeriod);
+    return { shortPeriod, longPeriod };
+  },
+  label: ({ shortPeriod, longPeriod }) => `SMA (${shortPeriod}/${longPeriod})`,
+  describe: (timePeriod) => getSMAConfig(timePeriod).description,
+  compute: ({ close }, { shortPeriod, longPeriod }) => ({
+    short: calculateSMA(close, shortPeriod),
+    long: calculateSMA(close, longPeriod),
+  }),
+};
+
+const BOLLINGER_COLOR = { light: '#22c55e', dark: '#34d399' };
+
+export const bollingerIndicator: IndicatorDefinition = {
+  id: 'bollingerBands',
+  name: 'Bollinger Bands',
+  info: BOLLINGER_INFO,
+  inputs: ['close'],
+  pane: 'overlay',
+  outputs: [
+    {
+      key: 'upper',
+      label: 'BB Upper',
+      color: BOLLINGER_COLOR,
+      style: 'dashed',
+      fillTo: 'lower',
+      fillColor: { light: 'rgba(34, 197, 94, 0.15)', dark: 'rgba(52, 211, 153, 0.15)' },
+      hideInLegend: true,
+    },
+    { key: 'middle', label: ({ period, stdDev }) => `BB (${period}, ${stdDev})`, color: BOLLINGER_COLOR },
+    { key: 'lower', label: 'BB Lower', color: BOLLINGER_COLOR, style: 'dashed', hideInLegend: true },
+  ],
+  params: (timePeriod) => {
+    const { period, stdDev } = getBollingerConfig(timePeriod);
+    return { period, stdDev };
+  },
+  label: ({ period, stdDev }) => `BB (${period}, ${stdDev})`,
+  describe: (timePeriod) => getBollingerConfig(timePeriod).description,
+  compute: ({ close }, { period, stdDev }) => ({ ...calculateBollingerBands(close, period, stdDev) }),
+};
+
+export const macdIndicator: IndicatorDefinition = {
+  id: 'macd',
+  name: 'MACD',
+  info: MACD_INFO,
+  inputs: ['close'],
+  pane: 'sub',
+  outputs: [
+    {
+      key: 'histogram',
+      label: 'Histogram',
+      color: { light: '#10b981', dark: '#34d399' },
+      negativeColor: { light: '#ef4444', dark: '#f87171' },
+      style: 'histogram',
+    },
+    { key: 'macd', label: 'MACD', color: { light: '#06b6d4', dark: '#22d3ee' } },
+    { key: 'signal', label: 'Signal', color: { light: '#ec4899', dark: '#f472b6' } },
+  ],
+  scale: { centered: true, levels: [0], precision: 4 },
+  params: (timePeriod) => {
+    const { fastPeriod, slowPeriod, signalPeriod } = getMACDConfig(timePeriod);
+    return { fastPeriod, slowPeriod, signalPeriod };
+  },
+  label: ({ fastPeriod, slowPeriod, signalPeriod }) => `MACD (${fastPeriod}/${slowPeriod}/${signalPeriod})`,
+  describe: (timePeriod) => getMACDConfig(timePeriod).description,
+  compute: ({ close }, { fastPeriod, slowPeriod, signalPeriod }) => {
+    const { macdLine, signalLine, histogram } = calculateMACD(close, fastPeriod, slowPeriod, signalPeriod);
+    return { histogram, macd: macdLine, signal: signalLine };
+  },
+};
+
+/** Registration order is menu order */
+export const BUILTIN_INDICATORS: IndicatorDefinition[] = [
+  rsiIndicator,
+  smaIndicator,
+  bollingerIndicator,
+  macdIndicator,
+];
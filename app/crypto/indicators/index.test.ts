@@ -0,0 +1,149 @@
+/**
+ * Tests for the technical indicator registry.
+ *
+ * Verifies the built-in registrations, change notifications, default
+ * toggles, input-based skipping in `computeStudies` and oscillator grading.
+ * Custom indicators are registered per test and removed again afterwards.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  computeStudies,
+  defaultEnabledStudies,
+  getIndicator,
+  latestReading,
+  listIndicators,
+  outputLabel,
+  registerIndicator,
+  subscribeIndicators,
+  unregisterIndicator,
+} from './index';
+import { calculateRSI } from '../utils/indicators';
+import type { IndicatorDefinition } from './types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const closes = Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 10 + i);
+
+/** Candle range (high - low), an indicator the line chart cannot draw */
+const rangeIndicator: IndicatorDefinition = {
+  id: 'range',
+  name: 'Range',
+  info: { title: 'Candle range', description: 'High minus low', source: 'https://example.com/range' },
+  inputs: ['high', 'low'],
+  pane: 'sub',
+  outputs: [{ key: 'range', label: 'Range', color: { light: '#000', dark: '#fff' } }],
+  params: () => ({}),
+  label: () => 'Range',
+  compute: ({ high, low }) => ({ range: high!.map((h, i) => h - low![i]) }),
+};
+
+afterEach(() => {
+  unregisterIndicator('range');
+});
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+describe('indicator registry', () => {
+  it('registers the built-in indicators in menu order', () => {
+    expect(listIndicators().map((definition) => definition.id)).toEqual(['rsi', 'sma', 'bollingerBands', 'macd']);
+    expect(getIndicator('macd')?.pane).toBe('sub');
+    expect(getIndicator('sma')?.pane).toBe('overlay');
+  });
+
+  it('appends new indicators and includes them in the default toggles', () => {
+    registerIndicator(rangeIndicator);
+    expect(listIndicators().at(-1)?.id).toBe('range');
+    expect(defaultEnabledStudies()).toEqual({ rsi: true, sma: false, bollingerBands: false, macd: false, range: false });
+  });
+
+  it('notifies subscribers when the registry changes', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeIndicators(listener);
+    const before = listIndicators();
+    expect(listIndicators()).toBe(before);
+
+    registerIndicator(rangeIndicator);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listIndicators()).not.toBe(before);
+
+    unregisterIndicator('range');
+    unregisterIndicator('range');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    registerIndicator(rangeIndicator);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('labels outputs from their parameters', () => {
+    const sma = getIndicator('sma')!;
+    const params = sma.params('365');
+    expect(sma.outputs.map((output) => outputLabel(output, params))).toEqual(['SMA 50', 'SMA 200']);
+    expect(sma.label(params)).toBe('SMA (50/200)');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// computeStudies
+// ---------------------------------------------------------------------------
+
+describe('computeStudies', () => {
+  it('computes only the enabled indicators', () => {
+    const studies = computeStudies({ rsi: true, macd: true, sma: false }, { close: closes }, '7');
+    expect(studies.map((study) => study.definition.id)).toEqual(['rsi', 'macd']);
+
+    const [rsi] = studies;
+    expect(rsi.params).toEqual({ period: 14 });
+    expect(rsi.label).toBe('RSI (14)');
+    expect(rsi.description).toContain('RSI(14)');
+    expect(rsi.series.rsi).toEqual(calculateRSI(closes, 14));
+  });
+
+  it('omits outputs without values', () => {
+    // 60 points are enough for SMA 50 but not SMA 200
+    const [sma] = computeStudies({ sma: true }, { close: closes }, '365');
+    expect(Object.keys(sma.series)).toEqual(['short']);
+  });
+
+  it('skips indicators whose inputs the chart cannot supply', () => {
+    registerIndicator(rangeIndicator);
+    const enabled = { rsi: true, range: true };
+
+    expect(computeStudies(enabled, { close: closes }, '7').map((study) => study.definition.id)).toEqual(['rsi']);
+
+    const high = closes.map((close) => close + 2);
+    const low = closes.map((close) => close - 1);
+    const studies = computeStudies(enabled, { close: closes, high, low }, '7');
+    expect(studies.map((study) => study.definition.id)).toEqual(['rsi', 'range']);
+    studies[1].series.range.forEach((value) => expect(value).toBeCloseTo(3));
+  });
+
+  it('returns nothing without data', () => {
+    expect(computeStudies({ rsi: true }, { close: [] }, '7')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// latestReading
+// ---------------------------------------------------------------------------
+
+describe('latestReading', () => {
+  it('grades the latest oscillator value against its thresholds', () => {
+    const rising = Array.from({ length: 30 }, (_, i) => 100 + i);
+    const [rsi] = computeStudies({ rsi: true }, { close: rising }, '7');
+    expect(latestReading(rsi)).toEqual({ value: 100, status: 'overbought' });
+
+    const [falling] = computeStudies({ rsi: true }, { close: [...rising].reverse() }, '7');
+    expect(latestReading(falling)?.status).toBe('oversold');
+  });
+
+  it('is null for indicators without thresholds', () => {
+    const [macd] = computeStudies({ macd: true }, { close: closes }, '7');
+    expect(latestReading(macd)).toBeNull();
+  });
+});
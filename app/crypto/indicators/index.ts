@@ -0,0 +1,136 @@
+// Technical indicator registry
+//
+// Every study the charts can draw is registered here.  The studies dropdown
+// lists the registry, the store keeps one toggle per registered ID, and both
+// charts draw whatever `computeStudies()` returns, so adding an indicator is
+// a single `registerIndicator()` call.  Registration may happen at any time:
+// the store and the dropdown subscribe to changes.
+
+import { BUILTIN_INDICATORS } from './builtin';
+import type { EnabledStudies, TimePeriod } from '../types';
+import type {
+  ComputedStudy,
+  IndicatorDefinition,
+  IndicatorInputs,
+  IndicatorOutput,
+  IndicatorParams,
+  IndicatorSeries,
+} from './types';
+
+export type {
+  ComputedStudy,
+  IndicatorDefinition,
+  IndicatorInput,
+  IndicatorInputs,
+  IndicatorOutput,
+  IndicatorPane,
+  IndicatorParams,
+  IndicatorScale,
+  IndicatorSeries,
+  ThemeColor,
+} from './types';
+
+const indicators = new Map<string, IndicatorDefinition>();
+const listeners = new Set<() => void>();
+// Replaced on every change, so it doubles as a useSyncExternalStore snapshot
+let menu: IndicatorDefinition[] = [];
+
+function changed(): void {
+  menu = [...indicators.values()];
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Register (or replace) an indicator.  A replacement keeps its place in the
+ * menu; new indicators are appended.
+ */
+export function registerIndicator(definition: IndicatorDefinition): void {
+  indicators.set(definition.id, definition);
+  changed();
+}
+
+export function unregisterIndicator(id: string): void {
+  if (indicators.delete(id)) changed();
+}
+
+/** Call `listener` after every registry change; returns the unsubscribe function */
+export function subscribeIndicators(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getIndicator(id: string): IndicatorDefinition | undefined {
+  return indicators.get(id);
+}
+
+/** Registered indicators in menu order; the same array until the registry changes */
+export function listIndicators(): IndicatorDefinition[] {
+  return menu;
+}
+
+/** Study toggles for a user who has not chosen any */
+export function defaultEnabledStudies(): EnabledStudies {
+  return Object.fromEntries(listIndicators().map((definition) => [definition.id, !!definition.defaultEnabled]));
+}
+
+export function outputLabel(output: IndicatorOutput, params: IndicatorParams): string {
+  return typeof output.label === 'function' ? output.label(params) : output.label;
+}
+
+function hasValues(series: IndicatorSeries | undefined): series is IndicatorSeries {
+  return !!series && series.some((value) => value !== null);
+}
+
+/**
+ * Evaluate the enabled indicators over the chart's data, in menu order.
+ * Indicators needing an input the chart cannot supply (e.g. high/low on the
+ * line chart) are skipped.
+ */
+export function computeStudies(
+  enabled: EnabledStudies,
+  inputs: IndicatorInputs,
+  timePeriod: TimePeriod
+): ComputedStudy[] {
+  if (inputs.close.length === 0) return [];
+
+  return listIndicators()
+    .filter((definition) => enabled[definition.id])
+    .filter((definition) => definition.inputs.every((input) => inputs[input]?.length === inputs.close.length))
+    .map((definition) => {
+      const params = definition.params(timePeriod);
+      const computed = definition.compute(inputs, params);
+      const series = Object.fromEntries(
+        definition.outputs
+          .filter((output) => hasValues(computed[output.key]))
+          .map((output) => [output.key, computed[output.key]])
+      );
+      return {
+        definition,
+        params,
+        label: definition.label(params),
+        description: definition.describe?.(timePeriod) ?? definition.info.description,
+        series,
+      };
+    });
+}
+
+export type StudyStatus = 'overbought' | 'oversold' | 'neutral';
+
+/**
+ * Latest value of an oscillator's first line, graded against its thresholds.
+ * Null for indicators without thresholds or values.
+ */
+export function latestReading(study: ComputedStudy): { value: number; status: StudyStatus } | null {
+  const { overbought, oversold } = study.definition.scale ?? {};
+  if (overbought === undefined || oversold === undefined) return null;
+
+  const line = study.definition.outputs.find((output) => output.style !== 'histogram' && study.series[output.key]);
+  const value = line && study.series[line.key].filter((v): v is number => v !== null).pop();
+  if (value === undefined) return null;
+
+  return { value, status: value > overbought ? 'overbought' : value < oversold ? 'oversold' : 'neutral' };
+}
+
+BUILTIN_INDICATORS.forEach(registerIndicator);
@@ -0,0 +1,96 @@
+// Technical indicator contracts shared by the registry, both charts and the
+// studies dropdown
+
+import type { IndicatorInfo, TimePeriod } from '../types';
+
+/** Per-candle series an indicator can be computed from */
+export type IndicatorInput = 'close' | 'high' | 'low' | 'volume';
+
+/**
+ * Series handed to `compute()`, index-aligned with the chart's points.  Close
+ * prices are always available; the line chart has no high/low, and volume is
+ * only present when the upstream reported it for every point.
+ */
+export type IndicatorInputs = { close: number[] } & Partial<Record<Exclude<IndicatorInput, 'close'>, number[]>>;
+
+/** 'overlay' draws on the price chart, 'sub' in its own pane below it */
+export type IndicatorPane = 'overlay' | 'sub';
+
+export type IndicatorParams = Record<string, number>;
+
+export type IndicatorSeries = (number | null)[];
+
+export interface ThemeColor {
+  light: string;
+  dark: string;
+}
+
+/** One series an indicator produces, and how the charts draw it */
+export interface IndicatorOutput {
+  /** Key of the series in `compute()`'s result */
+  key: string;
+  label: string | ((params: IndicatorParams) => string);
+  color: ThemeColor;
+  /** 'line' (the default), 'dashed', or 'histogram' bars around zero */
+  style?: 'line' | 'dashed' | 'histogram';
+  /** Histogram bars below zero */
+  negativeColor?: ThemeColor;
+  /** Shade the area between this series and another output (e.g. a band) */
+  fillTo?: string;
+  fillColor?: ThemeColor;
+  /** Leave the series out of the chart legends */
+  hideInLegend?: boolean;
+}
+
+/** Value axis of a sub-pane */
+export interface IndicatorScale {
+  /** Fixed bounds; without both the pane scales to the data */
+  min?: number;
+  max?: number;
+  /** Auto-scaled panes are symmetric around zero */
+  centered?: boolean;
+  /** Reference lines (and the only ticks on fixed-bound panes) */
+  levels?: number[];
+  /** Oscillator thresholds; the latest value is graded against them */
+  overbought?: number;
+  oversold?: number;
+  /** Decimal places in tooltips */
+  precision?: number;
+}
+
+/**
+ * A technical indicator.  Registering one is enough for it to be offered in
+ * the studies dropdown and drawn by both charts.
+ */
+export interface IndicatorDefinition {
+  /** Key in the store's `enabledStudies` (persisted, so keep it stable) */
+  id: string;
+  /** Short name for menus */
+  name: string;
+  info: IndicatorInfo;
+  /** Series `compute()` reads; the indicator is skipped where one is missing */
+  inputs: IndicatorInput[];
+  pane: IndicatorPane;
+  outputs: IndicatorOutput[];
+  scale?: IndicatorScale;
+  /** Enabled for users who have not chosen their studies yet */
+  defaultEnabled?: boolean;
+  /** Parameters for the selected time period */
+  params: (timePeriod: TimePeriod) => IndicatorParams;
+  /** Title with the parameters, e.g. "MACD (12/26/9)" */
+  label: (params: IndicatorParams) => string;
+  /** Tooltip text for the selected time period; defaults to `info.description` */
+  describe?: (timePeriod: TimePeriod) => string;
+  /** One series per output, index-aligned with the inputs */
+  compute: (inputs: IndicatorInputs, params: IndicatorParams) => Record<string, IndicatorSeries>;
+}
+
+/** An enabled indicator evaluated for the chart's data */
+export interface ComputedStudy {
+  definition: IndicatorDefinition;
+  params: IndicatorParams;
+  label: string;
+  description: string;
+  /** Output key → series; outputs with no values are omitted */
+  series: Record<string, IndicatorSeries>;
+}
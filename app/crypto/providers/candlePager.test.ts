@@ -0,0 +1,166 @@
+/**
+ * Tests for the paginated candle fetcher.
+ *
+ * Pages are served by an in-memory fake exchange that returns one candle per
+ * granularity step inside the requested window, with optional holes and
+ * failing windows.  No network access.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  fetchCandleRange,
+  findGaps,
+  mapWithConcurrency,
+  mergeCandles,
+  planCandlePages,
+  type CandlePage,
+} from './candlePager';
+import type { OHLCCandle } from '../types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const HOUR = 3600;
+
+function candle(seconds: number): OHLCCandle {
+  return { timestamp: seconds * 1000, open: 1, high: 2, low: 0.5, close: 1.5 };
+}
+
+/** Fake exchange: one candle per step, minus `missing` timestamps (seconds). */
+function fakeExchange(granularity: number, missing: Set<number> = new Set()) {
+  return vi.fn(async ({ start, end }: CandlePage) => {
+    const candles: OHLCCandle[] = [];
+    for (let t = Math.ceil(start / granularity) * granularity; t <= end; t += granularity) {
+      if (!missing.has(t)) candles.push(candle(t));
+    }
+    return candles.reverse(); // exchanges typically return newest first
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// planCandlePages
+// ---------------------------------------------------------------------------
+
+describe('planCandlePages', () => {
+  it('covers the whole range with non-overlapping windows, newest first', () => {
+    const pages = planCandlePages(0, 1000 * HOUR, HOUR, 300);
+    expect(pages).toHaveLength(4);
+    expect(pages[0]).toEqual({ start: 701 * HOUR, end: 1000 * HOUR });
+    expect(pages[pages.length - 1].start).toBe(0);
+    for (let i = 1; i < pages.length; i++) {
+      expect(pages[i].end).toBe(pages[i - 1].start - HOUR);
+    }
+  });
+
+  it('never asks for more than maxPerPage candles per window', () => {
+    for (const page of planCandlePages(123, 5000 * HOUR, HOUR, 300)) {
+      expect((page.end - page.start) / HOUR + 1).toBeLessThanOrEqual(300);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mapWithConcurrency
+// ---------------------------------------------------------------------------
+
+describe('mapWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and preserves order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (n) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await Promise.resolve();
+      inFlight--;
+      if (n === 4) throw new Error('boom');
+      return n * 10;
+    });
+
+    expect(peak).toBe(3);
+    expect(results.map((r) => (r.status === 'fulfilled' ? r.value : 'failed'))).toEqual([10, 20, 30, 'failed', 50, 60, 70]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeCandles / findGaps
+// ---------------------------------------------------------------------------
+
+describe('mergeCandles', () => {
+  it('de-duplicates overlapping pages and sorts ascending', () => {
+    const merged = mergeCandles([[candle(3), candle(2)], [candle(2), candle(1)]]);
+    expect(merged.map((c) => c.timestamp / 1000)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('findGaps', () => {
+  it('reports runs of missing candles between neighbours', () => {
+    const series = [0, 1, 4, 5].map((h) => candle(h * HOUR));
+    expect(findGaps(series, HOUR)).toEqual([{ from: 2 * HOUR * 1000, to: 3 * HOUR * 1000 }]);
+  });
+
+  it('returns nothing for a contiguous series', () => {
+    expect(findGaps([0, 1, 2].map((h) => candle(h * HOUR)), HOUR)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchCandleRange
+// ---------------------------------------------------------------------------
+
+describe('fetchCandleRange', () => {
+  const base = { granularity: HOUR, maxPerPage: 300, concurrency: 3, maxPages: 20 };
+
+  it('stitches the full range instead of stopping after three requests', async () => {
+    const fetchPage = fakeExchange(HOUR);
+    const result = await fetchCandleRange({ ...base, start: 0, end: 2000 * HOUR, fetchPage });
+
+    expect(fetchPage).toHaveBeenCalledTimes(7);
+    expect(result.candles).toHaveLength(2001);
+    expect(result).toMatchObject({ complete: true, gaps: [] });
+  });
+
+  it('reports missing candles as gaps', async () => {
+    const fetchPage = fakeExchange(HOUR, new Set([10 * HOUR, 11 * HOUR]));
+    const result = await fetchCandleRange({ ...base, start: 0, end: 100 * HOUR, fetchPage });
+
+    expect(result.complete).toBe(false);
+    expect(result.gaps).toEqual([{ from: 10 * HOUR * 1000, to: 11 * HOUR * 1000 }]);
+  });
+
+  it('keeps the rest of the range when one window fails', async () => {
+    const exchange = fakeExchange(HOUR);
+    const fetchPage = vi.fn(async (page: CandlePage) => {
+      if (page.start === 301 * HOUR) throw new Error('Coinbase API error: 500');
+      return exchange(page);
+    });
+    const result = await fetchCandleRange({ ...base, start: 0, end: 900 * HOUR, fetchPage });
+
+    expect(result.complete).toBe(false);
+    expect(result.candles).toHaveLength(901 - 300);
+    expect(result.gaps).toEqual([{ from: 301 * HOUR * 1000, to: 600 * HOUR * 1000 }]);
+  });
+
+  it('flags the series as incomplete when the request cap truncates it', async () => {
+    const fetchPage = fakeExchange(HOUR);
+    const result = await fetchCandleRange({ ...base, maxPages: 2, start: 0, end: 2000 * HOUR, fetchPage });
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(result.complete).toBe(false);
+    expect(result.candles[result.candles.length - 1].timestamp).toBe(2000 * HOUR * 1000);
+  });
+
+  it('does not treat time before the first candle as a gap', async () => {
+    const missing = new Set(Array.from({ length: 50 }, (_, h) => h * HOUR));
+    const result = await fetchCandleRange({ ...base, start: 0, end: 100 * HOUR, fetchPage: fakeExchange(HOUR, missing) });
+    expect(result).toMatchObject({ complete: true, gaps: [] });
+  });
+});
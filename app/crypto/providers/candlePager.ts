@@ -0,0 +1,147 @@
+// Paginated candle fetching for exchanges that cap candles per request
+//
+// The requested range is split into fixed-size windows that are fetched with
+// bounded concurrency, then merged (de-duplicated by timestamp, sorted) and
+// checked for gaps.  A window that still fails after `fetchJson` retries is
+// reported as a gap instead of failing the whole range, so callers always
+// learn how complete the series is.
+
+import type { OHLCCandle, OHLCGap } from '../types';
+
+export interface CandlePage {
+  /** Window bounds in epoch seconds, inclusive */
+  start: number;
+  end: number;
+}
+
+export interface CandleRangeOptions {
+  /** Range bounds in epoch seconds */
+  start: number;
+  end: number;
+  /** Candle width in seconds */
+  granularity: number;
+  /** Most candles the upstream returns per request */
+  maxPerPage: number;
+  /** Requests in flight at once */
+  concurrency: number;
+  /** Hard cap on requests; the oldest windows beyond it are skipped */
+  maxPages: number;
+  fetchPage: (page: CandlePage) => Promise<OHLCCandle[]>;
+}
+
+export interface CandleRange {
+  candles: OHLCCandle[];
+  /** True when every window was fetched and no gaps were found */
+  complete: boolean;
+  gaps: OHLCGap[];
+}
+
+/**
+ * Split [start, end] into windows of at most `maxPerPage` candles, newest
+ * first so a `maxPages` cap drops the oldest data rather than the latest.
+ */
+export function planCandlePages(start: number, end: number, granularity: number, maxPerPage: number): CandlePage[] {
+  const pages: CandlePage[] = [];
+  const alignedStart = Math.floor(start / granularity) * granularity;
+  const span = (maxPerPage - 1) * granularity;
+
+  for (let pageEnd = end; pageEnd >= alignedStart; pageEnd -= span + granularity) {
+    pages.push({ start: Math.max(alignedStart, pageEnd - span), end: pageEnd });
+  }
+  return pages;
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/** Merge pages into one ascending series, keeping one candle per timestamp. */
+export function mergeCandles(pages: OHLCCandle[][]): OHLCCandle[] {
+  const byTimestamp = new Map<number, OHLCCandle>();
+  for (const page of pages) {
+    for (const candle of page) byTimestamp.set(candle.timestamp, candle);
+  }
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Find runs of missing candles between consecutive candles.  Time before the
+ * first candle is not a gap: the pair may simply not have been listed yet.
+ */
+export function findGaps(candles: OHLCCandle[], granularity: number): OHLCGap[] {
+  const stepMs = granularity * 1000;
+  const gaps: OHLCGap[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const prev = candles[i - 1].timestamp;
+    const curr = candles[i].timestamp;
+    if (curr - prev > stepMs) {
+      gaps.push({ from: prev + stepMs, to: curr - stepMs });
+    }
+  }
+  return gaps;
+}
+
+/** Sort gaps and merge any that overlap or touch. */
+function mergeGaps(gaps: OHLCGap[], stepMs: number): OHLCGap[] {
+  const merged: OHLCGap[] = [];
+  for (const gap of [...gaps].sort((a, b) => a.from - b.from)) {
+    const last = merged[merged.length - 1];
+    if (last && gap.from <= last.to + stepMs) {
+      last.to = Math.max(last.to, gap.to);
+    } else {
+      merged.push({ ...gap });
+    }
+  }
+  return merged;
+}
+
+/** Fetch, stitch and validate a full candle range. */
+export async function fetchCandleRange(options: CandleRangeOptions): Promise<CandleRange> {
+  const { start, end, granularity, maxPerPage, concurrency, maxPages, fetchPage } = options;
+  const planned = planCandlePages(start, end, granularity, maxPerPage);
+  const pages = planned.slice(0, maxPages);
+  const results = await mapWithConcurrency(pages, concurrency, fetchPage);
+
+  const fetched: OHLCCandle[][] = [];
+  const failedWindows: OHLCGap[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      fetched.push(result.value);
+    } else {
+      console.log('Candle page failed:', (result.reason as Error)?.message);
+      failedWindows.push({ from: pages[i].start * 1000, to: pages[i].end * 1000 });
+    }
+  });
+
+  const candles = mergeCandles(fetched).filter(
+    (c) => c.timestamp >= start * 1000 && c.timestamp <= end * 1000
+  );
+  // A failed window also shows up as a gap between its neighbours; report it once
+  const gaps = mergeGaps([...findGaps(candles, granularity), ...failedWindows], granularity * 1000);
+
+  return {
+    candles,
+    complete: pages.length === planned.length && gaps.length === 0,
+    gaps,
+  };
+}
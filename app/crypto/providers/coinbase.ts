@@ -0,0 +1,106 @@
+// Coinbase Exchange market data provider (OHLC only, no auth required)
+
+import { fetchJson } from './http';
+import { fetchCandleRange, type CandlePage } from './candlePager';
+import { createProductCatalog } from './coinbaseProducts';
+import { coinGeckoProvider } from './coingecko';
+import { GRANULARITY_SECONDS, MAX_CHART_CANDLES, NATIVE_GRANULARITIES } from '../utils/candleGranularity';
+import type { MarketDataProvider, OHLCQuery, ProviderCapability } from './types';
+import type { CandleGranularity, CoinbaseCurrency, CoinbaseOHLC, CoinbaseProduct, OHLCCandle, OHLCData } from '../types';
+
+const BASE_URL = 'https://api.exchange.coinbase.com';
+
+// CoinGecko ID → Coinbase product, discovered from Coinbase's product list
+export const coinbaseCatalog = createProductCatalog({
+  fetchProducts: () => fetchJson<CoinbaseProduct[]>('Coinbase', `${BASE_URL}/products`, { revalidate: 3600 }),
+  fetchCurrencies: () => fetchJson<CoinbaseCurrency[]>('Coinbase', `${BASE_URL}/currencies`, { revalidate: 3600 }),
+  getCoinList: () => coinGeckoProvider.getCoinList!(),
+});
+
+// Default candle width per period when no granularity is requested
+const COINBASE_GRANULARITY: Record<string, CandleGranularity> = {
+  '1': '5m',    // 5 minutes for 1 day
+  '7': '1h',    // 1 hour for 7 days
+  '30': '6h',   // 6 hours for 30 days
+  '365': '1d',  // 1 day for 365 days
+  max: '1d',
+};
+
+// Coinbase Exchange caps each candles request at 300 candles
+const MAX_CANDLES_PER_REQUEST = 300;
+// Public endpoints allow ~10 req/s; stay well under it
+const MAX_CONCURRENT_REQUESTS = 3;
+// Safety cap per OHLC request; anything older is reported as incomplete
+const MAX_REQUESTS = MAX_CHART_CANDLES / MAX_CANDLES_PER_REQUEST;
+// 'max' starts here; earlier windows simply return no candles
+const COINBASE_HISTORY_START = Date.UTC(2015, 0, 1) / 1000;
+
+/**
+ * Fetch one window (≤ 300 candles) from the Coinbase Exchange API
+ */
+async function fetchCandlePage(productId: string, granularity: number, { start, end }: CandlePage): Promise<OHLCCandle[]> {
+  const url = `${BASE_URL}/products/${productId}/candles?granularity=${granularity}&start=${start}&end=${end}`;
+  const data = await fetchJson<CoinbaseOHLC[]>('Coinbase', url);
+
+  // Coinbase returns [time, low, high, open, close, volume]
+  return data.map(([time, low, high, open, close, volume]) => ({
+    timestamp: time * 1000, // Convert to ms
+    open,
+    high,
+    low,
+    close,
+    volume,
+  }));
+}
+
+async function supports(capability: ProviderCapability, coinId: string | null, vsCurrency: string): Promise<boolean> {
+  return capability === 'ohlc' && !!coinId && (await coinbaseCatalog.findProduct(coinId, vsCurrency)) !== null;
+}
+
+async function getOHLC({ id, vsCurrency, days, granularity: requested }: OHLCQuery): Promise<OHLCData> {
+  const label = requested ?? COINBASE_GRANULARITY[days] ?? '1h';
+  const granularity = GRANULARITY_SECONDS[label];
+  const productId = await coinbaseCatalog.findProduct(id, vsCurrency);
+  if (!productId) {
+    throw new Error(`Coinbase lists no ${id} product quoted in ${vsCurrency.toUpperCase()}`);
+  }
+  const end = Math.floor(Date.now() / 1000);
+  const start = days === 'max' ? COINBASE_HISTORY_START : end - parseInt(days) * 24 * 60 * 60;
+
+  const { candles, complete, gaps } = await fetchCandleRange({
+    start,
+    end,
+    granularity,
+    maxPerPage: MAX_CANDLES_PER_REQUEST,
+    concurrency: MAX_CONCURRENT_REQUESTS,
+    maxPages: MAX_REQUESTS,
+    fetchPage: (page) => fetchCandlePage(productId, granularity, page),
+  });
+  if (candles.length === 0) {
+    throw new Error(`Coinbase returned no candles for ${id}`);
+  }
+
+  return {
+    candles,
+    provider: 'coinbase',
+    granularity: label,
+    complete,
+    gaps,
+  };
+}
+
+export const coinbaseProvider: MarketDataProvider = {
+  id: 'coinbase',
+  name: 'Coinbase',
+  capabilities: {
+    markets: false,
+    history: false,
+    ohlc: true,
+    search: false,
+    fx: false,
+  },
+  // Coinbase candles endpoint accepts exactly these widths
+  ohlcGranularities: NATIVE_GRANULARITIES,
+  supports,
+  getOHLC,
+};
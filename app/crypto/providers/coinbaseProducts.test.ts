@@ -0,0 +1,126 @@
+/**
+ * Tests for Coinbase product discovery.
+ *
+ * Product, currency and coin lists are small in-memory fixtures; the catalog
+ * cache uses a private memory store.  No network access.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildProductMap, createProductCatalog, type ProductSource } from './coinbaseProducts';
+import { createMemoryStore } from '../cache';
+import type { CoinbaseCurrency, CoinbaseProduct, CoinSearchResult } from '../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function product(id: string, overrides: Partial<CoinbaseProduct> = {}): CoinbaseProduct {
+  const [base, quote] = id.split('-');
+  return { id, base_currency: base, quote_currency: quote, status: 'online', trading_disabled: false, ...overrides };
+}
+
+const PRODUCTS: CoinbaseProduct[] = [
+  product('BTC-USD'),
+  product('BTC-EUR'),
+  product('BTC-GBP'),
+  product('BTC-USDT'),
+  product('SOL-USD'),
+  product('UNI-USD'),
+  product('AVAX-USD'),
+  product('GONE-USD', { status: 'delisted' }),
+];
+
+const CURRENCIES: CoinbaseCurrency[] = [
+  { id: 'BTC', name: 'Bitcoin' },
+  { id: 'SOL', name: 'Solana' },
+  { id: 'UNI', name: 'Uniswap' },
+  { id: 'AVAX', name: 'Avalanche' },
+  { id: 'GONE', name: 'Gone Coin' },
+];
+
+const COINS: CoinSearchResult[] = [
+  { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin' },
+  { id: 'batcat', symbol: 'btc', name: 'BatCat' },
+  { id: 'solana', symbol: 'sol', name: 'Solana' },
+  { id: 'uniswap', symbol: 'uni', name: 'Uniswap' },
+  { id: 'universe-token', symbol: 'uni', name: 'Universe' },
+  { id: 'avalanche-2', symbol: 'avax', name: 'Avalanche' },
+  { id: 'gone-coin', symbol: 'gone', name: 'Gone Coin' },
+];
+
+function fixtureSource(overrides: Partial<ProductSource> = {}): ProductSource {
+  return {
+    fetchProducts: vi.fn(async () => PRODUCTS),
+    fetchCurrencies: vi.fn(async () => CURRENCIES),
+    getCoinList: vi.fn(async () => COINS),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// buildProductMap
+// ---------------------------------------------------------------------------
+
+describe('buildProductMap', () => {
+  const map = buildProductMap(PRODUCTS, CURRENCIES, COINS, {});
+
+  it('maps coins to their USD, EUR and GBP products', () => {
+    expect(map.bitcoin).toEqual({ usd: 'BTC-USD', eur: 'BTC-EUR', gbp: 'BTC-GBP' });
+    expect(map.solana).toEqual({ usd: 'SOL-USD' });
+  });
+
+  it('uses the currency name to pick between coins sharing a symbol', () => {
+    expect(map.uniswap).toEqual({ usd: 'UNI-USD' });
+    expect(map['universe-token']).toBeUndefined();
+    expect(map.batcat).toBeUndefined();
+  });
+
+  it('skips products that are not trading', () => {
+    expect(map['gone-coin']).toBeUndefined();
+  });
+
+  it('applies overrides and keeps their base from other coins', () => {
+    const overridden = buildProductMap(PRODUCTS, CURRENCIES, COINS, { 'avalanche-2': 'AVAX', batcat: 'BTC' });
+    expect(overridden.batcat).toEqual({ usd: 'BTC-USD', eur: 'BTC-EUR', gbp: 'BTC-GBP' });
+    expect(overridden.bitcoin).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createProductCatalog
+// ---------------------------------------------------------------------------
+
+describe('createProductCatalog', () => {
+  it('finds products per quote and loads the lists once', async () => {
+    const source = fixtureSource();
+    const catalog = createProductCatalog(source, createMemoryStore());
+
+    expect(await catalog.findProduct('bitcoin', 'eur')).toBe('BTC-EUR');
+    expect(await catalog.findProduct('solana', 'gbp')).toBeNull();
+    expect(await catalog.findProduct('unknown-coin', 'usd')).toBeNull();
+    expect(source.fetchProducts).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports nothing listed when discovery fails, and backs off before retrying', async () => {
+    vi.useFakeTimers();
+    const source = fixtureSource({ fetchProducts: vi.fn(async () => Promise.reject(new Error('Coinbase API error: 503'))) });
+    const catalog = createProductCatalog(source, createMemoryStore());
+
+    expect(await catalog.findProduct('bitcoin', 'usd')).toBeNull();
+    expect(await catalog.findProduct('bitcoin', 'usd')).toBeNull();
+    expect(source.fetchProducts).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await catalog.findProduct('bitcoin', 'usd');
+    expect(source.fetchProducts).toHaveBeenCalledTimes(2);
+  });
+});
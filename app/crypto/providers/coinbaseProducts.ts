@@ -0,0 +1,124 @@
+// Coinbase product discovery
+//
+// Maps CoinGecko coin IDs to Coinbase Exchange products by loading Coinbase's
+// product and currency lists and matching them against CoinGecko's coin list
+// by symbol, using the currency name to tell apart coins that share a symbol.
+// Coins pinned in the identity registry (`config/coin-identities.json`) skip
+// matching.  The mapping is cached for a day (and served stale while a reload
+// fails), so discovery costs three upstream requests per instance per day.
+
+import { createCache } from '../cache';
+import { coinbaseBaseOverrides } from '../utils/coinIdentity';
+import type { CacheStore } from '../cache';
+import type { CoinbaseCurrency, CoinbaseProduct, CoinSearchResult } from '../types';
+
+/** Quote currencies Coinbase candles are served in */
+export const COINBASE_QUOTES = ['usd', 'eur', 'gbp'] as const;
+
+/** CoinGecko ID → Coinbase product ID per lowercase quote, e.g. { usd: 'BTC-USD' } */
+export type ProductMap = Record<string, Record<string, string>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// After a failed load, wait this long before asking upstream again
+const RETRY_AFTER_FAILURE_MS = 5 * 60 * 1000;
+
+export interface ProductSource {
+  fetchProducts: () => Promise<CoinbaseProduct[]>;
+  fetchCurrencies: () => Promise<CoinbaseCurrency[]>;
+  getCoinList: () => Promise<CoinSearchResult[]>;
+}
+
+export interface ProductCatalog {
+  /** Coinbase product for a coin and quote currency, or null if not listed */
+  findProduct: (coinId: string, vsCurrency: string) => Promise<string | null>;
+  /** Every listed product for a coin, by lowercase quote */
+  productsFor: (coinId: string) => Promise<Record<string, string>>;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Match tradable Coinbase products to CoinGecko coins. */
+export function buildProductMap(
+  products: CoinbaseProduct[],
+  currencies: CoinbaseCurrency[],
+  coins: CoinSearchResult[],
+  overrides: Record<string, string> = coinbaseBaseOverrides()
+): ProductMap {
+  const quotesByBase = new Map<string, Record<string, string>>();
+  for (const product of products) {
+    const quote = product.quote_currency.toLowerCase();
+    if (product.status !== 'online' || product.trading_disabled) continue;
+    if (!(COINBASE_QUOTES as readonly string[]).includes(quote)) continue;
+    const base = product.base_currency.toUpperCase();
+    quotesByBase.set(base, { ...quotesByBase.get(base), [quote]: product.id });
+  }
+
+  const map: ProductMap = {};
+  const claimed = new Set<string>();
+  for (const [coinId, base] of Object.entries(overrides)) {
+    const quotes = quotesByBase.get(base);
+    if (quotes) map[coinId] = quotes;
+    claimed.add(base);
+  }
+
+  const names = new Map(currencies.map((c) => [c.id.toUpperCase(), normalizeName(c.name)]));
+  const coinsBySymbol = new Map<string, CoinSearchResult[]>();
+  for (const coin of coins) {
+    const symbol = coin.symbol.toUpperCase();
+    coinsBySymbol.set(symbol, [...(coinsBySymbol.get(symbol) ?? []), coin]);
+  }
+
+  for (const [base, quotes] of quotesByBase) {
+    if (claimed.has(base)) continue;
+    const candidates = coinsBySymbol.get(base) ?? [];
+    const byName = candidates.filter((coin) => normalizeName(coin.name) === names.get(base));
+    // Ambiguous symbols with no exact name match are left out rather than guessed
+    const match = byName.length === 1 ? byName[0] : candidates.length === 1 ? candidates[0] : null;
+    if (match && !map[match.id]) map[match.id] = quotes;
+  }
+  return map;
+}
+
+export function createProductCatalog(source: ProductSource, store?: CacheStore): ProductCatalog {
+  const cache = createCache<ProductMap>({
+    namespace: 'coinbase-products',
+    ttl: DAY_MS,
+    staleWhileRevalidate: DAY_MS,
+    store,
+  });
+  let failedAt = 0;
+
+  async function getProductMap(): Promise<ProductMap | null> {
+    if (Date.now() - failedAt < RETRY_AFTER_FAILURE_MS) {
+      return (await cache.peek('map'))?.data ?? null;
+    }
+    try {
+      const { data } = await cache.getOrFetch('map', async () => {
+        const [products, currencies, coins] = await Promise.all([
+          source.fetchProducts(),
+          source.fetchCurrencies(),
+          source.getCoinList(),
+        ]);
+        return buildProductMap(products, currencies, coins);
+      });
+      return data;
+    } catch (err) {
+      failedAt = Date.now();
+      console.log('Coinbase product discovery failed:', (err as Error).message);
+      return null;
+    }
+  }
+
+  return {
+    async findProduct(coinId, vsCurrency) {
+      const map = await getProductMap();
+      return map?.[coinId]?.[vsCurrency.toLowerCase()] ?? null;
+    },
+    async productsFor(coinId) {
+      const map = await getProductMap();
+      return map?.[coinId] ?? {};
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for CoinGecko host / API key resolution, range granularity and
+ * exchange rate parsing.
+ *
+ * `getCoinGeckoConnection` takes the key and plan as arguments, so every
+ * tier is covered without touching process.env or the network.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getCoinGeckoConnection, getRangeResolution, parseExchangeRates } from './coingecko';
+
+describe('getCoinGeckoConnection', () => {
+  it('calls the public host anonymously without a key', () => {
+    expect(getCoinGeckoConnection('', 'pro')).toEqual({
+      tier: 'public',
+      baseUrl: 'https://api.coingecko.com/api/v3',
+      headers: {},
+    });
+  });
+
+  it('sends pro keys to the pro host', () => {
+    expect(getCoinGeckoConnection('CG-secret', 'pro')).toEqual({
+      tier: 'pro',
+      baseUrl: 'https://pro-api.coingecko.com/api/v3',
+      headers: { 'x-cg-pro-api-key': 'CG-secret' },
+    });
+  });
+
+  it('sends demo keys to the public host with the demo header', () => {
+    expect(getCoinGeckoConnection('CG-secret', 'demo')).toEqual({
+      tier: 'demo',
+      baseUrl: 'https://api.coingecko.com/api/v3',
+      headers: { 'x-cg-demo-api-key': 'CG-secret' },
+    });
+  });
+});
+
+describe('getRangeResolution', () => {
+  const DAY = 24 * 60 * 60;
+
+  it('mirrors CoinGecko automatic granularity for market_chart/range', () => {
+    expect(getRangeResolution({ from: 0, to: DAY })).toBe(300);
+    expect(getRangeResolution({ from: 0, to: 90 * DAY })).toBe(3600);
+    expect(getRangeResolution({ from: 0, to: 91 * DAY })).toBe(DAY);
+  });
+});
+
+describe('parseExchangeRates', () => {
+  const rate = (value: number) => ({ name: '', unit: '', value, type: 'fiat' });
+
+  it('rebases BTC-denominated rates onto USD', () => {
+    const rates = parseExchangeRates({
+      rates: { btc: rate(1), usd: rate(50_000), eur: rate(46_000), jpy: rate(7_500_000), sats: rate(100_000_000) },
+    });
+    expect(rates).toEqual({ btc: 0.00002, usd: 1, eur: 0.92, jpy: 150, sats: 2000 });
+  });
+
+  it('leaves out currencies the dashboard does not offer', () => {
+    expect(parseExchangeRates({ rates: { usd: rate(50_000), doge: rate(400_000) } })).toEqual({ usd: 1 });
+  });
+
+  it('rejects a response without a USD rate', () => {
+    expect(() => parseExchangeRates({ rates: { eur: rate(46_000) } })).toThrow('missing usd');
+  });
+});
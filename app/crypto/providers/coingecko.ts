@@ -0,0 +1,153 @@
+// CoinGecko market data provider (public, demo and pro APIs)
+
+import { config } from '../config/config';
+import { fetchJson } from './http';
+import { TokenBucket, type RateLimit } from './rateLimiter';
+import { CURRENCIES } from '../utils/currency';
+import type { MarketDataProvider, MarketsQuery, HistoryQuery, OHLCQuery } from './types';
+import type { Coin, ChartData, CoinGeckoExchangeRates, CoinGeckoOHLC, CoinSearchResult, FxRates, OHLCData, TimeRange } from '../types';
+
+const PUBLIC_BASE_URL = 'https://api.coingecko.com/api/v3';
+const PRO_BASE_URL = 'https://pro-api.coingecko.com/api/v3';
+
+export type CoinGeckoTier = 'public' | 'demo' | 'pro';
+
+/**
+ * Published CoinGecko budgets.  The keyless public API is throttled far more
+ * aggressively than its nominal limit under load, so it is budgeted
+ * conservatively; a key unlocks the demo or paid tier.
+ */
+export const COINGECKO_RATE_LIMITS: Record<CoinGeckoTier, RateLimit> = {
+  public: { perMinute: 10, burst: 5, maxWaitMs: 10_000 },
+  demo: { perMinute: 30, burst: 10, maxWaitMs: 10_000 },
+  pro: { perMinute: 500, burst: 50, maxWaitMs: 5_000 },
+};
+
+export interface CoinGeckoConnection {
+  tier: CoinGeckoTier;
+  baseUrl: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Resolve host and auth header for the configured key.  Demo keys are sent
+ * to the public host, pro keys to the pro host; each plan has its own header.
+ * Only ever called server-side — the key must never reach the browser.
+ */
+export function getCoinGeckoConnection(
+  apiKey: string = config.coinGeckoApiKey,
+  plan: string = config.coinGeckoApiPlan
+): CoinGeckoConnection {
+  if (!apiKey) {
+    return { tier: 'public', baseUrl: PUBLIC_BASE_URL, headers: {} };
+  }
+  if (plan === 'demo') {
+    return { tier: 'demo', baseUrl: PUBLIC_BASE_URL, headers: { 'x-cg-demo-api-key': apiKey } };
+  }
+  return { tier: 'pro', baseUrl: PRO_BASE_URL, headers: { 'x-cg-pro-api-key': apiKey } };
+}
+
+const { tier, baseUrl: BASE_URL, headers } = getCoinGeckoConnection();
+
+// One budget per instance, shared by every route that talks to CoinGecko
+const limiter = new TokenBucket('CoinGecko', COINGECKO_RATE_LIMITS[tier]);
+
+// CoinGecko OHLC granularity info (fixed by the API per requested range)
+const COINGECKO_GRANULARITY: Record<string, string> = {
+  '1': '30m',   // 1-2 days: 30 minutes
+  '7': '4h',    // 3-30 days: 4 hours
+  '30': '4h',   // 3-30 days: 4 hours
+  '365': '4d',  // 31+ days: 4 days
+  max: '4d',
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Point spacing CoinGecko picks automatically for `market_chart/range`
+ * (seconds): 5-minutely up to a day, hourly up to 90 days, daily beyond.
+ */
+export function getRangeResolution({ from, to }: TimeRange): number {
+  const span = to - from;
+  if (span <= DAY_SECONDS) return 300;
+  if (span <= 90 * DAY_SECONDS) return 3600;
+  return DAY_SECONDS;
+}
+
+async function getMarkets({ ids, vsCurrency, perPage, page }: MarketsQuery): Promise<Coin[]> {
+  let url = `${BASE_URL}/coins/markets?vs_currency=${encodeURIComponent(vsCurrency)}&order=market_cap_desc&per_page=${perPage}&page=${page}&sparkline=false&price_change_percentage=24h,7d,30d`;
+  if (ids) {
+    url += `&ids=${ids.map(encodeURIComponent).join(',')}`;
+  }
+  return fetchJson<Coin[]>('CoinGecko', url, { headers, revalidate: 30, limiter });
+}
+
+async function getHistory({ id, vsCurrency, days, range }: HistoryQuery): Promise<ChartData> {
+  const url = range
+    ? `${BASE_URL}/coins/${encodeURIComponent(id)}/market_chart/range?vs_currency=${encodeURIComponent(vsCurrency)}&from=${range.from}&to=${range.to}`
+    : `${BASE_URL}/coins/${encodeURIComponent(id)}/market_chart?vs_currency=${encodeURIComponent(vsCurrency)}&days=${encodeURIComponent(days)}`;
+  return fetchJson<ChartData>('CoinGecko', url, { headers, revalidate: 300, limiter });
+}
+
+async function getOHLC({ id, vsCurrency, days }: OHLCQuery): Promise<OHLCData> {
+  const url = `${BASE_URL}/coins/${encodeURIComponent(id)}/ohlc?vs_currency=${encodeURIComponent(vsCurrency)}&days=${encodeURIComponent(days)}`;
+  const data = await fetchJson<CoinGeckoOHLC[]>('CoinGecko', url, { headers, limiter });
+
+  // CoinGecko returns [timestamp, open, high, low, close]
+  const candles = data.map(([timestamp, open, high, low, close]) => ({
+    timestamp,
+    open,
+    high,
+    low,
+    close,
+  }));
+
+  return {
+    candles,
+    provider: 'coingecko',
+    granularity: COINGECKO_GRANULARITY[days] || '4h',
+  };
+}
+
+async function getCoinList(): Promise<CoinSearchResult[]> {
+  return fetchJson<CoinSearchResult[]>('CoinGecko', `${BASE_URL}/coins/list`, { headers, revalidate: 3600, limiter });
+}
+
+/**
+ * Convert CoinGecko's BTC-based exchange rates into units per 1 USD.
+ * Currencies without a rate are left out; without a USD rate nothing can
+ * be rebased, so that throws.
+ */
+export function parseExchangeRates({ rates }: CoinGeckoExchangeRates): FxRates {
+  const usd = rates.usd?.value;
+  if (!usd) throw new Error('CoinGecko exchange rates are missing usd');
+  const fxRates: FxRates = {};
+  for (const code of CURRENCIES) {
+    const value = rates[code]?.value;
+    if (value) fxRates[code] = value / usd;
+  }
+  return fxRates;
+}
+
+async function getFxRates(): Promise<FxRates> {
+  const data = await fetchJson<CoinGeckoExchangeRates>('CoinGecko', `${BASE_URL}/exchange_rates`, { headers, revalidate: 600, limiter });
+  return parseExchangeRates(data);
+}
+
+export const coinGeckoProvider: MarketDataProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  capabilities: {
+    markets: true,
+    history: true,
+    ohlc: true,
+    search: true,
+    fx: true,
+  },
+  rateLimiter: limiter,
+  getMarkets,
+  getHistory,
+  getOHLC,
+  getCoinList,
+  getFxRates,
+};
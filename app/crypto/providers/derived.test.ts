@@ -0,0 +1,78 @@
+/**
+ * Tests for the derived OHLC provider.
+ *
+ * History comes from an in-memory stub, so no network access.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createDerivedProvider, deriveCandles } from './derived';
+import type { ChartData } from '../types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 3600 * 1000;
+
+/** Hourly market_chart points; volume is a flat 24h figure of 2400. */
+function hourlyChart(prices: number[]): ChartData {
+  return {
+    prices: prices.map((price, i) => [i * HOUR_MS, price]),
+    market_caps: prices.map((_, i) => [i * HOUR_MS, 0]),
+    total_volumes: prices.map((_, i) => [i * HOUR_MS, 2400]),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// deriveCandles
+// ---------------------------------------------------------------------------
+
+describe('deriveCandles', () => {
+  it('builds open, high, low and close from the points in each bucket', () => {
+    const candles = deriveCandles(hourlyChart([10, 14, 9, 12, 12, 11, 15, 13]), 4 * 3600);
+    expect(candles).toEqual([
+      { timestamp: 0, open: 10, high: 14, low: 9, close: 12, volume: 400 },
+      { timestamp: 4 * HOUR_MS, open: 12, high: 15, low: 11, close: 13, volume: 400 },
+    ]);
+  });
+
+  it('scales the rolling 24h volume to the candle width', () => {
+    const [candle] = deriveCandles(hourlyChart([1, 1]), 3600);
+    expect(candle.volume).toBe(100);
+  });
+
+  it('sorts points and skips non-numeric prices', () => {
+    const chart = hourlyChart([10, 11]);
+    chart.prices = [[HOUR_MS, 11], [0, 10], [HOUR_MS / 2, NaN]];
+    expect(deriveCandles(chart, 4 * 3600)[0]).toMatchObject({ open: 10, close: 11, low: 10, high: 11 });
+  });
+
+  it('omits volume when market_chart has none', () => {
+    const chart = { ...hourlyChart([10, 11]), total_volumes: [] };
+    expect(deriveCandles(chart, 4 * 3600)[0]).not.toHaveProperty('volume');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createDerivedProvider
+// ---------------------------------------------------------------------------
+
+describe('createDerivedProvider', () => {
+  it('labels candles as derived with the period granularity', async () => {
+    const getHistory = vi.fn(async () => hourlyChart([10, 14, 9, 12]));
+    const provider = createDerivedProvider(getHistory);
+
+    const result = await provider.getOHLC!({ id: 'obscure-coin', vsCurrency: 'usd', days: '7' });
+
+    expect(getHistory).toHaveBeenCalledWith({ id: 'obscure-coin', vsCurrency: 'usd', days: '7' });
+    expect(result).toMatchObject({ provider: 'derived', granularity: '4h' });
+    expect(result.candles).toHaveLength(1);
+  });
+
+  it('fails when there is no price history to derive from', async () => {
+    const provider = createDerivedProvider(async () => ({ prices: [], market_caps: [], total_volumes: [] }));
+    await expect(provider.getOHLC!({ id: 'obscure-coin', vsCurrency: 'usd', days: '1' })).rejects.toThrow(
+      'No price history'
+    );
+  });
+});
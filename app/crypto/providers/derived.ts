@@ -0,0 +1,90 @@
+// Derived OHLC provider: candles synthesised from market_chart price points
+//
+// Last resort for coins no exchange lists once CoinGecko's /ohlc has failed.
+// Price points are bucketed into candles of the width CoinGecko's own OHLC
+// endpoint would use, and volume is estimated from the rolling 24h
+// `total_volumes`.  These are approximations rather than traded candles, so
+// responses say `provider: 'derived'` and the chart labels them as such.
+
+import type { HistoryQuery, MarketDataProvider, OHLCQuery } from './types';
+import type { ChartData, OHLCCandle, OHLCData } from '../types';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Candle width per period.  market_chart returns 5-minute points for one
+ * day, hourly points up to 90 days and daily points beyond, so every candle
+ * spans several points.
+ */
+export const DERIVED_GRANULARITY: Record<string, { label: string; seconds: number }> = {
+  '1': { label: '30m', seconds: 30 * 60 },
+  '7': { label: '4h', seconds: 4 * 3600 },
+  '30': { label: '4h', seconds: 4 * 3600 },
+  '365': { label: '4d', seconds: 4 * DAY_SECONDS },
+  max: { label: '4d', seconds: 4 * DAY_SECONDS },
+};
+
+/**
+ * Bucket price points into candles `bucketSeconds` wide.  Each candle's
+ * volume is the bucket's average 24h volume scaled to the bucket width.
+ */
+export function deriveCandles({ prices, total_volumes }: ChartData, bucketSeconds: number): OHLCCandle[] {
+  const bucketMs = bucketSeconds * 1000;
+  const bucketOf = (timestamp: number) => Math.floor(timestamp / bucketMs) * bucketMs;
+
+  const volumes = new Map<number, { sum: number; count: number }>();
+  for (const [timestamp, volume] of total_volumes ?? []) {
+    if (!Number.isFinite(volume)) continue;
+    const entry = volumes.get(bucketOf(timestamp)) ?? { sum: 0, count: 0 };
+    entry.sum += volume;
+    entry.count++;
+    volumes.set(bucketOf(timestamp), entry);
+  }
+
+  const candles = new Map<number, OHLCCandle>();
+  const sorted = prices.filter(([, price]) => Number.isFinite(price)).sort((a, b) => a[0] - b[0]);
+  for (const [timestamp, price] of sorted) {
+    const start = bucketOf(timestamp);
+    const candle = candles.get(start);
+    if (!candle) {
+      candles.set(start, { timestamp: start, open: price, high: price, low: price, close: price });
+      continue;
+    }
+    candle.high = Math.max(candle.high, price);
+    candle.low = Math.min(candle.low, price);
+    candle.close = price;
+  }
+
+  return [...candles.values()].map((candle) => {
+    const volume = volumes.get(candle.timestamp);
+    return volume ? { ...candle, volume: (volume.sum / volume.count) * (bucketSeconds / DAY_SECONDS) } : candle;
+  });
+}
+
+/**
+ * Build the derived provider on top of a history source (normally the
+ * registry's own history chain).
+ */
+export function createDerivedProvider(getHistory: (query: HistoryQuery) => Promise<ChartData>): MarketDataProvider {
+  async function getOHLC({ id, vsCurrency, days }: OHLCQuery): Promise<OHLCData> {
+    const { label, seconds } = DERIVED_GRANULARITY[days] ?? DERIVED_GRANULARITY['7'];
+    const candles = deriveCandles(await getHistory({ id, vsCurrency, days }), seconds);
+    if (candles.length === 0) {
+      throw new Error(`No price history to derive candles for ${id}`);
+    }
+    return { candles, provider: 'derived', granularity: label };
+  }
+
+  return {
+    id: 'derived',
+    name: 'Derived from price history',
+    capabilities: {
+      markets: false,
+      history: false,
+      ohlc: true,
+      search: false,
+      fx: false,
+    },
+    getOHLC,
+  };
+}
@@ -0,0 +1,36 @@
+// Fixture provider with fixed exchange rates
+//
+// Registered but in no default chain: tests, offline development and demos
+// opt in with FX_PROVIDER=fixture (or by passing 'fixture' as the preferred
+// provider) to get deterministic currency conversion without calling
+// CoinGecko.
+
+import type { MarketDataProvider } from './types';
+import type { FxRates } from '../types';
+
+/** Round-number rates close enough to real ones to look plausible */
+export const FIXTURE_FX_RATES: FxRates = {
+  usd: 1,
+  eur: 0.92,
+  gbp: 0.79,
+  jpy: 150,
+  btc: 0.00002,
+  eth: 0.0004,
+  bits: 20,
+  sats: 2000,
+};
+
+export function createFixtureProvider(fxRates: FxRates = FIXTURE_FX_RATES): MarketDataProvider {
+  return {
+    id: 'fixture',
+    name: 'Fixture',
+    capabilities: {
+      markets: false,
+      history: false,
+      ohlc: false,
+      search: false,
+      fx: true,
+    },
+    getFxRates: async () => ({ ...fxRates }),
+  };
+}
@@ -0,0 +1,76 @@
+// Shared HTTP helpers for market data providers
+
+import type { TokenBucket } from './rateLimiter';
+
+const MAX_RETRIES = 3;
+const INITIAL_BACKOFF_MS = 1000;
+
+/** Non-2xx response from an upstream market data API. */
+export class UpstreamError extends Error {
+  status: number;
+  provider: string;
+
+  constructor(provider: string, status: number) {
+    super(`${provider} API error: ${status}`);
+    this.name = 'UpstreamError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+export interface FetchOptions {
+  headers?: Record<string, string>;
+  /** Next.js data-cache revalidation window in seconds */
+  revalidate?: number;
+  retries?: number;
+  /** Upstream budget; one token is taken per attempt, including retries */
+  limiter?: TokenBucket;
+}
+
+/**
+ * Exponential-backoff fetch helper.
+ *
+ * Retries on network errors and HTTP 429, waiting `1s * 2^attempt` between
+ * attempts.  The final response is returned as-is so callers can inspect
+ * the status code.
+ */
+export async function fetchWithRetry(url: string, options: FetchOptions = {}): Promise<Response> {
+  const { headers = {}, revalidate, retries = MAX_RETRIES, limiter } = options;
+  let lastError: Error | null = null;
+  for (let attempt = 0; attempt < retries; attempt++) {
+    // Outside the try: a shed request must not be retried
+    await limiter?.acquire();
+    try {
+      const response = await fetch(url, {
+        headers: { 'Accept': 'application/json', ...headers },
+        ...(revalidate !== undefined ? { next: { revalidate } } : {}),
+      });
+      if (response.status === 429) limiter?.penalize();
+      // 429 = rate-limited; wait and retry
+      if (response.status === 429 && attempt < retries - 1) {
+        const backoff = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
+        console.log(`Rate limited, backing off ${backoff}ms (attempt ${attempt + 1})`);
+        await new Promise((r) => setTimeout(r, backoff));
+        continue;
+      }
+      return response;
+    } catch (err) {
+      lastError = err as Error;
+      const backoff = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
+      console.log(`Fetch error, backing off ${backoff}ms (attempt ${attempt + 1})`);
+      await new Promise((r) => setTimeout(r, backoff));
+    }
+  }
+  throw lastError ?? new Error('Fetch failed after retries');
+}
+
+/**
+ * Fetch and decode a JSON body, throwing `UpstreamError` on non-2xx.
+ */
+export async function fetchJson<T>(provider: string, url: string, options: FetchOptions = {}): Promise<T> {
+  const response = await fetchWithRetry(url, options);
+  if (!response.ok) {
+    throw new UpstreamError(provider, response.status);
+  }
+  return response.json() as Promise<T>;
+}
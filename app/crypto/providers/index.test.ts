@@ -0,0 +1,195 @@
+/**
+ * Tests for the market data provider registry.
+ *
+ * Verifies provider chain ordering (default vs. preferred), capability and
+ * `supports()` filtering, and fallback and per-call rate-limit reporting in
+ * `fetchFromChain`.
+ * No network access — Coinbase product discovery is stubbed and the fallback
+ * tests use in-memory fixture providers.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { getProviderChain, fetchFromChain, FIXTURE_FX_RATES } from './index';
+import { TokenBucket } from './rateLimiter';
+import type { MarketDataProvider } from './types';
+
+// Coinbase lists bitcoin in USD and EUR only
+vi.mock('./coinbaseProducts', () => ({
+  createProductCatalog: () => ({
+    findProduct: async (coinId: string, vsCurrency: string) =>
+      coinId === 'bitcoin' && ['usd', 'eur'].includes(vsCurrency) ? `BTC-${vsCurrency.toUpperCase()}` : null,
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fixtureProvider(id: 'coingecko' | 'coinbase', overrides: Partial<MarketDataProvider> = {}): MarketDataProvider {
+  return {
+    id,
+    name: id,
+    capabilities: { markets: true, history: true, ohlc: true, search: true, fx: true },
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// getProviderChain
+// ---------------------------------------------------------------------------
+
+describe('getProviderChain', () => {
+  it('tries Coinbase before CoinGecko for OHLC when the coin is listed in USD', async () => {
+    const chain = await getProviderChain('ohlc', 'auto', 'bitcoin', 'usd');
+    expect(chain.map((p) => p.id)).toEqual(['coinbase', 'coingecko', 'derived']);
+  });
+
+  it('skips Coinbase for coins it does not list', async () => {
+    const chain = await getProviderChain('ohlc', 'auto', 'some-obscure-coin', 'usd');
+    expect(chain.map((p) => p.id)).toEqual(['coingecko', 'derived']);
+  });
+
+  it('skips Coinbase for quotes it does not list', async () => {
+    const chain = await getProviderChain('ohlc', 'auto', 'bitcoin', 'jpy');
+    expect(chain.map((p) => p.id)).toEqual(['coingecko', 'derived']);
+  });
+
+  it('uses Coinbase for listed non-USD quotes', async () => {
+    const chain = await getProviderChain('ohlc', 'auto', 'bitcoin', 'eur');
+    expect(chain.map((p) => p.id)).toEqual(['coinbase', 'coingecko', 'derived']);
+  });
+
+  it('moves the preferred provider to the front', async () => {
+    const chain = await getProviderChain('ohlc', 'coingecko', 'bitcoin', 'usd');
+    expect(chain.map((p) => p.id)).toEqual(['coingecko', 'coinbase', 'derived']);
+  });
+
+  it('excludes providers without the requested capability', async () => {
+    const chain = await getProviderChain('markets', 'coinbase');
+    expect(chain.map((p) => p.id)).toEqual(['coingecko']);
+  });
+
+  it('keeps only providers that serve an explicit candle granularity', async () => {
+    expect((await getProviderChain('ohlc', 'auto', 'bitcoin', 'usd', '15m')).map((p) => p.id)).toEqual(['coinbase']);
+    expect(await getProviderChain('ohlc', 'auto', 'some-obscure-coin', 'usd', '15m')).toEqual([]);
+  });
+
+  it('ignores unknown preferred providers', async () => {
+    const chain = await getProviderChain('history', 'kraken', 'bitcoin');
+    expect(chain.map((p) => p.id)).toEqual(['coingecko']);
+  });
+
+  it('serves exchange rates from CoinGecko unless the fixture is preferred', async () => {
+    expect((await getProviderChain('fx')).map((p) => p.id)).toEqual(['coingecko']);
+    expect((await getProviderChain('fx', 'fixture')).map((p) => p.id)).toEqual(['fixture', 'coingecko']);
+  });
+
+  it('keeps the fixture provider out of market data chains', async () => {
+    expect((await getProviderChain('markets', 'fixture')).map((p) => p.id)).toEqual(['coingecko']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchFromChain
+// ---------------------------------------------------------------------------
+
+describe('fetchFromChain', () => {
+  it('returns the first successful result with its provider ID', async () => {
+    const chain = [fixtureProvider('coinbase'), fixtureProvider('coingecko')];
+    const result = await fetchFromChain(chain, async (p) => `from-${p.id}`);
+    expect(result).toEqual({ data: 'from-coinbase', provider: 'coinbase', rateLimited: false });
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const chain = [fixtureProvider('coinbase'), fixtureProvider('coingecko')];
+    const result = await fetchFromChain(chain, async (p) => {
+      if (p.id === 'coinbase') throw new Error('boom');
+      return 42;
+    });
+    expect(result).toEqual({ data: 42, provider: 'coingecko', rateLimited: false });
+  });
+
+  it('throws the last error when every provider fails', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const chain = [fixtureProvider('coinbase'), fixtureProvider('coingecko')];
+    await expect(
+      fetchFromChain(chain, async (p) => {
+        throw new Error(`${p.id} down`);
+      })
+    ).rejects.toThrow('coingecko down');
+  });
+
+  it('returns fixed rates from the fixture provider', async () => {
+    const chain = await getProviderChain('fx', 'fixture');
+    const result = await fetchFromChain(chain, (p) => p.getFxRates!());
+    expect(result).toEqual({ data: FIXTURE_FX_RATES, provider: 'fixture', rateLimited: false });
+  });
+
+  it('throws when the chain is empty', async () => {
+    await expect(fetchFromChain([], async () => 1)).rejects.toThrow('No provider available');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchFromChain rate-limit reporting
+// ---------------------------------------------------------------------------
+
+describe('fetchFromChain rate limiting', () => {
+  // Sheds any caller that would have to wait
+  const bucket = () => new TokenBucket('coingecko', { perMinute: 10, burst: 1, maxWaitMs: 0 });
+
+  it('does not flag a call the limiter never held back', async () => {
+    const limiter = bucket();
+    // Another request hit a 429 a moment ago
+    limiter.penalize();
+    expect(limiter.isLimited()).toBe(true);
+    const chain = [fixtureProvider('coingecko', { rateLimiter: limiter })];
+
+    // e.g. served from a cache without touching the upstream
+    const result = await fetchFromChain(chain, async () => 42);
+    expect(result.rateLimited).toBe(false);
+  });
+
+  it('flags a call whose request was shed, even when a fallback serves it', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const limiter = bucket();
+    await limiter.acquire();
+    const chain = [fixtureProvider('coingecko', { rateLimiter: limiter }), fixtureProvider('coinbase')];
+
+    const result = await fetchFromChain(chain, async (p) => {
+      if (p.id === 'coingecko') await limiter.acquire();
+      return p.id;
+    });
+    expect(result).toEqual({ data: 'coinbase', provider: 'coinbase', rateLimited: true });
+  });
+
+  it('reports throttling through the record when every provider fails', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const limiter = bucket();
+    await limiter.acquire();
+    const throttle = { rateLimited: false };
+
+    await expect(
+      fetchFromChain([fixtureProvider('coingecko')], () => limiter.acquire(), throttle)
+    ).rejects.toThrow('rate limit budget exhausted');
+    expect(throttle.rateLimited).toBe(true);
+  });
+
+  it('keeps concurrent calls apart and counts nested chains', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const limiter = bucket();
+    await limiter.acquire();
+    const chain = [fixtureProvider('coingecko')];
+
+    const [quiet, nested] = await Promise.all([
+      fetchFromChain(chain, async () => 1),
+      // Like the derived provider, which fetches history through its own chain
+      fetchFromChain(chain, () =>
+        fetchFromChain(chain, () => limiter.acquire()).catch(() => 0)
+      ),
+    ]);
+    expect(quiet.rateLimited).toBe(false);
+    expect(nested.rateLimited).toBe(true);
+  });
+});
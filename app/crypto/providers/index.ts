@@ -0,0 +1,118 @@
+// Market data provider registry
+//
+// Every upstream the API routes can talk to is registered here.  Routes ask
+// for a provider chain per capability and try each provider in turn, so
+// adding a new exchange (or a local fixture provider) is a single
+// `registerProvider()` call plus an entry in DEFAULT_CHAINS.
+
+import { coinGeckoProvider } from './coingecko';
+import { coinbaseProvider } from './coinbase';
+import { createDerivedProvider } from './derived';
+import { createFixtureProvider } from './fixture';
+import { trackThrottling, type ThrottleRecord } from './rateLimiter';
+import type { MarketDataProvider, ProviderCapability } from './types';
+import type { CandleGranularity, MarketDataProviderId } from '../types';
+
+export type { MarketDataProvider, ProviderCapability } from './types';
+export { UpstreamError } from './http';
+export { RateLimitError } from './rateLimiter';
+export type { ThrottleRecord } from './rateLimiter';
+export { getRangeResolution } from './coingecko';
+export { coinbaseCatalog } from './coinbase';
+export { FIXTURE_FX_RATES } from './fixture';
+
+const providers = new Map<MarketDataProviderId, MarketDataProvider>();
+
+/**
+ * Default provider order per capability.  Coinbase comes first for OHLC
+ * because it offers finer granularity and more generous rate limits; candles
+ * derived from price history are the last resort.
+ */
+const DEFAULT_CHAINS: Record<ProviderCapability, MarketDataProviderId[]> = {
+  markets: ['coingecko'],
+  history: ['coingecko'],
+  ohlc: ['coinbase', 'coingecko', 'derived'],
+  search: ['coingecko'],
+  fx: ['coingecko'],
+};
+
+/**
+ * Register (or replace) a provider.  Replacing is useful in tests, where a
+ * fixture provider can stand in for a real upstream under the same ID.
+ */
+export function registerProvider(provider: MarketDataProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): MarketDataProvider | undefined {
+  return providers.get(id as MarketDataProviderId);
+}
+
+/**
+ * Build the ordered list of providers to try for a request.
+ *
+ * @param capability - endpoint being served
+ * @param preferred - provider ID to try first, or 'auto' for the default order
+ * @param coinId - coin being requested (null for listings)
+ * @param vsCurrency - quote currency being requested
+ * @param granularity - explicit candle width (OHLC only); providers that
+ *   cannot serve it are dropped from the chain
+ */
+export async function getProviderChain(
+  capability: ProviderCapability,
+  preferred: string = 'auto',
+  coinId: string | null = null,
+  vsCurrency: string = 'usd',
+  granularity?: CandleGranularity
+): Promise<MarketDataProvider[]> {
+  const defaults = DEFAULT_CHAINS[capability];
+  const order = preferred === 'auto'
+    ? defaults
+    : [preferred as MarketDataProviderId, ...defaults.filter((id) => id !== preferred)];
+
+  const candidates = order
+    .map((id) => providers.get(id))
+    .filter((p): p is MarketDataProvider => !!p && p.capabilities[capability])
+    .filter((p) => !granularity || !!p.ohlcGranularities?.includes(granularity));
+  const supported = await Promise.all(
+    candidates.map((p) => !p.supports || p.supports(capability, coinId, vsCurrency))
+  );
+  return candidates.filter((_, i) => supported[i]);
+}
+
+/**
+ * Run `fn` against each provider in the chain until one succeeds.
+ * Throws the last provider error if every provider fails.
+ *
+ * `rateLimited` reports whether an upstream budget queued or shed any of this
+ * call's requests (or one hit a 429).  Pass `throttle` to also learn it when
+ * the call throws, e.g. before a cache serves stale data instead.
+ */
+export async function fetchFromChain<T>(
+  chain: MarketDataProvider[],
+  fn: (provider: MarketDataProvider) => Promise<T>,
+  throttle: ThrottleRecord = { rateLimited: false }
+): Promise<{ data: T; provider: MarketDataProviderId; rateLimited: boolean }> {
+  let lastError: Error | null = null;
+  for (const provider of chain) {
+    try {
+      const data = await trackThrottling(throttle, () => fn(provider));
+      return { data, provider: provider.id, rateLimited: throttle.rateLimited };
+    } catch (err) {
+      lastError = err as Error;
+      console.log(`${provider.name} fetch failed, trying next provider:`, lastError.message);
+    }
+  }
+  throw lastError ?? new Error('No provider available for this request');
+}
+
+registerProvider(coinGeckoProvider);
+registerProvider(coinbaseProvider);
+registerProvider(createFixtureProvider());
+registerProvider(
+  createDerivedProvider(async (query) => {
+    const chain = await getProviderChain('history', 'auto', query.id, query.vsCurrency);
+    const { data } = await fetchFromChain(chain, (provider) => provider.getHistory!(query));
+    return data;
+  })
+);
@@ -0,0 +1,128 @@
+/**
+ * Tests for the upstream token-bucket rate limiter.
+ *
+ * Refill is time-based, so fake timers drive both the bucket clock
+ * (Date.now) and the queued callers' setTimeout waits.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenBucket, RateLimitError } from './rateLimiter';
+import { fetchWithRetry } from './http';
+
+// 60/min = one token per second
+const LIMIT = { perMinute: 60, burst: 2, maxWaitMs: 5000 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// TokenBucket
+// ---------------------------------------------------------------------------
+
+describe('TokenBucket', () => {
+  it('serves a burst immediately without reporting a limit', async () => {
+    const bucket = new TokenBucket('Test', LIMIT);
+    expect(await bucket.acquire()).toBe(0);
+    expect(await bucket.acquire()).toBe(0);
+    expect(bucket.isLimited()).toBe(false);
+  });
+
+  it('queues callers past the burst until tokens refill', async () => {
+    const bucket = new TokenBucket('Test', LIMIT);
+    await bucket.acquire();
+    await bucket.acquire();
+
+    let resolved = false;
+    const queued = bucket.acquire().then((waited) => {
+      resolved = true;
+      return waited;
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(resolved).toBe(false);
+    expect(bucket.isLimited()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(await queued).toBe(1000);
+  });
+
+  it('gives each queued caller its own slot in line', async () => {
+    const bucket = new TokenBucket('Test', LIMIT);
+    await bucket.acquire();
+    await bucket.acquire();
+
+    const waits = Promise.all([bucket.acquire(), bucket.acquire(), bucket.acquire()]);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(await waits).toEqual([1000, 2000, 3000]);
+  });
+
+  it('sheds callers whose wait would exceed maxWaitMs', async () => {
+    const bucket = new TokenBucket('Test', { ...LIMIT, maxWaitMs: 1500 });
+    await bucket.acquire();
+    await bucket.acquire();
+    void bucket.acquire(); // reserves the token due in 1s
+
+    await expect(bucket.acquire()).rejects.toBeInstanceOf(RateLimitError);
+    await vi.runAllTimersAsync();
+  });
+
+  it('refills up to the burst size only', async () => {
+    const bucket = new TokenBucket('Test', LIMIT);
+    vi.advanceTimersByTime(60_000);
+    expect(bucket.available()).toBe(2);
+  });
+
+  it('drains the bucket when penalized after an upstream 429', async () => {
+    const bucket = new TokenBucket('Test', LIMIT);
+    bucket.penalize();
+    expect(bucket.available()).toBe(0);
+    expect(bucket.isLimited()).toBe(true);
+
+    vi.advanceTimersByTime(60_000);
+    expect(bucket.isLimited()).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchWithRetry with a limiter
+// ---------------------------------------------------------------------------
+
+describe('fetchWithRetry with a limiter', () => {
+  it('spends a token per attempt and penalizes on 429', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 429 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const limiter = new TokenBucket('Test', { perMinute: 60, burst: 5, maxWaitMs: 5000 });
+    const penalize = vi.spyOn(limiter, 'penalize');
+
+    const pending = fetchWithRetry('https://example.test', { limiter });
+    await vi.runAllTimersAsync();
+    const response = await pending;
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(penalize).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not contact upstream when the request is shed', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const limiter = new TokenBucket('Test', { perMinute: 1, burst: 1, maxWaitMs: 0 });
+    await limiter.acquire();
+
+    await expect(fetchWithRetry('https://example.test', { limiter })).rejects.toBeInstanceOf(RateLimitError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+// Proactive upstream rate limiting (token bucket)
+//
+// One bucket per upstream is shared by every route on the instance.  Callers
+// that arrive when the bucket is empty are queued until a token refills, or
+// shed with a RateLimitError when the queue would exceed `maxWaitMs`.  Tokens
+// may go negative: each queued caller reserves a future token, which keeps
+// the wait estimate exact without a separate queue structure.
+//
+// Buckets are shared, so whether *this* request was held back is tracked
+// separately: `trackThrottling()` runs a call in an async context that the
+// bucket marks when it queues or sheds a caller inside it, or sees a 429.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/** Thrown when a request is shed instead of queued. */
+export class RateLimitError extends Error {
+  provider: string;
+  retryAfterMs: number;
+
+  constructor(provider: string, retryAfterMs: number) {
+    super(`${provider} rate limit budget exhausted (retry in ${Math.ceil(retryAfterMs / 1000)}s)`);
+    this.name = 'RateLimitError';
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface RateLimit {
+  /** Sustained requests per minute */
+  perMinute: number;
+  /** Burst size (bucket capacity) */
+  burst: number;
+  /** Longest a caller may be queued before being shed (ms) */
+  maxWaitMs: number;
+}
+
+/** Whether the limiter held back any upstream call made within a tracked scope */
+export interface ThrottleRecord {
+  rateLimited: boolean;
+}
+
+const throttleScope = new AsyncLocalStorage<ThrottleRecord>();
+
+function markThrottled(): void {
+  const record = throttleScope.getStore();
+  if (record) record.rateLimited = true;
+}
+
+/**
+ * Run `fn`, setting `record.rateLimited` if a limiter queues or sheds one of
+ * its upstream calls (or one of them hits a 429).  Scopes nest: throttling in
+ * an inner scope also marks the enclosing one.
+ */
+export async function trackThrottling<T>(record: ThrottleRecord, fn: () => Promise<T>): Promise<T> {
+  const outer = throttleScope.getStore();
+  try {
+    return await throttleScope.run(record, fn);
+  } finally {
+    if (outer && record.rateLimited) outer.rateLimited = true;
+  }
+}
+
+/** How long after being throttled the limiter still reports `isLimited()` */
+const LIMITED_FLAG_WINDOW_MS = 30_000;
+
+export class TokenBucket {
+  readonly provider: string;
+  readonly limit: RateLimit;
+  private tokens: number;
+  private lastRefill: number;
+  private lastLimitedAt = 0;
+
+  constructor(provider: string, limit: RateLimit) {
+    this.provider = provider;
+    this.limit = limit;
+    this.tokens = limit.burst;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refillPerMs = this.limit.perMinute / 60_000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + (now - this.lastRefill) * refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /** Tokens currently available (negative while callers are queued). */
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Take one token, waiting for a refill if necessary.
+   * @returns milliseconds spent queued
+   * @throws RateLimitError when the wait would exceed `maxWaitMs`
+   */
+  async acquire(maxWaitMs: number = this.limit.maxWaitMs): Promise<number> {
+    this.refill();
+    const deficit = 1 - this.tokens;
+    const waitMs = deficit > 0 ? deficit / (this.limit.perMinute / 60_000) : 0;
+
+    if (waitMs > maxWaitMs) {
+      this.lastLimitedAt = Date.now();
+      markThrottled();
+      throw new RateLimitError(this.provider, waitMs);
+    }
+
+    this.tokens -= 1;
+    if (waitMs > 0) {
+      this.lastLimitedAt = Date.now();
+      markThrottled();
+      await new Promise((r) => setTimeout(r, waitMs));
+    }
+    return waitMs;
+  }
+
+  /**
+   * Record an upstream 429: empty the bucket so subsequent callers back off
+   * instead of spending more of an already-exhausted budget.
+   */
+  penalize(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+    this.lastLimitedAt = Date.now();
+    markThrottled();
+  }
+
+  /** Whether callers were queued, shed or hit a 429 in the recent past. */
+  isLimited(): boolean {
+    return this.available() < 0 || Date.now() - this.lastLimitedAt < LIMITED_FLAG_WINDOW_MS;
+  }
+}
@@ -0,0 +1,81 @@
+// Market data provider contracts shared by every API route
+
+import type {
+  Coin,
+  ChartData,
+  CoinSearchResult,
+  OHLCData,
+  MarketDataProviderId,
+  TimeRange,
+  CandleGranularity,
+  FxRates,
+} from '../types';
+import type { TokenBucket } from './rateLimiter';
+
+/**
+ * Which endpoints a provider can serve.  Routes use these flags to build a
+ * provider chain, so a provider that can only do candles (e.g. Coinbase)
+ * never gets asked for market listings.
+ */
+export interface ProviderCapabilities {
+  markets: boolean;
+  history: boolean;
+  ohlc: boolean;
+  search: boolean;
+  /** USD exchange rates for the dashboard currencies */
+  fx: boolean;
+}
+
+export type ProviderCapability = keyof ProviderCapabilities;
+
+export interface MarketsQuery {
+  /** CoinGecko IDs, or null for the top-N listing */
+  ids: string[] | null;
+  vsCurrency: string;
+  perPage: number;
+  page: number;
+}
+
+export interface HistoryQuery {
+  id: string;
+  vsCurrency: string;
+  days: string;
+  /** Explicit window (epoch seconds); when set, `days` is ignored */
+  range?: TimeRange;
+}
+
+export interface OHLCQuery {
+  id: string;
+  vsCurrency: string;
+  days: string;
+  /** Requested candle width; omitted = the provider's default for `days` */
+  granularity?: CandleGranularity;
+}
+
+/**
+ * A pluggable upstream source of market data.
+ *
+ * Only the methods matching `capabilities` need to be implemented.  A provider
+ * may additionally implement `supports()` to opt out of a specific coin /
+ * currency pair before the data request is made (e.g. Coinbase only lists a
+ * subset of coins, looked up in its cached product catalog).
+ */
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  name: string;
+  capabilities: ProviderCapabilities;
+  /**
+   * Candle widths `getOHLC` can honour.  Providers without this field only
+   * serve their own automatic granularity and are skipped when a specific
+   * `granularity` is requested.
+   */
+  ohlcGranularities?: readonly CandleGranularity[];
+  /** Shared upstream budget, when the provider enforces one */
+  rateLimiter?: TokenBucket;
+  supports?: (capability: ProviderCapability, coinId: string | null, vsCurrency: string) => boolean | Promise<boolean>;
+  getMarkets?: (query: MarketsQuery) => Promise<Coin[]>;
+  getHistory?: (query: HistoryQuery) => Promise<ChartData>;
+  getOHLC?: (query: OHLCQuery) => Promise<OHLCData>;
+  getCoinList?: () => Promise<CoinSearchResult[]>;
+  getFxRates?: () => Promise<FxRates>;
+}
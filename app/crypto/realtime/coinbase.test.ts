@@ -0,0 +1,34 @@
+/**
+ * Tests for the Coinbase ticker channel parser.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseCoinbaseTicker } from './coinbase';
+
+const coinByProduct = new Map([['BTC-USD', 'bitcoin'], ['ETH-USD', 'ethereum']]);
+
+describe('parseCoinbaseTicker', () => {
+  it('maps a ticker message to a CoinGecko-keyed price', () => {
+    const data = JSON.stringify({ type: 'ticker', product_id: 'ETH-USD', price: '3501.25', side: 'buy' });
+    expect(parseCoinbaseTicker(data, coinByProduct)).toEqual({ prices: { ethereum: 3501.25 } });
+  });
+
+  it('reads the trade time as the frame timestamp', () => {
+    const data = JSON.stringify({ type: 'ticker', product_id: 'BTC-USD', price: '64000', time: '2024-05-01T12:00:00.250Z' });
+    expect(parseCoinbaseTicker(data, coinByProduct)).toEqual({
+      prices: { bitcoin: 64000 },
+      sentAt: Date.parse('2024-05-01T12:00:00.250Z'),
+    });
+  });
+
+  it('ignores subscription confirmations and heartbeats', () => {
+    expect(parseCoinbaseTicker(JSON.stringify({ type: 'subscriptions', channels: [] }), coinByProduct)).toBeNull();
+    expect(parseCoinbaseTicker(JSON.stringify({ type: 'heartbeat', product_id: 'BTC-USD' }), coinByProduct)).toBeNull();
+  });
+
+  it('ignores unknown products, bad prices and malformed frames', () => {
+    expect(parseCoinbaseTicker(JSON.stringify({ type: 'ticker', product_id: 'SOL-USD', price: '150' }), coinByProduct)).toBeNull();
+    expect(parseCoinbaseTicker(JSON.stringify({ type: 'ticker', product_id: 'BTC-USD', price: 'n/a' }), coinByProduct)).toBeNull();
+    expect(parseCoinbaseTicker('not-json', coinByProduct)).toBeNull();
+  });
+});
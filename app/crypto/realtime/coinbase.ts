@@ -0,0 +1,126 @@
+// Coinbase Exchange ticker channel (wss://ws-feed.exchange.coinbase.com, no API key)
+//
+// The socket opens without a coin list; `subscribe` / `unsubscribe` messages
+// name the products, so the coin set changes without reconnecting, and the
+// feed sends one `ticker` message per trade.  Coinbase only lists a subset
+// of coins, so product IDs are resolved first (browsers ask
+// `/crypto/api/coin-identities`, the server uses the product catalog) and
+// unlisted coins are simply not streamed.
+
+import type { PriceUpdate, StreamConnection, StreamHandlers } from './types';
+
+export const COINBASE_WS_URL = 'wss://ws-feed.exchange.coinbase.com';
+
+/** CoinGecko ID → Coinbase USD product ID for the coins Coinbase lists */
+export type ProductResolver = (coinIds: string[]) => Promise<Record<string, string>>;
+
+interface CoinbaseFeedMessage {
+  type: string;
+  product_id?: string;
+  price?: string;
+  time?: string;
+  message?: string;
+}
+
+/** A parsed ticker: the coin's price and when Coinbase matched the trade */
+export interface CoinbaseTick {
+  prices: PriceUpdate;
+  /** Trade time (epoch ms); absent when the message has no usable `time` */
+  sentAt?: number;
+}
+
+/**
+ * Parse a feed message into CoinGecko-keyed prices.  Returns null for
+ * malformed frames and for non-ticker messages (subscriptions, heartbeats).
+ */
+export function parseCoinbaseTicker(data: string, coinByProduct: Map<string, string>): CoinbaseTick | null {
+  try {
+    const message = JSON.parse(data) as CoinbaseFeedMessage;
+    if (message.type !== 'ticker' || !message.product_id) return null;
+    const coinId = coinByProduct.get(message.product_id);
+    const price = parseFloat(message.price ?? '');
+    if (!coinId || isNaN(price)) return null;
+    const time = message.time ? Date.parse(message.time) : NaN;
+    return isNaN(time) ? { prices: { [coinId]: price } } : { prices: { [coinId]: price }, sentAt: time };
+  } catch {
+    return null;
+  }
+}
+
+export function connectCoinbaseTicker(
+  coinIds: string[],
+  handlers: StreamHandlers,
+  resolveProducts: ProductResolver,
+  baseUrl: string = COINBASE_WS_URL
+): StreamConnection {
+  let closed = false;
+  let ws: WebSocket | null = null;
+  let opened = false;
+  let coinByProduct = new Map<string, string>();
+  let latestRequest: string[] = coinIds;
+
+  const fail = () => {
+    if (closed) return;
+    handlers.onError();
+    handlers.onClose();
+  };
+
+  const send = (type: 'subscribe' | 'unsubscribe', productIds: string[]) => {
+    if (productIds.length > 0) ws?.send(JSON.stringify({ type, product_ids: productIds, channels: ['ticker'] }));
+  };
+
+  function open(): void {
+    ws = new WebSocket(baseUrl);
+    ws.onopen = () => {
+      opened = true;
+      send('subscribe', [...coinByProduct.keys()]);
+      handlers.onOpen();
+    };
+    ws.onmessage = (event: MessageEvent<string>) => {
+      const tick = parseCoinbaseTicker(event.data, coinByProduct);
+      if (tick) handlers.onPrices(tick.prices, 'coinbase', tick.sentAt);
+    };
+    ws.onerror = () => handlers.onError();
+    ws.onclose = () => handlers.onClose();
+  }
+
+  // Resolve products for `ids`, then open the socket or adjust its subscription
+  function subscribeTo(ids: string[]): void {
+    latestRequest = ids;
+    resolveProducts(ids).then((products) => {
+      if (closed || latestRequest !== ids) return;
+      const next = new Map(Object.entries(products).map(([coinId, productId]) => [productId, coinId]));
+      const previous = coinByProduct;
+      coinByProduct = next;
+
+      if (!ws) {
+        if (next.size === 0) fail();
+        else open();
+        return;
+      }
+      // Before the socket opens, `onopen` subscribes to the current map
+      if (!opened) return;
+      send('unsubscribe', [...previous.keys()].filter((productId) => !next.has(productId)));
+      send('subscribe', [...next.keys()].filter((productId) => !previous.has(productId)));
+    }, () => {
+      // Keep the current subscription if a later lookup fails
+      if (!ws && latestRequest === ids) fail();
+    });
+  }
+  subscribeTo(coinIds);
+
+  return {
+    close: () => {
+      closed = true;
+      if (ws) {
+        ws.onclose = null;
+        ws.close();
+      }
+    },
+    // The ticker channel takes subscribe / unsubscribe messages
+    update: (next) => {
+      subscribeTo(next);
+      return true;
+    },
+  };
+}
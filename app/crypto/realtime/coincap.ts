@@ -0,0 +1,54 @@
+// CoinCap price stream (wss://ws.coincap.io, no API key)
+//
+// CoinCap takes the asset list in the URL and sends frames of
+// { [coinCapId]: "price" }.  IDs are translated to and from CoinGecko IDs via
+// the identity registry.  Works wherever a global `WebSocket` exists: every
+// browser, and Node 22+ on the server.
+
+import { toCoinCapId, fromCoinCapId } from '../utils/coinIdentity';
+import type { PriceUpdate, RealtimeSource, StreamConnection, StreamHandlers } from './types';
+
+export const COINCAP_WS_URL = 'wss://ws.coincap.io/prices';
+
+/** Parse a CoinCap frame into CoinGecko-keyed prices; null if malformed. */
+export function parseCoinCapFrame(data: string): PriceUpdate | null {
+  try {
+    const frame = JSON.parse(data) as Record<string, string>;
+    const prices: PriceUpdate = {};
+    for (const [coinCapId, priceStr] of Object.entries(frame)) {
+      const price = parseFloat(priceStr);
+      if (!isNaN(price)) prices[fromCoinCapId(coinCapId)] = price;
+    }
+    return prices;
+  } catch {
+    return null;
+  }
+}
+
+export function connectCoinCap(
+  coinIds: string[],
+  handlers: StreamHandlers,
+  baseUrl: string = COINCAP_WS_URL
+): StreamConnection {
+  const ws = new WebSocket(`${baseUrl}?assets=${coinIds.map(toCoinCapId).join(',')}`);
+
+  ws.onopen = () => handlers.onOpen();
+  ws.onmessage = (event: MessageEvent<string>) => {
+    const prices = parseCoinCapFrame(event.data);
+    if (prices) handlers.onPrices(prices, 'coincap');
+  };
+  ws.onerror = () => handlers.onError();
+  ws.onclose = () => handlers.onClose();
+
+  return {
+    close: () => {
+      ws.onclose = null;
+      ws.close();
+    },
+  };
+}
+
+export const coinCapSource: RealtimeSource = {
+  id: 'coincap',
+  connect: (coinIds, handlers) => connectCoinCap(coinIds, handlers),
+};
@@ -0,0 +1,172 @@
+/**
+ * Tests for coin-set changes on live connections.
+ *
+ * A fake connector records each connection; `inPlace` makes its connections
+ * accept `update()` the way the Coinbase ticker channel does, and `openSync`
+ * opens them before `connect()` returns.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { diffCoinSets, pickPrices, withIncrementalUpdates } from './connectionManager';
+import type { StreamConnector, StreamHandlers } from './types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface FakeConnection {
+  coinIds: string[];
+  handlers: StreamHandlers;
+  closed: boolean;
+  updates: string[][];
+}
+
+function fakeConnector({ inPlace = false, openSync = false } = {}): {
+  connect: StreamConnector;
+  connections: FakeConnection[];
+} {
+  const connections: FakeConnection[] = [];
+  const connect: StreamConnector = (coinIds, handlers) => {
+    const connection: FakeConnection = { coinIds, handlers, closed: false, updates: [] };
+    connections.push(connection);
+    // Like a cached source that is open before connect() returns
+    if (openSync) handlers.onOpen();
+    return {
+      close: () => { connection.closed = true; },
+      ...(inPlace ? { update: (next: string[]) => { connection.updates.push(next); return true; } } : {}),
+    };
+  };
+  return { connect, connections };
+}
+
+function handlers(): StreamHandlers {
+  return { onOpen: vi.fn(), onPrices: vi.fn(), onError: vi.fn(), onClose: vi.fn() };
+}
+
+// ---------------------------------------------------------------------------
+// diffCoinSets / pickPrices
+// ---------------------------------------------------------------------------
+
+describe('diffCoinSets', () => {
+  it('lists added and removed coins', () => {
+    expect(diffCoinSets(['bitcoin', 'ethereum'], ['ethereum', 'solana'])).toEqual({
+      added: ['solana'],
+      removed: ['bitcoin'],
+    });
+  });
+
+  it('ignores order and duplicates', () => {
+    expect(diffCoinSets(['bitcoin', 'ethereum'], ['ethereum', 'bitcoin', 'bitcoin'])).toEqual({ added: [], removed: [] });
+  });
+});
+
+describe('pickPrices', () => {
+  it('keeps only the requested coins', () => {
+    expect(pickPrices({ bitcoin: 1, ethereum: 2 }, new Set(['ethereum']))).toEqual({ ethereum: 2 });
+    expect(pickPrices({ bitcoin: 1 }, new Set(['ethereum']))).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// withIncrementalUpdates
+// ---------------------------------------------------------------------------
+
+describe('withIncrementalUpdates', () => {
+  it('updates connections that support it in place', () => {
+    const { connect, connections } = fakeConnector({ inPlace: true });
+    const connection = withIncrementalUpdates(connect)(['bitcoin'], handlers());
+
+    expect(connection.update!(['bitcoin', 'ethereum'])).toBe(true);
+    expect(connections).toHaveLength(1);
+    expect(connections[0].updates).toEqual([['bitcoin', 'ethereum']]);
+  });
+
+  it('keeps the old connection streaming until its replacement opens', () => {
+    const { connect, connections } = fakeConnector();
+    const h = handlers();
+    const connection = withIncrementalUpdates(connect)(['bitcoin'], h);
+    connections[0].handlers.onOpen();
+
+    connection.update!(['bitcoin', 'ethereum']);
+    expect(connections).toHaveLength(2);
+    expect(connections[1].coinIds).toEqual(['bitcoin', 'ethereum']);
+
+    connections[0].handlers.onPrices({ bitcoin: 70000 }, 'coincap');
+    expect(h.onPrices).toHaveBeenLastCalledWith({ bitcoin: 70000 }, 'coincap', undefined);
+    expect(connections[0].closed).toBe(false);
+
+    connections[1].handlers.onOpen();
+    expect(connections[0].closed).toBe(true);
+    connections[1].handlers.onPrices({ ethereum: 3500 }, 'coincap');
+    expect(h.onPrices).toHaveBeenLastCalledWith({ ethereum: 3500 }, 'coincap', undefined);
+  });
+
+  it('promotes a replacement that opens before connect() returns', () => {
+    const { connect, connections } = fakeConnector({ openSync: true });
+    const h = handlers();
+    const connection = withIncrementalUpdates(connect)(['bitcoin'], h);
+
+    connection.update!(['bitcoin', 'ethereum']);
+    expect(connections[0].closed).toBe(true);
+    expect(connections[1].closed).toBe(false);
+    expect(h.onOpen).toHaveBeenCalledTimes(2);
+
+    // The replacement is now the live connection: it streams, reports errors and closes
+    connections[1].handlers.onPrices({ ethereum: 3500 }, 'coincap');
+    expect(h.onPrices).toHaveBeenLastCalledWith({ ethereum: 3500 }, 'coincap', undefined);
+    connections[1].handlers.onError();
+    expect(h.onError).toHaveBeenCalledTimes(1);
+    connection.update!(['bitcoin', 'ethereum', 'solana']);
+    expect(connections).toHaveLength(3);
+    expect(connections[1].closed).toBe(true);
+    connection.close();
+    expect(connections[2].closed).toBe(true);
+  });
+
+  it('filters removed coins without reconnecting', () => {
+    const { connect, connections } = fakeConnector();
+    const h = handlers();
+    const connection = withIncrementalUpdates(connect)(['bitcoin', 'ethereum'], h);
+
+    connection.update!(['bitcoin']);
+    connections[0].handlers.onPrices({ bitcoin: 70000, ethereum: 3500 }, 'coincap');
+
+    expect(connections).toHaveLength(1);
+    expect(h.onPrices).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coincap', undefined);
+  });
+
+  it('replaces a pending connection when the set changes again', () => {
+    const { connect, connections } = fakeConnector();
+    const connection = withIncrementalUpdates(connect)(['bitcoin'], handlers());
+
+    connection.update!(['bitcoin', 'ethereum']);
+    connection.update!(['bitcoin', 'ethereum', 'solana']);
+    expect(connections).toHaveLength(3);
+    expect(connections[1].closed).toBe(true);
+    expect(connections[0].closed).toBe(false);
+  });
+
+  it('ends when a replacement fails to open', () => {
+    const { connect, connections } = fakeConnector();
+    const h = handlers();
+    const connection = withIncrementalUpdates(connect)(['bitcoin'], h);
+
+    connection.update!(['bitcoin', 'ethereum']);
+    connections[1].handlers.onClose();
+
+    expect(connections[0].closed).toBe(true);
+    expect(h.onClose).toHaveBeenCalledTimes(1);
+    expect(connection.update!(['solana'])).toBe(false);
+  });
+
+  it('closes every connection it holds', () => {
+    const { connect, connections } = fakeConnector();
+    const h = handlers();
+    const connection = withIncrementalUpdates(connect)(['bitcoin'], h);
+
+    connection.update!(['bitcoin', 'ethereum']);
+    connection.close();
+    expect(connections.every((c) => c.closed)).toBe(true);
+    expect(h.onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+// Coin-set changes on a live connection
+//
+// Wraps a connector so its connections accept `update(coinIds)`:
+//
+//   only removals   keep the connection and stop forwarding removed coins
+//   in-place        upstreams with subscribe / unsubscribe messages
+//                   (Coinbase, polling) change their subscription directly
+//   make-before-    URL-based upstreams (CoinCap, the SSE route) get a second
+//   break           connection for the new set; the old one keeps streaming
+//                   until the new one opens, so coins in both sets never
+//                   lose ticks
+
+import type { PriceUpdate, RealtimeSourceId, StreamConnection, StreamConnector } from './types';
+
+export interface CoinSetDiff {
+  added: string[];
+  removed: string[];
+}
+
+export function diffCoinSets(previous: Iterable<string>, next: Iterable<string>): CoinSetDiff {
+  const before = new Set(previous);
+  const after = new Set(next);
+  return {
+    added: [...after].filter((id) => !before.has(id)),
+    removed: [...before].filter((id) => !after.has(id)),
+  };
+}
+
+/** The entries of `prices` for `coins`, or null if there are none. */
+export function pickPrices(prices: PriceUpdate, coins: Set<string>): PriceUpdate | null {
+  let picked: PriceUpdate | null = null;
+  for (const [id, price] of Object.entries(prices)) {
+    if (coins.has(id)) (picked ??= {})[id] = price;
+  }
+  return picked;
+}
+
+export function withIncrementalUpdates(connect: StreamConnector): StreamConnector {
+  return (coinIds, handlers) => {
+    let wanted = new Set(coinIds);
+    let active: StreamConnection | null = null;
+    let pending: StreamConnection | null = null;
+    let ended = false;
+
+    const forward = (prices: PriceUpdate, source: RealtimeSourceId, sentAt?: number) => {
+      const picked = pickPrices(prices, wanted);
+      if (picked) handlers.onPrices(picked, source, sentAt);
+    };
+
+    // Any connection dropping ends the whole thing; the caller reconnects
+    // with its current coin set
+    function end(): void {
+      if (ended) return;
+      ended = true;
+      active?.close();
+      pending?.close();
+      active = pending = null;
+      handlers.onClose();
+    }
+
+    function replace(ids: string[]): void {
+      pending?.close();
+      pending = null;
+      let replacement: StreamConnection | null = null;
+      // A connector may open before connect() returns (cached or mocked
+      // sources); the replacement is promoted once it is known
+      let openedEarly = false;
+
+      const promote = (connection: StreamConnection) => {
+        active?.close();
+        active = connection;
+        pending = null;
+        handlers.onOpen();
+      };
+
+      replacement = connect(ids, {
+        onOpen: () => {
+          if (replacement === null) openedEarly = true;
+          else if (pending === replacement) promote(replacement);
+          else if (active === replacement) handlers.onOpen();
+        },
+        onPrices: forward,
+        onError: () => {
+          if (active === replacement) handlers.onError();
+        },
+        onClose: end,
+      });
+
+      if (ended) replacement.close();
+      else if (openedEarly) promote(replacement);
+      else pending = replacement;
+    }
+
+    active = connect(coinIds, {
+      onOpen: handlers.onOpen,
+      onPrices: forward,
+      onError: handlers.onError,
+      onClose: end,
+    });
+
+    return {
+      close: () => {
+        ended = true;
+        active?.close();
+        pending?.close();
+        active = pending = null;
+      },
+      update: (next) => {
+        if (ended) return false;
+        const { added, removed } = diffCoinSets(wanted, next);
+        if (added.length === 0 && removed.length === 0) return true;
+        wanted = new Set(next);
+        if (!pending && active?.update?.(next)) return true;
+        // Streaming a few unwanted coins is cheaper than reconnecting
+        if (added.length === 0) return true;
+        replace(next);
+        return true;
+      },
+    };
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Tests for the live feed health tracker.
+ *
+ * Every call passes explicit timestamps, so no timers are faked.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createFeedHealthTracker } from './feedHealth';
+
+// ---------------------------------------------------------------------------
+// createFeedHealthTracker
+// ---------------------------------------------------------------------------
+
+describe('createFeedHealthTracker', () => {
+  it('starts disconnected with no frames', () => {
+    const health = createFeedHealthTracker().snapshot('websocket', 1_000);
+    expect(health).toEqual({
+      connected: false,
+      transport: 'websocket',
+      connectedAt: null,
+      lastFrameAt: null,
+      lastFrameByCoin: {},
+      messageRate: 0,
+      reconnects: 0,
+      latencyMs: null,
+      gaps: 0,
+      longestGapMs: 0,
+      sampledAt: 1_000,
+    });
+  });
+
+  it('records the last frame per coin', () => {
+    const tracker = createFeedHealthTracker();
+    tracker.opened(0);
+    tracker.frame({ bitcoin: 70000, ethereum: 3500 }, undefined, 1_000);
+    tracker.frame({ bitcoin: 70001 }, undefined, 2_000);
+
+    expect(tracker.snapshot('websocket', 2_500)).toMatchObject({
+      connected: true,
+      connectedAt: 0,
+      lastFrameAt: 2_000,
+      lastFrameByCoin: { bitcoin: 2_000, ethereum: 1_000 },
+    });
+  });
+
+  it('forgets coins that are no longer retained', () => {
+    const tracker = createFeedHealthTracker();
+    tracker.opened(0);
+    tracker.frame({ bitcoin: 70000, ethereum: 3500, solana: 150 }, undefined, 1_000);
+
+    tracker.retain(['bitcoin', 'solana', 'cardano']);
+    expect(tracker.snapshot('websocket', 1_500).lastFrameByCoin).toEqual({ bitcoin: 1_000, solana: 1_000 });
+
+    // Ticks still in flight for a dropped coin are ignored
+    tracker.frame({ bitcoin: 70001, ethereum: 3501, cardano: 0.5 }, undefined, 2_000);
+    expect(tracker.snapshot('websocket', 2_500)).toMatchObject({
+      lastFrameAt: 2_000,
+      lastFrameByCoin: { bitcoin: 2_000, solana: 1_000, cardano: 2_000 },
+    });
+  });
+
+  it('counts frames over the last minute', () => {
+    const tracker = createFeedHealthTracker();
+    tracker.opened(0);
+    for (let at = 1_000; at <= 90_000; at += 1_000) tracker.frame({ bitcoin: at }, undefined, at);
+
+    expect(tracker.snapshot('websocket', 90_000).messageRate).toBe(60);
+    expect(tracker.snapshot('websocket', 120_000).messageRate).toBe(30);
+  });
+
+  it('smooths latency from upstream timestamps and never reports it negative', () => {
+    const tracker = createFeedHealthTracker({ latencySmoothing: 0.5 });
+    tracker.opened(0);
+    tracker.frame({ bitcoin: 1 }, 900, 1_000);
+    expect(tracker.snapshot('websocket', 1_000).latencyMs).toBe(100);
+
+    tracker.frame({ bitcoin: 2 }, 1_700, 2_000);
+    expect(tracker.snapshot('websocket', 2_000).latencyMs).toBe(200);
+
+    // Upstream clock ahead of ours
+    tracker.frame({ bitcoin: 3 }, 3_500, 3_000);
+    expect(tracker.snapshot('websocket', 3_000).latencyMs).toBe(100);
+
+    // Frames without a timestamp leave the estimate alone
+    tracker.frame({ bitcoin: 4 }, undefined, 4_000);
+    expect(tracker.snapshot('websocket', 4_000).latencyMs).toBe(100);
+  });
+
+  it('counts long pauses on an open connection as gaps', () => {
+    const tracker = createFeedHealthTracker({ gapMs: 10_000 });
+    tracker.opened(0);
+    // Silence after opening counts too
+    tracker.frame({ bitcoin: 1 }, undefined, 12_000);
+    tracker.frame({ bitcoin: 2 }, undefined, 15_000);
+    tracker.frame({ bitcoin: 3 }, undefined, 40_000);
+
+    expect(tracker.snapshot('websocket', 40_000)).toMatchObject({ gaps: 2, longestGapMs: 25_000 });
+  });
+
+  it('does not count time spent disconnected as a gap', () => {
+    const tracker = createFeedHealthTracker({ gapMs: 10_000 });
+    tracker.opened(0);
+    tracker.frame({ bitcoin: 1 }, undefined, 1_000);
+    tracker.closed();
+    tracker.reconnecting();
+    tracker.opened(60_000);
+    tracker.frame({ bitcoin: 2 }, undefined, 61_000);
+
+    expect(tracker.snapshot('sse', 61_000)).toMatchObject({
+      connected: true,
+      transport: 'sse',
+      connectedAt: 60_000,
+      reconnects: 1,
+      gaps: 0,
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// Live feed health
+//
+// An open connection says nothing about whether prices are still flowing:
+// an upstream can keep the socket up and go quiet for minutes.  The tracker
+// records when each frame (and each coin's latest tick) arrived, counts
+// frames over the last minute, reconnects and pauses between frames, and
+// keeps a smoothed latency estimate for sources that timestamp their frames.
+// `evaluateFeedHealth` in utils/dataFreshness.ts grades a snapshot.
+
+import { FRESHNESS_THRESHOLDS } from '../utils/dataFreshness';
+import type { PriceUpdate, RealtimeTransport } from './types';
+
+export interface FeedHealth {
+  connected: boolean;
+  transport: RealtimeTransport;
+  /** When the current connection opened (epoch ms) */
+  connectedAt: number | null;
+  /** When the last frame arrived (epoch ms) */
+  lastFrameAt: number | null;
+  /** coinId → when its last tick arrived (epoch ms) */
+  lastFrameByCoin: Record<string, number>;
+  /** Frames received over the last minute */
+  messageRate: number;
+  /** Connection attempts after the first (back-off retries and downgrades) */
+  reconnects: number;
+  /** Smoothed delay between the upstream timestamp and arrival (ms); null when no source reports one */
+  latencyMs: number | null;
+  /** Pauses between frames on an open connection longer than the gap threshold */
+  gaps: number;
+  longestGapMs: number;
+  /** When this snapshot was taken (epoch ms) */
+  sampledAt: number;
+}
+
+export interface FeedHealthTracker {
+  frame: (prices: PriceUpdate, sentAt?: number, receivedAt?: number) => void;
+  opened: (at?: number) => void;
+  closed: () => void;
+  reconnecting: () => void;
+  /** Track only these coins from now on, forgetting the last tick of any others */
+  retain: (coinIds: string[]) => void;
+  snapshot: (transport: RealtimeTransport, now?: number) => FeedHealth;
+}
+
+export interface FeedHealthOptions {
+  /** Silence between frames counted as a gap (ms) */
+  gapMs?: number;
+  /** Weight of the newest latency sample in the moving average */
+  latencySmoothing?: number;
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+export function createFeedHealthTracker({
+  gapMs = FRESHNESS_THRESHOLDS.FEED_QUIET,
+  latencySmoothing = 0.2,
+}: FeedHealthOptions = {}): FeedHealthTracker {
+  const lastFrameByCoin = new Map<string, number>();
+  // Coins tracked per coin; null tracks every coin a frame mentions
+  let retained: Set<string> | null = null;
+  // Arrival times within the rate window, oldest first
+  let recent: number[] = [];
+  let connected = false;
+  let connectedAt: number | null = null;
+  let lastFrameAt: number | null = null;
+  // Start of the current silence on an open connection
+  let quietSince: number | null = null;
+  let reconnects = 0;
+  let latencyMs: number | null = null;
+  let gaps = 0;
+  let longestGapMs = 0;
+
+  function prune(now: number): void {
+    const cutoff = now - RATE_WINDOW_MS;
+    let drop = 0;
+    while (drop < recent.length && recent[drop] <= cutoff) drop += 1;
+    if (drop > 0) recent = recent.slice(drop);
+  }
+
+  return {
+    frame: (prices, sentAt, receivedAt = Date.now()) => {
+      if (quietSince !== null) {
+        const silence = receivedAt - quietSince;
+        if (silence > gapMs) {
+          gaps += 1;
+          longestGapMs = Math.max(longestGapMs, silence);
+        }
+      }
+      quietSince = connected ? receivedAt : null;
+      lastFrameAt = receivedAt;
+      for (const id of Object.keys(prices)) {
+        // An upstream can keep sending a dropped coin until it unsubscribes
+        if (!retained || retained.has(id)) lastFrameByCoin.set(id, receivedAt);
+      }
+      recent.push(receivedAt);
+      prune(receivedAt);
+
+      if (sentAt !== undefined) {
+        // Clocks disagree by a few ms either way; never report negative latency
+        const sample = Math.max(0, receivedAt - sentAt);
+        latencyMs = latencyMs === null ? sample : latencyMs + (sample - latencyMs) * latencySmoothing;
+      }
+    },
+    opened: (at = Date.now()) => {
+      connected = true;
+      connectedAt = at;
+      quietSince = at;
+    },
+    closed: () => {
+      connected = false;
+      connectedAt = null;
+      quietSince = null;
+    },
+    reconnecting: () => {
+      reconnects += 1;
+    },
+    retain: (coinIds) => {
+      retained = new Set(coinIds);
+      for (const id of [...lastFrameByCoin.keys()]) {
+        if (!retained.has(id)) lastFrameByCoin.delete(id);
+      }
+    },
+    snapshot: (transport, now = Date.now()) => {
+      prune(now);
+      return {
+        connected,
+        transport,
+        connectedAt,
+        lastFrameAt,
+        lastFrameByCoin: Object.fromEntries(lastFrameByCoin),
+        messageRate: recent.length,
+        reconnects,
+        latencyMs,
+        gaps,
+        longestGapMs,
+        sampledAt: now,
+      };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+// Local mock upstream: a random walk per coin on a timer
+//
+// Stands in for CoinCap in tests and offline development
+// (REALTIME_UPSTREAM=mock), so the SSE route can be exercised end to end
+// without network access.
+
+import type { PriceUpdate, StreamConnector } from './types';
+
+export interface MockSourceOptions {
+  /** Time between price frames (ms) */
+  intervalMs?: number;
+  /** Starting prices; unknown coins start at 100 */
+  basePrices?: PriceUpdate;
+  /** Largest relative move per frame */
+  volatility?: number;
+  random?: () => number;
+}
+
+export function createMockSource({
+  intervalMs = 1000,
+  basePrices = {},
+  volatility = 0.002,
+  random = Math.random,
+}: MockSourceOptions = {}): StreamConnector {
+  return (coinIds, handlers) => {
+    const prices: PriceUpdate = Object.fromEntries(coinIds.map((id) => [id, basePrices[id] ?? 100]));
+
+    const openTimer = setTimeout(() => {
+      handlers.onOpen();
+      handlers.onPrices({ ...prices }, 'mock');
+    }, 0);
+    const tickTimer = setInterval(() => {
+      for (const id of coinIds) {
+        prices[id] *= 1 + (random() * 2 - 1) * volatility;
+      }
+      handlers.onPrices({ ...prices }, 'mock');
+    }, intervalMs);
+
+    return {
+      close: () => {
+        clearTimeout(openTimer);
+        clearInterval(tickTimer);
+      },
+    };
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Tests for the server-side price hub.
+ *
+ * A fake connector records every upstream connection so tests can drive
+ * open / price / close events by hand; timers are faked for the debounce
+ * and reconnect delays.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPriceHub } from './priceHub';
+import { createMockSource } from './mockSource';
+import type { StreamConnector, StreamHandlers } from './types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface FakeConnection {
+  coinIds: string[];
+  handlers: StreamHandlers;
+  closed: boolean;
+}
+
+function fakeConnector(): { connect: StreamConnector; connections: FakeConnection[] } {
+  const connections: FakeConnection[] = [];
+  const connect: StreamConnector = (coinIds, handlers) => {
+    const connection: FakeConnection = { coinIds, handlers, closed: false };
+    connections.push(connection);
+    return { close: () => { connection.closed = true; } };
+  };
+  return { connect, connections };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// createPriceHub
+// ---------------------------------------------------------------------------
+
+describe('createPriceHub', () => {
+  it('shares one upstream connection across subscribers', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+
+    hub.subscribe(['bitcoin'], () => {});
+    hub.subscribe(['ethereum', 'bitcoin'], () => {});
+    vi.advanceTimersByTime(250);
+
+    expect(connections).toHaveLength(1);
+    expect(connections[0].coinIds).toEqual(['bitcoin', 'ethereum']);
+    expect(hub.activeCoins()).toEqual(['bitcoin', 'ethereum']);
+  });
+
+  it('forwards only the coins each subscriber asked for', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+    const btc = vi.fn();
+    const eth = vi.fn();
+
+    hub.subscribe(['bitcoin'], btc);
+    hub.subscribe(['ethereum'], eth);
+    vi.advanceTimersByTime(250);
+    connections[0].handlers.onOpen();
+    connections[0].handlers.onPrices({ bitcoin: 70000 }, 'coincap');
+
+    expect(hub.isConnected()).toBe(true);
+    expect(btc).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coincap', undefined);
+    expect(eth).not.toHaveBeenCalled();
+  });
+
+  it('relays each frame’s upstream timestamp', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+    const listener = vi.fn();
+
+    hub.subscribe(['bitcoin'], listener);
+    vi.advanceTimersByTime(250);
+    connections[0].handlers.onPrices({ bitcoin: 70000 }, 'coinbase', 1_700_000_000_000);
+
+    expect(listener).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coinbase', 1_700_000_000_000);
+  });
+
+  it('sends the latest known prices to new subscribers', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+
+    hub.subscribe(['bitcoin'], () => {});
+    vi.advanceTimersByTime(250);
+    connections[0].handlers.onPrices({ bitcoin: 70000 }, 'coincap');
+
+    const late = vi.fn();
+    hub.subscribe(['bitcoin'], late);
+    expect(late).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coincap');
+    // Same coin set, so the upstream is kept
+    vi.advanceTimersByTime(250);
+    expect(connections).toHaveLength(1);
+  });
+
+  it('groups snapshots by the source that produced each price', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+
+    hub.subscribe(['bitcoin', 'ethereum'], () => {});
+    vi.advanceTimersByTime(250);
+    connections[0].handlers.onPrices({ bitcoin: 70000 }, 'coincap');
+    connections[0].handlers.onPrices({ ethereum: 3500 }, 'coinbase');
+
+    const late = vi.fn();
+    hub.subscribe(['bitcoin', 'ethereum'], late);
+    expect(late).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coincap');
+    expect(late).toHaveBeenCalledWith({ ethereum: 3500 }, 'coinbase');
+  });
+
+  it('debounces coin-set changes into one upstream reconnect', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+
+    hub.subscribe(['bitcoin'], () => {});
+    vi.advanceTimersByTime(250);
+    hub.subscribe(['ethereum'], () => {});
+    vi.advanceTimersByTime(100);
+    hub.subscribe(['solana'], () => {});
+    vi.advanceTimersByTime(250);
+
+    expect(connections).toHaveLength(2);
+    expect(connections[1].coinIds).toEqual(['bitcoin', 'ethereum', 'solana']);
+    // The old upstream keeps streaming until its replacement opens
+    expect(connections[0].closed).toBe(false);
+    connections[1].handlers.onOpen();
+    expect(connections[0].closed).toBe(true);
+  });
+
+  it('keeps the upstream when subscribers only drop coins', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+    const listener = vi.fn();
+
+    hub.subscribe(['bitcoin'], listener);
+    const unsubscribe = hub.subscribe(['ethereum'], () => {});
+    vi.advanceTimersByTime(250);
+    unsubscribe();
+    vi.advanceTimersByTime(250);
+
+    expect(connections).toHaveLength(1);
+    expect(hub.activeCoins()).toEqual(['bitcoin']);
+    connections[0].handlers.onPrices({ bitcoin: 70000, ethereum: 3500 }, 'coincap');
+    expect(listener).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coincap', undefined);
+  });
+
+  it('changes a subscription without leaving the hub', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+    const listener = vi.fn();
+    const other = vi.fn();
+
+    hub.subscribe(['bitcoin'], listener);
+    hub.subscribe(['ethereum'], other);
+    vi.advanceTimersByTime(250);
+    connections[0].handlers.onOpen();
+    connections[0].handlers.onPrices({ bitcoin: 70000, ethereum: 3500 }, 'coincap');
+
+    // Ethereum's latest price arrives straight away
+    expect(hub.updateSubscription(listener, ['bitcoin', 'ethereum', 'solana'])).toBe(true);
+    expect(listener).toHaveBeenLastCalledWith({ ethereum: 3500 }, 'coincap');
+
+    // Make-before-break: the first upstream keeps streaming until the wider one opens
+    vi.advanceTimersByTime(250);
+    expect(connections).toHaveLength(2);
+    expect(connections[1].coinIds).toEqual(['bitcoin', 'ethereum', 'solana']);
+    expect(connections[0].closed).toBe(false);
+    expect(hub.isConnected()).toBe(true);
+
+    hub.updateSubscription(listener, ['solana']);
+    vi.advanceTimersByTime(250);
+    expect(hub.activeCoins()).toEqual(['ethereum', 'solana']);
+    listener.mockClear();
+    connections[0].handlers.onPrices({ bitcoin: 70001, ethereum: 3501 }, 'coincap');
+    expect(listener).not.toHaveBeenCalled();
+    expect(other).toHaveBeenLastCalledWith({ ethereum: 3501 }, 'coincap', undefined);
+
+    expect(hub.updateSubscription(() => {}, ['bitcoin'])).toBe(false);
+  });
+
+  it('closes the upstream when the last subscriber leaves', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect);
+
+    const unsubscribe = hub.subscribe(['bitcoin'], () => {});
+    vi.advanceTimersByTime(250);
+    unsubscribe();
+    unsubscribe();
+    vi.advanceTimersByTime(250);
+
+    expect(connections[0].closed).toBe(true);
+    expect(hub.activeCoins()).toEqual([]);
+  });
+
+  it('reopens a dropped upstream while anyone is listening', () => {
+    const { connect, connections } = fakeConnector();
+    const hub = createPriceHub(connect, { reconnectDelayMs: 1000 });
+
+    hub.subscribe(['bitcoin'], () => {});
+    vi.advanceTimersByTime(250);
+    connections[0].handlers.onOpen();
+    connections[0].handlers.onClose();
+    expect(hub.isConnected()).toBe(false);
+
+    vi.advanceTimersByTime(999);
+    expect(connections).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(connections).toHaveLength(2);
+  });
+
+  it('reports connection status changes', () => {
+    const { connect, connections } = fakeConnector();
+    const onStatusChange = vi.fn();
+    const hub = createPriceHub(connect, { onStatusChange });
+
+    hub.subscribe(['bitcoin'], () => {});
+    vi.advanceTimersByTime(250);
+    connections[0].handlers.onOpen();
+    connections[0].handlers.onOpen();
+    connections[0].handlers.onError();
+
+    expect(onStatusChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('streams from the mock source end to end', () => {
+    const hub = createPriceHub(createMockSource({ intervalMs: 1000, basePrices: { bitcoin: 70000 }, random: () => 1 }));
+    const listener = vi.fn();
+
+    hub.subscribe(['bitcoin'], listener);
+    // Debounce, then the source's first frame on the next tick
+    vi.advanceTimersByTime(251);
+    expect(listener).toHaveBeenLastCalledWith({ bitcoin: 70000 }, 'mock', undefined);
+
+    vi.advanceTimersByTime(1000);
+    expect(listener).toHaveBeenLastCalledWith({ bitcoin: 70000 * 1.002 }, 'mock', undefined);
+  });
+});
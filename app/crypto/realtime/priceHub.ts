@@ -0,0 +1,169 @@
+// Server-side price fan-out
+//
+// Holds one upstream connection covering the union of every subscriber's
+// coins and forwards each frame to the subscribers that asked for those
+// coins.  New subscribers get the latest known prices immediately.  Coin-set
+// changes are debounced so a burst of clients connecting costs one upstream
+// resubscribe (applied without dropping ticks, see connectionManager.ts),
+// and a dropped upstream is reopened while anyone is listening.
+
+import { diffCoinSets, pickPrices, withIncrementalUpdates } from './connectionManager';
+import type { PriceSources, PriceUpdate, RealtimeSourceId, StreamConnection, StreamConnector } from './types';
+
+/** `sentAt` is the upstream frame time; snapshots of earlier prices have none */
+export type PriceListener = (prices: PriceUpdate, source: RealtimeSourceId, sentAt?: number) => void;
+
+export interface PriceHub {
+  /** Listen for prices of `coinIds`; returns the unsubscribe function */
+  subscribe: (coinIds: string[], listener: PriceListener) => () => void;
+  /**
+   * Change the coins of the subscription made with `listener`.  The upstream
+   * follows through the same debounced, incremental resubscribe as any other
+   * change, so coins in both sets keep streaming.  False if not subscribed.
+   */
+  updateSubscription: (listener: PriceListener, coinIds: string[]) => boolean;
+  /** Coins currently requested by at least one subscriber */
+  activeCoins: () => string[];
+  /** Whether the upstream connection is open */
+  isConnected: () => boolean;
+}
+
+export interface PriceHubOptions {
+  /** Delay before reopening a dropped upstream (ms) */
+  reconnectDelayMs?: number;
+  /** Debounce for coin-set changes (ms) */
+  resubscribeDelayMs?: number;
+  /** Called whenever the upstream opens or drops */
+  onStatusChange?: (connected: boolean) => void;
+}
+
+interface Subscriber {
+  coins: Set<string>;
+  listener: PriceListener;
+}
+
+export function createPriceHub(
+  connectUpstream: StreamConnector,
+  { reconnectDelayMs = 5_000, resubscribeDelayMs = 250, onStatusChange }: PriceHubOptions = {}
+): PriceHub {
+  const connect = withIncrementalUpdates(connectUpstream);
+  const subscribers = new Set<Subscriber>();
+  const refCounts = new Map<string, number>();
+  const latest: PriceUpdate = {};
+  const latestSources: PriceSources = {};
+
+  let connection: StreamConnection | null = null;
+  let connectedKey = '';
+  let connected = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function setConnected(next: boolean): void {
+    if (next === connected) return;
+    connected = next;
+    onStatusChange?.(next);
+  }
+
+  function schedule(delayMs: number): void {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(sync, delayMs);
+  }
+
+  function dispatch(update: PriceUpdate, source: RealtimeSourceId, sentAt?: number): void {
+    for (const subscriber of subscribers) {
+      const prices = pickPrices(update, subscriber.coins);
+      if (prices) subscriber.listener(prices, source, sentAt);
+    }
+  }
+
+  function retain(id: string): void {
+    refCounts.set(id, (refCounts.get(id) ?? 0) + 1);
+  }
+
+  function release(id: string): void {
+    const count = (refCounts.get(id) ?? 1) - 1;
+    if (count > 0) {
+      refCounts.set(id, count);
+    } else {
+      refCounts.delete(id);
+      delete latest[id];
+      delete latestSources[id];
+    }
+  }
+
+  // Latest known prices for `coins`, one call per source that produced them
+  function sendSnapshot(subscriber: Subscriber, coins: Iterable<string> = subscriber.coins): void {
+    const bySource = new Map<RealtimeSourceId, PriceUpdate>();
+    for (const id of coins) {
+      if (!(id in latest)) continue;
+      const source = latestSources[id];
+      bySource.set(source, { ...bySource.get(source), [id]: latest[id] });
+    }
+    for (const [source, prices] of bySource) subscriber.listener(prices, source);
+  }
+
+  // Bring the upstream connection in line with the requested coin set
+  function sync(): void {
+    timer = null;
+    const key = [...refCounts.keys()].sort().join(',');
+    if (connection && key === connectedKey) return;
+    if (connection && key && connection.update?.(key.split(','))) {
+      connectedKey = key;
+      return;
+    }
+
+    connection?.close();
+    connection = null;
+    setConnected(false);
+    connectedKey = key;
+    if (!key) return;
+
+    connection = connect(key.split(','), {
+      onOpen: () => setConnected(true),
+      onPrices: (update, source, sentAt) => {
+        Object.assign(latest, update);
+        for (const id of Object.keys(update)) latestSources[id] = source;
+        dispatch(update, source, sentAt);
+      },
+      onError: () => setConnected(false),
+      onClose: () => {
+        connection = null;
+        setConnected(false);
+        connectedKey = '';
+        if (refCounts.size > 0) schedule(reconnectDelayMs);
+      },
+    });
+  }
+
+  return {
+    subscribe(coinIds, listener) {
+      const subscriber: Subscriber = { coins: new Set(coinIds), listener };
+      subscribers.add(subscriber);
+      subscriber.coins.forEach(retain);
+
+      sendSnapshot(subscriber);
+      schedule(resubscribeDelayMs);
+
+      return () => {
+        if (!subscribers.delete(subscriber)) return;
+        subscriber.coins.forEach(release);
+        schedule(resubscribeDelayMs);
+      };
+    },
+    updateSubscription(listener, coinIds) {
+      const subscriber = [...subscribers].find((candidate) => candidate.listener === listener);
+      if (!subscriber) return false;
+
+      const { added, removed } = diffCoinSets(subscriber.coins, coinIds);
+      if (added.length === 0 && removed.length === 0) return true;
+      added.forEach(retain);
+      removed.forEach(release);
+      subscriber.coins = new Set(coinIds);
+
+      sendSnapshot(subscriber, added);
+      schedule(resubscribeDelayMs);
+      return true;
+    },
+    activeCoins: () => [...refCounts.keys()].sort(),
+    isConnected: () => connected,
+  };
+}
@@ -0,0 +1,69 @@
+// SharedWorker holding the live price connection for every tab
+//
+// Each tab's port subscribes with its transport and coins; the worker keeps
+// one price hub per transport, so the union of all tabs' coins streams over
+// a single connection and the hub reconnects it while any tab listens.
+// Coin-set changes arrive as an `update` on the same port and go through the
+// hub's incremental resubscribe rather than leaving and rejoining.
+
+import { createPriceHub } from './priceHub';
+import { TRANSPORTS } from './transports';
+import type { PriceHub, PriceListener } from './priceHub';
+import type { RealtimeTransport, WorkerMessage, WorkerRequest } from './types';
+
+interface SharedWorkerScope {
+  onconnect: ((event: MessageEvent) => void) | null;
+}
+
+const hubs = new Map<RealtimeTransport, { hub: PriceHub; ports: Set<MessagePort> }>();
+
+function hubFor(transport: RealtimeTransport) {
+  let entry = hubs.get(transport);
+  if (!entry) {
+    const ports = new Set<MessagePort>();
+    const hub = createPriceHub(TRANSPORTS[transport], {
+      onStatusChange: (connected) => {
+        const message: WorkerMessage = { type: 'status', connected };
+        for (const port of ports) port.postMessage(message);
+      },
+    });
+    entry = { hub, ports };
+    hubs.set(transport, entry);
+  }
+  return entry;
+}
+
+(self as unknown as SharedWorkerScope).onconnect = (event) => {
+  const port = event.ports[0];
+  let joined: { hub: PriceHub; listener: PriceListener; leave: () => void } | null = null;
+
+  port.onmessage = (message: MessageEvent<WorkerRequest>) => {
+    const request = message.data;
+    if (request.type === 'update' && joined) {
+      joined.hub.updateSubscription(joined.listener, request.coinIds);
+      return;
+    }
+
+    joined?.leave();
+    joined = null;
+    if (request.type !== 'subscribe') return;
+
+    const { hub, ports } = hubFor(request.transport);
+    const listener: PriceListener = (prices, source, sentAt) => {
+      const update: WorkerMessage = { type: 'prices', prices, source, sentAt };
+      port.postMessage(update);
+    };
+    const unsubscribe = hub.subscribe(request.coinIds, listener);
+    ports.add(port);
+    joined = {
+      hub,
+      listener,
+      leave: () => {
+        unsubscribe();
+        ports.delete(port);
+      },
+    };
+    if (hub.isConnected()) port.postMessage({ type: 'status', connected: true } satisfies WorkerMessage);
+  };
+  port.start();
+};
@@ -0,0 +1,59 @@
+// Tab side of the price SharedWorker (see priceWorker.ts)
+
+import type { RealtimeTransport, StreamConnector, WorkerMessage, WorkerRequest } from './types';
+
+export function openPriceWorker(): SharedWorker {
+  return new SharedWorker(new URL('./priceWorker.ts', import.meta.url), { name: 'crypto-prices' });
+}
+
+/**
+ * Stream prices through the tab group's SharedWorker.  The worker retries a
+ * dropped upstream itself, so the connection only closes if the worker
+ * fails; an upstream outage shows up as `onError` until it recovers.
+ */
+export function connectSharedWorker(
+  transport: RealtimeTransport,
+  createWorker: () => SharedWorker = openPriceWorker
+): StreamConnector {
+  return (coinIds, handlers) => {
+    const worker = createWorker();
+    const port = worker.port;
+    let closed = false;
+
+    const send = (request: WorkerRequest) => port.postMessage(request);
+
+    function shutdown(): void {
+      if (closed) return;
+      closed = true;
+      if (typeof window !== 'undefined') window.removeEventListener('pagehide', shutdown);
+      send({ type: 'unsubscribe' });
+      port.onmessage = null;
+      port.close();
+    }
+
+    port.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'prices') handlers.onPrices(message.prices, message.source, message.sentAt);
+      else if (message.connected) handlers.onOpen();
+      else handlers.onError();
+    };
+    worker.onerror = () => {
+      if (closed) return;
+      shutdown();
+      handlers.onError();
+      handlers.onClose();
+    };
+    if (typeof window !== 'undefined') window.addEventListener('pagehide', shutdown);
+    port.start();
+    send({ type: 'subscribe', transport, coinIds });
+
+    return {
+      close: shutdown,
+      update: (next) => {
+        if (closed) return false;
+        send({ type: 'update', coinIds: next });
+        return true;
+      },
+    };
+  };
+}
@@ -0,0 +1,17 @@
+// Picks the connector for a transport and tab-sharing mode, falling back to
+// a per-tab connection where the browser lacks the sharing primitive
+
+import { TRANSPORTS } from './transports';
+import { shareAcrossTabs } from './tabLeader';
+import { connectSharedWorker } from './sharedWorkerClient';
+import type { RealtimeSharing, RealtimeTransport, StreamConnector } from './types';
+
+export function connectorFor(transport: RealtimeTransport, sharing: RealtimeSharing): StreamConnector {
+  if (sharing === 'sharedworker' && typeof SharedWorker !== 'undefined') {
+    return connectSharedWorker(transport);
+  }
+  if (sharing !== 'none' && typeof BroadcastChannel !== 'undefined') {
+    return shareAcrossTabs(TRANSPORTS[transport], { channelName: `crypto-realtime-${transport}` });
+  }
+  return TRANSPORTS[transport];
+}
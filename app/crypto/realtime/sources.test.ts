@@ -0,0 +1,109 @@
+/**
+ * Tests for failover across realtime sources.
+ *
+ * Sources are fakes that record their connections, so each test decides
+ * when a source opens or closes.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { connectWithFailover } from './sources';
+import type { RealtimeSource, RealtimeSourceId, StreamHandlers } from './types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface FakeConnection {
+  source: RealtimeSourceId;
+  handlers: StreamHandlers;
+  closed: boolean;
+}
+
+function fakeSources(ids: RealtimeSourceId[]): { sources: RealtimeSource[]; connections: FakeConnection[] } {
+  const connections: FakeConnection[] = [];
+  const sources = ids.map((id): RealtimeSource => ({
+    id,
+    connect: (_coinIds, handlers) => {
+      const connection: FakeConnection = { source: id, handlers, closed: false };
+      connections.push(connection);
+      return { close: () => { connection.closed = true; } };
+    },
+  }));
+  return { sources, connections };
+}
+
+function handlers(): StreamHandlers {
+  return { onOpen: vi.fn(), onPrices: vi.fn(), onError: vi.fn(), onClose: vi.fn() };
+}
+
+// ---------------------------------------------------------------------------
+// connectWithFailover
+// ---------------------------------------------------------------------------
+
+describe('connectWithFailover', () => {
+  it('connects to the first source', () => {
+    const { sources, connections } = fakeSources(['coincap', 'coinbase']);
+    connectWithFailover(sources)(['bitcoin'], handlers());
+    expect(connections.map((c) => c.source)).toEqual(['coincap']);
+  });
+
+  it('moves to the next source when the active one closes', () => {
+    const { sources, connections } = fakeSources(['coincap', 'coinbase']);
+    const h = handlers();
+    connectWithFailover(sources)(['bitcoin'], h);
+
+    connections[0].handlers.onClose();
+    expect(connections.map((c) => c.source)).toEqual(['coincap', 'coinbase']);
+    expect(h.onError).toHaveBeenCalledTimes(1);
+    expect(h.onClose).not.toHaveBeenCalled();
+
+    connections[1].handlers.onOpen();
+    connections[1].handlers.onPrices({ bitcoin: 70000 }, 'coinbase');
+    expect(h.onOpen).toHaveBeenCalledTimes(1);
+    expect(h.onPrices).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coinbase');
+  });
+
+  it('passes the close on once every source has failed', () => {
+    const { sources, connections } = fakeSources(['coincap', 'coinbase']);
+    const h = handlers();
+    connectWithFailover(sources)(['bitcoin'], h);
+
+    connections[0].handlers.onClose();
+    connections[1].handlers.onClose();
+    expect(connections).toHaveLength(2);
+    expect(h.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a fresh round after a source opens', () => {
+    const { sources, connections } = fakeSources(['coincap', 'coinbase']);
+    const h = handlers();
+    connectWithFailover(sources)(['bitcoin'], h);
+
+    connections[0].handlers.onClose();
+    connections[1].handlers.onOpen();
+    connections[1].handlers.onClose();
+    expect(connections.map((c) => c.source)).toEqual(['coincap', 'coinbase', 'coincap']);
+    expect(h.onClose).not.toHaveBeenCalled();
+  });
+
+  it('treats a source that throws on connect as closed', () => {
+    const { sources, connections } = fakeSources(['coinbase']);
+    const throwing: RealtimeSource = {
+      id: 'coincap',
+      connect: () => {
+        throw new Error('WebSocket unavailable');
+      },
+    };
+    connectWithFailover([throwing, ...sources])(['bitcoin'], handlers());
+    expect(connections.map((c) => c.source)).toEqual(['coinbase']);
+  });
+
+  it('closes whichever source is active', () => {
+    const { sources, connections } = fakeSources(['coincap', 'coinbase']);
+    const connection = connectWithFailover(sources)(['bitcoin'], handlers());
+
+    connections[0].handlers.onClose();
+    connection.close();
+    expect(connections[1].closed).toBe(true);
+  });
+});
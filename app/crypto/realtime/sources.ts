@@ -0,0 +1,59 @@
+// Failover across realtime sources
+//
+// Connects to the first source and, whenever the active one closes, moves
+// straight on to the next source that has not failed since the last
+// successful open.  Only when every source has failed in turn is the close
+// passed on, so the caller's back-off (and transport downgrade) applies to
+// the feed as a whole and the next attempt starts from the preferred source.
+
+import type { RealtimeSource, StreamConnection, StreamConnector } from './types';
+
+export function connectWithFailover(sources: RealtimeSource[]): StreamConnector {
+  return (initialCoinIds, handlers) => {
+    let coinIds = initialCoinIds;
+    let current: StreamConnection | null = null;
+    let index = 0;
+    let tried = 0;
+
+    function open(): void {
+      const source = sources[index];
+      tried += 1;
+
+      const onClose = () => {
+        current = null;
+        if (tried >= sources.length) {
+          handlers.onClose();
+          return;
+        }
+        index = (index + 1) % sources.length;
+        // Prices stop until the next source opens
+        handlers.onError();
+        open();
+      };
+
+      try {
+        current = source.connect(coinIds, {
+          ...handlers,
+          onOpen: () => {
+            tried = 1;
+            handlers.onOpen();
+          },
+          onClose,
+        });
+      } catch {
+        // WebSocket constructors can throw in some environments
+        onClose();
+      }
+    }
+    open();
+
+    return {
+      close: () => current?.close(),
+      // Later sources are opened with the new set either way
+      update: (next) => {
+        coinIds = next;
+        return current?.update?.(next) ?? false;
+      },
+    };
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Tests for cross-tab connection sharing.
+ *
+ * Tabs talk over an in-memory stand-in for BroadcastChannel that, like the
+ * real one, delivers asynchronously and never to the sender.  The upstream
+ * is a fake connector, and timers are faked for heartbeats and elections.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { shareAcrossTabs } from './tabLeader';
+import type { TabChannel, TabMessage } from './tabLeader';
+import type { StreamConnector, StreamHandlers } from './types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface FakeChannel extends TabChannel {
+  /** Simulates a crashed tab: nothing is sent or received */
+  muted: boolean;
+}
+
+function createBus() {
+  const channels: FakeChannel[] = [];
+  const createChannel = (): TabChannel => {
+    const channel: FakeChannel = {
+      muted: false,
+      onmessage: null,
+      postMessage: (message: TabMessage) => {
+        if (channel.muted) return;
+        for (const other of channels) {
+          if (other === channel) continue;
+          setTimeout(() => {
+            if (!other.muted) other.onmessage?.(new MessageEvent('message', { data: structuredClone(message) }));
+          }, 0);
+        }
+      },
+      close: () => {
+        channels.splice(channels.indexOf(channel), 1);
+      },
+    };
+    channels.push(channel);
+    return channel;
+  };
+  return { channels, createChannel };
+}
+
+interface FakeConnection {
+  coinIds: string[];
+  handlers: StreamHandlers;
+  closed: boolean;
+}
+
+function fakeConnector(): { connect: StreamConnector; connections: FakeConnection[]; open: () => FakeConnection[] } {
+  const connections: FakeConnection[] = [];
+  const connect: StreamConnector = (coinIds, handlers) => {
+    const connection: FakeConnection = { coinIds, handlers, closed: false };
+    connections.push(connection);
+    return { close: () => { connection.closed = true; } };
+  };
+  return { connect, connections, open: () => connections.filter((c) => !c.closed) };
+}
+
+function handlers(): StreamHandlers {
+  return { onOpen: vi.fn(), onPrices: vi.fn(), onError: vi.fn(), onClose: vi.fn() };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** Two tabs: the first leads, the second joins once it is settled. */
+function twoTabs() {
+  const bus = createBus();
+  const upstream = fakeConnector();
+  const share = shareAcrossTabs(upstream.connect, { channelName: 'prices', createChannel: bus.createChannel });
+
+  const leader = handlers();
+  const leaderConnection = share(['bitcoin'], leader);
+  vi.advanceTimersByTime(300);
+
+  const follower = handlers();
+  const followerConnection = share(['ethereum'], follower);
+  vi.advanceTimersByTime(300);
+
+  return { bus, upstream, leader, leaderConnection, follower, followerConnection };
+}
+
+// ---------------------------------------------------------------------------
+// shareAcrossTabs
+// ---------------------------------------------------------------------------
+
+describe('shareAcrossTabs', () => {
+  it('makes a lone tab the leader', () => {
+    const bus = createBus();
+    const upstream = fakeConnector();
+    const share = shareAcrossTabs(upstream.connect, { channelName: 'prices', createChannel: bus.createChannel });
+
+    share(['bitcoin'], handlers());
+    expect(upstream.connections).toHaveLength(0);
+    vi.advanceTimersByTime(300);
+    expect(upstream.connections.map((c) => c.coinIds)).toEqual([['bitcoin']]);
+  });
+
+  it('streams every tab’s coins over the leader’s one connection', () => {
+    const { upstream, leader, follower } = twoTabs();
+
+    expect(upstream.open().map((c) => c.coinIds)).toEqual([['bitcoin', 'ethereum']]);
+
+    const [connection] = upstream.open();
+    connection.handlers.onOpen();
+    connection.handlers.onPrices({ bitcoin: 70000, ethereum: 3500 }, 'coincap');
+    vi.advanceTimersByTime(0);
+
+    expect(leader.onOpen).toHaveBeenCalled();
+    expect(leader.onPrices).toHaveBeenCalledWith({ bitcoin: 70000 }, 'coincap', undefined);
+    expect(follower.onOpen).toHaveBeenCalled();
+    expect(follower.onPrices).toHaveBeenCalledWith({ ethereum: 3500 }, 'coincap', undefined);
+  });
+
+  it('hands the connection to a follower when the leader tab closes', () => {
+    const { upstream, leaderConnection, follower } = twoTabs();
+    const [first] = upstream.open();
+
+    leaderConnection.close();
+    expect(first.closed).toBe(true);
+    vi.advanceTimersByTime(0);
+    expect(follower.onError).toHaveBeenCalled();
+
+    vi.advanceTimersByTime(300);
+    expect(upstream.open().map((c) => c.coinIds)).toEqual([['ethereum']]);
+  });
+
+  it('takes over from a leader that goes quiet', () => {
+    const { bus, upstream, follower } = twoTabs();
+    const before = upstream.connections.length;
+    bus.channels[0].muted = true;
+
+    vi.advanceTimersByTime(8_000);
+    expect(follower.onError).toHaveBeenCalled();
+    expect(upstream.connections.slice(before).map((c) => c.coinIds)).toEqual([['ethereum']]);
+  });
+
+  it('follows coin-set changes from any tab', () => {
+    const { upstream, followerConnection } = twoTabs();
+
+    followerConnection.update!(['ethereum', 'solana']);
+    vi.advanceTimersByTime(0);
+    expect(upstream.open().map((c) => c.coinIds)).toEqual([['bitcoin', 'ethereum', 'solana']]);
+  });
+
+  it('closes every tab when the leader’s upstream closes', () => {
+    const { upstream, leader, follower } = twoTabs();
+
+    upstream.open()[0].handlers.onClose();
+    vi.advanceTimersByTime(0);
+
+    expect(leader.onClose).toHaveBeenCalledTimes(1);
+    expect(follower.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('settles a contested election on one leader', () => {
+    const bus = createBus();
+    const upstream = fakeConnector();
+    const share = shareAcrossTabs(upstream.connect, { channelName: 'prices', createChannel: bus.createChannel });
+
+    share(['bitcoin'], handlers());
+    share(['ethereum'], handlers());
+    vi.advanceTimersByTime(300);
+    vi.advanceTimersByTime(2_000);
+
+    expect(upstream.open()).toHaveLength(1);
+    expect(upstream.open()[0].coinIds).toEqual(['bitcoin', 'ethereum']);
+  });
+});
@@ -0,0 +1,240 @@
+// One realtime connection shared by every dashboard tab
+//
+// Tabs on the same origin elect a leader over a BroadcastChannel.  The
+// leader runs the real connection for the union of every tab's coins and
+// broadcasts each tick; followers only listen.  The leader heartbeats, and
+// followers take over when it says goodbye (tab closed or navigated away) or
+// goes quiet; when two tabs claim at once the oldest keeps the lead.  If the
+// leader's upstream closes, every tab sees the close, so each tab's own
+// back-off and transport downgrade still apply.
+
+import { pickPrices } from './connectionManager';
+import type { PriceUpdate, RealtimeSourceId, StreamConnection, StreamConnector } from './types';
+
+export type TabMessage =
+  | { type: 'coins'; tabId: string; coinIds: string[] }
+  | { type: 'leader'; tabId: string }
+  | { type: 'bye'; tabId: string }
+  | { type: 'prices'; prices: PriceUpdate; source: RealtimeSourceId; sentAt?: number }
+  | { type: 'status'; status: 'open' | 'error' | 'closed' };
+
+/** The part of `BroadcastChannel` the election uses */
+export interface TabChannel {
+  postMessage: (message: TabMessage) => void;
+  onmessage: ((event: MessageEvent<TabMessage>) => void) | null;
+  close: () => void;
+}
+
+export interface TabSharingOptions {
+  channelName: string;
+  createChannel?: (name: string) => TabChannel;
+  /** Leader heartbeat interval (ms) */
+  heartbeatMs?: number;
+  /** Silence after which followers replace the leader (ms) */
+  leaderTimeoutMs?: number;
+  /** How long a tab waits to hear from a leader before claiming (ms) */
+  electionDelayMs?: number;
+}
+
+// Creation time first so the oldest tab sorts lowest
+function createTabId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function shareAcrossTabs(
+  connect: StreamConnector,
+  {
+    channelName,
+    createChannel = (name) => new BroadcastChannel(name) as unknown as TabChannel,
+    heartbeatMs = 2_000,
+    leaderTimeoutMs = 5_000,
+    electionDelayMs = 300,
+  }: TabSharingOptions
+): StreamConnector {
+  return (initialCoinIds, handlers) => {
+    const tabId = createTabId();
+    const channel = createChannel(channelName);
+    const coinsByTab = new Map<string, string[]>();
+
+    let coinIds = initialCoinIds;
+    let wanted = new Set(coinIds);
+    let leaderId: string | null = null;
+    let lastLeaderSeen = 0;
+    let upstream: StreamConnection | null = null;
+    let upstreamKey = '';
+    let upstreamOpen = false;
+    let electionTimer: ReturnType<typeof setTimeout> | null = null;
+    let ended = false;
+
+    const isLeader = () => leaderId === tabId;
+    const post = (message: TabMessage) => channel.postMessage(message);
+
+    function union(): string[] {
+      const all = new Set(coinIds);
+      for (const ids of coinsByTab.values()) ids.forEach((id) => all.add(id));
+      return [...all].sort();
+    }
+
+    function scheduleElection(): void {
+      if (electionTimer) clearTimeout(electionTimer);
+      electionTimer = setTimeout(claim, electionDelayMs);
+    }
+
+    function claim(): void {
+      electionTimer = null;
+      if (ended || leaderId) return;
+      leaderId = tabId;
+      post({ type: 'leader', tabId });
+      syncUpstream();
+    }
+
+    function stepDown(newLeader: string): void {
+      upstream?.close();
+      upstream = null;
+      upstreamKey = '';
+      upstreamOpen = false;
+      leaderId = newLeader;
+      lastLeaderSeen = Date.now();
+      post({ type: 'coins', tabId, coinIds });
+    }
+
+    // Leader only: keep the upstream covering every tab's coins
+    function syncUpstream(): void {
+      const ids = union();
+      const key = ids.join(',');
+      if (upstream && key === upstreamKey) return;
+      upstreamKey = key;
+      if (upstream?.update?.(ids)) return;
+
+      upstream?.close();
+      upstreamOpen = false;
+      upstream = connect(ids, {
+        onOpen: () => {
+          upstreamOpen = true;
+          handlers.onOpen();
+          post({ type: 'status', status: 'open' });
+        },
+        onPrices: (prices, source, sentAt) => {
+          const own = pickPrices(prices, wanted);
+          if (own) handlers.onPrices(own, source, sentAt);
+          post({ type: 'prices', prices, source, sentAt });
+        },
+        onError: () => {
+          upstreamOpen = false;
+          handlers.onError();
+          post({ type: 'status', status: 'error' });
+        },
+        onClose: () => {
+          upstream = null;
+          post({ type: 'status', status: 'closed' });
+          end();
+        },
+      });
+    }
+
+    function handle(message: TabMessage): void {
+      if (ended) return;
+      switch (message.type) {
+        case 'coins': {
+          const isNewTab = !coinsByTab.has(message.tabId);
+          coinsByTab.set(message.tabId, message.coinIds);
+          if (!isLeader()) return;
+          // Answer newcomers straight away so they do not claim the lead
+          if (isNewTab) {
+            post({ type: 'leader', tabId });
+            if (upstreamOpen) post({ type: 'status', status: 'open' });
+          }
+          syncUpstream();
+          return;
+        }
+        case 'leader': {
+          if (isLeader()) {
+            if (message.tabId < tabId) stepDown(message.tabId);
+            else post({ type: 'leader', tabId });
+            return;
+          }
+          lastLeaderSeen = Date.now();
+          if (leaderId !== message.tabId) {
+            leaderId = message.tabId;
+            if (electionTimer) clearTimeout(electionTimer);
+            electionTimer = null;
+            post({ type: 'coins', tabId, coinIds });
+          }
+          return;
+        }
+        case 'bye': {
+          coinsByTab.delete(message.tabId);
+          if (isLeader()) {
+            syncUpstream();
+          } else if (message.tabId === leaderId) {
+            leaderId = null;
+            handlers.onError();
+            scheduleElection();
+          }
+          return;
+        }
+        case 'prices': {
+          if (isLeader()) return;
+          const own = pickPrices(message.prices, wanted);
+          if (own) handlers.onPrices(own, message.source, message.sentAt);
+          return;
+        }
+        case 'status': {
+          if (isLeader()) return;
+          if (message.status === 'open') handlers.onOpen();
+          else if (message.status === 'error') handlers.onError();
+          else end();
+          return;
+        }
+      }
+    }
+
+    // Leader heartbeat / follower watchdog
+    const heartbeat = setInterval(() => {
+      if (isLeader()) {
+        post({ type: 'leader', tabId });
+      } else if (leaderId && Date.now() - lastLeaderSeen > leaderTimeoutMs) {
+        coinsByTab.delete(leaderId);
+        leaderId = null;
+        handlers.onError();
+        scheduleElection();
+      }
+    }, heartbeatMs);
+
+    function shutdown(): void {
+      if (ended) return;
+      ended = true;
+      clearInterval(heartbeat);
+      if (electionTimer) clearTimeout(electionTimer);
+      if (typeof window !== 'undefined') window.removeEventListener('pagehide', shutdown);
+      upstream?.close();
+      upstream = null;
+      post({ type: 'bye', tabId });
+      channel.onmessage = null;
+      channel.close();
+    }
+
+    function end(): void {
+      if (ended) return;
+      shutdown();
+      handlers.onClose();
+    }
+
+    channel.onmessage = (event) => handle(event.data);
+    if (typeof window !== 'undefined') window.addEventListener('pagehide', shutdown);
+    post({ type: 'coins', tabId, coinIds });
+    scheduleElection();
+
+    return {
+      close: shutdown,
+      update: (next) => {
+        if (ended) return false;
+        coinIds = next;
+        wanted = new Set(next);
+        post({ type: 'coins', tabId, coinIds });
+        if (isLeader()) syncUpstream();
+        return true;
+      },
+    };
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Tests for batched tick ingestion.
+ *
+ * Timers (including requestAnimationFrame) are faked so each test decides
+ * when a batch is flushed.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTickBuffer } from './tickBuffer';
+import type { TickBatch } from './tickBuffer';
+
+const T0 = 1_700_000_000_000;
+
+/** Changed prices and sources of a batch, without its ticks */
+function changes({ prices, sources }: TickBatch): Omit<TickBatch, 'ticks'> {
+  return { prices, sources };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(T0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// createTickBuffer
+// ---------------------------------------------------------------------------
+
+describe('createTickBuffer', () => {
+  it('flushes once per animation frame with the latest price per coin', () => {
+    const onBatch = vi.fn();
+    const buffer = createTickBuffer({ onBatch });
+
+    buffer.push({ bitcoin: 70000 }, 'coincap');
+    buffer.push({ bitcoin: 70001, ethereum: 3500 }, 'coincap');
+    expect(onBatch).not.toHaveBeenCalled();
+
+    vi.advanceTimersToNextFrame();
+    expect(onBatch).toHaveBeenCalledTimes(1);
+    expect(changes(onBatch.mock.calls[0][0])).toEqual({
+      prices: { bitcoin: 70001, ethereum: 3500 },
+      sources: { bitcoin: 'coincap', ethereum: 'coincap' },
+    });
+  });
+
+  it('hands on every tick with its arrival time', () => {
+    const onBatch = vi.fn();
+    const buffer = createTickBuffer({ onBatch });
+
+    buffer.push({ bitcoin: 70000 }, 'coincap');
+    vi.setSystemTime(T0 + 5);
+    buffer.push({ bitcoin: 70001, ethereum: 3500 }, 'coinbase');
+    buffer.flush();
+
+    expect(onBatch.mock.calls[0][0].ticks).toEqual({
+      bitcoin: [
+        { t: T0, price: 70000, source: 'coincap' },
+        { t: T0 + 5, price: 70001, source: 'coinbase' },
+      ],
+      ethereum: [{ t: T0 + 5, price: 3500, source: 'coinbase' }],
+    });
+  });
+
+  it('flushes on the configured interval', () => {
+    const onBatch = vi.fn();
+    const buffer = createTickBuffer({ onBatch, intervalMs: 1000 });
+
+    buffer.push({ bitcoin: 70000 }, 'coincap');
+    vi.advanceTimersByTime(999);
+    expect(onBatch).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves out coins whose price and source are unchanged', () => {
+    const onBatch = vi.fn();
+    const buffer = createTickBuffer({ onBatch });
+
+    buffer.push({ bitcoin: 70000, ethereum: 3500 }, 'coincap');
+    buffer.flush();
+    buffer.push({ bitcoin: 70000, ethereum: 3501 }, 'coincap');
+    buffer.flush();
+    buffer.push({ ethereum: 3501 }, 'coinbase');
+    buffer.flush();
+
+    expect(onBatch.mock.calls.map(([batch]) => changes(batch))).toEqual([
+      { prices: { bitcoin: 70000, ethereum: 3500 }, sources: { bitcoin: 'coincap', ethereum: 'coincap' } },
+      { prices: { ethereum: 3501 }, sources: { ethereum: 'coincap' } },
+      { prices: { ethereum: 3501 }, sources: { ethereum: 'coinbase' } },
+    ]);
+  });
+
+  it('hands on repeated prices as ticks without changing any price', () => {
+    const onBatch = vi.fn();
+    const buffer = createTickBuffer({ onBatch });
+
+    buffer.push({ bitcoin: 70000 }, 'coincap');
+    buffer.flush();
+    buffer.push({ bitcoin: 70000 }, 'coincap');
+    buffer.flush();
+    buffer.flush();
+
+    expect(onBatch).toHaveBeenCalledTimes(2);
+    expect(onBatch).toHaveBeenLastCalledWith({
+      prices: {},
+      sources: {},
+      ticks: { bitcoin: [{ t: T0, price: 70000, source: 'coincap' }] },
+    });
+  });
+
+  it('counts received, coalesced, unchanged and applied ticks', () => {
+    const buffer = createTickBuffer({ onBatch: () => {} });
+
+    buffer.push({ bitcoin: 70000, ethereum: 3500 }, 'coincap');
+    buffer.push({ bitcoin: 70001 }, 'coincap');
+    buffer.flush();
+    buffer.push({ ethereum: 3500 }, 'coincap');
+    buffer.flush();
+
+    expect(buffer.metrics()).toEqual({
+      frames: 3,
+      ticks: 4,
+      coalesced: 1,
+      unchanged: 1,
+      batches: 2,
+      applied: 2,
+      maxBatchSize: 2,
+      lastBatchAt: T0,
+    });
+  });
+
+  it('drops pending ticks on dispose', () => {
+    const onBatch = vi.fn();
+    const buffer = createTickBuffer({ onBatch });
+
+    buffer.push({ bitcoin: 70000 }, 'coincap');
+    buffer.dispose();
+    vi.advanceTimersToNextFrame();
+
+    expect(onBatch).not.toHaveBeenCalled();
+  });
+});
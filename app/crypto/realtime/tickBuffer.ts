@@ -0,0 +1,131 @@
+// Batched tick ingestion
+//
+// Busy feeds send a frame per trade, often dozens a second across 100 coins.
+// The buffer collects frames and hands them on at most once per animation
+// frame (or per `intervalMs`), keeping only each coin's latest price and
+// dropping coins whose price and source are unchanged since the last batch,
+// so the store updates once per batch with just the changed keys.  Every
+// tick is still handed on, stamped with its arrival time, for tick history.
+
+import type { PriceSources, PriceTick, PriceUpdate, RealtimeSourceId } from './types';
+
+/** Changed coins since the previous batch, and every tick behind them */
+export interface TickBatch {
+  prices: PriceUpdate;
+  sources: PriceSources;
+  /** Each coin's ticks since the previous batch, oldest first, unchanged ones included */
+  ticks: Record<string, PriceTick[]>;
+}
+
+export interface TickIngestionMetrics {
+  /** Frames pushed (one per `onPrices` call) */
+  frames: number;
+  /** Coin prices received across all frames */
+  ticks: number;
+  /** Prices replaced by a newer one for the same coin before a flush */
+  coalesced: number;
+  /** Prices dropped because they matched the last applied value */
+  unchanged: number;
+  /** Batches handed on */
+  batches: number;
+  /** Coin prices handed on across all batches */
+  applied: number;
+  /** Changed coins in the largest batch */
+  maxBatchSize: number;
+  /** When the last batch was handed on (epoch ms) */
+  lastBatchAt: number | null;
+}
+
+export interface TickBufferOptions {
+  onBatch: (batch: TickBatch) => void;
+  /** Flush interval (ms); 0 flushes once per animation frame */
+  intervalMs?: number;
+}
+
+export interface TickBuffer {
+  push: (prices: PriceUpdate, source: RealtimeSourceId) => void;
+  /** Hand on pending prices now */
+  flush: () => void;
+  metrics: () => TickIngestionMetrics;
+  /** Drop pending prices and stop the timer */
+  dispose: () => void;
+}
+
+// Stand-in for requestAnimationFrame outside the browser (~60 fps)
+const FRAME_MS = 16;
+
+function emptyMetrics(): TickIngestionMetrics {
+  return { frames: 0, ticks: 0, coalesced: 0, unchanged: 0, batches: 0, applied: 0, maxBatchSize: 0, lastBatchAt: null };
+}
+
+export function createTickBuffer({ onBatch, intervalMs = 0 }: TickBufferOptions): TickBuffer {
+  const pending = new Map<string, { price: number; source: RealtimeSourceId }>();
+  const received = new Map<string, PriceTick[]>();
+  const applied = new Map<string, { price: number; source: RealtimeSourceId }>();
+  const stats = emptyMetrics();
+  let cancel: (() => void) | null = null;
+
+  function schedule(): void {
+    if (cancel) return;
+    if (intervalMs === 0 && typeof requestAnimationFrame !== 'undefined') {
+      const frame = requestAnimationFrame(flush);
+      cancel = () => cancelAnimationFrame(frame);
+    } else {
+      const timer = setTimeout(flush, intervalMs || FRAME_MS);
+      cancel = () => clearTimeout(timer);
+    }
+  }
+
+  function flush(): void {
+    cancel?.();
+    cancel = null;
+
+    const batch: TickBatch = { prices: {}, sources: {}, ticks: Object.fromEntries(received) };
+    let size = 0;
+    for (const [id, tick] of pending) {
+      const last = applied.get(id);
+      if (last && last.price === tick.price && last.source === tick.source) {
+        stats.unchanged += 1;
+        continue;
+      }
+      applied.set(id, tick);
+      batch.prices[id] = tick.price;
+      batch.sources[id] = tick.source;
+      size += 1;
+    }
+    pending.clear();
+    received.clear();
+    // Repeated prices still count as ticks
+    if (Object.keys(batch.ticks).length === 0) return;
+
+    stats.batches += 1;
+    stats.applied += size;
+    stats.maxBatchSize = Math.max(stats.maxBatchSize, size);
+    stats.lastBatchAt = Date.now();
+    onBatch(batch);
+  }
+
+  return {
+    push: (prices, source) => {
+      stats.frames += 1;
+      const t = Date.now();
+      for (const [id, price] of Object.entries(prices)) {
+        stats.ticks += 1;
+        if (pending.has(id)) stats.coalesced += 1;
+        pending.set(id, { price, source });
+        const ticks = received.get(id);
+        if (ticks) ticks.push({ t, price, source });
+        else received.set(id, [{ t, price, source }]);
+      }
+      schedule();
+    },
+    flush,
+    metrics: () => ({ ...stats }),
+    dispose: () => {
+      cancel?.();
+      cancel = null;
+      pending.clear();
+      received.clear();
+    },
+  };
+}
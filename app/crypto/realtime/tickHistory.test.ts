@@ -0,0 +1,125 @@
+/**
+ * Tests for per-coin tick history and the statistics derived from it.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { appendTick, computeTickStats, latestTick, scaleTicks, tickList } from './tickHistory';
+import type { TickHistory } from './tickHistory';
+import type { PriceTick } from './types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const T0 = 1_700_000_000_000;
+
+function ticks(prices: number[], spacingMs = 10_000): PriceTick[] {
+  return prices.map((price, i) => ({ t: T0 + i * spacingMs, price, source: 'coincap' }));
+}
+
+// ---------------------------------------------------------------------------
+// appendTick / tickList
+// ---------------------------------------------------------------------------
+
+describe('appendTick', () => {
+  it('keeps ticks oldest first', () => {
+    let history: TickHistory | undefined;
+    for (const tick of ticks([1, 2, 3])) history = appendTick(history, tick, 5);
+
+    expect(tickList(history).map((tick) => tick.price)).toEqual([1, 2, 3]);
+    expect(latestTick(history)?.price).toBe(3);
+  });
+
+  it('drops the oldest ticks once full', () => {
+    let history: TickHistory | undefined;
+    for (const tick of ticks([1, 2, 3, 4, 5, 6, 7])) history = appendTick(history, tick, 3);
+
+    expect(tickList(history).map((tick) => tick.price)).toEqual([5, 6, 7]);
+    expect(history!.buffer).toHaveLength(3);
+    expect(latestTick(history)?.price).toBe(7);
+  });
+
+  it('returns a new view on every append', () => {
+    const first = appendTick(undefined, ticks([1])[0]);
+    const second = appendTick(first, ticks([1, 2])[1]);
+    expect(second).not.toBe(first);
+  });
+
+  it('leaves earlier views intact once the ring wraps', () => {
+    let history: TickHistory | undefined;
+    for (const tick of ticks([1, 2, 3])) history = appendTick(history, tick, 3);
+    const full = history!;
+
+    const wrapped = appendTick(full, ticks([1, 2, 3, 4])[3], 3);
+    const forked = appendTick(full, { ...ticks([1, 2, 3, 4])[3], price: 40 }, 3);
+
+    expect(tickList(full).map((tick) => tick.price)).toEqual([1, 2, 3]);
+    expect(tickList(wrapped).map((tick) => tick.price)).toEqual([2, 3, 4]);
+    expect(tickList(forked).map((tick) => tick.price)).toEqual([2, 3, 40]);
+  });
+
+  it('leaves earlier views intact when one is appended to twice', () => {
+    const first = appendTick(undefined, ticks([1])[0], 3);
+    const second = appendTick(first, ticks([1, 2])[1], 3);
+    const other = appendTick(first, { ...ticks([1, 2])[1], price: 20 }, 3);
+
+    expect(tickList(second).map((tick) => tick.price)).toEqual([1, 2]);
+    expect(tickList(other).map((tick) => tick.price)).toEqual([1, 20]);
+  });
+
+  it('treats a missing history as empty', () => {
+    expect(tickList(undefined)).toEqual([]);
+    expect(latestTick(undefined)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// scaleTicks
+// ---------------------------------------------------------------------------
+
+describe('scaleTicks', () => {
+  it('rescales a wrapped history and keeps appending in order', () => {
+    let history: TickHistory | undefined;
+    for (const tick of ticks([1, 2, 3, 4])) history = appendTick(history, tick, 3);
+
+    const scaled = scaleTicks(history!, 2);
+    expect(tickList(scaled).map((tick) => tick.price)).toEqual([4, 6, 8]);
+    expect(tickList(history).map((tick) => tick.price)).toEqual([2, 3, 4]);
+
+    const next = appendTick(scaled, { t: T0 + 50_000, price: 10, source: 'coincap' }, 3);
+    expect(tickList(next).map((tick) => tick.price)).toEqual([6, 8, 10]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// computeTickStats
+// ---------------------------------------------------------------------------
+
+describe('computeTickStats', () => {
+  it('counts ticks in the last minute', () => {
+    const history = ticks([1, 1, 1, 1, 1, 1, 1, 1, 1, 1], 10_000);
+    expect(computeTickStats(history, T0 + 90_000).tickRate).toBe(6);
+  });
+
+  it('measures the change since the last tick a minute old', () => {
+    const history = ticks([100, 104, 103, 102, 101, 105, 110], 10_000);
+    expect(computeTickStats(history, T0 + 60_000).change1m).toBeCloseTo(10);
+  });
+
+  it('leaves the 1-minute change unset without a minute of history', () => {
+    const history = ticks([100, 101, 102], 10_000);
+    expect(computeTickStats(history, T0 + 20_000).change1m).toBeNull();
+  });
+
+  it('reports zero volatility for steady returns and more for choppy ones', () => {
+    const steady = ticks([100, 101, 102.01, 103.0301], 1_000);
+    const choppy = ticks([100, 102, 99, 103], 1_000);
+
+    expect(computeTickStats(steady, T0 + 3_000).volatility).toBeCloseTo(0);
+    expect(computeTickStats(choppy, T0 + 3_000).volatility).toBeGreaterThan(2);
+  });
+
+  it('leaves volatility unset with fewer than two returns', () => {
+    expect(computeTickStats(ticks([100, 101]), T0 + 10_000).volatility).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// Recent ticks per coin and the statistics derived from them
+//
+// Each coin keeps a fixed-size ring of its latest ticks.  Every append
+// returns a new view, so per-coin selectors see a new value, and never
+// changes a tick an earlier view can read: while the ring fills, the new
+// tick goes into a slot no view covers yet, and once it is full (or an older
+// view is appended to again) the buffer is copied before the oldest slot is
+// overwritten.  Earlier store snapshots therefore stay valid.
+
+import type { PriceTick } from './types';
+
+/** Ticks kept per coin (several minutes of a busy feed) */
+export const TICK_HISTORY_SIZE = 300;
+
+export interface TickHistory {
+  readonly buffer: PriceTick[];
+  /** Index of the oldest tick in `buffer` */
+  readonly start: number;
+  readonly length: number;
+}
+
+export interface TickStats {
+  /** Ticks per minute over the last minute */
+  tickRate: number;
+  /** Change (%) since the last tick at least a minute old; null until there is one */
+  change1m: number | null;
+  /**
+   * Micro-volatility: standard deviation (%) of tick-to-tick returns over
+   * the last minute; null with fewer than two returns
+   */
+  volatility: number | null;
+}
+
+export function appendTick(history: TickHistory | undefined, tick: PriceTick, capacity = TICK_HISTORY_SIZE): TickHistory {
+  const buffer = history?.buffer ?? [];
+  const start = history?.start ?? 0;
+  const length = history?.length ?? 0;
+
+  // Once full, the next slot holds the oldest tick: copy rather than
+  // overwrite a tick an earlier view still covers
+  const slot = (start + length) % capacity;
+  const next = slot < buffer.length ? buffer.slice() : buffer;
+  next[slot] = tick;
+  if (length < capacity) return { buffer: next, start, length: length + 1 };
+  return { buffer: next, start: (start + 1) % capacity, length };
+}
+
+/** Ticks oldest first */
+export function tickList(history: TickHistory | undefined): PriceTick[] {
+  if (!history) return [];
+  const { buffer, start, length } = history;
+  const capacity = buffer.length;
+  return Array.from({ length }, (_, i) => buffer[(start + i) % capacity]);
+}
+
+export function latestTick(history: TickHistory | undefined): PriceTick | undefined {
+  if (!history || history.length === 0) return undefined;
+  return history.buffer[(history.start + history.length - 1) % history.buffer.length];
+}
+
+/**
+ * Multiply every price by `factor`, e.g. when the display currency changes.
+ * Returns a history over a fresh buffer, oldest tick first.
+ */
+export function scaleTicks(history: TickHistory, factor: number): TickHistory {
+  const buffer = tickList(history).map((tick) => ({ ...tick, price: tick.price * factor }));
+  return { buffer, start: 0, length: buffer.length };
+}
+
+export function computeTickStats(ticks: PriceTick[], now: number = Date.now(), windowMs = 60_000): TickStats {
+  const windowStart = now - windowMs;
+  const recent = ticks.filter((tick) => tick.t > windowStart && tick.t <= now);
+  const latest = recent[recent.length - 1];
+
+  let baseline: PriceTick | undefined;
+  for (const tick of ticks) {
+    if (tick.t <= windowStart) baseline = tick;
+    else break;
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < recent.length; i++) {
+    returns.push((recent[i].price - recent[i - 1].price) / recent[i - 1].price);
+  }
+  let volatility: number | null = null;
+  if (returns.length >= 2) {
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
+    volatility = Math.sqrt(variance) * 100;
+  }
+
+  return {
+    tickRate: recent.length / (windowMs / 60_000),
+    change1m: baseline && latest ? ((latest.price - baseline.price) / baseline.price) * 100 : null,
+    volatility,
+  };
+}
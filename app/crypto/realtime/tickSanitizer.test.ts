@@ -0,0 +1,109 @@
+/**
+ * Tests for streamed tick validation.
+ *
+ * Every check passes an explicit arrival time, so no timers are faked.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createTickSanitizer } from './tickSanitizer';
+
+// ---------------------------------------------------------------------------
+// createTickSanitizer
+// ---------------------------------------------------------------------------
+
+describe('createTickSanitizer', () => {
+  it('accepts the first tick for a coin without a reference', () => {
+    const sanitizer = createTickSanitizer();
+    expect(sanitizer.check({ bitcoin: 70000 }, 'coincap', 0)).toEqual({ bitcoin: 70000 });
+    expect(sanitizer.report()).toMatchObject({ accepted: 1, rejected: 0 });
+  });
+
+  it('rejects unparseable and non-positive prices', () => {
+    const sanitizer = createTickSanitizer();
+    expect(sanitizer.check({ bitcoin: NaN, ethereum: 0, solana: 150 }, 'coincap', 0)).toEqual({ solana: 150 });
+
+    const { recent, quarantined } = sanitizer.report();
+    expect(recent.map((tick) => [tick.coinId, tick.reason])).toEqual([['bitcoin', 'invalid'], ['ethereum', 'invalid']]);
+    expect(quarantined).toEqual({});
+  });
+
+  it('quarantines a tick far from the REST reference', () => {
+    const sanitizer = createTickSanitizer();
+    sanitizer.setReference({ bitcoin: 70000 });
+
+    expect(sanitizer.check({ bitcoin: 7000 }, 'coincap', 1_000)).toBeNull();
+    expect(sanitizer.check({ bitcoin: 71000 }, 'coincap', 2_000)).toEqual({ bitcoin: 71000 });
+
+    const { rejected, recent } = sanitizer.report();
+    expect(rejected).toBe(1);
+    expect(recent[0]).toMatchObject({ coinId: 'bitcoin', price: 7000, source: 'coincap', reason: 'reference', expected: 70000, at: 1_000 });
+    expect(recent[0].driftPercent).toBeCloseTo(90);
+  });
+
+  it('quarantines a spike away from the recent ticks, keeping the rest of the frame', () => {
+    const sanitizer = createTickSanitizer();
+    sanitizer.check({ bitcoin: 70000, ethereum: 3500 }, 'coincap', 0);
+    sanitizer.check({ bitcoin: 70100 }, 'coincap', 1_000);
+
+    expect(sanitizer.check({ bitcoin: 80000, ethereum: 3510 }, 'coincap', 2_000)).toEqual({ ethereum: 3510 });
+    expect(sanitizer.report().recent[0]).toMatchObject({ reason: 'recent', expected: 70050 });
+    expect(sanitizer.report().quarantined.bitcoin).toEqual({ price: 80000, confirmations: 1, sources: ['coincap'], since: 2_000 });
+
+    // Back in the band: the spike is forgotten
+    expect(sanitizer.check({ bitcoin: 70200 }, 'coincap', 3_000)).toEqual({ bitcoin: 70200 });
+    expect(sanitizer.report().quarantined).toEqual({});
+  });
+
+  it('releases a quarantined price once enough ticks confirm it', () => {
+    const sanitizer = createTickSanitizer({ confirmations: 3 });
+    sanitizer.setReference({ bitcoin: 70000 });
+    sanitizer.check({ bitcoin: 70000 }, 'coincap', 0);
+
+    expect(sanitizer.check({ bitcoin: 60000 }, 'coincap', 1_000)).toBeNull();
+    expect(sanitizer.check({ bitcoin: 59900 }, 'coincap', 2_000)).toBeNull();
+    expect(sanitizer.check({ bitcoin: 59800 }, 'coincap', 3_000)).toEqual({ bitcoin: 59800 });
+    expect(sanitizer.report()).toMatchObject({ released: 1, rejected: 2, quarantined: {} });
+
+    // The new level is the baseline now, despite the older REST reference
+    expect(sanitizer.check({ bitcoin: 59700 }, 'coincap', 4_000)).toEqual({ bitcoin: 59700 });
+  });
+
+  it('releases a quarantined price as soon as a second source agrees', () => {
+    const sanitizer = createTickSanitizer({ confirmations: 5 });
+    sanitizer.check({ bitcoin: 70000 }, 'coincap', 0);
+
+    expect(sanitizer.check({ bitcoin: 60000 }, 'coincap', 1_000)).toBeNull();
+    expect(sanitizer.check({ bitcoin: 60050 }, 'coinbase', 1_500)).toEqual({ bitcoin: 60050 });
+    expect(sanitizer.report().released).toBe(1);
+  });
+
+  it('restarts the quarantine when outliers disagree with each other', () => {
+    const sanitizer = createTickSanitizer({ confirmations: 2 });
+    sanitizer.check({ bitcoin: 70000 }, 'coincap', 0);
+
+    expect(sanitizer.check({ bitcoin: 7000 }, 'coincap', 1_000)).toBeNull();
+    expect(sanitizer.check({ bitcoin: 700000 }, 'coincap', 2_000)).toBeNull();
+    expect(sanitizer.report().quarantined.bitcoin).toMatchObject({ price: 700000, confirmations: 1 });
+  });
+
+  it('checks against the reference again once it is refreshed', () => {
+    const sanitizer = createTickSanitizer({ confirmations: 2 });
+    sanitizer.setReference({ bitcoin: 70000 });
+    sanitizer.check({ bitcoin: 50000 }, 'coincap', 0);
+    sanitizer.check({ bitcoin: 50000 }, 'coincap', 1_000);
+    expect(sanitizer.report().released).toBe(1);
+
+    sanitizer.setReference({ bitcoin: 70000 });
+    expect(sanitizer.check({ bitcoin: 50100 }, 'coincap', 2_000)).toBeNull();
+    expect(sanitizer.report().recent.at(-1)?.reason).toBe('reference');
+  });
+
+  it('keeps only the latest rejections', () => {
+    const sanitizer = createTickSanitizer({ maxRecorded: 2 });
+    for (let i = 1; i <= 3; i++) sanitizer.check({ bitcoin: -i }, 'coincap', i);
+
+    const { rejected, recent } = sanitizer.report();
+    expect(rejected).toBe(3);
+    expect(recent.map((tick) => tick.price)).toEqual([-2, -3]);
+  });
+});
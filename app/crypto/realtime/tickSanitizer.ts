@@ -0,0 +1,170 @@
+// Streamed tick validation
+//
+// Upstreams occasionally send a bad frame (a stray decimal, a thin market's
+// trade, a misrouted asset) and every parseable price used to reach the
+// store.  The sanitizer checks each tick against two bands: the median of
+// the coin's recent accepted ticks and the last REST `current_price`
+// (converted to USD by the caller).  A tick outside either band is
+// quarantined rather than applied.  Real moves still get through: once
+// further ticks agree with the quarantined price, or a second source reports
+// it, the price is released and becomes the coin's new baseline.  Rejected
+// ticks are recorded for the feed diagnostics.
+
+import { detectPriceDrift } from '../utils/dataFreshness';
+import type { PriceUpdate, RealtimeSourceId } from './types';
+
+export type TickRejectionReason = 'invalid' | 'recent' | 'reference';
+
+export interface RejectedTick {
+  coinId: string;
+  price: number;
+  source: RealtimeSourceId;
+  reason: TickRejectionReason;
+  /** Price the tick was compared against; null for unparseable prices */
+  expected: number | null;
+  driftPercent: number | null;
+  /** When the tick arrived (epoch ms) */
+  at: number;
+}
+
+export interface QuarantinedPrice {
+  price: number;
+  /** Ticks so far that agree with the price, the first included */
+  confirmations: number;
+  sources: RealtimeSourceId[];
+  since: number;
+}
+
+export interface TickSanitizerReport {
+  accepted: number;
+  rejected: number;
+  /** Quarantined prices that were confirmed and applied */
+  released: number;
+  quarantined: Record<string, QuarantinedPrice>;
+  /** Latest rejections, oldest first */
+  recent: RejectedTick[];
+}
+
+export interface TickSanitizerOptions {
+  /** Widest drift from the REST reference price (%) */
+  referenceBandPercent?: number;
+  /** Widest drift from the median of recent ticks (%) */
+  recentBandPercent?: number;
+  /** Accepted ticks per coin the median is taken over */
+  recentWindow?: number;
+  /** Agreeing ticks that release a quarantined price */
+  confirmations?: number;
+  /** Rejections kept for diagnostics */
+  maxRecorded?: number;
+}
+
+export interface TickSanitizer {
+  /** Replace the REST reference prices (USD) */
+  setReference: (prices: PriceUpdate) => void;
+  /** The frame's accepted prices; null when every price was rejected */
+  check: (prices: PriceUpdate, source: RealtimeSourceId, receivedAt?: number) => PriceUpdate | null;
+  report: () => TickSanitizerReport;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function createTickSanitizer({
+  referenceBandPercent = 10,
+  recentBandPercent = 5,
+  recentWindow = 5,
+  confirmations = 3,
+  maxRecorded = 50,
+}: TickSanitizerOptions = {}): TickSanitizer {
+  const recentPrices = new Map<string, number[]>();
+  const quarantine = new Map<string, QuarantinedPrice>();
+  let reference = new Map<string, number>();
+  // Coins whose released price superseded the reference until it is refreshed
+  const overridden = new Set<string>();
+  const rejections: RejectedTick[] = [];
+  const stats = { accepted: 0, rejected: 0, released: 0 };
+
+  function outlier(coinId: string, price: number): Omit<RejectedTick, 'coinId' | 'price' | 'source' | 'at'> | null {
+    const history = recentPrices.get(coinId);
+    if (history?.length) {
+      const expected = median(history);
+      const drift = detectPriceDrift(expected, price, recentBandPercent);
+      if (!drift.acceptable) return { reason: 'recent', expected, driftPercent: drift.driftPercent };
+    }
+    const expected = overridden.has(coinId) ? undefined : reference.get(coinId);
+    if (expected !== undefined) {
+      const drift = detectPriceDrift(expected, price, referenceBandPercent);
+      if (!drift.acceptable) return { reason: 'reference', expected, driftPercent: drift.driftPercent };
+    }
+    return null;
+  }
+
+  function accept(coinId: string, price: number): void {
+    const history = recentPrices.get(coinId) ?? [];
+    history.push(price);
+    if (history.length > recentWindow) history.shift();
+    recentPrices.set(coinId, history);
+    quarantine.delete(coinId);
+    stats.accepted += 1;
+  }
+
+  function reject(tick: RejectedTick): void {
+    stats.rejected += 1;
+    rejections.push(tick);
+    if (rejections.length > maxRecorded) rejections.shift();
+  }
+
+  return {
+    setReference: (prices) => {
+      reference = new Map(Object.entries(prices).filter(([, price]) => Number.isFinite(price) && price > 0));
+      overridden.clear();
+    },
+    check: (prices, source, receivedAt = Date.now()) => {
+      const accepted: PriceUpdate = {};
+      let count = 0;
+      for (const [coinId, price] of Object.entries(prices)) {
+        if (!Number.isFinite(price) || price <= 0) {
+          reject({ coinId, price, source, reason: 'invalid', expected: null, driftPercent: null, at: receivedAt });
+          continue;
+        }
+
+        const found = outlier(coinId, price);
+        if (!found) {
+          accept(coinId, price);
+          accepted[coinId] = price;
+          count += 1;
+          continue;
+        }
+
+        const held = quarantine.get(coinId);
+        if (held && detectPriceDrift(held.price, price, recentBandPercent).acceptable) {
+          held.price = price;
+          held.confirmations += 1;
+          if (!held.sources.includes(source)) held.sources.push(source);
+          if (held.confirmations >= confirmations || held.sources.length > 1) {
+            // The market really moved: restart the baseline from here
+            recentPrices.delete(coinId);
+            overridden.add(coinId);
+            stats.released += 1;
+            accept(coinId, price);
+            accepted[coinId] = price;
+            count += 1;
+            continue;
+          }
+        } else {
+          quarantine.set(coinId, { price, confirmations: 1, sources: [source], since: receivedAt });
+        }
+        reject({ coinId, price, source, ...found, at: receivedAt });
+      }
+      return count > 0 ? accepted : null;
+    },
+    report: () => ({
+      ...stats,
+      quarantined: Object.fromEntries([...quarantine].map(([coinId, held]) => [coinId, { ...held, sources: [...held.sources] }])),
+      recent: [...rejections],
+    }),
+  };
+}
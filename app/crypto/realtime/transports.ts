@@ -0,0 +1,118 @@
+// Browser transports for live prices
+//
+//   websocket  CoinCap directly from the tab (lowest latency), failing over
+//              to the Coinbase ticker channel
+//   sse        /crypto/api/stream, one shared upstream per server instance;
+//              works behind proxies that block WebSockets
+//   poll       /crypto/api/coins on an interval, for when streaming fails
+
+import { coinCapSource } from './coincap';
+import { connectCoinbaseTicker } from './coinbase';
+import { connectWithFailover } from './sources';
+import { withIncrementalUpdates } from './connectionManager';
+import type { ProductResolver } from './coinbase';
+import type { Coin, CoinIdentity } from '../types';
+import type { RealtimeSource, RealtimeTransport, StreamConnector, StreamPricesEvent } from './types';
+
+export const STREAM_URL = '/crypto/api/stream';
+export const POLL_INTERVAL_MS = 15_000;
+
+/** Next transport to try when one keeps failing, weakest last */
+export const TRANSPORT_FALLBACK: Record<RealtimeTransport, RealtimeTransport | null> = {
+  websocket: 'sse',
+  sse: 'poll',
+  poll: null,
+};
+
+/** Coinbase USD products via the coin-identities route */
+export const resolveCoinbaseProducts: ProductResolver = async (coinIds) => {
+  const response = await fetch(`/crypto/api/coin-identities?ids=${coinIds.map(encodeURIComponent).join(',')}`);
+  if (!response.ok) throw new Error(`Coin identities failed: ${response.status}`);
+  const { data } = (await response.json()) as { data: CoinIdentity[] };
+  return Object.fromEntries(
+    data.filter((identity) => identity.coinbase.usd).map((identity) => [identity.id, identity.coinbase.usd])
+  );
+};
+
+/** Direct-from-browser sources, most preferred first */
+export const BROWSER_SOURCES: RealtimeSource[] = [
+  coinCapSource,
+  {
+    id: 'coinbase',
+    connect: (coinIds, handlers) => connectCoinbaseTicker(coinIds, handlers, resolveCoinbaseProducts),
+  },
+];
+
+export const openEventStream: StreamConnector = (coinIds, handlers) => {
+  const eventSource = new EventSource(`${STREAM_URL}?ids=${coinIds.map(encodeURIComponent).join(',')}`);
+
+  eventSource.onopen = () => handlers.onOpen();
+  eventSource.addEventListener('prices', (event) => {
+    try {
+      const { source, prices, sentAt } = JSON.parse((event as MessageEvent<string>).data) as StreamPricesEvent;
+      handlers.onPrices(prices, source, sentAt);
+    } catch {
+      // Ignore malformed events
+    }
+  });
+  // EventSource retries on its own; close it so the hook's back-off and
+  // downgrade logic decide what happens next
+  eventSource.onerror = () => {
+    eventSource.close();
+    handlers.onError();
+    handlers.onClose();
+  };
+
+  return { close: () => eventSource.close() };
+};
+
+export const openPolling: StreamConnector = (initialCoinIds, handlers) => {
+  let coinIds = initialCoinIds;
+  let stopped = false;
+  let opened = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function poll(): Promise<void> {
+    timer = null;
+    try {
+      const response = await fetch(`/crypto/api/coins?ids=${coinIds.map(encodeURIComponent).join(',')}&per_page=${coinIds.length}`);
+      if (!response.ok) throw new Error(`Poll failed: ${response.status}`);
+      const { data } = (await response.json()) as { data: Coin[] };
+      if (stopped) return;
+      if (!opened) {
+        opened = true;
+        handlers.onOpen();
+      }
+      handlers.onPrices(Object.fromEntries(data.map((coin) => [coin.id, coin.current_price])), 'rest');
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    } catch {
+      if (stopped) return;
+      handlers.onError();
+      handlers.onClose();
+    }
+  }
+  poll();
+
+  return {
+    close: () => {
+      stopped = true;
+      if (timer !== null) clearTimeout(timer);
+    },
+    // The next request asks for the new set; poll now if none is in flight
+    update: (next) => {
+      coinIds = next;
+      if (timer !== null) {
+        clearTimeout(timer);
+        poll();
+      }
+      return true;
+    },
+  };
+};
+
+/** Connectors per transport; coin-set changes never drop ticks for kept coins */
+export const TRANSPORTS: Record<RealtimeTransport, StreamConnector> = {
+  websocket: withIncrementalUpdates(connectWithFailover(BROWSER_SOURCES)),
+  sse: withIncrementalUpdates(openEventStream),
+  poll: withIncrementalUpdates(openPolling),
+};
@@ -0,0 +1,79 @@
+// Realtime price stream contracts shared by the browser hook and the
+// server-side fan-out hub
+
+/** Latest prices (USD) keyed by CoinGecko ID */
+export type PriceUpdate = Record<string, number>;
+
+/** How the browser receives live prices */
+export type RealtimeTransport = 'websocket' | 'sse' | 'poll';
+
+/**
+ * How tabs share one connection: not at all, a leader tab elected over a
+ * BroadcastChannel, or a SharedWorker holding the connection
+ */
+export type RealtimeSharing = 'none' | 'broadcast' | 'sharedworker';
+
+/** Upstream a live price came from ('rest' when the coins route was polled) */
+export type RealtimeSourceId = 'coincap' | 'coinbase' | 'mock' | 'rest';
+
+/** Upstream per coin, alongside the prices it produced */
+export type PriceSources = Record<string, RealtimeSourceId>;
+
+/** One live price as received, for tick history and the chart */
+export interface PriceTick {
+  /** Receive time (epoch ms) */
+  t: number;
+  price: number;
+  source: RealtimeSourceId;
+}
+
+/** Payload of the stream route's `prices` event */
+export interface StreamPricesEvent {
+  source: RealtimeSourceId;
+  prices: PriceUpdate;
+  /** Upstream timestamp of the frame (epoch ms), when the source reports one */
+  sentAt?: number;
+}
+
+export interface StreamHandlers {
+  onOpen: () => void;
+  /**
+   * `sentAt` is the frame's upstream timestamp (epoch ms) when the source
+   * reports one; the feed health monitor estimates latency from it
+   */
+  onPrices: (prices: PriceUpdate, source: RealtimeSourceId, sentAt?: number) => void;
+  /** Transient error; the connection may still close afterwards */
+  onError: () => void;
+  /** The connection ended on its own (upstream close or fatal error) */
+  onClose: () => void;
+}
+
+export interface StreamConnection {
+  /** End the connection without calling `onClose` */
+  close: () => void;
+  /**
+   * Change the streamed coins without reconnecting, for upstreams whose
+   * protocol allows it.  Returns false when a new connection is needed.
+   */
+  update?: (coinIds: string[]) => boolean;
+}
+
+/** Opens one connection streaming prices for a set of coins */
+export type StreamConnector = (coinIds: string[], handlers: StreamHandlers) => StreamConnection;
+
+/** A live price upstream that can be swapped for another on failure */
+export interface RealtimeSource {
+  id: RealtimeSourceId;
+  connect: StreamConnector;
+}
+
+/** Tab → price SharedWorker */
+export type WorkerRequest =
+  | { type: 'subscribe'; transport: RealtimeTransport; coinIds: string[] }
+  | { type: 'update'; coinIds: string[] }
+  | { type: 'unsubscribe' };
+
+/** Price SharedWorker → tab */
+export type WorkerMessage =
+  | { type: 'prices'; prices: PriceUpdate; source: RealtimeSourceId; sentAt?: number }
+  | { type: 'status'; connected: boolean };
@@ -1,7 +1,15 @@
 'use client';
 
 import { create } from 'zustand';
-import type { Theme, TimePeriod, Currency, ViewMode, Notification, PriceAlerts, EnabledStudies, StudyType, ChartPattern } from '../types';
+import { periodForRange } from '../utils/timeRange';
+import { isCurrency } from '../utils/currency';
+import { defaultEnabledStudies, subscribeIndicators } from '../indicators';
+import type { Theme, TimePeriod, TimeRange, CandleGranularity, Currency, ViewMode, Notification, PriceAlerts, EnabledStudies, StudyType, ChartPattern } from '../types';
+import { appendTick, scaleTicks } from '../realtime/tickHistory';
+import type { TickHistory } from '../realtime/tickHistory';
+import type { PriceSources, PriceTick } from '../realtime/types';
+import type { FeedHealth } from '../realtime/feedHealth';
+import type { TickSanitizerReport } from '../realtime/tickSanitizer';
 
 interface CryptoState {
   // Theme
@@ -23,6 +31,14 @@ interface CryptoState {
   timePeriod: TimePeriod;
   setTimePeriod: (period: TimePeriod) => void;
 
+  /**
+   * Custom history window (line chart only).  While set, `timePeriod` holds
+   * the closest preset so indicator settings and axis labels still apply.
+   * Not persisted: a custom range is an ad-hoc analysis, not a preference.
+   */
+  timeRange: TimeRange | null;
+  setTimeRange: (range: TimeRange | null) => void;
+
   // Currency
   currency: Currency;
   setCurrency: (currency: Currency) => void;
@@ -35,6 +51,10 @@ interface CryptoState {
   chartPattern: ChartPattern;
   setChartPattern: (pattern: ChartPattern) => void;
 
+  // Candle interval for the candlestick chart ('auto' = provider default per period)
+  candleGranularity: CandleGranularity | 'auto';
+  setCandleGranularity: (granularity: CandleGranularity | 'auto') => void;
+
   // Technical Studies
   enabledStudies: EnabledStudies;
   toggleStudy: (study: StudyType) => void;
@@ -50,8 +70,11 @@ interface CryptoState {
   removePriceAlert: (coinId: string) => void;
 
   /**
-   * Real-time prices streamed from the CoinCap WebSocket
-   * (coinId → latest USD price).
+   * Real-time prices streamed by `useRealtimePrice`
+   * (coinId → latest price in the selected currency), with the upstream each
+   * came from in `rtSources` (e.g. 'coincap' or 'coinbase').  Feeds quote in
+   * USD; the dashboard converts each batch before merging it and calls
+   * `rescaleRtPrices` when the currency or its exchange rate changes.
    *
    * **Why these live in Zustand instead of React state / Context:**
    * `LivePrice` components are rendered inside every table row (up to 100 rows)
@@ -61,13 +84,32 @@ interface CryptoState {
    * component for the coin whose price changed re-renders, rather than the
    * entire table.
    *
+   * Ticks arrive in batches (see `realtime/tickBuffer.ts`) holding the coins
+   * whose price changed; `mergeRtPrices` folds them in and leaves the maps
+   * untouched when nothing differs, so selectors for other coins never see a
+   * new value.  Every tick in the batch, repeated prices included, is also
+   * recorded in `rtTicks` at its arrival time, a bounded per-coin history that
+   * `LivePrice` and the chart read for trends and statistics.
+   *
    * `wsConnected` is exposed so the `FreshnessIndicator` can show a live /
-   * stale badge anywhere in the tree without extra prop threading.
+   * stale badge anywhere in the tree without extra prop threading, and
+   * `feedHealth` holds the latest snapshot from `useRealtimePrice().health()`
+   * (frame times, message rate, reconnects, latency) so it can tell a
+   * connected-but-silent feed from a live one.  `tickRejections` is the
+   * matching report of ticks held back as outliers.
    */
   rtPrices: Record<string, number>;
+  rtSources: PriceSources;
+  rtTicks: Record<string, TickHistory>;
   wsConnected: boolean;
-  setRtPrices: (prices: Record<string, number>) => void;
+  mergeRtPrices: (prices: Record<string, number>, sources: PriceSources, ticks?: Record<string, PriceTick[]>) => void;
+  /** Multiply stored prices and ticks by `factor`; null clears them */
+  rescaleRtPrices: (factor: number | null) => void;
   setWsConnected: (connected: boolean) => void;
+  feedHealth: FeedHealth | null;
+  setFeedHealth: (health: FeedHealth | null) => void;
+  tickRejections: TickSanitizerReport | null;
+  setTickRejections: (report: TickSanitizerReport | null) => void;
 
   // Initialize from localStorage
   initFromStorage: () => void;
@@ -126,9 +168,15 @@ export const useCryptoStore = create<CryptoState>((set, get) => ({
     if (typeof window !== 'undefined') {
       localStorage.setItem('crypto-period', period);
     }
-    return { timePeriod: period };
+    return { timePeriod: period, timeRange: null };
   }),
 
+  timeRange: null,
+  setTimeRange: (range: TimeRange | null) => set((state) => ({
+    timeRange: range,
+    timePeriod: range ? periodForRange(range) : state.timePeriod,
+  })),
+
   // Currency
   currency: 'usd',
   setCurrency: (curr: Currency) => set(() => {
@@ -153,16 +201,21 @@ export const useCryptoStore = create<CryptoState>((set, get) => ({
     if (typeof window !== 'undefined') {
       localStorage.setItem('crypto-chartpattern', pattern);
     }
-    return { chartPattern: pattern };
+    // Candlesticks are fetched by preset period only
+    return { chartPattern: pattern, ...(pattern === 'candlestick' ? { timeRange: null } : {}) };
+  }),
+
+  // Candle interval
+  candleGranularity: 'auto',
+  setCandleGranularity: (granularity: CandleGranularity | 'auto') => set(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('crypto-granularity', granularity);
+    }
+    return { candleGranularity: granularity };
   }),
 
   // Technical Studies
-  enabledStudies: {
-    rsi: true,
-    sma: false,
-    bollingerBands: false,
-    macd: false,
-  },
+  enabledStudies: defaultEnabledStudies(),
   toggleStudy: (study: StudyType) => set((state) => {
     const newStudies = {
       ...state.enabledStudies,
@@ -203,9 +256,42 @@ export const useCryptoStore = create<CryptoState>((set, get) => ({
 
   // Real-time prices (WebSocket)
   rtPrices: {},
+  rtSources: {},
+  rtTicks: {},
   wsConnected: false,
-  setRtPrices: (prices: Record<string, number>) => set({ rtPrices: prices }),
+  mergeRtPrices: (prices: Record<string, number>, sources: PriceSources, ticks: Record<string, PriceTick[]> = {}) => set((state) => {
+    const changedPrices = Object.keys(prices).filter((id) => state.rtPrices[id] !== prices[id]);
+    const changedSources = Object.keys(sources).filter((id) => state.rtSources[id] !== sources[id]);
+    const tickedCoins = Object.keys(ticks).filter((id) => ticks[id].length > 0);
+    if (changedPrices.length === 0 && changedSources.length === 0 && tickedCoins.length === 0) return state;
+
+    const rtSources = changedSources.length > 0 ? { ...state.rtSources, ...sources } : state.rtSources;
+    let rtTicks = state.rtTicks;
+    if (tickedCoins.length > 0) {
+      rtTicks = { ...state.rtTicks };
+      for (const id of tickedCoins) {
+        for (const tick of ticks[id]) rtTicks[id] = appendTick(rtTicks[id], tick);
+      }
+    }
+    return {
+      rtPrices: changedPrices.length > 0 ? { ...state.rtPrices, ...prices } : state.rtPrices,
+      rtSources,
+      rtTicks,
+    };
+  }),
+  rescaleRtPrices: (factor: number | null) => set((state) => {
+    if (factor === null) return { rtPrices: {}, rtSources: {}, rtTicks: {} };
+    if (factor === 1) return state;
+    return {
+      rtPrices: Object.fromEntries(Object.entries(state.rtPrices).map(([id, price]) => [id, price * factor])),
+      rtTicks: Object.fromEntries(Object.entries(state.rtTicks).map(([id, history]) => [id, scaleTicks(history, factor)])),
+    };
+  }),
   setWsConnected: (connected: boolean) => set({ wsConnected: connected }),
+  feedHealth: null,
+  setFeedHealth: (health: FeedHealth | null) => set({ feedHealth: health }),
+  tickRejections: null,
+  setTickRejections: (report: TickSanitizerReport | null) => set({ tickRejections: report }),
 
   // Initialize from localStorage
   initFromStorage: () => {
@@ -214,14 +300,18 @@ export const useCryptoStore = create<CryptoState>((set, get) => ({
       const favorites: string[] = JSON.parse(localStorage.getItem('crypto-favorites') || '[]');
       const selectedCoins: string[] = JSON.parse(localStorage.getItem('crypto-selected') || '["bitcoin","ethereum"]');
       const timePeriod = (localStorage.getItem('crypto-period') as TimePeriod) || '7';
-      const currency = (localStorage.getItem('crypto-currency') as Currency) || 'usd';
+      // A code saved by an older build may no longer be offered
+      const savedCurrency = localStorage.getItem('crypto-currency');
+      const currency: Currency = savedCurrency && isCurrency(savedCurrency) ? savedCurrency : 'usd';
       const viewMode = (localStorage.getItem('crypto-viewmode') as ViewMode) || 'table';
       const chartPattern = (localStorage.getItem('crypto-chartpattern') as ChartPattern) || 'line';
+      const candleGranularity = (localStorage.getItem('crypto-granularity') as CandleGranularity | 'auto') || 'auto';
       const priceAlerts: PriceAlerts = JSON.parse(localStorage.getItem('crypto-alerts') || '{}');
-      const enabledStudies: EnabledStudies = JSON.parse(
-        localStorage.getItem('crypto-studies') || 
-        '{"rsi":true,"sma":false,"bollingerBands":false,"macd":false}'
-      );
+      // Indicators registered since the toggles were saved get their defaults
+      const enabledStudies: EnabledStudies = {
+        ...defaultEnabledStudies(),
+        ...JSON.parse(localStorage.getItem('crypto-studies') || '{}'),
+      };
 
       set({
         theme,
@@ -231,9 +321,19 @@ export const useCryptoStore = create<CryptoState>((set, get) => ({
         currency,
         viewMode,
         chartPattern,
+        candleGranularity,
         priceAlerts,
         enabledStudies,
       });
     }
   },
 }));
+
+// Indicators registered after the store loaded get their default toggle.  The
+// new toggles object also makes the charts recompute their studies, which
+// picks up replaced definitions.
+subscribeIndicators(() => {
+  useCryptoStore.setState((state) => ({
+    enabledStudies: { ...defaultEnabledStudies(), ...state.enabledStudies },
+  }));
+});
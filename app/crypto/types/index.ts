@@ -1,5 +1,7 @@
 // Cryptocurrency data types from CoinGecko API
 
+import type { PriceTick } from '../realtime/types';
+
 export interface Coin {
   id: string;
   symbol: string;
@@ -65,13 +67,66 @@ export interface OHLCCandle {
 // Raw OHLC from CoinGecko: [timestamp, open, high, low, close]
 export type CoinGeckoOHLC = [number, number, number, number, number];
 
+// Raw exchange rates from CoinGecko: value of 1 BTC in each unit
+export interface CoinGeckoExchangeRates {
+  rates: Record<string, { name: string; unit: string; value: number; type: string }>;
+}
+
 // Raw OHLC from Coinbase: [time, low, high, open, close, volume]
 export type CoinbaseOHLC = [number, number, number, number, number, number];
 
+// One coin's identifiers across upstreams (see utils/coinIdentity.ts)
+export interface CoinIdentity {
+  /** CoinGecko ID, the app's canonical coin key */
+  id: string;
+  /** Ticker symbol, uppercase; null when the coin list is unavailable */
+  symbol: string | null;
+  /** CoinCap asset ID used by the live price stream */
+  coincap: string;
+  /** Coinbase product per lowercase quote currency, e.g. { usd: 'BTC-USD' } */
+  coinbase: Record<string, string>;
+}
+
+// Raw entry from Coinbase Exchange GET /products
+export interface CoinbaseProduct {
+  id: string; // e.g. 'BTC-EUR'
+  base_currency: string;
+  quote_currency: string;
+  status: string;
+  trading_disabled?: boolean;
+}
+
+// Raw entry from Coinbase Exchange GET /currencies
+export interface CoinbaseCurrency {
+  id: string; // e.g. 'BTC'
+  name: string;
+}
+
+// Upstream market data providers registered in app/crypto/providers
+export type MarketDataProviderId = 'coingecko' | 'coinbase' | 'derived' | 'fixture';
+
+/** Selectable candle widths for the OHLC route and candlestick chart */
+export type CandleGranularity = '1m' | '5m' | '15m' | '1h' | '4h' | '6h' | '1d' | '1w' | '1M';
+
+/** Span of missing candles, epoch ms (inclusive) */
+export interface OHLCGap {
+  from: number;
+  to: number;
+}
+
 export interface OHLCData {
   candles: OHLCCandle[];
-  provider: 'coingecko' | 'coinbase';
+  provider: MarketDataProviderId;
   granularity: string; // e.g., "30m", "4h", "1d"
+  /**
+   * Set by paginated providers: false when part of the requested range could
+   * not be fetched (failed or capped requests) or candles are missing
+   */
+  complete?: boolean;
+  /** Missing spans within the returned series */
+  gaps?: OHLCGap[];
+  /** Native interval the candles were aggregated from, when resampled */
+  resampledFrom?: string;
 }
 
 // Chart pattern options
@@ -84,18 +139,54 @@ export interface ApiResponse<T> {
   timestamp: number;
   /** Epoch ms when upstream API was contacted */
   fetchedAt: number;
+  /** Upstream request budget is exhausted; responses may be delayed or stale */
+  rateLimited?: boolean;
 }
 
+/** Stable machine-readable error codes returned by every API route */
+export type ApiErrorCode =
+  | 'INVALID_PARAM'          // 400: a query parameter failed validation
+  | 'NOT_FOUND'              // 404: upstream does not know the requested coin
+  | 'UPSTREAM_RATE_LIMITED'  // 429: upstream budget exhausted and nothing cached
+  | 'UPSTREAM_UNAVAILABLE';  // 502: every provider failed
+
 export interface ApiError {
   error: string;
   message: string;
+  code: ApiErrorCode;
+  /** Offending query parameter for INVALID_PARAM */
+  param?: string;
 }
 
-// Time period options
-export type TimePeriod = '1' | '7' | '30' | '365';
+// Time period options ('max' = full available history)
+export type TimePeriod = '1' | '7' | '30' | '365' | 'max';
 
-// Currency options
-export type Currency = 'usd' | 'eur' | 'gbp' | 'jpy';
+/** Custom history window in epoch seconds (overrides the preset period) */
+export interface TimeRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Quote currencies: every CoinGecko `vs_currency`, fiat and crypto units
+ * alike (see `CURRENCY_INFO` in utils/currency.ts for names and formatting)
+ */
+export type Currency =
+  // Crypto units
+  | 'btc' | 'eth' | 'ltc' | 'bch' | 'bnb' | 'eos' | 'xrp' | 'xlm' | 'link' | 'dot' | 'yfi' | 'bits' | 'sats'
+  // Fiat
+  | 'usd' | 'aed' | 'ars' | 'aud' | 'bdt' | 'bhd' | 'bmd' | 'brl' | 'cad' | 'chf' | 'clp' | 'cny' | 'czk'
+  | 'dkk' | 'eur' | 'gbp' | 'gel' | 'hkd' | 'huf' | 'idr' | 'ils' | 'inr' | 'jpy' | 'krw' | 'kwd' | 'lkr'
+  | 'mmk' | 'mxn' | 'myr' | 'ngn' | 'nok' | 'nzd' | 'php' | 'pkr' | 'pln' | 'rub' | 'sar' | 'sek' | 'sgd'
+  | 'thb' | 'try' | 'twd' | 'uah' | 'vef' | 'vnd' | 'zar'
+  // IMF special drawing rights and metals
+  | 'xdr' | 'xag' | 'xau';
+
+/**
+ * Units of each currency per 1 USD (live feeds quote in USD).  Currencies
+ * the upstream has no rate for are absent.
+ */
+export type FxRates = Partial<Record<Currency, number>>;
 
 // View mode options
 export type ViewMode = 'table' | 'grid';
@@ -140,14 +231,11 @@ export interface IndicatorInfo {
 }
 
 // Technical Studies Configuration
-export type StudyType = 'rsi' | 'sma' | 'bollingerBands' | 'macd';
+/** ID of an indicator in the registry (see indicators/) */
+export type StudyType = string;
 
-export interface EnabledStudies {
-  rsi: boolean;
-  sma: boolean;
-  bollingerBands: boolean;
-  macd: boolean;
-}
+/** Toggle per registered indicator; IDs missing here are disabled */
+export type EnabledStudies = Record<StudyType, boolean>;
 
 // SMA Configuration per timeframe
 export interface SMAConfig {
@@ -220,6 +308,8 @@ export interface ChartDataset {
 // Component props types
 export interface CryptoTableProps {
   coins: Coin[];
+  /** Currency `coins` was fetched in; lags the selected currency until the refetch lands */
+  listCurrency: Currency;
   loading: boolean;
   onSelectCoin?: (coinId: string) => void;
 }
@@ -228,11 +318,13 @@ export interface CryptoChartProps {
   coinData: ChartData | null;
   loading: boolean;
   /**
-   * Latest live price from the WebSocket feed.  When provided the chart
-   * updates the last data-point imperatively (via Chart.js ref) without
-   * triggering a full React re-render.  Throttled internally to ≤1 Hz.
+   * Latest live tick for the charted coin.  The chart appends it as a new
+   * point once a full point interval has passed since the last one, and
+   * otherwise moves the last point imperatively (via the Chart.js ref); the
+   * chart data and options are memoized, so the re-render a tick causes does
+   * not repaint the chart again.  Throttled internally to ≤1 Hz.
    */
-  livePrice?: number;
+  liveTick?: PriceTick;
 }
 
 export interface LoadingSkeletonProps {
@@ -0,0 +1,52 @@
+/**
+ * Tests for candle interval helpers.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { candleCount, isGranularityAvailable, MAX_CHART_CANDLES, sourceGranularity } from './candleGranularity';
+
+describe('candleCount', () => {
+  it('counts candles per period and interval', () => {
+    expect(candleCount('1', '5m')).toBe(288);
+    expect(candleCount('7', '1h')).toBe(168);
+    expect(candleCount('365', '1d')).toBe(365);
+  });
+});
+
+describe('isGranularityAvailable', () => {
+  it('allows intervals that fit in one OHLC request', () => {
+    expect(isGranularityAvailable('1', '1m')).toBe(true);
+    expect(isGranularityAvailable('30', '15m')).toBe(true);
+    expect(isGranularityAvailable('max', '1d')).toBe(true);
+  });
+
+  it(`rejects intervals needing more than ${MAX_CHART_CANDLES} candles`, () => {
+    expect(isGranularityAvailable('7', '1m')).toBe(false);
+    expect(isGranularityAvailable('365', '1h')).toBe(false);
+    expect(isGranularityAvailable('max', '6h')).toBe(false);
+  });
+});
+
+describe('sourceGranularity', () => {
+  it('uses a native interval as-is', () => {
+    expect(sourceGranularity('7', '1h')).toBe('1h');
+    expect(sourceGranularity('365', '1d')).toBe('1d');
+  });
+
+  it('picks the coarsest native interval that divides the target', () => {
+    expect(sourceGranularity('30', '4h')).toBe('1h');
+    expect(sourceGranularity('max', '1w')).toBe('1d');
+    expect(sourceGranularity('max', '1M')).toBe('1d');
+  });
+
+  it('needs sub-day sources for local days outside UTC', () => {
+    expect(sourceGranularity('30', '1d', 'America/New_York')).toBe('1h');
+    // UTC+5:30 is not a whole number of hours
+    expect(sourceGranularity('30', '1d', 'Asia/Kolkata')).toBe('15m');
+  });
+
+  it('returns null when every usable source exceeds the candle cap', () => {
+    expect(sourceGranularity('365', '4h')).toBeNull();
+    expect(sourceGranularity('365', '1d', 'America/New_York')).toBeNull();
+  });
+});
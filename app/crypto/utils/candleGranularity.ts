@@ -0,0 +1,88 @@
+/**
+ * Candle interval helpers shared by the OHLC route, providers and the
+ * interval selector.
+ *
+ * Exchanges serve a fixed set of native intervals; the rest (4h, 1w, 1M) and
+ * non-UTC daily candles are resampled by the OHLC route from the coarsest
+ * native interval whose candles fit exactly inside the target buckets.
+ */
+
+import { timeZoneOffset } from './timeZone';
+import type { CandleGranularity, TimePeriod } from '../types';
+
+export const CANDLE_GRANULARITIES: readonly CandleGranularity[] = ['1m', '5m', '15m', '1h', '4h', '6h', '1d', '1w', '1M'];
+
+/** Intervals exchanges return directly (Coinbase), finest first */
+export const NATIVE_GRANULARITIES: readonly CandleGranularity[] = ['1m', '5m', '15m', '1h', '6h', '1d'];
+
+/** Candle width in seconds */
+export const GRANULARITY_SECONDS: Record<CandleGranularity, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '4h': 14400,
+  '6h': 21600,
+  '1d': 86400,
+  '1w': 604800,
+  '1M': 2592000, // nominal 30 days; monthly buckets follow the calendar
+};
+
+const DAY_SECONDS = 86400;
+
+/**
+ * Most candles one OHLC request will fetch (Coinbase: 20 requests × 300).
+ * Period/interval combinations needing more source candles would come back
+ * truncated.
+ */
+export const MAX_CHART_CANDLES = 6000;
+
+// Approximate span of each preset; 'max' covers Coinbase history since 2015
+const PERIOD_DAYS: Record<TimePeriod, number> = {
+  '1': 1,
+  '7': 7,
+  '30': 30,
+  '365': 365,
+  max: 12 * 365,
+};
+
+// Winter and summer instants, to see both sides of daylight saving
+const OFFSET_SAMPLES = [Date.UTC(2025, 0, 15), Date.UTC(2025, 6, 15)];
+
+/** Number of candles a period would contain at the given interval. */
+export function candleCount(period: TimePeriod, granularity: CandleGranularity): number {
+  return Math.ceil((PERIOD_DAYS[period] * 86400) / GRANULARITY_SECONDS[granularity]);
+}
+
+/**
+ * Native interval to fetch for `target` candles: the coarsest one that fits
+ * in MAX_CHART_CANDLES and whose candles never straddle a target bucket.
+ * Sub-day buckets are UTC-aligned like exchange candles; daily, weekly and
+ * monthly buckets start at local midnight in `timeZone`, so the source must
+ * also divide the zone's UTC offset.  Null when nothing qualifies.
+ */
+export function sourceGranularity(
+  period: TimePeriod,
+  target: CandleGranularity,
+  timeZone: string = 'UTC'
+): CandleGranularity | null {
+  const targetSeconds = GRANULARITY_SECONDS[target];
+  const offsets = timeZone === 'UTC' ? [0] : OFFSET_SAMPLES.map((t) => timeZoneOffset(t, timeZone) / 1000);
+
+  const candidates = NATIVE_GRANULARITIES.filter((granularity) => {
+    const seconds = GRANULARITY_SECONDS[granularity];
+    if (seconds > targetSeconds || candleCount(period, granularity) > MAX_CHART_CANDLES) return false;
+    if (targetSeconds < DAY_SECONDS) return targetSeconds % seconds === 0;
+    return DAY_SECONDS % seconds === 0 && offsets.every((offset) => offset % seconds === 0);
+  });
+  return candidates[candidates.length - 1] ?? null;
+}
+
+/** Whether the interval can cover the whole period in one OHLC request. */
+export function isGranularityAvailable(
+  period: TimePeriod,
+  granularity: CandleGranularity,
+  timeZone: string = 'UTC'
+): boolean {
+  return sourceGranularity(period, granularity, timeZone) !== null;
+}
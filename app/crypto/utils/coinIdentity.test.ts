@@ -0,0 +1,52 @@
+/**
+ * Tests for the coin identity registry.
+ *
+ * Runs against the real override file, so a broken entry in
+ * `config/coin-identities.json` fails here.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  COIN_IDENTITY_OVERRIDES,
+  coinbaseBaseOverrides,
+  fromCoinCapId,
+  registrySymbol,
+  toCoinCapId,
+} from './coinIdentity';
+
+describe('CoinCap IDs', () => {
+  it('maps overridden coins both ways', () => {
+    expect(toCoinCapId('ripple')).toBe('xrp');
+    expect(fromCoinCapId('xrp')).toBe('ripple');
+    expect(toCoinCapId('avalanche-2')).toBe('avalanche');
+    expect(fromCoinCapId('avalanche')).toBe('avalanche-2');
+  });
+
+  it('passes other IDs through unchanged', () => {
+    expect(toCoinCapId('solana')).toBe('solana');
+    expect(fromCoinCapId('solana')).toBe('solana');
+  });
+});
+
+describe('registry entries', () => {
+  it('knows symbols only for listed coins', () => {
+    expect(registrySymbol('binancecoin')).toBe('BNB');
+    expect(registrySymbol('solana')).toBeNull();
+  });
+
+  it('exposes pinned Coinbase base currencies', () => {
+    expect(coinbaseBaseOverrides()).toMatchObject({ bitcoin: 'BTC', 'avalanche-2': 'AVAX' });
+  });
+
+  it('keeps CoinCap IDs unique so reverse lookups are unambiguous', () => {
+    const coinCapIds = Object.values(COIN_IDENTITY_OVERRIDES).flatMap((entry) => entry.coincap ?? []);
+    expect(new Set(coinCapIds).size).toBe(coinCapIds.length);
+  });
+
+  it('uses lowercase slug keys and uppercase symbols', () => {
+    for (const [id, entry] of Object.entries(COIN_IDENTITY_OVERRIDES)) {
+      expect(id).toMatch(/^[a-z0-9][a-z0-9._-]*$/);
+      if (entry.symbol) expect(entry.symbol).toBe(entry.symbol.toUpperCase());
+    }
+  });
+});
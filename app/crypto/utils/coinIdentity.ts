@@ -0,0 +1,55 @@
+/**
+ * Coin identity registry
+ *
+ * CoinGecko IDs are the app's canonical coin keys.  Other upstreams name
+ * coins differently: CoinCap asset IDs drive the live price stream and
+ * Coinbase base currencies drive candles.  Most coins map automatically
+ * (CoinCap usually reuses the CoinGecko ID; Coinbase products are discovered
+ * by symbol), so `config/coin-identities.json` only lists the exceptions —
+ * adding a coin to streaming or candles is one entry there.
+ *
+ * Safe to import from client and server code.
+ */
+
+import overrides from '../config/coin-identities.json';
+
+export interface CoinIdentityOverride {
+  /** Ticker symbol, uppercase */
+  symbol?: string;
+  /** CoinCap asset ID, when it differs from the CoinGecko ID */
+  coincap?: string;
+  /** Coinbase base currency, when symbol matching cannot find it */
+  coinbase?: string;
+}
+
+export const COIN_IDENTITY_OVERRIDES: Readonly<Record<string, CoinIdentityOverride>> = overrides;
+
+const COINCAP_TO_COINGECKO: Record<string, string> = Object.fromEntries(
+  Object.entries(COIN_IDENTITY_OVERRIDES)
+    .filter(([, entry]) => entry.coincap)
+    .map(([id, entry]) => [entry.coincap, id])
+);
+
+/** CoinCap asset ID for a CoinGecko ID. */
+export function toCoinCapId(coinGeckoId: string): string {
+  return COIN_IDENTITY_OVERRIDES[coinGeckoId]?.coincap ?? coinGeckoId;
+}
+
+/** CoinGecko ID for a CoinCap asset ID. */
+export function fromCoinCapId(coinCapId: string): string {
+  return COINCAP_TO_COINGECKO[coinCapId] ?? coinCapId;
+}
+
+/** Symbol from the registry, or null when only the coin list knows it. */
+export function registrySymbol(coinGeckoId: string): string | null {
+  return COIN_IDENTITY_OVERRIDES[coinGeckoId]?.symbol ?? null;
+}
+
+/** CoinGecko ID → Coinbase base currency for coins pinned in the registry. */
+export function coinbaseBaseOverrides(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(COIN_IDENTITY_OVERRIDES)
+      .filter(([, entry]) => entry.coinbase)
+      .map(([id, entry]) => [id, entry.coinbase!.toUpperCase()])
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Tests for the currency registry, conversion and formatting.
+ *
+ * Formatters are called with the default 'en-US' locale unless a test is
+ * about locales.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENCIES,
+  CURRENCY_INFO,
+  convertPrices,
+  convertTicks,
+  currencyDecimals,
+  formatAxisPrice,
+  formatChartPrice,
+  formatCompact,
+  formatPrice,
+  fxRateFor,
+  isCurrency,
+} from './currency';
+
+const RATES = { usd: 1, eur: 0.9, gbp: 0.8, jpy: 150 };
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+describe('CURRENCY_INFO', () => {
+  it('offers fiat, crypto units and metals', () => {
+    expect(CURRENCIES).toEqual(expect.arrayContaining(['usd', 'eur', 'inr', 'btc', 'eth', 'sats', 'xau']));
+  });
+
+  it('gives every crypto unit its own symbol', () => {
+    const withoutSymbol = CURRENCIES.filter((code) => CURRENCY_INFO[code].kind === 'crypto' && !CURRENCY_INFO[code].symbol);
+    expect(withoutSymbol).toEqual([]);
+  });
+
+  it('formats every currency without throwing', () => {
+    for (const code of CURRENCIES) {
+      expect(formatPrice(1234.5, code)).toMatch(/1,23[45]/);
+    }
+  });
+});
+
+describe('isCurrency', () => {
+  it('accepts offered codes only', () => {
+    expect(isCurrency('sats')).toBe(true);
+    expect(isCurrency('doge')).toBe(false);
+    expect(isCurrency('toString')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+describe('fxRateFor', () => {
+  it('looks up the rate for the selected currency', () => {
+    expect(fxRateFor(RATES, 'jpy')).toBe(150);
+  });
+
+  it('needs no rate for USD', () => {
+    expect(fxRateFor(null, 'usd')).toBe(1);
+  });
+
+  it('returns null while rates are unknown or missing', () => {
+    expect(fxRateFor(null, 'eur')).toBeNull();
+    expect(fxRateFor(RATES, 'sats')).toBeNull();
+  });
+});
+
+describe('convertPrices', () => {
+  it('converts every price by the rate', () => {
+    expect(convertPrices({ bitcoin: 50_000, ethereum: 3_000 }, 0.9)).toEqual({ bitcoin: 45_000, ethereum: 2_700 });
+  });
+
+  it('returns USD prices untouched', () => {
+    const prices = { bitcoin: 50_000 };
+    expect(convertPrices(prices, 1)).toBe(prices);
+  });
+});
+
+describe('convertTicks', () => {
+  it('converts every tick price and keeps its time and source', () => {
+    expect(convertTicks({ bitcoin: [{ t: 1, price: 50_000, source: 'coincap' }] }, 0.9)).toEqual({
+      bitcoin: [{ t: 1, price: 45_000, source: 'coincap' }],
+    });
+  });
+
+  it('returns USD ticks untouched', () => {
+    const ticks = { bitcoin: [{ t: 1, price: 50_000, source: 'coincap' as const }] };
+    expect(convertTicks(ticks, 1)).toBe(ticks);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+describe('currencyDecimals', () => {
+  it('uses fiat minor units and the registry for crypto units', () => {
+    expect(currencyDecimals('usd')).toBe(2);
+    expect(currencyDecimals('jpy')).toBe(0);
+    expect(currencyDecimals('kwd')).toBe(3);
+    expect(currencyDecimals('btc')).toBe(4);
+    expect(currencyDecimals('sats')).toBe(0);
+  });
+});
+
+describe('formatPrice', () => {
+  it('uses the currency symbol and minor units', () => {
+    expect(formatPrice(50_000, 'usd')).toBe('$50,000.00');
+    expect(formatPrice(45_000.5, 'eur')).toBe('€45,000.50');
+    expect(formatPrice(40_000, 'gbp')).toBe('£40,000.00');
+    expect(formatPrice(7_500_000, 'jpy')).toBe('¥7,500,000');
+  });
+
+  it('places crypto unit symbols before or after the amount', () => {
+    expect(formatPrice(1, 'btc')).toBe('₿1.0000');
+    expect(formatPrice(18.25, 'eth')).toBe('Ξ18.2500');
+    expect(formatPrice(100_000_000, 'sats')).toBe('100,000,000 sats');
+  });
+
+  it('keeps four significant digits below one unit', () => {
+    expect(formatPrice(0.5, 'usd')).toBe('$0.50');
+    expect(formatPrice(0.00012345, 'eur')).toBe('€0.0001235');
+    expect(formatPrice(0.0000000123, 'btc')).toBe('₿0.0000000123');
+  });
+
+  it('follows the locale', () => {
+    // Intl separates the symbol with a no-break space
+    expect(formatPrice(1234.5, 'eur', 'de-DE')).toBe('1.234,50\u00a0€');
+  });
+});
+
+describe('formatCompact', () => {
+  it('abbreviates large amounts', () => {
+    expect(formatCompact(1.234e12, 'usd')).toBe('$1.23T');
+    expect(formatCompact(4.5e9, 'eur')).toBe('€4.5B');
+    expect(formatCompact(7.891e6, 'jpy')).toBe('¥7.89M');
+    expect(formatCompact(12_345_678, 'sats')).toBe('12.35M sats');
+  });
+
+  it('leaves amounts below a thousand as they are', () => {
+    expect(formatCompact(987.654, 'gbp')).toBe('£987.65');
+  });
+});
+
+describe('formatChartPrice', () => {
+  it('drops decimals from 1,000 up and trims them below', () => {
+    expect(formatChartPrice(7_512_345.67, 'jpy')).toBe('¥7,512,346');
+    expect(formatChartPrice(64_250.4, 'usd')).toBe('$64,250');
+    expect(formatChartPrice(1.5, 'gbp')).toBe('£1.5');
+    expect(formatChartPrice(0.000123, 'usd')).toBe('$0.000123');
+    expect(formatChartPrice(0.05234567, 'btc')).toBe('₿0.05235');
+  });
+});
+
+describe('formatAxisPrice', () => {
+  it('shortens thousands and trims small values', () => {
+    expect(formatAxisPrice(12_500, 'usd')).toBe('$12.5K');
+    expect(formatAxisPrice(250, 'eur')).toBe('€250');
+    expect(formatAxisPrice(0.0042, 'usd')).toBe('$0.0042');
+    expect(formatAxisPrice(2_500_000, 'sats')).toBe('2.5M sats');
+  });
+});
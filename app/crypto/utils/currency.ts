@@ -0,0 +1,199 @@
+/**
+ * Currency Utilities
+ *
+ * The registry of quote currencies (every CoinGecko `vs_currency`),
+ * conversion of USD-quoted live prices into the selected one, and the price
+ * formatting used across the table, cards, tooltips and chart axes.  Fiat
+ * goes through Intl's currency style, so symbols, placement and minor units
+ * follow the currency; crypto units Intl does not know (₿, Ξ, sats …) carry
+ * their own symbol and decimals.  Formatters take an optional locale and
+ * default to NEXT_PUBLIC_NUMBER_LOCALE, so server and browser render the
+ * same digits.
+ */
+
+import { config } from '../config/config';
+import type { Currency, FxRates } from '../types';
+import type { PriceTick } from '../realtime/types';
+
+export type CurrencyKind = 'fiat' | 'crypto' | 'commodity';
+
+export interface CurrencyInfo {
+  name: string;
+  kind: CurrencyKind;
+  /** Symbol for units Intl cannot format; fiat uses Intl's own */
+  symbol?: string;
+  /** Whether `symbol` follows the amount (1,234 sats) */
+  symbolAfter?: boolean;
+  /** Fraction digits from one unit up; fiat defaults to its minor units */
+  decimals?: number;
+}
+
+export const CURRENCY_INFO: Record<Currency, CurrencyInfo> = {
+  usd: { name: 'US Dollar', kind: 'fiat' },
+  eur: { name: 'Euro', kind: 'fiat' },
+  gbp: { name: 'British Pound', kind: 'fiat' },
+  jpy: { name: 'Japanese Yen', kind: 'fiat' },
+  aed: { name: 'UAE Dirham', kind: 'fiat' },
+  ars: { name: 'Argentine Peso', kind: 'fiat' },
+  aud: { name: 'Australian Dollar', kind: 'fiat' },
+  bdt: { name: 'Bangladeshi Taka', kind: 'fiat' },
+  bhd: { name: 'Bahraini Dinar', kind: 'fiat' },
+  bmd: { name: 'Bermudian Dollar', kind: 'fiat' },
+  brl: { name: 'Brazilian Real', kind: 'fiat' },
+  cad: { name: 'Canadian Dollar', kind: 'fiat' },
+  chf: { name: 'Swiss Franc', kind: 'fiat' },
+  clp: { name: 'Chilean Peso', kind: 'fiat' },
+  cny: { name: 'Chinese Yuan', kind: 'fiat' },
+  czk: { name: 'Czech Koruna', kind: 'fiat' },
+  dkk: { name: 'Danish Krone', kind: 'fiat' },
+  gel: { name: 'Georgian Lari', kind: 'fiat' },
+  hkd: { name: 'Hong Kong Dollar', kind: 'fiat' },
+  huf: { name: 'Hungarian Forint', kind: 'fiat' },
+  idr: { name: 'Indonesian Rupiah', kind: 'fiat' },
+  ils: { name: 'Israeli New Shekel', kind: 'fiat' },
+  inr: { name: 'Indian Rupee', kind: 'fiat' },
+  krw: { name: 'South Korean Won', kind: 'fiat' },
+  kwd: { name: 'Kuwaiti Dinar', kind: 'fiat' },
+  lkr: { name: 'Sri Lankan Rupee', kind: 'fiat' },
+  mmk: { name: 'Myanmar Kyat', kind: 'fiat' },
+  mxn: { name: 'Mexican Peso', kind: 'fiat' },
+  myr: { name: 'Malaysian Ringgit', kind: 'fiat' },
+  ngn: { name: 'Nigerian Naira', kind: 'fiat' },
+  nok: { name: 'Norwegian Krone', kind: 'fiat' },
+  nzd: { name: 'New Zealand Dollar', kind: 'fiat' },
+  php: { name: 'Philippine Peso', kind: 'fiat' },
+  pkr: { name: 'Pakistani Rupee', kind: 'fiat' },
+  pln: { name: 'Polish Złoty', kind: 'fiat' },
+  rub: { name: 'Russian Ruble', kind: 'fiat' },
+  sar: { name: 'Saudi Riyal', kind: 'fiat' },
+  sek: { name: 'Swedish Krona', kind: 'fiat' },
+  sgd: { name: 'Singapore Dollar', kind: 'fiat' },
+  thb: { name: 'Thai Baht', kind: 'fiat' },
+  try: { name: 'Turkish Lira', kind: 'fiat' },
+  twd: { name: 'New Taiwan Dollar', kind: 'fiat' },
+  uah: { name: 'Ukrainian Hryvnia', kind: 'fiat' },
+  vef: { name: 'Venezuelan Bolívar', kind: 'fiat' },
+  vnd: { name: 'Vietnamese Dong', kind: 'fiat' },
+  zar: { name: 'South African Rand', kind: 'fiat' },
+  xdr: { name: 'IMF Special Drawing Rights', kind: 'fiat' },
+  btc: { name: 'Bitcoin', kind: 'crypto', symbol: '₿', decimals: 4 },
+  eth: { name: 'Ether', kind: 'crypto', symbol: 'Ξ', decimals: 4 },
+  ltc: { name: 'Litecoin', kind: 'crypto', symbol: 'LTC', symbolAfter: true, decimals: 4 },
+  bch: { name: 'Bitcoin Cash', kind: 'crypto', symbol: 'BCH', symbolAfter: true, decimals: 4 },
+  bnb: { name: 'BNB', kind: 'crypto', symbol: 'BNB', symbolAfter: true, decimals: 4 },
+  eos: { name: 'EOS', kind: 'crypto', symbol: 'EOS', symbolAfter: true, decimals: 2 },
+  xrp: { name: 'XRP', kind: 'crypto', symbol: 'XRP', symbolAfter: true, decimals: 2 },
+  xlm: { name: 'Stellar Lumens', kind: 'crypto', symbol: 'XLM', symbolAfter: true, decimals: 2 },
+  link: { name: 'Chainlink', kind: 'crypto', symbol: 'LINK', symbolAfter: true, decimals: 2 },
+  dot: { name: 'Polkadot', kind: 'crypto', symbol: 'DOT', symbolAfter: true, decimals: 2 },
+  yfi: { name: 'yearn.finance', kind: 'crypto', symbol: 'YFI', symbolAfter: true, decimals: 6 },
+  bits: { name: 'Bits (μBTC)', kind: 'crypto', symbol: 'bits', symbolAfter: true, decimals: 2 },
+  sats: { name: 'Satoshis', kind: 'crypto', symbol: 'sats', symbolAfter: true, decimals: 0 },
+  xag: { name: 'Silver (troy ounce)', kind: 'commodity' },
+  xau: { name: 'Gold (troy ounce)', kind: 'commodity' },
+};
+
+export const CURRENCIES = Object.keys(CURRENCY_INFO) as Currency[];
+
+export function isCurrency(value: string): value is Currency {
+  return Object.hasOwn(CURRENCY_INFO, value);
+}
+
+/**
+ * Units of `currency` per 1 USD, or null while the rates are unknown (or
+ * the upstream has none for it).  USD never needs a rate.
+ */
+export function fxRateFor(rates: FxRates | null, currency: Currency): number | null {
+  if (currency === 'usd') return 1;
+  return rates?.[currency] ?? null;
+}
+
+/** Multiply every price by `rate` */
+export function convertPrices(prices: Record<string, number>, rate: number): Record<string, number> {
+  if (rate === 1) return prices;
+  return Object.fromEntries(Object.entries(prices).map(([id, price]) => [id, price * rate]));
+}
+
+/** Multiply the price of every coin's ticks by `rate` */
+export function convertTicks(ticks: Record<string, PriceTick[]>, rate: number): Record<string, PriceTick[]> {
+  if (rate === 1) return ticks;
+  return Object.fromEntries(
+    Object.entries(ticks).map(([id, list]) => [id, list.map((tick) => ({ ...tick, price: tick.price * rate }))])
+  );
+}
+
+type DigitOptions = Pick<
+  Intl.NumberFormatOptions,
+  'notation' | 'minimumFractionDigits' | 'maximumFractionDigits' | 'minimumSignificantDigits' | 'maximumSignificantDigits'
+>;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(currency: Currency, digits: DigitOptions, locale: string): Intl.NumberFormat {
+  const key = `${locale}:${currency}:${JSON.stringify(digits)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = CURRENCY_INFO[currency].symbol
+      ? new Intl.NumberFormat(locale, digits)
+      : new Intl.NumberFormat(locale, { style: 'currency', currency: currency.toUpperCase(), ...digits });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/** Fraction digits for amounts of one unit or more */
+export function currencyDecimals(currency: Currency, locale: string = config.numberLocale): number {
+  return CURRENCY_INFO[currency].decimals ?? numberFormat(currency, {}, locale).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Format `value` in `currency` with the given digit options.  The building
+ * block for the helpers below; prefer those in components.
+ */
+export function formatAmount(
+  value: number,
+  currency: Currency,
+  digits: DigitOptions = {},
+  locale: string = config.numberLocale
+): string {
+  const { symbol, symbolAfter } = CURRENCY_INFO[currency];
+  if (!symbol) return numberFormat(currency, digits, locale).format(value);
+  const number = numberFormat(currency, digits, locale).format(Math.abs(value));
+  const sign = value < 0 ? '-' : '';
+  return symbolAfter ? `${sign}${number} ${symbol}` : `${sign}${symbol}${number}`;
+}
+
+/**
+ * A coin price: the currency's decimals from one unit up (e.g. $1,234.50,
+ * ¥185,000, ₿1.0000), and up to four significant digits below, so small
+ * prices and prices quoted in BTC never round to zero.
+ */
+export function formatPrice(price: number, currency: Currency, locale: string = config.numberLocale): string {
+  if (Math.abs(price) >= 1 || price === 0) {
+    const decimals = currencyDecimals(currency, locale);
+    return formatAmount(price, currency, { minimumFractionDigits: decimals, maximumFractionDigits: decimals }, locale);
+  }
+  return formatAmount(price, currency, { minimumSignificantDigits: 2, maximumSignificantDigits: 4 }, locale);
+}
+
+/** Market caps and volumes in compact notation: $1.23T, €4.5B, 12.35M sats */
+export function formatCompact(value: number, currency: Currency, locale: string = config.numberLocale): string {
+  return formatAmount(value, currency, { notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 2 }, locale);
+}
+
+/** Chart labels: whole units from 1,000, up to 2 decimals from 1, four significant digits below */
+export function formatChartPrice(value: number, currency: Currency, locale: string = config.numberLocale): string {
+  if (Math.abs(value) >= 1000) return formatAmount(value, currency, { minimumFractionDigits: 0, maximumFractionDigits: 0 }, locale);
+  if (Math.abs(value) >= 1 || value === 0) {
+    return formatAmount(value, currency, { minimumFractionDigits: 0, maximumFractionDigits: 2 }, locale);
+  }
+  return formatAmount(value, currency, { maximumSignificantDigits: 4 }, locale);
+}
+
+/** Chart axis ticks: thousands and up in compact notation ($12.5K), smaller values as `formatChartPrice` */
+export function formatAxisPrice(value: number, currency: Currency, locale: string = config.numberLocale): string {
+  if (Math.abs(value) >= 1000) {
+    return formatAmount(value, currency, { notation: 'compact', minimumFractionDigits: 1, maximumFractionDigits: 1 }, locale);
+  }
+  return formatChartPrice(value, currency, locale);
+}
@@ -9,8 +9,10 @@ import {
   evaluateFreshness,
   detectPriceDrift,
   detectTimestampDrift,
+  evaluateFeedHealth,
   FRESHNESS_THRESHOLDS,
 } from './dataFreshness';
+import type { FeedHealth } from '../realtime/feedHealth';
 
 describe('evaluateFreshness', () => {
   it('marks data as fresh when within threshold', () => {
@@ -40,6 +42,11 @@ describe('detectPriceDrift', () => {
     expect(result.acceptable).toBe(false);
     expect(result.driftPercent).toBeGreaterThan(1);
   });
+
+  it('accepts a wider band when given one', () => {
+    expect(detectPriceDrift(50000, 52000, 5).acceptable).toBe(true);
+    expect(detectPriceDrift(50000, 56000, 5).acceptable).toBe(false);
+  });
 });
 
 describe('detectTimestampDrift', () => {
@@ -55,3 +62,60 @@ describe('detectTimestampDrift', () => {
     expect(result.acceptable).toBe(false);
   });
 });
+
+describe('evaluateFeedHealth', () => {
+  const now = 1_700_000_000_000;
+  const health = (overrides: Partial<FeedHealth> = {}): FeedHealth => ({
+    connected: true,
+    transport: 'websocket',
+    connectedAt: now - 600_000,
+    lastFrameAt: now - 1_000,
+    lastFrameByCoin: { bitcoin: now - 1_000 },
+    messageRate: 60,
+    reconnects: 0,
+    latencyMs: null,
+    gaps: 0,
+    longestGapMs: 0,
+    sampledAt: now,
+    ...overrides,
+  });
+
+  it('is live while frames keep arriving', () => {
+    expect(evaluateFeedHealth(health(), now)).toEqual({ status: 'live', reasons: [], staleCoins: [], silentMs: 1_000 });
+  });
+
+  it('is offline when disconnected', () => {
+    expect(evaluateFeedHealth(health({ connected: false }), now).status).toBe('offline');
+  });
+
+  it('degrades, then goes stale, as the open feed stays silent', () => {
+    const quiet = evaluateFeedHealth(health({ lastFrameAt: now - FRESHNESS_THRESHOLDS.FEED_QUIET - 1_000 }), now);
+    expect(quiet.status).toBe('degraded');
+    expect(quiet.reasons[0]).toContain('No frames for 21s');
+
+    const stale = evaluateFeedHealth(health({ lastFrameAt: now - 90_000 }), now);
+    expect(stale.status).toBe('stale');
+    expect(stale.reasons[0]).toContain('1m 30s');
+  });
+
+  it('counts silence from the connection opening before the first frame', () => {
+    const result = evaluateFeedHealth(health({ lastFrameAt: null, lastFrameByCoin: {}, connectedAt: now - 120_000 }), now);
+    expect(result.status).toBe('stale');
+    expect(result.silentMs).toBeNull();
+  });
+
+  it('degrades when latency exceeds the threshold', () => {
+    const result = evaluateFeedHealth(health({ latencyMs: FRESHNESS_THRESHOLDS.FEED_LATENCY + 500 }), now);
+    expect(result.status).toBe('degraded');
+    expect(result.reasons[0]).toContain('Latency');
+  });
+
+  it('lists coins without a recent tick, oldest first', () => {
+    const result = evaluateFeedHealth(health({
+      lastFrameByCoin: { bitcoin: now - 1_000, dogecoin: now - 400_000, litecoin: now - 900_000 },
+    }), now);
+    expect(result.status).toBe('live');
+    expect(result.staleCoins).toEqual(['litecoin', 'dogecoin']);
+    expect(result.reasons).toEqual(['2 coins without a tick for 5m 0s']);
+  });
+});
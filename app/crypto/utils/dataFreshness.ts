@@ -1,9 +1,12 @@
 /**
  * Data Freshness Utilities
  *
- * Helpers to detect stale data and drift between the overview list and the chart.
+ * Helpers to detect stale data and drift between the overview list and the chart,
+ * and to grade the health of the live price feed.
  */
 
+import type { FeedHealth } from '../realtime/feedHealth';
+
 export interface FreshnessInfo {
   isFresh: boolean;
   ageMs: number;
@@ -17,8 +20,18 @@ export const FRESHNESS_THRESHOLDS = {
   COINS_LIST: 60_000,      // list prices should not be older than 60 s
   CHART_DATA: 300_000,     // historical chart can be up to 5 min
   MAX_DRIFT: 120_000,      // max acceptable drift between list price and chart latest point
+  FEED_QUIET: 20_000,      // live feed silent this long is degraded (polling ticks every 15 s); longer pauses count as gaps
+  FEED_STALE: 60_000,      // live feed silent this long is stale even though the connection is open
+  FEED_LATENCY: 2_000,     // estimated upstream → tab latency above this is degraded
+  COIN_STALE: 300_000,     // a coin without a tick for 5 min is listed as stale
 };
 
+/** Formats a duration as `42s` or `3m 5s` */
+export function formatAge(ms: number): string {
+  const sec = Math.round(ms / 1000);
+  return sec < 60 ? `${sec}s` : `${Math.floor(sec / 60)}m ${sec % 60}s`;
+}
+
 /**
  * Evaluates how fresh a data payload is.
  * @param fetchedAt - epoch ms when the data was retrieved from the upstream API
@@ -29,9 +42,7 @@ export function evaluateFreshness(fetchedAt: number, thresholdMs: number): Fresh
   const ageMs = now - fetchedAt;
   const ageSec = Math.round(ageMs / 1000);
   const isFresh = ageMs <= thresholdMs;
-  const ageFormatted = ageSec < 60
-    ? `${ageSec}s`
-    : `${Math.floor(ageSec / 60)}m ${ageSec % 60}s`;
+  const ageFormatted = formatAge(ageMs);
 
   return {
     isFresh,
@@ -44,15 +55,17 @@ export function evaluateFreshness(fetchedAt: number, thresholdMs: number): Fresh
 
 /**
  * Detects drift between the list price and the most recent chart price point.
+ * @param maxPercent - widest acceptable drift; 1% allows for crypto volatility
+ *   between two fetches, streamed ticks use wider bands (see realtime/tickSanitizer.ts)
  */
 export function detectPriceDrift(
   listPrice: number,
-  chartLatestPrice: number
+  chartLatestPrice: number,
+  maxPercent: number = 1
 ): { driftPercent: number; acceptable: boolean } {
   if (listPrice === 0) return { driftPercent: 0, acceptable: true };
   const driftPercent = Math.abs((listPrice - chartLatestPrice) / listPrice) * 100;
-  // Allow up to 1% drift (crypto volatility)
-  return { driftPercent, acceptable: driftPercent <= 1 };
+  return { driftPercent, acceptable: driftPercent <= maxPercent };
 }
 
 /**
@@ -65,3 +78,57 @@ export function detectTimestampDrift(
   const driftMs = Math.abs(listFetchedAt - chartLastTimestamp);
   return { driftMs, acceptable: driftMs <= FRESHNESS_THRESHOLDS.MAX_DRIFT };
 }
+
+export type FeedStatus = 'live' | 'degraded' | 'stale' | 'offline';
+
+export interface FeedHealthInfo {
+  status: FeedStatus;
+  /** Why the feed is not live, most serious first */
+  reasons: string[];
+  /** Coins whose last tick is older than `COIN_STALE`, oldest first */
+  staleCoins: string[];
+  /** Time since the last frame (ms); null before the first one */
+  silentMs: number | null;
+}
+
+/**
+ * Grades a live feed snapshot.  An open connection is only "live" while
+ * frames keep arriving: silence beyond `FEED_QUIET` or latency beyond
+ * `FEED_LATENCY` is degraded, and silence beyond `FEED_STALE` is stale.
+ */
+export function evaluateFeedHealth(
+  health: FeedHealth,
+  now: number = Date.now(),
+  thresholds: typeof FRESHNESS_THRESHOLDS = FRESHNESS_THRESHOLDS
+): FeedHealthInfo {
+  const since = health.lastFrameAt ?? health.connectedAt;
+  const silentMs = health.lastFrameAt === null ? null : Math.max(0, now - health.lastFrameAt);
+  const staleCoins = Object.entries(health.lastFrameByCoin)
+    .filter(([, at]) => now - at > thresholds.COIN_STALE)
+    .sort(([, a], [, b]) => a - b)
+    .map(([coinId]) => coinId);
+
+  if (!health.connected) {
+    return { status: 'offline', reasons: ['Live feed disconnected'], staleCoins, silentMs };
+  }
+
+  let status: FeedStatus = 'live';
+  const reasons: string[] = [];
+  const silence = since === null ? 0 : Math.max(0, now - since);
+  if (silence > thresholds.FEED_STALE) {
+    status = 'stale';
+    reasons.push(`No frames for ${formatAge(silence)} (threshold ${thresholds.FEED_STALE / 1000}s)`);
+  } else if (silence > thresholds.FEED_QUIET) {
+    status = 'degraded';
+    reasons.push(`No frames for ${formatAge(silence)}`);
+  }
+  if (health.latencyMs !== null && health.latencyMs > thresholds.FEED_LATENCY) {
+    if (status === 'live') status = 'degraded';
+    reasons.push(`Latency ${Math.round(health.latencyMs)}ms (threshold ${thresholds.FEED_LATENCY}ms)`);
+  }
+  if (staleCoins.length > 0) {
+    reasons.push(`${staleCoins.length} coin${staleCoins.length === 1 ? '' : 's'} without a tick for ${formatAge(thresholds.COIN_STALE)}`);
+  }
+
+  return { status, reasons, staleCoins, silentMs };
+}
@@ -7,6 +7,7 @@
 
 import { describe, expect, it } from 'vitest';
 import {
+  calculateRSI,
   calculateSMA,
   calculateEMA,
   calculateMACD,
@@ -227,3 +228,45 @@ describe('calculateBollingerBands', () => {
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// calculateRSI
+// ---------------------------------------------------------------------------
+
+describe('calculateRSI', () => {
+  it('returns an empty array when there are not enough prices', () => {
+    expect(calculateRSI(ascendingSeries(1, 14), 14)).toEqual([]);
+  });
+
+  it('fills the first `period` positions with null', () => {
+    const result = calculateRSI(ascendingSeries(1, 20), 14);
+    expect(result).toHaveLength(20);
+    expect(result.slice(0, 14).every((v) => v === null)).toBe(true);
+    expect(result[14]).not.toBeNull();
+  });
+
+  it('is 100 for a series that only rises', () => {
+    const result = calculateRSI(ascendingSeries(1, 20), 14);
+    expect(result.slice(14).every((v) => v === 100)).toBe(true);
+  });
+
+  it('is 0 for a series that only falls', () => {
+    const falling = ascendingSeries(1, 20).reverse();
+    expect(calculateRSI(falling, 14).slice(14).every((v) => v === 0)).toBe(true);
+  });
+
+  it('is 50 when gains and losses balance', () => {
+    const zigzag = Array.from({ length: 21 }, (_, i) => (i % 2 === 0 ? 100 : 101));
+    expect(calculateRSI(zigzag, 4)[4]).toBeCloseTo(50);
+  });
+
+  it('stays within 0-100', () => {
+    const noisy = Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i) * 10 + i * 0.5);
+    calculateRSI(noisy, 14)
+      .filter((v): v is number => v !== null)
+      .forEach((v) => {
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThanOrEqual(100);
+      });
+  });
+});
@@ -2,6 +2,7 @@
  * Technical Indicator Calculation Functions
  * 
  * Based on industry-standard formulas from Investopedia:
+ * - RSI: https://www.investopedia.com/terms/r/rsi.asp
  * - SMA: https://www.investopedia.com/terms/s/sma.asp
  * - MACD: https://www.investopedia.com/terms/m/macd.asp
  * - Bollinger Bands: https://www.investopedia.com/terms/b/bollingerbands.asp
@@ -11,6 +12,7 @@ import type {
   TimePeriod, 
   MACDData, 
   BollingerBandsData,
+  RSIConfigMap,
   SMAConfigMap,
   MACDConfigMap,
   BollingerConfigMap,
@@ -21,6 +23,52 @@ import type {
 // CONFIGURATION
 // ============================================================================
 
+/**
+ * RSI (Relative Strength Index) Configuration
+ * 
+ * Based on J. Welles Wilder Jr.'s original work and modern trading practices:
+ * - Standard period: 14 (balanced response, suitable for swing trading)
+ * - Shorter periods (5-9): More sensitive, captures quick momentum shifts, more noise
+ * - Longer periods (21-30): Smoother signals, better for identifying major trends
+ * 
+ * Overbought/Oversold Levels:
+ * - Above 70: Overbought - potential selling opportunity or strong bullish momentum
+ * - Below 30: Oversold - potential buying opportunity or strong bearish momentum
+ * - 50 is neutral (bullish momentum above, bearish below)
+ */
+export const RSI_CONFIG: RSIConfigMap = {
+  '1': {
+    period: 9,
+    description: 'RSI(9) - Shorter period for intraday analysis. More responsive to price changes, ideal for capturing quick momentum shifts in 24-hour data.',
+    rationale: 'With hourly data points over 24 hours, a 9-period RSI provides sensitivity to short-term momentum while reducing noise compared to even shorter periods.'
+  },
+  '7': {
+    period: 14,
+    description: 'RSI(14) - Standard period recommended by J. Welles Wilder. Balanced response suitable for weekly swing trading analysis.',
+    rationale: 'The default 14-period setting provides a good balance between sensitivity and reliability for week-long price movements.'
+  },
+  '30': {
+    period: 14,
+    description: 'RSI(14) - Standard period for monthly analysis. Captures medium-term momentum trends effectively.',
+    rationale: 'For 30-day analysis, the standard 14-period RSI remains effective as it balances responsiveness with signal reliability.'
+  },
+  '365': {
+    period: 21,
+    description: 'RSI(21) - Extended period for long-term trend analysis. Smoother signals that filter out short-term noise.',
+    rationale: 'Longer periods reduce false signals and better identify major trend reversals in yearly data, as recommended for long-term investors.'
+  },
+  max: {
+    period: 21,
+    description: 'RSI(21) - Extended period for multi-year analysis on daily data. Highlights major cycle tops and bottoms.',
+    rationale: 'Across the full price history the longer period keeps the oscillator focused on cycle-level momentum rather than daily noise.'
+  },
+  default: {
+    period: 14,
+    description: 'RSI(14) - Standard Relative Strength Index period.',
+    rationale: 'The industry-standard 14-period RSI as originally designed by J. Welles Wilder Jr.'
+  }
+};
+
 /**
  * SMA Configuration per timeframe
  * Short SMA for quick trends, Long SMA for major trends
@@ -46,6 +94,11 @@ export const SMA_CONFIG: SMAConfigMap = {
     longPeriod: 200,
     description: 'SMA(50/200) - Golden/Death Cross analysis for long-term trends',
   },
+  max: {
+    shortPeriod: 50,
+    longPeriod: 200,
+    description: 'SMA(50/200) - Golden/Death Cross analysis across full history',
+  },
 };
 
 /**
@@ -77,6 +130,12 @@ export const MACD_CONFIG: MACDConfigMap = {
     signalPeriod: 9,
     description: 'MACD(12/26/9) - Standard settings',
   },
+  max: {
+    fastPeriod: 12,
+    slowPeriod: 26,
+    signalPeriod: 9,
+    description: 'MACD(12/26/9) - Standard settings',
+  },
 };
 
 /**
@@ -104,9 +163,25 @@ export const BOLLINGER_CONFIG: BollingerConfigMap = {
     stdDev: 2,
     description: 'BB(20,2) - Standard settings',
   },
+  max: {
+    period: 20,
+    stdDev: 2,
+    description: 'BB(20,2) - Standard settings',
+  },
 };
 
 // Educational info for tooltips
+export const RSI_INFO: IndicatorInfo = {
+  title: 'Relative Strength Index (RSI)',
+  description: 'A momentum oscillator measuring the speed and magnitude of price changes to identify overbought or oversold conditions.',
+  levels: {
+    overbought: 'RSI > 70: Asset may be overbought. In uptrends, this can indicate strong momentum rather than an immediate reversal.',
+    oversold: 'RSI < 30: Asset may be oversold. In downtrends, prices can remain oversold for extended periods.',
+    neutral: 'RSI = 50: Neutral point. Above 50 suggests bullish momentum, below 50 suggests bearish momentum.'
+  },
+  source: 'https://www.investopedia.com/terms/r/rsi.asp'
+};
+
 export const SMA_INFO: IndicatorInfo = {
   title: 'Simple Moving Average (SMA)',
   description: 'Average price over a specified period. Short SMA crossing above Long SMA = Golden Cross (bullish). Opposite = Death Cross (bearish).',
@@ -129,6 +204,69 @@ export const BOLLINGER_INFO: IndicatorInfo = {
 // CALCULATION FUNCTIONS
 // ============================================================================
 
+/**
+ * Calculate RSI (Relative Strength Index) with Wilder's smoothing
+ * @param data - Array of price values
+ * @param period - Number of periods (default: 14)
+ * @returns Array of RSI values (null for insufficient data points); empty
+ *   when there are not enough prices for a single value
+ */
+export function calculateRSI(data: number[], period: number = 14): (number | null)[] {
+  if (data.length < period + 1) return [];
+  
+  const rsiValues: (number | null)[] = [];
+  const changes: number[] = [];
+  
+  // Calculate price changes
+  for (let i = 1; i < data.length; i++) {
+    changes.push(data[i] - data[i - 1]);
+  }
+  
+  // Calculate initial averages
+  let avgGain = 0;
+  let avgLoss = 0;
+  
+  for (let i = 0; i < period; i++) {
+    if (changes[i] > 0) avgGain += changes[i];
+    else avgLoss += Math.abs(changes[i]);
+  }
+  
+  avgGain /= period;
+  avgLoss /= period;
+  
+  // Fill initial values with null
+  for (let i = 0; i < period; i++) {
+    rsiValues.push(null);
+  }
+  
+  // Calculate first RSI
+  if (avgLoss === 0) {
+    rsiValues.push(100);
+  } else {
+    const rs = avgGain / avgLoss;
+    rsiValues.push(100 - (100 / (1 + rs)));
+  }
+  
+  // Calculate subsequent RSI values using smoothed averages
+  for (let i = period; i < changes.length; i++) {
+    const change = changes[i];
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? Math.abs(change) : 0;
+    
+    avgGain = (avgGain * (period - 1) + gain) / period;
+    avgLoss = (avgLoss * (period - 1) + loss) / period;
+    
+    if (avgLoss === 0) {
+      rsiValues.push(100);
+    } else {
+      const rs = avgGain / avgLoss;
+      rsiValues.push(100 - (100 / (1 + rs)));
+    }
+  }
+  
+  return rsiValues;
+}
+
 /**
  * Calculate Simple Moving Average (SMA)
  * @param data - Array of price values
@@ -286,6 +424,13 @@ export function calculateBollingerBands(
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Get RSI configuration for a specific time period
+ */
+export function getRSIConfig(timePeriod: TimePeriod) {
+  return RSI_CONFIG[timePeriod] || RSI_CONFIG.default;
+}
+
 /**
  * Get SMA configuration for a specific time period
  */
@@ -318,15 +463,18 @@ export function hasEnoughData(dataLength: number, requiredPeriod: number): boole
  * Get minimum data points required for each indicator per timeframe
  */
 export function getMinDataPoints(timePeriod: TimePeriod): {
+  rsi: number;
   sma: number;
   macd: number;
   bollinger: number;
 } {
+  const rsiConfig = getRSIConfig(timePeriod);
   const smaConfig = getSMAConfig(timePeriod);
   const macdConfig = getMACDConfig(timePeriod);
   const bollingerConfig = getBollingerConfig(timePeriod);
   
   return {
+    rsi: rsiConfig.period + 1,
     sma: smaConfig.longPeriod,
     macd: macdConfig.slowPeriod + macdConfig.signalPeriod,
     bollinger: bollingerConfig.period,
@@ -0,0 +1,149 @@
+/**
+ * Tests for candle resampling.
+ *
+ * Fixtures are small hand-checked candle series; expected buckets were
+ * worked out by hand, including a daylight-saving day in New York.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { bucketStart, resampleCandles, resampleOHLC } from './resampleCandles';
+import type { OHLCCandle } from '../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 3600 * 1000;
+
+function at(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+function candle(iso: string, open: number, high: number, low: number, close: number, volume?: number): OHLCCandle {
+  return { timestamp: at(iso), open, high, low, close, ...(volume !== undefined ? { volume } : {}) };
+}
+
+// Eight hourly candles from midnight UTC
+const HOURLY = [
+  candle('2024-01-01T00:00:00Z', 100, 105, 99, 104, 10),
+  candle('2024-01-01T01:00:00Z', 104, 110, 103, 108, 12),
+  candle('2024-01-01T02:00:00Z', 108, 109, 95, 96, 30),
+  candle('2024-01-01T03:00:00Z', 96, 101, 94, 100, 8),
+  candle('2024-01-01T04:00:00Z', 100, 102, 98, 101, 5),
+  candle('2024-01-01T05:00:00Z', 101, 120, 100, 118, 40),
+  candle('2024-01-01T06:00:00Z', 118, 119, 111, 112, 20),
+  candle('2024-01-01T07:00:00Z', 112, 115, 97, 99, 15),
+];
+
+/** `count` flat hourly candles from `startIso`, priced by index. */
+function hourlySeries(startIso: string, count: number): OHLCCandle[] {
+  return Array.from({ length: count }, (_, i) => {
+    const timestamp = at(startIso) + i * HOUR_MS;
+    return { timestamp, open: i, high: i + 0.5, low: i - 0.5, close: i + 0.25, volume: 1 };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// bucketStart
+// ---------------------------------------------------------------------------
+
+describe('bucketStart', () => {
+  it('aligns sub-day buckets to UTC', () => {
+    expect(bucketStart(at('2024-01-01T07:30:00Z'), '4h')).toBe(at('2024-01-01T04:00:00Z'));
+    expect(bucketStart(at('2024-01-01T07:30:00Z'), '4h', 'America/New_York')).toBe(at('2024-01-01T04:00:00Z'));
+  });
+
+  it('starts daily buckets at local midnight', () => {
+    expect(bucketStart(at('2024-01-02T03:00:00Z'), '1d')).toBe(at('2024-01-02T00:00:00Z'));
+    // 03:00 UTC is 22:00 on the 1st in New York (UTC-5)
+    expect(bucketStart(at('2024-01-02T03:00:00Z'), '1d', 'America/New_York')).toBe(at('2024-01-01T05:00:00Z'));
+    expect(bucketStart(at('2024-01-02T03:00:00Z'), '1d', 'Asia/Kolkata')).toBe(at('2024-01-01T18:30:00Z'));
+  });
+
+  it('follows daylight-saving changes', () => {
+    // New York springs forward on 2024-03-10: midnight is UTC-5 before, UTC-4 after
+    expect(bucketStart(at('2024-03-10T12:00:00Z'), '1d', 'America/New_York')).toBe(at('2024-03-10T05:00:00Z'));
+    expect(bucketStart(at('2024-03-11T12:00:00Z'), '1d', 'America/New_York')).toBe(at('2024-03-11T04:00:00Z'));
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(bucketStart(at('2024-01-03T12:00:00Z'), '1w')).toBe(at('2024-01-01T00:00:00Z'));
+    expect(bucketStart(at('2024-01-07T23:59:00Z'), '1w')).toBe(at('2024-01-01T00:00:00Z'));
+    expect(bucketStart(at('2024-01-08T00:00:00Z'), '1w')).toBe(at('2024-01-08T00:00:00Z'));
+  });
+
+  it('starts months on the 1st in the given zone', () => {
+    expect(bucketStart(at('2024-02-29T12:00:00Z'), '1M')).toBe(at('2024-02-01T00:00:00Z'));
+    // 20:00 UTC on Jan 31st is already Feb 1st in Tokyo (UTC+9)
+    expect(bucketStart(at('2024-01-31T20:00:00Z'), '1M', 'Asia/Tokyo')).toBe(at('2024-01-31T15:00:00Z'));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resampleCandles
+// ---------------------------------------------------------------------------
+
+describe('resampleCandles', () => {
+  it('aggregates open, high, low, close and volume per bucket', () => {
+    expect(resampleCandles(HOURLY, '4h')).toEqual([
+      candle('2024-01-01T00:00:00Z', 100, 110, 94, 100, 60),
+      candle('2024-01-01T04:00:00Z', 100, 120, 97, 99, 80),
+    ]);
+  });
+
+  it('does not depend on input order', () => {
+    expect(resampleCandles([...HOURLY].reverse(), '4h')).toEqual(resampleCandles(HOURLY, '4h'));
+  });
+
+  it('leaves volume out when the source has none', () => {
+    const withoutVolume = HOURLY.map(({ volume: _volume, ...rest }) => rest);
+    expect(resampleCandles(withoutVolume, '1d')[0]).not.toHaveProperty('volume');
+  });
+
+  it('splits days at local midnight', () => {
+    const days = resampleCandles(hourlySeries('2024-01-01T00:00:00Z', 48), '1d', 'America/New_York');
+
+    expect(days.map((d) => d.timestamp)).toEqual([
+      at('2023-12-31T05:00:00Z'),
+      at('2024-01-01T05:00:00Z'),
+      at('2024-01-02T05:00:00Z'),
+    ]);
+    expect(days.map((d) => d.volume)).toEqual([5, 24, 19]);
+    expect(days[1]).toMatchObject({ open: 5, close: 28.25, high: 28.5, low: 4.5 });
+  });
+
+  it('gives the daylight-saving day 23 hourly candles', () => {
+    const days = resampleCandles(hourlySeries('2024-03-10T05:00:00Z', 47), '1d', 'America/New_York');
+    expect(days.map((d) => d.volume)).toEqual([23, 24]);
+  });
+
+  it('builds weekly and monthly candles from daily ones', () => {
+    const daily = Array.from({ length: 60 }, (_, i) => ({
+      timestamp: at('2024-01-01T00:00:00Z') + i * 24 * HOUR_MS,
+      open: i,
+      high: i + 1,
+      low: i - 1,
+      close: i,
+    }));
+
+    const weeks = resampleCandles(daily, '1w');
+    expect(weeks).toHaveLength(9);
+    expect(weeks[1]).toEqual({ timestamp: at('2024-01-08T00:00:00Z'), open: 7, high: 14, low: 6, close: 13 });
+
+    const months = resampleCandles(daily, '1M');
+    expect(months.map((m) => m.timestamp)).toEqual([at('2024-01-01T00:00:00Z'), at('2024-02-01T00:00:00Z')]);
+    expect(months[1]).toMatchObject({ open: 31, close: 59 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resampleOHLC
+// ---------------------------------------------------------------------------
+
+describe('resampleOHLC', () => {
+  it('relabels the series and records the source interval', () => {
+    const result = resampleOHLC({ candles: HOURLY, provider: 'coinbase', granularity: '1h', complete: true, gaps: [] }, '4h');
+    expect(result).toMatchObject({ provider: 'coinbase', granularity: '4h', resampledFrom: '1h', complete: true });
+    expect(result.candles).toHaveLength(2);
+  });
+});
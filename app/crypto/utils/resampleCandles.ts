@@ -0,0 +1,76 @@
+/**
+ * Candle resampling
+ *
+ * Aggregates candles into coarser buckets (1h → 4h → 1d → 1w → 1M) so every
+ * provider's output can be served at the same interval.  Sub-day buckets are
+ * aligned to UTC like exchange candles; daily, weekly (Monday) and monthly
+ * buckets start at local midnight in the requested time zone.
+ */
+
+import { GRANULARITY_SECONDS } from './candleGranularity';
+import { timeZoneOffset, wallTimeToUtc } from './timeZone';
+import type { CandleGranularity, OHLCCandle, OHLCData } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start (UTC ms) of the bucket containing `timestamp`. */
+export function bucketStart(timestamp: number, granularity: CandleGranularity, timeZone: string = 'UTC'): number {
+  const sizeMs = GRANULARITY_SECONDS[granularity] * 1000;
+  if (sizeMs < DAY_MS) {
+    return Math.floor(timestamp / sizeMs) * sizeMs;
+  }
+
+  const wall = timestamp + timeZoneOffset(timestamp, timeZone);
+  let start = Math.floor(wall / DAY_MS) * DAY_MS;
+  if (granularity === '1w') {
+    start -= ((new Date(start).getUTCDay() + 6) % 7) * DAY_MS;
+  } else if (granularity === '1M') {
+    const date = new Date(start);
+    start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  return wallTimeToUtc(start, timeZone);
+}
+
+/**
+ * Aggregate candles into `granularity` buckets: open of the first candle,
+ * close of the last, extreme high / low and summed volume.  Each input
+ * candle is assigned by its start time, so inputs must be no wider than the
+ * buckets and aligned to them (see `sourceGranularity`).  The first and
+ * last buckets may be partial when the input starts or ends mid-bucket.
+ */
+export function resampleCandles(
+  candles: OHLCCandle[],
+  granularity: CandleGranularity,
+  timeZone: string = 'UTC'
+): OHLCCandle[] {
+  const buckets = new Map<number, OHLCCandle>();
+  const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const candle of sorted) {
+    const start = bucketStart(candle.timestamp, granularity, timeZone);
+    const bucket = buckets.get(start);
+    if (!bucket) {
+      buckets.set(start, { ...candle, timestamp: start });
+      continue;
+    }
+    bucket.high = Math.max(bucket.high, candle.high);
+    bucket.low = Math.min(bucket.low, candle.low);
+    bucket.close = candle.close;
+    if (candle.volume !== undefined) {
+      bucket.volume = (bucket.volume ?? 0) + candle.volume;
+    }
+  }
+
+  // Inputs were sorted, so buckets were created in ascending order
+  return [...buckets.values()];
+}
+
+/** Resample a provider response, keeping completeness info and the source interval. */
+export function resampleOHLC(data: OHLCData, granularity: CandleGranularity, timeZone: string = 'UTC'): OHLCData {
+  return {
+    ...data,
+    candles: resampleCandles(data.candles, granularity, timeZone),
+    granularity,
+    resampledFrom: data.granularity,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Tests for custom date-range helpers.
+ *
+ * Dates are built from local-time strings so the assertions hold in any
+ * test-runner timezone.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatRangeLabel, periodForRange, rangeFromDateInputs, toDateInputValue } from './timeRange';
+
+const DAY = 24 * 60 * 60;
+const local = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+describe('periodForRange', () => {
+  it('maps a range to the smallest preset that covers it', () => {
+    expect(periodForRange({ from: 0, to: DAY })).toBe('1');
+    expect(periodForRange({ from: 0, to: 5 * DAY })).toBe('7');
+    expect(periodForRange({ from: 0, to: 31 * DAY })).toBe('30');
+    expect(periodForRange({ from: 0, to: 365 * DAY })).toBe('365');
+    expect(periodForRange({ from: 0, to: 2 * 365 * DAY })).toBe('max');
+  });
+});
+
+describe('rangeFromDateInputs', () => {
+  it('covers both days in full', () => {
+    expect(rangeFromDateInputs('2022-01-01', '2022-12-31')).toEqual({
+      from: local('2022-01-01T00:00:00'),
+      to: local('2022-12-31T23:59:59'),
+    });
+  });
+
+  it('accepts a single-day range', () => {
+    const range = rangeFromDateInputs('2022-06-18', '2022-06-18');
+    expect(range && range.to - range.from).toBe(DAY - 1);
+  });
+
+  it('rejects empty or inverted input', () => {
+    expect(rangeFromDateInputs('', '2022-12-31')).toBeNull();
+    expect(rangeFromDateInputs('2022-12-31', '2022-01-01')).toBeNull();
+  });
+});
+
+describe('date input round-trip', () => {
+  it('formats epoch seconds as YYYY-MM-DD', () => {
+    expect(toDateInputValue(local('2022-11-09T15:30:00'))).toBe('2022-11-09');
+  });
+
+  it('labels a range with both dates', () => {
+    const range = rangeFromDateInputs('2022-01-01', '2022-12-31')!;
+    expect(formatRangeLabel(range)).toBe('Jan 1, 2022 – Dec 31, 2022');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Custom date-range helpers
+ *
+ * A custom range (epoch seconds) overrides the preset `TimePeriod` for the
+ * history chart.  Indicator configs and axis labels are still keyed by
+ * `TimePeriod`, so every range is also mapped to the closest preset.
+ */
+
+import { format } from 'date-fns';
+import type { TimePeriod, TimeRange } from '../types';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Smallest preset period that covers the range, so indicators use settings
+ * suited to the data density CoinGecko returns for that span.
+ */
+export function periodForRange({ from, to }: TimeRange): TimePeriod {
+  const days = (to - from) / DAY_SECONDS;
+  if (days <= 1) return '1';
+  if (days <= 7) return '7';
+  if (days <= 31) return '30';
+  if (days <= 366) return '365';
+  return 'max';
+}
+
+/** `YYYY-MM-DD` for an `<input type="date">`, in local time. */
+export function toDateInputValue(epochSeconds: number): string {
+  return format(new Date(epochSeconds * 1000), 'yyyy-MM-dd');
+}
+
+/**
+ * Build a range from two `<input type="date">` values, covering both days
+ * in full (local time).  Returns null for empty or inverted input.
+ */
+export function rangeFromDateInputs(fromValue: string, toValue: string): TimeRange | null {
+  if (!fromValue || !toValue) return null;
+  const from = new Date(`${fromValue}T00:00:00`).getTime() / 1000;
+  const to = new Date(`${toValue}T23:59:59`).getTime() / 1000;
+  if (Number.isNaN(from) || Number.isNaN(to) || from >= to) return null;
+  return { from: Math.floor(from), to: Math.floor(to) };
+}
+
+/** Short label such as "Jan 1, 2022 – Dec 31, 2022". */
+export function formatRangeLabel({ from, to }: TimeRange): string {
+  return `${format(new Date(from * 1000), 'MMM d, yyyy')} – ${format(new Date(to * 1000), 'MMM d, yyyy')}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * IANA time-zone helpers built on `Intl.DateTimeFormat`
+ *
+ * "Wall time" below means a local date and time expressed as if it were UTC
+ * epoch ms, so calendar arithmetic can use the `Date.UTC` family.
+ */
+
+/**
+ * Formatters by canonical zone name.  Aliases and case variants ('utc',
+ * 'Etc/UTC', ...) are resolved on every call rather than cached, so request
+ * input cannot grow the cache past the finite set of IANA zones.
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  const cached = formatters.get(timeZone);
+  if (cached) return cached;
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  const canonical = formatter.resolvedOptions().timeZone;
+  if (!formatters.has(canonical)) formatters.set(canonical, formatter);
+  return formatter;
+}
+
+/** Canonical name of an IANA time zone ('utc' → 'UTC'), or null if unknown. */
+export function canonicalTimeZone(timeZone: string): string | null {
+  try {
+    return formatterFor(timeZone).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/** Offset of `timeZone` from UTC at `timestamp`, in ms (positive east of Greenwich). */
+export function timeZoneOffset(timestamp: number, timeZone: string): number {
+  if (timeZone === 'UTC') return 0;
+  const parts = formatterFor(timeZone).formatToParts(new Date(timestamp));
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return wall - Math.floor(timestamp / 1000) * 1000;
+}
+
+/** UTC timestamp of a wall time in `timeZone`. */
+export function wallTimeToUtc(wall: number, timeZone: string): number {
+  const guess = wall - timeZoneOffset(wall, timeZone);
+  // Re-read the offset at the guess in case a DST change lies in between
+  return wall - timeZoneOffset(guess, timeZone);
+}
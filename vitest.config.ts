@@ -3,6 +3,10 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
+  // Resolve like Next.js: a .tsx module wins over a legacy .jsx twin
+  resolve: {
+    extensions: ['.mjs', '.js', '.mts', '.ts', '.tsx', '.jsx', '.json'],
+  },
   test: {
     globals: true,
     environment: 'jsdom',